@@ -127,10 +127,11 @@ export function Recorder({
         teleoperators,
         additionalCameras,
         30, // fps
-        "Robot teleoperation recording"
+        "Robot teleoperation recording",
+        robot.robotType
       );
     }
-  }, [teleoperators, additionalCameras]);
+  }, [teleoperators, additionalCameras, robot.robotType]);
 
   const handleStartRecording = async () => {
     // If teleoperators aren't available, initialize teleoperation first
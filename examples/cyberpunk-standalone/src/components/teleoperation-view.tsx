@@ -196,6 +196,32 @@ export function TeleoperationView({ robot }: TeleoperationViewProps) {
     };
   }, []);
 
+  // Latches both processes, each holds its own bus scheduler
+  const handleEmergencyStop = useCallback(async () => {
+    try {
+      await Promise.all([
+        keyboardProcessRef.current?.emergencyStop(),
+        directProcessRef.current?.emergencyStop(),
+      ]);
+    } catch (error) {
+      toast({
+        title: "Emergency Stop Error",
+        description:
+          error instanceof Error ? error.message : "Failed to stop the robot",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const handleResetEmergencyStop = async () => {
+    try {
+      await keyboardProcessRef.current?.resetEmergencyStop();
+      await directProcessRef.current?.resetEmergencyStop();
+    } catch (error) {
+      console.warn("Error during emergency stop reset:", error);
+    }
+  };
+
   // Keyboard event handlers
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
@@ -204,6 +230,11 @@ export function TeleoperationView({ robot }: TeleoperationViewProps) {
       const key = event.key;
       event.preventDefault();
 
+      if (key === "Escape") {
+        handleEmergencyStop();
+        return;
+      }
+
       const keyboardTeleoperator = keyboardProcessRef.current.teleoperator;
       if (keyboardTeleoperator && "updateKeyState" in keyboardTeleoperator) {
         (
@@ -213,7 +244,7 @@ export function TeleoperationView({ robot }: TeleoperationViewProps) {
         ).updateKeyState(key, true);
       }
     },
-    [teleopState.isActive]
+    [teleopState.isActive, handleEmergencyStop]
   );
 
   const handleKeyUp = useCallback(
@@ -447,6 +478,14 @@ export function TeleoperationView({ robot }: TeleoperationViewProps) {
                   <Button onClick={handleStop} variant="destructive" size="lg">
                     <PowerOff className="w-5 h-5 mr-2" /> Stop Control
                   </Button>
+                ) : teleopState?.estopped ? (
+                  <Button
+                    onClick={handleResetEmergencyStop}
+                    variant="destructive"
+                    size="lg"
+                  >
+                    <Power className="w-5 h-5 mr-2" /> Reset E-Stop
+                  </Button>
                 ) : (
                   <Button
                     onClick={handleStart}
@@ -467,7 +506,11 @@ export function TeleoperationView({ robot }: TeleoperationViewProps) {
                       teleopState?.isActive && "animate-pulse-slow"
                     )}
                   >
-                    {teleopState?.isActive ? "ACTIVE" : "STOPPED"}
+                    {teleopState?.isActive
+                      ? "ACTIVE"
+                      : teleopState?.estopped
+                        ? "E-STOP"
+                        : "STOPPED"}
                   </Badge>
                 </div>
               </div>
@@ -731,7 +774,7 @@ export function TeleoperationView({ robot }: TeleoperationViewProps) {
                           onMouseDown={(e) => {
                             e.preventDefault();
                             if (teleopState?.isActive) {
-                              simulateKeyPress(controls.stop);
+                              handleEmergencyStop();
                             }
                           }}
                           onMouseUp={(e) => {
@@ -11,10 +11,32 @@ import {
   findPort,
   calibrate,
   teleoperate,
+  teleoperateBimanual,
+  createBimanualRobot,
+  BIMANUAL_ROBOT_ARMS,
   releaseMotors,
+  setupMotors,
   connectPort,
+  serveBus,
+  CapturingPort,
+  listRobotTypes,
+  loadRobotDefinition,
+  registerRobotDefinition,
+  formatHealthWarning,
+  FilePoseStorage,
+} from "@lerobot/node";
+import type {
+  BimanualRobotType,
+  DirectTeleoperator,
+  HealthWarning,
+  MotionProfile,
+  MotorHealth,
+  RobotConnection,
+  SafetyFilterConfig,
+  TeleoperationMode,
+  TeleoperationState,
+  TeleoperatorConfig,
 } from "@lerobot/node";
-import type { RobotConnection } from "@lerobot/node";
 import { SerialPort } from "serialport";
 import { createInterface } from "readline";
 import { platform } from "os";
@@ -133,6 +155,33 @@ async function detectPortInteractive(
   }
 }
 
+/**
+ * Resolve the robot type of a command
+ * A --robot.config definition is registered first and provides the type
+ */
+async function resolveRobotType(options: {
+  [option: string]: string | undefined;
+}): Promise<string> {
+  const robotType = options["robot.type"];
+  const configPath = options["robot.config"];
+
+  if (!configPath) {
+    if (!robotType) {
+      throw new Error("Either --robot.type or --robot.config is required");
+    }
+    return robotType;
+  }
+
+  const definition = await loadRobotDefinition(configPath);
+  if (robotType && robotType !== definition.type) {
+    throw new Error(
+      `--robot.type=${robotType} does not match type "${definition.type}" in ${configPath}`
+    );
+  }
+
+  return registerRobotDefinition(definition);
+}
+
 /**
  * Create robot connection directly from specified port (Python lerobot style)
  */
@@ -141,6 +190,13 @@ async function connectToSpecificPort(
   robotType: string,
   robotId: string
 ): Promise<RobotConnection> {
+  const robotTypes = listRobotTypes();
+  if (!robotTypes.includes(robotType)) {
+    throw new Error(
+      `Unsupported robot type: ${robotType} (supported: ${robotTypes.join(", ")})`
+    );
+  }
+
   console.log(chalk.gray(`📡 Connecting to ${portPath}...`));
 
   const connection = await connectPort(portPath);
@@ -160,6 +216,133 @@ async function connectToSpecificPort(
   return connection;
 }
 
+/**
+ * Build the teleoperator config of one arm
+ * Leader arms connect to their own port (Python lerobot style),
+ * gamepads read a Linux joystick device
+ */
+async function createTeleopConfig(
+  teleopType: string,
+  leaderPort: string | undefined,
+  leaderId: string,
+  options: { device?: string; mode?: TeleoperationMode } = {}
+): Promise<TeleoperatorConfig> {
+  if (teleopType === "gamepad") {
+    return { type: "gamepad", device: options.device, mode: options.mode };
+  }
+
+  if (teleopType === "keyboard") {
+    return { type: "keyboard", mode: options.mode };
+  }
+
+  if (teleopType !== "so100_leader" && teleopType !== "so101_leader") {
+    return { type: teleopType } as TeleoperatorConfig;
+  }
+
+  if (!leaderPort) {
+    throw new Error(
+      "Leader arm teleoperation requires the leader arm port (--teleop.port, or --teleop.left_arm_port and --teleop.right_arm_port for bimanual robots)"
+    );
+  }
+
+  // The leader arm type selects its motor configuration and calibration
+  return {
+    type: "so100_leader",
+    leader: await connectToSpecificPort(leaderPort, teleopType, leaderId),
+  };
+}
+
+/**
+ * Build the safety filter config from the --robot.max_* options
+ * Returns undefined when no limit is given, so goals go out unfiltered
+ */
+function createSafetyConfig(
+  options: { [option: string]: string | undefined },
+  onIntervention: () => void
+): SafetyFilterConfig | undefined {
+  const limit = (option: string): number | undefined => {
+    const value = options[option];
+    if (value === undefined) return undefined;
+
+    const units = Number(value);
+    if (!Number.isFinite(units) || units <= 0) {
+      throw new Error(`--${option} must be a positive number, got ${value}`);
+    }
+    return units;
+  };
+
+  const maxRelativeTarget = limit("robot.max_relative_target");
+  const maxVelocity = limit("robot.max_velocity");
+  if (maxRelativeTarget === undefined && maxVelocity === undefined) {
+    return undefined;
+  }
+
+  return { maxRelativeTarget, maxVelocity, onIntervention };
+}
+
+/**
+ * Hottest motor, lowest voltage and highest load for the status line
+ */
+function formatHealthStatus(motorHealth: {
+  [motorName: string]: MotorHealth;
+}): string {
+  const health = Object.values(motorHealth);
+  const values = (metric: "temperature" | "voltage" | "load") =>
+    health
+      .map((motor) => motor[metric])
+      .filter((value): value is number => value !== undefined);
+
+  const temperatures = values("temperature");
+  const voltages = values("voltage");
+  const loads = values("load").map(Math.abs);
+  const released = Object.keys(motorHealth).filter(
+    (name) => motorHealth[name].torqueReleased
+  );
+
+  return [
+    temperatures.length > 0 && `${Math.max(...temperatures)}°C`,
+    voltages.length > 0 && `${Math.min(...voltages).toFixed(1)}V`,
+    loads.length > 0 && `load:${Math.round(Math.max(...loads))}%`,
+    released.length > 0 && chalk.red(`released:${released.join(",")}`),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Record all serial traffic of a robot when --bus-capture is given
+ * Returns a function that writes the capture to disk
+ */
+function startBusCapture(
+  robot: RobotConnection,
+  filePath?: string
+): () => Promise<void> {
+  if (!filePath) return async () => {};
+
+  const port = new CapturingPort(robot.port);
+  robot.port = port;
+  console.log(chalk.gray(`🎙️ Capturing bus traffic to ${filePath}`));
+
+  return async () => {
+    await port.capture.save(filePath);
+    console.log(chalk.gray(`💾 Bus capture saved to ${filePath}`));
+  };
+}
+
+/**
+ * Parse a [host]:port listen address, an empty host means all interfaces
+ */
+function parseListenAddress(address: string): [string, number] {
+  const separator = address.lastIndexOf(":");
+  const host = separator > 0 ? address.slice(0, separator) : "0.0.0.0";
+  const port = Number(address.slice(separator + 1));
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid listen address: ${address}`);
+  }
+  return [host, port];
+}
+
 /**
  * Find port command - matches Python lerobot CLI exactly
  * Always interactive by default (like Python lerobot)
@@ -197,37 +380,118 @@ This command will:
     }
   });
 
+/**
+ * Setup motors command - matches Python lerobot exactly
+ * Writes ID and baud rate to each motor, one motor connected at a time
+ */
+program
+  .command("setup-motors")
+  .description("Assign IDs and baud rate to new motors")
+  .option("--robot.type <type>", "Robot type (e.g., so100_follower, so101_follower, koch_follower)")
+  .option("--robot.config <path>", "Robot definition file (YAML or JSON) for custom arms")
+  .requiredOption(
+    "--robot.port <port>",
+    "Serial port (e.g., /dev/ttyUSB0, COM4)"
+  )
+  .option("--robot.id <id>", "Robot ID", "default")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ lerobot setup-motors --robot.type=so100_follower --robot.port=/dev/ttyUSB0
+  $ lerobot setup-motors --robot.type=so100_leader --robot.port=COM4
+
+This command will ask you to connect each motor on its own, starting with the gripper.
+`
+  )
+  .action(async (options) => {
+    let robot: RobotConnection | undefined;
+
+    try {
+      const robotType = await resolveRobotType(options);
+      const robotPort = options["robot.port"];
+      const robotId = options["robot.id"] || "default";
+
+      console.log(chalk.blue(`🔧 Setting up motors for ${robotType}...`));
+
+      robot = await connectToSpecificPort(robotPort, robotType, robotId);
+
+      const setupProcess = await setupMotors({
+        robot,
+        onProgress: (message) => console.log(chalk.green(message)),
+      });
+
+      process.on("SIGINT", () => {
+        setupProcess.stop();
+        process.exit(1);
+      });
+
+      await setupProcess.result;
+      console.log(chalk.green("\n✅ Motor setup completed successfully!"));
+
+      await robot.port.close();
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `❌ Motor setup failed: ${
+            error instanceof Error ? error.message : error
+          }`
+        )
+      );
+
+      try {
+        await robot?.port.close();
+      } catch (closeError) {
+        // Ignore close errors
+      }
+
+      process.exit(1);
+    }
+  });
+
 /**
  * Calibrate command - matches Python lerobot exactly
  */
 program
   .command("calibrate")
   .description("Calibrate robot motors")
-  .requiredOption("--robot.type <type>", "Robot type (e.g., so100_follower)")
+  .option("--robot.type <type>", "Robot type (e.g., so100_follower, so101_follower, koch_follower)")
+  .option("--robot.config <path>", "Robot definition file (YAML or JSON) for custom arms")
   .requiredOption(
     "--robot.port <port>",
     "Serial port (e.g., /dev/ttyUSB0, COM4)"
   )
   .option("--robot.id <id>", "Robot ID", "default")
   .option("--output <path>", "Output calibration file path")
+  .option(
+    "--bus-capture <file>",
+    "Record serial traffic to a .lrbus or .jsonl file"
+  )
   .addHelpText(
     "after",
     `
 Examples:
   $ lerobot calibrate --robot.type=so100_follower --robot.port=/dev/ttyUSB0 --robot.id=my_arm
   $ lerobot calibrate --robot.type=so100_follower --robot.port=COM4 --robot.id=my_arm
+  $ lerobot calibrate --robot.type=so101_leader --robot.port=/dev/ttyACM1 --robot.id=my_leader
+  $ lerobot calibrate --robot.config=./my_arm.yaml --robot.port=/dev/ttyACM0 --robot.id=my_arm
+  $ lerobot calibrate --robot.type=so100_follower --robot.port=/dev/ttyUSB0 --bus-capture=calibrate.lrbus
 `
   )
   .action(async (options) => {
+    let robot: RobotConnection | undefined;
+    let saveBusCapture = async () => {};
+
     try {
-      const robotType = options["robot.type"];
+      const robotType = await resolveRobotType(options);
       const robotPort = options["robot.port"];
       const robotId = options["robot.id"] || "default";
 
       console.log(chalk.blue(`🔧 Starting calibration for ${robotType}...`));
 
       // Step 1: Connect directly to specified port (Python lerobot style)
-      const robot = await connectToSpecificPort(robotPort, robotType, robotId);
+      robot = await connectToSpecificPort(robotPort, robotType, robotId);
+      saveBusCapture = startBusCapture(robot, options.busCapture);
 
       // Step 2: Release motors
       console.log(chalk.gray("🔓 Releasing motors for calibration setup..."));
@@ -298,6 +562,7 @@ Examples:
 
       const results = await calibrationProcess.result;
       console.log(chalk.green("\n✅ Calibration completed successfully!"));
+      await saveBusCapture();
 
       // CRITICAL: Close robot connection to allow process to exit
       if (robot.port && robot.port.close) {
@@ -311,6 +576,7 @@ Examples:
           }`
         )
       );
+      await saveBusCapture().catch(() => {});
 
       // Close robot connection even on error
       try {
@@ -331,50 +597,213 @@ Examples:
 program
   .command("teleoperate")
   .description("Control robot through teleoperation")
-  .requiredOption("--robot.type <type>", "Robot type (e.g., so100_follower)")
-  .requiredOption(
-    "--robot.port <port>",
-    "Serial port (e.g., /dev/ttyUSB0, COM4)"
+  .option("--robot.type <type>", "Robot type (e.g., so100_follower, so101_follower, koch_follower)")
+  .option("--robot.config <path>", "Robot definition file (YAML or JSON) for custom arms")
+  .option("--robot.port <port>", "Serial port (e.g., /dev/ttyUSB0, COM4)")
+  .option(
+    "--robot.left_arm_port <port>",
+    "Serial port of the left arm (bimanual robots)"
+  )
+  .option(
+    "--robot.right_arm_port <port>",
+    "Serial port of the right arm (bimanual robots)"
   )
   .option("--robot.id <id>", "Robot ID", "default")
-  .option("--teleop.type <type>", "Teleoperator type", "keyboard")
+  .option(
+    "--teleop.type <type>",
+    "Teleoperator type (keyboard, direct, gamepad, so100_leader, so101_leader, bi_so100_leader)",
+    "keyboard"
+  )
+  .option("--teleop.port <port>", "Serial port of the leader arm")
+  .option(
+    "--teleop.left_arm_port <port>",
+    "Serial port of the left leader arm (bimanual robots)"
+  )
+  .option(
+    "--teleop.right_arm_port <port>",
+    "Serial port of the right leader arm (bimanual robots)"
+  )
+  .option("--teleop.id <id>", "Leader arm ID", "default")
+  .option(
+    "--teleop.device <path>",
+    "Gamepad joystick device (default: /dev/input/js0)"
+  )
+  .option(
+    "--teleop.mode <mode>",
+    "What keyboard and gamepad move (joint, cartesian)",
+    "joint"
+  )
+  .option(
+    "--robot.max_relative_target <units>",
+    "Largest goal change per write in position units"
+  )
+  .option(
+    "--robot.max_velocity <units>",
+    "Largest joint speed in position units per second"
+  )
   .option("--duration <seconds>", "Duration in seconds (0 = unlimited)", "0")
+  .option(
+    "--bus-capture <file>",
+    "Record serial traffic to a .lrbus or .jsonl file"
+  )
   .addHelpText(
     "after",
     `
 Examples:
   $ lerobot teleoperate --robot.type=so100_follower --robot.port=/dev/ttyUSB0 --robot.id=my_arm
   $ lerobot teleoperate --robot.type=so100_follower --robot.port=COM4 --robot.id=my_arm
+  $ lerobot teleoperate --robot.type=so101_follower --robot.port=/dev/ttyACM0 --robot.id=my_arm
+  $ lerobot teleoperate --robot.type=koch_follower --robot.port=/dev/ttyACM0 --robot.id=my_koch
+  $ lerobot teleoperate --robot.type=lekiwi --robot.port=/dev/ttyACM0 --robot.id=my_kiwi
+  $ lerobot teleoperate --robot.config=./my_arm.yaml --robot.port=/dev/ttyACM0 --robot.id=my_arm
+  $ lerobot teleoperate --robot.type=so100_follower --robot.port=/dev/ttyACM0 --robot.id=my_arm --teleop.type=so100_leader --teleop.port=/dev/ttyACM1 --teleop.id=my_leader
+  $ lerobot teleoperate --robot.type=so101_follower --robot.port=/dev/ttyACM0 --robot.id=my_arm --teleop.type=so101_leader --teleop.port=/dev/ttyACM1 --teleop.id=my_leader
+  $ lerobot teleoperate --robot.type=so100_follower --robot.port=/dev/ttyACM0 --robot.id=my_arm --teleop.type=gamepad
+  $ lerobot teleoperate --robot.type=so100_follower --robot.port=/dev/ttyACM0 --robot.id=my_arm --teleop.mode=cartesian
+  $ lerobot teleoperate --robot.type=so100_follower --robot.port=/dev/ttyACM0 --robot.id=my_arm --robot.max_relative_target=50 --robot.max_velocity=1000
+  $ lerobot teleoperate --robot.type=bi_so100_follower --robot.left_arm_port=/dev/ttyACM0 --robot.right_arm_port=/dev/ttyACM1 --robot.id=my_bimanual
+  $ lerobot teleoperate --robot.type=so100_follower --robot.port=/dev/ttyUSB0 --bus-capture=teleop.jsonl
 `
   )
   .action(async (options) => {
+    let saveBusCapture = async () => {};
+
     try {
-      const robotType = options["robot.type"];
-      const robotPort = options["robot.port"];
+      const robotType = await resolveRobotType(options);
       const robotId = options["robot.id"] || "default";
       const teleopType = options["teleop.type"] || "keyboard";
+      const teleopId = options["teleop.id"] || "default";
+      const teleopMode = options["teleop.mode"] || "joint";
+      if (teleopMode !== "joint" && teleopMode !== "cartesian") {
+        throw new Error(
+          `Unknown teleoperation mode: ${teleopMode} (joint, cartesian)`
+        );
+      }
+
+      let interventions = 0;
+      const safety = createSafetyConfig(options, () => {
+        interventions++;
+      });
+
+      // Servos are watched during every session, a stalled one burns out
+      const health = {
+        onWarning: (warning: HealthWarning) => {
+          const message = `\n⚠️  ${formatHealthWarning(warning)}`;
+          console.warn(
+            warning.torqueReleased ? chalk.red(message) : chalk.yellow(message)
+          );
+        },
+      };
 
       console.log(chalk.blue(`🎮 Starting teleoperation for ${robotType}...`));
 
-      // Connect directly to specified port (Python lerobot style)
-      const robot = await connectToSpecificPort(robotPort, robotType, robotId);
+      let estopReported = false;
+      const onStateUpdate = (state: TeleoperationState) => {
+        if (state.isActive) {
+          const motorInfo = state.motorConfigs
+            .map(
+              (motor) => `${motor.name}:${Math.round(motor.currentPosition)}`
+            )
+            .join(" ");
+          const baseInfo = state.baseVelocity
+            ? ` ${chalk.cyan("Base:")} x:${state.baseVelocity.x.toFixed(2)} y:${state.baseVelocity.y.toFixed(2)} θ:${Math.round(state.baseVelocity.theta)}`
+            : "";
+          const pose = state.endEffectorPose;
+          const poseInfo = pose
+            ? ` ${chalk.cyan("Gripper:")} x:${pose.x.toFixed(3)} y:${pose.y.toFixed(3)} z:${pose.z.toFixed(3)} pitch:${Math.round(pose.pitch)} roll:${Math.round(pose.roll)}`
+            : "";
+          const healthInfo = state.motorHealth
+            ? ` ${chalk.cyan("Health:")} ${formatHealthStatus(state.motorHealth)}`
+            : "";
+          const safetyInfo =
+            interventions > 0
+              ? ` ${chalk.yellow("Limited:")} ${interventions}`
+              : "";
+          process.stdout.write(
+            `\r${chalk.cyan("🤖 Motors:")} ${motorInfo}${baseInfo}${poseInfo}${healthInfo}${safetyInfo}`
+          );
+        } else if (state.estopped && !estopReported) {
+          estopReported = true;
+          console.log(
+            chalk.red("\n🛑 Emergency stop, motors hold their position")
+          );
+          console.log(chalk.gray("Press Ctrl+C to exit"));
+        }
+      };
 
-      const teleoperationProcess = await teleoperate({
-        robot,
-        teleop: {
-          type: teleopType,
-        },
-        onStateUpdate: (state) => {
-          if (state.isActive) {
-            const motorInfo = state.motorConfigs
-              .map(
-                (motor) => `${motor.name}:${Math.round(motor.currentPosition)}`
-              )
-              .join(" ");
-            process.stdout.write(`\r${chalk.cyan("🤖 Motors:")} ${motorInfo}`);
-          }
-        },
-      });
+      let teleoperationProcess;
+      if (robotType in BIMANUAL_ROBOT_ARMS) {
+        const leftPort = options["robot.left_arm_port"];
+        const rightPort = options["robot.right_arm_port"];
+        if (!leftPort || !rightPort) {
+          throw new Error(
+            `${robotType} requires --robot.left_arm_port and --robot.right_arm_port`
+          );
+        }
+        if (options.busCapture) {
+          throw new Error("--bus-capture supports single arm robots only");
+        }
+
+        // Each arm connects as a robot of the arm type
+        const armType = BIMANUAL_ROBOT_ARMS[robotType as BimanualRobotType];
+        const robot = createBimanualRobot(
+          robotType as BimanualRobotType,
+          await connectToSpecificPort(leftPort, armType, `${robotId}_left`),
+          await connectToSpecificPort(rightPort, armType, `${robotId}_right`),
+          robotId
+        );
+
+        // bi_so100_leader drives each arm from its own leader arm
+        const armTeleopType =
+          teleopType === "bi_so100_leader" ? "so100_leader" : teleopType;
+
+        teleoperationProcess = await teleoperateBimanual({
+          robot,
+          teleop: {
+            left: await createTeleopConfig(
+              armTeleopType,
+              options["teleop.left_arm_port"],
+              `${teleopId}_left`,
+              { mode: teleopMode }
+            ),
+            right: await createTeleopConfig(
+              armTeleopType,
+              options["teleop.right_arm_port"],
+              `${teleopId}_right`,
+              { mode: teleopMode }
+            ),
+          },
+          safety,
+          health,
+          onStateUpdate,
+        });
+      } else {
+        const robotPort = options["robot.port"];
+        if (!robotPort) {
+          throw new Error("--robot.port is required");
+        }
+
+        // Connect directly to specified port (Python lerobot style)
+        const robot = await connectToSpecificPort(
+          robotPort,
+          robotType,
+          robotId
+        );
+        saveBusCapture = startBusCapture(robot, options.busCapture);
+
+        teleoperationProcess = await teleoperate({
+          robot,
+          teleop: await createTeleopConfig(
+            teleopType,
+            options["teleop.port"],
+            teleopId,
+            { device: options["teleop.device"], mode: teleopMode }
+          ),
+          safety,
+          health,
+          onStateUpdate,
+        });
+      }
 
       // Start teleoperation
       teleoperationProcess.start();
@@ -382,13 +811,14 @@ Examples:
       // Handle duration limit
       const duration = parseInt(options.duration || "0");
       if (duration > 0) {
-        setTimeout(() => {
+        setTimeout(async () => {
           console.log(
             chalk.yellow(
               `\n⏰ Duration limit reached (${duration}s). Stopping...`
             )
           );
           teleoperationProcess.stop();
+          await saveBusCapture();
           process.exit(0);
         }, duration * 1000);
       }
@@ -396,7 +826,14 @@ Examples:
       // Handle process termination
       process.on("SIGINT", async () => {
         console.log(chalk.yellow("\n🛑 Stopping teleoperation..."));
-        teleoperationProcess.stop();
+        estopReported = true;
+        try {
+          // Drops queued writes, a plain stop() lets them land
+          await teleoperationProcess.emergencyStop();
+        } catch (error) {
+          console.warn(chalk.yellow(`Emergency stop failed: ${error}`));
+        }
+        await saveBusCapture();
         await teleoperationProcess.disconnect();
         process.exit(0);
       });
@@ -411,6 +848,7 @@ Examples:
           }`
         )
       );
+      await saveBusCapture().catch(() => {});
       process.exit(1);
     }
   });
@@ -421,7 +859,8 @@ Examples:
 program
   .command("release-motors")
   .description("Release robot motors for manual movement")
-  .requiredOption("--robot.type <type>", "Robot type (e.g., so100_follower)")
+  .option("--robot.type <type>", "Robot type (e.g., so100_follower, so101_follower, koch_follower)")
+  .option("--robot.config <path>", "Robot definition file (YAML or JSON) for custom arms")
   .requiredOption(
     "--robot.port <port>",
     "Serial port (e.g., /dev/ttyUSB0, COM4)"
@@ -438,7 +877,7 @@ Examples:
   )
   .action(async (options) => {
     try {
-      const robotType = options["robot.type"];
+      const robotType = await resolveRobotType(options);
       const robotPort = options["robot.port"];
       const robotId = options["robot.id"] || "default";
 
@@ -467,6 +906,216 @@ Examples:
     }
   });
 
+/**
+ * Pose command - save, list and move to named poses
+ */
+program
+  .command("pose")
+  .description("Save, list and move to named poses (e.g. home, rest)")
+  .argument("<action>", "save, goto or list")
+  .argument("[name]", "Pose name (save, goto)")
+  .option("--robot.type <type>", "Robot type (e.g., so100_follower, so101_follower, koch_follower)")
+  .option("--robot.config <path>", "Robot definition file (YAML or JSON) for custom arms")
+  .option("--robot.port <port>", "Serial port (save, goto)")
+  .option("--robot.id <id>", "Robot ID", "default")
+  .option("--duration <seconds>", "Duration of the move to the pose (goto)")
+  .option(
+    "--profile <profile>",
+    "Motion profile: minjerk, linear or trapezoid (goto)",
+    "minjerk"
+  )
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ lerobot pose save rest --robot.type=so100_follower --robot.port=/dev/ttyACM0 --robot.id=my_arm
+  $ lerobot pose list --robot.type=so100_follower --robot.id=my_arm
+  $ lerobot pose goto rest --robot.type=so100_follower --robot.port=/dev/ttyACM0 --robot.id=my_arm --duration=3
+`
+  )
+  .action(async (action: string, name: string | undefined, options) => {
+    try {
+      const robotType = await resolveRobotType(options);
+      const robotId = options["robot.id"] || "default";
+
+      if (action === "list") {
+        const storage = new FilePoseStorage(robotType, robotId);
+        const poses = await storage.load();
+        if (poses.length === 0) {
+          console.log(chalk.yellow(`No poses saved for ${robotId}`));
+          console.log(chalk.gray(`Poses are kept in ${storage.path}`));
+          return;
+        }
+
+        console.log(chalk.blue(`📍 Poses of ${robotId}:`));
+        for (const pose of poses) {
+          const positions = Object.entries(pose.positions)
+            .map(([motor, value]) => `${motor}:${value.toFixed(1)}`)
+            .join(" ");
+          console.log(`  ${chalk.cyan(pose.name)} ${chalk.gray(positions)}`);
+        }
+        return;
+      }
+
+      if (action !== "save" && action !== "goto") {
+        throw new Error(`Unknown pose action: ${action} (save, goto, list)`);
+      }
+      if (!name) {
+        throw new Error(`lerobot pose ${action} needs a pose name`);
+      }
+      const robotPort = options["robot.port"];
+      if (!robotPort) {
+        throw new Error("--robot.port is required");
+      }
+      const profile = options.profile as MotionProfile;
+      if (!["minjerk", "linear", "trapezoid"].includes(profile)) {
+        throw new Error(
+          `Unknown motion profile: ${profile} (minjerk, linear, trapezoid)`
+        );
+      }
+      const duration =
+        options.duration === undefined ? undefined : Number(options.duration);
+      if (
+        duration !== undefined &&
+        (!Number.isFinite(duration) || duration <= 0)
+      ) {
+        throw new Error(
+          `--duration must be a positive number, got ${options.duration}`
+        );
+      }
+
+      const robot = await connectToSpecificPort(robotPort, robotType, robotId);
+      const teleoperationProcess = await teleoperate({
+        robot,
+        teleop: { type: "direct" },
+      });
+      const teleoperator =
+        teleoperationProcess.teleoperator as DirectTeleoperator;
+
+      try {
+        if (action === "save") {
+          await teleoperator.savePose(name);
+          console.log(chalk.green(`✅ Saved pose ${name}`));
+        } else {
+          process.on("SIGINT", async () => {
+            console.log(chalk.yellow("\n🛑 Stopping..."));
+            await teleoperationProcess.emergencyStop().catch(() => {});
+            await teleoperationProcess.disconnect();
+            process.exit(1);
+          });
+
+          console.log(chalk.blue(`🦾 Moving to pose ${name}...`));
+          teleoperationProcess.start();
+          await teleoperator.goToPose(name, {
+            duration: duration === undefined ? undefined : duration * 1000,
+            profile,
+          });
+          console.log(chalk.green(`✅ Reached pose ${name}`));
+        }
+      } finally {
+        await teleoperationProcess.disconnect();
+      }
+      process.exit(0);
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `❌ Pose ${action} failed: ${
+            error instanceof Error ? error.message : error
+          }`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Serve bus command - expose the serial bus over WebSocket
+ */
+program
+  .command("serve-bus")
+  .description(
+    "Expose a robot's serial bus over WebSocket for @lerobot/web (WebSocketPortWrapper)"
+  )
+  .requiredOption(
+    "--robot.port <port>",
+    "Serial port (e.g., /dev/ttyUSB0, COM4)"
+  )
+  .option(
+    "--listen <address>",
+    "Address to listen on ([host]:port, empty host for all interfaces)",
+    "127.0.0.1:8765"
+  )
+  .option("--token <token>", "Shared secret clients pass as ?token= in the URL")
+  .option(
+    "--allow-origin <origins...>",
+    "Browser origins allowed to connect, * for any (default: localhost pages)"
+  )
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ lerobot serve-bus --robot.port=/dev/ttyACM0
+  $ lerobot serve-bus --robot.port=/dev/ttyACM0 --listen=:8765 --token=secret --allow-origin=https://example.com
+`
+  )
+  .action(async (options) => {
+    try {
+      const robotPort = options["robot.port"];
+      const [host, listenPort] = parseListenAddress(options.listen);
+
+      if (!["127.0.0.1", "localhost", "::1"].includes(host) && !options.token) {
+        console.log(
+          chalk.yellow(
+            `⚠️  Listening on ${host} without --token, anyone on the network can drive the robot`
+          )
+        );
+      }
+
+      console.log(chalk.gray(`📡 Connecting to ${robotPort}...`));
+      const robot = await connectPort(robotPort);
+      if (!robot.isConnected) {
+        throw new Error(
+          `Failed to connect to port ${robotPort}: ${robot.error}`
+        );
+      }
+
+      const bridge = await serveBus({
+        robot,
+        host,
+        port: listenPort,
+        token: options.token,
+        allowedOrigins: options.allowOrigin,
+        onClientConnected: (address) =>
+          console.log(chalk.green(`🔗 Client connected from ${address}`)),
+        onClientDisconnected: (address) =>
+          console.log(chalk.gray(`Client ${address} disconnected`)),
+      });
+
+      console.log(
+        chalk.green(`✅ Serving MotorsBus on ${robotPort} at ${bridge.url}`)
+      );
+      console.log(chalk.gray("Press Ctrl+C to stop"));
+
+      process.on("SIGINT", () => {
+        console.log(chalk.yellow("\n🛑 Stopping MotorsBus bridge..."));
+        bridge.stop();
+      });
+
+      await bridge.result;
+      await robot.port.close();
+      process.exit(0);
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `❌ Failed to serve bus: ${
+            error instanceof Error ? error.message : error
+          }`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
 /**
  * Version and help setup
  */
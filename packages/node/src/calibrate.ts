@@ -4,13 +4,14 @@
  * Uses proven calibration algorithms with web-compatible API
  */
 
-import { NodeSerialPortWrapper } from "./utils/serial-port-wrapper.js";
-import { createSO100Config } from "./robots/so100_config.js";
+import { getRobotConfig } from "./robots/robot_config.js";
 import {
-  readAllMotorPositions,
   releaseMotors as releaseMotorsLowLevel,
   type MotorCommunicationPort,
 } from "./utils/motor-communication.js";
+import { verifyMotors } from "./utils/motor-scan.js";
+import { getMotorBus } from "./utils/motor-bus.js";
+import type { MotorBus } from "./types/motor-bus.js";
 import {
   setHomingOffsets,
   writeHardwarePositionLimits,
@@ -71,6 +72,7 @@ function waitForInput(rl: any, prompt: string): Promise<string> {
  */
 async function recordRangesOfMotion(
   port: MotorCommunicationPort,
+  motorBus: MotorBus,
   motorIds: number[],
   motorNames: string[],
   shouldStop: () => boolean,
@@ -84,7 +86,11 @@ async function recordRangesOfMotion(
   const rangeMaxes: { [motor: string]: number } = {};
 
   // Read actual current positions (now centered due to applied homing offsets)
-  const startPositions = await readAllMotorPositions(port, motorIds);
+  const startPositions = await motorBus.syncReadRegister(
+    port,
+    motorIds,
+    "Present_Position"
+  );
 
   for (let i = 0; i < motorNames.length; i++) {
     const motorName = motorNames[i];
@@ -117,7 +123,11 @@ async function recordRangesOfMotion(
     if (!isRecording) return;
 
     try {
-      const currentPositions = await readAllMotorPositions(port, motorIds);
+      const currentPositions = await motorBus.syncReadRegister(
+        port,
+        motorIds,
+        "Present_Position"
+      );
       const liveData: LiveCalibrationData = {};
 
       for (let i = 0; i < motorNames.length; i++) {
@@ -183,20 +193,15 @@ export async function calibrate(
   }
 
   let shouldStop = false;
-  let port: NodeSerialPortWrapper | null = null;
 
   const calibrationPromise = (async (): Promise<CalibrationResults> => {
     try {
       // Use the EXISTING port connection (don't create new one!)
-      port = robot.port;
+      const port = robot.port;
 
       // Get robot-specific configuration
-      let robotConfig;
-      if (robot.robotType.startsWith("so100")) {
-        robotConfig = createSO100Config(robot.robotType);
-      } else {
-        throw new Error(`Unsupported robot type: ${robot.robotType}`);
-      }
+      const robotConfig = getRobotConfig(robot.robotType);
+      const motorBus = getMotorBus(robotConfig);
 
       const { motorIds, motorNames, driveModes } = robotConfig;
 
@@ -204,10 +209,21 @@ export async function calibrate(
 
       // Starting calibration silently
 
+      // Make sure the whole arm answers before writing any register
+      await verifyMotors(port, motorIds, motorBus);
+
+      // Robot-specific motor setup, e.g. operating modes
+      await robotConfig.calibration?.prepare?.(port, motorBus);
+
       // Step 1: Set homing offsets (motors should already be released and positioned)
       // Note: Motors should be released BEFORE calling calibrate(), not inside it
       // Setting homing offsets silently
-      const homingOffsets = await setHomingOffsets(port, motorIds, motorNames);
+      const homingOffsets = await setHomingOffsets(
+        port,
+        motorIds,
+        motorNames,
+        motorBus
+      );
 
       // Early debug test removed - calibration working perfectly
 
@@ -216,6 +232,7 @@ export async function calibrate(
       // Step 2: Record ranges of motion silently
       const { rangeMins, rangeMaxes } = await recordRangesOfMotion(
         port,
+        motorBus,
         motorIds,
         motorNames,
         () => shouldStop,
@@ -225,13 +242,21 @@ export async function calibrate(
 
       if (shouldStop) throw new Error("Calibration stopped by user");
 
+      // Apply robot-specific range adjustments
+      robotConfig.calibration?.adjustRanges?.(
+        rangeMins,
+        rangeMaxes,
+        robotConfig.protocol
+      );
+
       // Step 3: Write hardware position limits silently
       await writeHardwarePositionLimits(
         port,
         motorIds,
         motorNames,
         rangeMins,
-        rangeMaxes
+        rangeMaxes,
+        motorBus
       );
 
       // Step 4: Skip motor locking (Python lerobot doesn't lock motors after calibration)
@@ -8,12 +8,16 @@ import { platform } from "os";
 import { readdir } from "fs/promises";
 import { join } from "path";
 import { NodeSerialPortWrapper } from "./utils/serial-port-wrapper.js";
+import { verifyMotors } from "./utils/motor-scan.js";
+import { getMotorBus } from "./utils/motor-bus.js";
+import { getRobotConfig } from "./robots/robot_config.js";
 import type {
   FindPortConfig,
   FindPortProcess,
   DiscoveredPort,
   RobotConnection,
 } from "./types/port-discovery.js";
+import type { RobotType } from "./types/robot-connection.js";
 
 /**
  * Find available serial ports on the system
@@ -47,7 +51,7 @@ export async function findAvailablePorts(): Promise<string[]> {
  */
 export async function connectPort(
   portPath: string,
-  robotType: "so100_follower" | "so100_leader" = "so100_follower",
+  robotType: RobotType = "so100_follower",
   robotId: string = "robot"
 ): Promise<RobotConnection> {
   // Test connection
@@ -137,6 +141,19 @@ async function findPortAutoConnect(
       const connection = await connectPort(config.serialNumber);
 
       if (connection.isConnected) {
+        // Check that every motor of the arm answers, not just the port
+        const robotConfig = getRobotConfig(config.robotType);
+        try {
+          await verifyMotors(
+            connection.port,
+            robotConfig.motorIds,
+            getMotorBus(robotConfig)
+          );
+        } catch (error) {
+          await connection.port.close();
+          throw error;
+        }
+
         onMessage?.(`✅ Connected to ${config.robotId}`);
         results.push({
           ...connection,
@@ -165,7 +182,7 @@ async function findPortAutoConnect(
         port: {
           path: config.serialNumber,
           write: async () => {},
-          read: async () => null,
+          read: async () => new Uint8Array(),
           open: async () => {},
           close: async () => {},
           isOpen: false,
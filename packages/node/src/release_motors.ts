@@ -6,8 +6,8 @@
  */
 
 import { NodeSerialPortWrapper } from "./utils/serial-port-wrapper.js";
-import { createSO100Config } from "./robots/so100_config.js";
-import { releaseMotors as releaseMotorsLowLevel } from "./utils/motor-communication.js";
+import { getRobotConfig } from "./robots/robot_config.js";
+import { getMotorBus, setTorqueEnabled } from "./utils/motor-bus.js";
 import type { RobotConnection } from "./types/robot-connection.js";
 
 /**
@@ -40,12 +40,7 @@ export async function releaseMotors(
   const port = robotConnection.port;
 
   // Get robot-specific configuration
-  let robotConfig;
-  if (robotConnection.robotType.startsWith("so100")) {
-    robotConfig = createSO100Config(robotConnection.robotType);
-  } else {
-    throw new Error(`Unsupported robot type: ${robotConnection.robotType}`);
-  }
+  const robotConfig = getRobotConfig(robotConnection.robotType);
 
   // Determine which motors to release
   const motorsToRelease = motorIds || robotConfig.motorIds;
@@ -64,7 +59,12 @@ export async function releaseMotors(
     }
   }
 
-  // Release the motors using low-level function
-  await releaseMotorsLowLevel(port, motorsToRelease);
+  // Disable torque through the robot's MotorsBus
+  await setTorqueEnabled(
+    getMotorBus(robotConfig),
+    port,
+    motorsToRelease,
+    false
+  );
   // Note: Don't close the port - it belongs to the robot connection
 }
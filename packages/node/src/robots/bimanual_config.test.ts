@@ -0,0 +1,73 @@
+/**
+ * Bimanual robot tests
+ * Drive two simulated SO-100 followers as one robot
+ */
+
+import { describe, it, expect } from "vitest";
+import { SimulatedMotorBus } from "../utils/simulated-motor-bus.js";
+import { teleoperateBimanual } from "../teleoperate.js";
+import { BimanualTeleoperator } from "../teleoperators/index.js";
+import { createBimanualRobot } from "./bimanual_config.js";
+import type { RobotConnection } from "../types/robot-connection.js";
+
+function simulatedArm(bus: SimulatedMotorBus): RobotConnection {
+  return {
+    port: bus,
+    name: "Simulated SO-100",
+    isConnected: true,
+    serialNumber: "simulated",
+  };
+}
+
+describe("bi_so100_follower", () => {
+  it("should configure both arms as SO-100 followers", () => {
+    const robot = createBimanualRobot(
+      "bi_so100_follower",
+      simulatedArm(new SimulatedMotorBus()),
+      simulatedArm(new SimulatedMotorBus()),
+      "bimanual"
+    );
+
+    expect(robot.left.robotType).toBe("so100_follower");
+    expect(robot.right.robotType).toBe("so100_follower");
+    expect(robot.left.robotId).toBe("bimanual_left");
+    expect(robot.right.robotId).toBe("bimanual_right");
+  });
+
+  it("should route prefixed motors to their arm", async () => {
+    const leftBus = new SimulatedMotorBus();
+    const rightBus = new SimulatedMotorBus();
+    const robot = createBimanualRobot(
+      "bi_so100_follower",
+      simulatedArm(leftBus),
+      simulatedArm(rightBus)
+    );
+
+    const teleoperation = await teleoperateBimanual({
+      robot,
+      teleop: { left: { type: "direct" }, right: { type: "direct" } },
+    });
+    teleoperation.start();
+
+    const teleoperator = teleoperation.teleoperator as BimanualTeleoperator;
+    const names = teleoperation.getState().motorConfigs.map((m) => m.name);
+    expect(names).toHaveLength(12);
+    expect(names[0]).toBe("left_shoulder_pan");
+    expect(names[6]).toBe("right_shoulder_pan");
+
+    const results = await teleoperator.moveMotors({
+      left_gripper: 1500,
+      right_gripper: 2500,
+      gripper: 2000,
+    });
+    expect(results).toEqual({
+      left_gripper: true,
+      right_gripper: true,
+      gripper: false,
+    });
+    expect(leftBus.getRegisterValue(6, "Goal_Position")).toBe(1500);
+    expect(rightBus.getRegisterValue(6, "Goal_Position")).toBe(2500);
+
+    teleoperation.stop();
+  });
+});
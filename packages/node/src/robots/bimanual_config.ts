@@ -0,0 +1,52 @@
+/**
+ * Bimanual robot configuration
+ * Two arms of the same type driven as one robot, following Python lerobot
+ */
+
+import type {
+  BimanualRobotConnection,
+  BimanualRobotType,
+  BuiltInRobotType,
+  RobotConnection,
+} from "../types/robot-connection.js";
+
+/**
+ * Arm type of each bimanual robot type
+ */
+export const BIMANUAL_ROBOT_ARMS: {
+  [robotType in BimanualRobotType]: BuiltInRobotType;
+} = {
+  bi_so100_follower: "so100_follower",
+};
+
+/**
+ * Combine two arm connections into a bimanual robot
+ * Arms get the arm type and the ids `${robotId}_left` and `${robotId}_right`,
+ * so each arm keeps its own calibration like in Python lerobot
+ */
+export function createBimanualRobot(
+  robotType: BimanualRobotType,
+  left: RobotConnection,
+  right: RobotConnection,
+  robotId?: string
+): BimanualRobotConnection {
+  const armType = BIMANUAL_ROBOT_ARMS[robotType];
+  if (!armType) {
+    throw new Error(`Unsupported bimanual robot type: ${robotType}`);
+  }
+
+  return {
+    robotType,
+    robotId,
+    left: {
+      ...left,
+      robotType: armType,
+      robotId: robotId ? `${robotId}_left` : left.robotId,
+    },
+    right: {
+      ...right,
+      robotType: armType,
+      robotId: robotId ? `${robotId}_right` : right.robotId,
+    },
+  };
+}
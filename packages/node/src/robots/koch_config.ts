@@ -0,0 +1,142 @@
+/**
+ * Koch v1.1 specific hardware configuration
+ */
+
+import type {
+  MotorNormMode,
+  RobotCalibrationHooks,
+  RobotHardwareConfig,
+} from "../types/robot-config.js";
+import {
+  DYNAMIXEL_HARDWARE_PROTOCOL,
+  DYNAMIXEL_PROTOCOL,
+} from "../utils/dynamixel-protocol.js";
+import { setTorqueEnabled } from "../utils/motor-bus.js";
+import { fullTurnMotors } from "./calibration_hooks.js";
+
+/**
+ * Koch Device Configuration
+ * Motor names, IDs and normalization modes for both follower and leader
+ * The follower uses XL430-W250 (shoulder) and XL330-M288 servos,
+ * the leader XL330-M077 servos throughout
+ */
+export const KOCH_CONFIG = {
+  motorNames: [
+    "shoulder_pan",
+    "shoulder_lift",
+    "elbow_flex",
+    "wrist_flex",
+    "wrist_roll",
+    "gripper",
+  ],
+  motorIds: [1, 2, 3, 4, 5, 6],
+  // The leader elbow is mounted inverted
+  followerDriveModes: [0, 0, 0, 0, 0, 0],
+  leaderDriveModes: [0, 0, 1, 0, 0, 0],
+  // Joints map to -100..100, the gripper to 0..100 (closed..open)
+  normModes: [
+    "range_m100_100",
+    "range_m100_100",
+    "range_m100_100",
+    "range_m100_100",
+    "range_m100_100",
+    "range_0_100",
+  ] as MotorNormMode[],
+};
+
+/**
+ * Koch Keyboard Controls for Teleoperation
+ * Robot-specific mapping optimized for Koch joint layout
+ */
+export const KOCH_KEYBOARD_CONTROLS = {
+  // Shoulder controls
+  ArrowUp: { motor: "shoulder_lift", direction: 1, description: "Shoulder up" },
+  ArrowDown: {
+    motor: "shoulder_lift",
+    direction: -1,
+    description: "Shoulder down",
+  },
+  ArrowLeft: {
+    motor: "shoulder_pan",
+    direction: -1,
+    description: "Shoulder left",
+  },
+  ArrowRight: {
+    motor: "shoulder_pan",
+    direction: 1,
+    description: "Shoulder right",
+  },
+
+  // WASD controls
+  w: { motor: "elbow_flex", direction: 1, description: "Elbow flex" },
+  s: { motor: "elbow_flex", direction: -1, description: "Elbow extend" },
+  a: { motor: "wrist_flex", direction: -1, description: "Wrist down" },
+  d: { motor: "wrist_flex", direction: 1, description: "Wrist up" },
+
+  // Wrist roll and gripper
+  q: { motor: "wrist_roll", direction: -1, description: "Wrist roll left" },
+  e: { motor: "wrist_roll", direction: 1, description: "Wrist roll right" },
+  o: { motor: "gripper", direction: 1, description: "Gripper open" },
+  c: { motor: "gripper", direction: -1, description: "Gripper close" },
+
+  // Emergency stop
+  Escape: {
+    motor: "emergency_stop",
+    direction: 0,
+    description: "Emergency stop",
+  },
+} as const;
+
+/**
+ * Koch calibration: extended position mode lets homed joints pass a full turn,
+ * shoulder_pan and wrist_roll use the full range
+ */
+function createKochCalibration(driveModes: number[]): RobotCalibrationHooks {
+  return {
+    ...fullTurnMotors(["shoulder_pan", "wrist_roll"]),
+    async prepare(port, motorBus) {
+      // Operating and drive modes live in EEPROM, writable without torque only
+      await setTorqueEnabled(motorBus, port, KOCH_CONFIG.motorIds, false);
+
+      for (let i = 0; i < KOCH_CONFIG.motorIds.length; i++) {
+        const motorId = KOCH_CONFIG.motorIds[i];
+        await motorBus.writeRegister(
+          port,
+          motorId,
+          "Operating_Mode",
+          DYNAMIXEL_PROTOCOL.EXTENDED_POSITION_MODE
+        );
+        await motorBus.writeRegister(
+          port,
+          motorId,
+          "Drive_Mode",
+          driveModes[i]
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Create Koch hardware configuration
+ */
+export function createKochConfig(
+  deviceType: "koch_follower" | "koch_leader"
+): RobotHardwareConfig {
+  const driveModes =
+    deviceType === "koch_leader"
+      ? KOCH_CONFIG.leaderDriveModes
+      : KOCH_CONFIG.followerDriveModes;
+
+  return {
+    deviceType,
+    motorNames: KOCH_CONFIG.motorNames,
+    motorIds: KOCH_CONFIG.motorIds,
+    driveModes,
+    normModes: KOCH_CONFIG.normModes,
+    keyboardControls: KOCH_KEYBOARD_CONTROLS,
+    protocol: DYNAMIXEL_HARDWARE_PROTOCOL,
+    motorBus: "dynamixel",
+    calibration: createKochCalibration(driveModes),
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * LeKiwi tests
+ * Drive the omniwheel base of a simulated LeKiwi
+ */
+
+import { describe, it, expect } from "vitest";
+import { SimulatedMotorBus } from "../utils/simulated-motor-bus.js";
+import { FEETECH_MOTOR_BUS } from "../utils/motor-bus.js";
+import { teleoperate } from "../teleoperate.js";
+import { DirectTeleoperator } from "../teleoperators/index.js";
+import { getRobotConfig } from "./robot_config.js";
+import type { RobotConnection } from "../types/robot-connection.js";
+
+describe("LeKiwi", () => {
+  it("should drive the base in velocity mode", async () => {
+    const bus = new SimulatedMotorBus({ motors: [1, 2, 3, 4, 5, 6, 7, 8, 9] });
+    const robot: RobotConnection = {
+      port: bus,
+      name: "Simulated LeKiwi",
+      isConnected: true,
+      robotType: "lekiwi",
+      serialNumber: "simulated",
+    };
+
+    // Calibration switches the wheels to velocity mode
+    const robotConfig = getRobotConfig("lekiwi");
+    await robotConfig.calibration?.prepare?.(bus, FEETECH_MOTOR_BUS);
+    expect(bus.getRegisterValue(8, "Operating_Mode")).toBe(1);
+    expect(bus.getRegisterValue(1, "Operating_Mode")).toBe(0);
+
+    const teleoperation = await teleoperate({
+      robot,
+      teleop: { type: "direct" },
+    });
+    teleoperation.start();
+
+    const teleoperator = teleoperation.teleoperator as DirectTeleoperator;
+    await teleoperator.setBaseVelocity({ x: 0.1, y: 0, theta: 0 });
+    expect(bus.getRegisterValue(7, "Goal_Speed")).toBe(-1129);
+    expect(bus.getRegisterValue(8, "Goal_Speed")).toBe(0);
+    expect(bus.getRegisterValue(9, "Goal_Speed")).toBe(1129);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const measured = await teleoperator.readBaseVelocity();
+    expect(measured.x).toBeCloseTo(0.1, 2);
+    expect(teleoperation.getState().baseVelocity).toEqual({
+      x: 0.1,
+      y: 0,
+      theta: 0,
+    });
+
+    teleoperation.stop();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(bus.getRegisterValue(7, "Goal_Speed")).toBe(0);
+    expect(bus.getRegisterValue(9, "Goal_Speed")).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Robot registry
+ * Maps robot types to hardware configurations, so arms can be added without forking the library
+ */
+
+import type { RobotHardwareConfig } from "../types/robot-config.js";
+import { createSO100Config } from "./so100_config.js";
+import { createSO101Config } from "./so101_config.js";
+import { createKochConfig } from "./koch_config.js";
+import { createLeKiwiConfig } from "./lekiwi_config.js";
+
+/**
+ * Creates the hardware configuration of a registered robot type
+ * Receives the robot type it was registered under
+ */
+export type RobotConfigFactory = (robotType: string) => RobotHardwareConfig;
+
+const robotFactories = new Map<string, RobotConfigFactory>();
+
+/**
+ * Register a robot type
+ * @throws Error if the robot type is already registered
+ */
+export function registerRobot(
+  robotType: string,
+  factory: RobotConfigFactory
+): void {
+  if (robotFactories.has(robotType)) {
+    throw new Error(`Robot type already registered: ${robotType}`);
+  }
+  robotFactories.set(robotType, factory);
+}
+
+/**
+ * Get the hardware configuration of a registered robot type
+ * @throws Error for unregistered robot types
+ */
+export function getRobotConfig(robotType: string): RobotHardwareConfig {
+  const factory = robotFactories.get(robotType);
+  if (!factory) {
+    throw new Error(`Unsupported robot type: ${robotType}`);
+  }
+
+  const config = factory(robotType);
+  const motorCount = config.motorNames.length;
+  if (
+    config.motorIds.length !== motorCount ||
+    config.driveModes.length !== motorCount ||
+    config.normModes.length !== motorCount ||
+    (config.defaultLimits && config.defaultLimits.length !== motorCount)
+  ) {
+    throw new Error(
+      `Invalid configuration for ${robotType}: motorIds, driveModes, normModes and defaultLimits must have one entry per motor`
+    );
+  }
+
+  return config;
+}
+
+/**
+ * List all registered robot types
+ */
+export function listRobotTypes(): string[] {
+  return Array.from(robotFactories.keys());
+}
+
+registerRobot("so100_follower", () => createSO100Config("so100_follower"));
+registerRobot("so100_leader", () => createSO100Config("so100_leader"));
+registerRobot("so101_follower", () => createSO101Config("so101_follower"));
+registerRobot("so101_leader", () => createSO101Config("so101_leader"));
+registerRobot("koch_follower", () => createKochConfig("koch_follower"));
+registerRobot("koch_leader", () => createKochConfig("koch_leader"));
+registerRobot("lekiwi", () => createLeKiwiConfig());
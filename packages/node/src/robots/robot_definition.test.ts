@@ -0,0 +1,86 @@
+/**
+ * Robot definition tests
+ * Load a custom 7-DOF arm from YAML and use it through the registry
+ */
+
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  loadRobotDefinition,
+  registerRobotDefinition,
+  RobotDefinitionError,
+} from "./robot_definition.js";
+import { getRobotConfig } from "./robot_config.js";
+
+const SEVEN_DOF_ARM = `
+type: lab_arm_7dof
+motors:
+  - { name: base, id: 1, model: sts3215, full_turn: true }
+  - { name: shoulder, id: 2, model: sts3215 }
+  - { name: upper_roll, id: 3, model: sts3215, norm_mode: degrees }
+  - { name: elbow, id: 4, model: sts3215, drive_mode: 1 }
+  - { name: forearm_roll, id: 5, model: sts3215, norm_mode: degrees }
+  - { name: wrist, id: 6, model: sts3215, limits: { min: 1000, max: 3000 } }
+  - { name: gripper, id: 7, model: sts3215, norm_mode: range_0_100 }
+keyboard:
+  ArrowLeft: { motor: base, direction: -1, description: Base left }
+  o: { motor: gripper, direction: 1 }
+`;
+
+describe("loadRobotDefinition", () => {
+  it("should build a 7-DOF robot from YAML", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "lerobot-robot-"));
+
+    try {
+      const path = join(dir, "lab_arm.yaml");
+      await writeFile(path, SEVEN_DOF_ARM);
+
+      const robotType = registerRobotDefinition(
+        await loadRobotDefinition(path)
+      );
+      const config = getRobotConfig(robotType);
+
+      expect(robotType).toBe("lab_arm_7dof");
+      expect(config.motorIds).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(config.driveModes).toEqual([0, 0, 0, 1, 0, 0, 0]);
+      expect(config.normModes[2]).toBe("degrees");
+      expect(config.defaultLimits?.[5]).toEqual({ min: 1000, max: 3000 });
+      expect(config.defaultLimits?.[0]).toEqual({ min: 0, max: 4095 });
+      expect(config.keyboardControls.o.description).toBe("gripper +");
+
+      const rangeMins = { base: 900 };
+      const rangeMaxes = { base: 1800 };
+      config.calibration?.adjustRanges?.(
+        rangeMins,
+        rangeMaxes,
+        config.protocol
+      );
+      expect([rangeMins.base, rangeMaxes.base]).toEqual([0, 4095]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject invalid JSON definitions", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "lerobot-robot-"));
+
+    try {
+      const path = join(dir, "broken.json");
+      await writeFile(
+        path,
+        JSON.stringify({
+          type: "broken_arm",
+          motors: [{ name: "base", id: 1, model: "xl330" }],
+        })
+      );
+
+      await expect(loadRobotDefinition(path)).rejects.toBeInstanceOf(
+        RobotDefinitionError
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
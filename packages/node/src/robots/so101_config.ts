@@ -0,0 +1,62 @@
+/**
+ * SO-101 specific hardware configuration
+ */
+
+import type {
+  MotorNormMode,
+  RobotHardwareConfig,
+} from "../types/robot-config.js";
+import { STS3215_HARDWARE_PROTOCOL } from "../utils/sts3215-protocol.js";
+import { SO100_KEYBOARD_CONTROLS } from "./so100_config.js";
+
+/**
+ * SO-101 Device Configuration
+ * Motor names, IDs, drive modes and normalization modes for both follower and leader
+ */
+export const SO101_CONFIG = {
+  motorNames: [
+    "shoulder_pan",
+    "shoulder_lift",
+    "elbow_flex",
+    "wrist_flex",
+    "wrist_roll",
+    "gripper",
+  ],
+  motorIds: [1, 2, 3, 4, 5, 6],
+  // All SO-101 motors use drive_mode=0
+  driveModes: [0, 0, 0, 0, 0, 0],
+  // Joints map to -100..100, the gripper to 0..100 (closed..open)
+  normModes: [
+    "range_m100_100",
+    "range_m100_100",
+    "range_m100_100",
+    "range_m100_100",
+    "range_m100_100",
+    "range_0_100",
+  ] as MotorNormMode[],
+};
+
+/**
+ * SO-101 Keyboard Controls for Teleoperation
+ * Same joint layout as SO-100, so the same mapping applies
+ */
+export const SO101_KEYBOARD_CONTROLS = SO100_KEYBOARD_CONTROLS;
+
+/**
+ * Create SO-101 hardware configuration
+ */
+export function createSO101Config(
+  deviceType: "so101_follower" | "so101_leader"
+): RobotHardwareConfig {
+  return {
+    deviceType,
+    motorNames: SO101_CONFIG.motorNames,
+    motorIds: SO101_CONFIG.motorIds,
+    driveModes: SO101_CONFIG.driveModes,
+    normModes: SO101_CONFIG.normModes,
+    keyboardControls: SO101_KEYBOARD_CONTROLS,
+    protocol: STS3215_HARDWARE_PROTOCOL,
+    // No calibration hooks: every motor keeps the range recorded during
+    // calibration, wrist_roll included
+  };
+}
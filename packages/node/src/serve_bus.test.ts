@@ -0,0 +1,205 @@
+/**
+ * Serial bus bridge tests
+ * Drive a simulated bus through a raw WebSocket client
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { connect, type Socket } from "net";
+import { randomBytes } from "crypto";
+import { serveBus } from "./serve_bus.js";
+import { SimulatedMotorBus } from "./utils/simulated-motor-bus.js";
+import {
+  createInstructionPacket,
+  StatusPacketParser,
+} from "./utils/sts3215-packet.js";
+import {
+  encodeWebSocketFrame,
+  WebSocketFrameParser,
+  WEBSOCKET_OPCODES,
+  type WebSocketFrame,
+} from "./utils/websocket.js";
+import type { ServeBusProcess } from "./types/serve-bus.js";
+
+/**
+ * Minimal WebSocket client collecting the frames it receives
+ */
+async function openClient(url: string, headers: string[] = []) {
+  const { hostname, port, pathname, search } = new URL(url);
+  const socket: Socket = connect(Number(port), hostname);
+  const parser = new WebSocketFrameParser();
+  const frames: WebSocketFrame[] = [];
+  let handshake = "";
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once("error", reject);
+    socket.once("connect", () => {
+      socket.write(
+        [
+          `GET ${pathname}${search} HTTP/1.1`,
+          `Host: ${hostname}:${port}`,
+          ...headers,
+          "Upgrade: websocket",
+          "Connection: Upgrade",
+          `Sec-WebSocket-Key: ${randomBytes(16).toString("base64")}`,
+          "Sec-WebSocket-Version: 13",
+          "",
+          "",
+        ].join("\r\n")
+      );
+    });
+
+    socket.on("data", (chunk: Buffer) => {
+      let data: Uint8Array = chunk;
+      if (!handshake.endsWith("\r\n\r\n")) {
+        const text = chunk.toString("latin1");
+        const end = text.indexOf("\r\n\r\n");
+        handshake += end === -1 ? text : text.slice(0, end + 4);
+        if (end === -1) return;
+        data = chunk.subarray(end + 4);
+        resolve();
+      }
+      frames.push(...parser.push(data));
+    });
+  });
+
+  const send = (opcode: number, payload: Uint8Array) =>
+    socket.write(encodeWebSocketFrame(opcode, payload, randomBytes(4)));
+
+  const nextFrame = async (timeout = 500): Promise<WebSocketFrame> => {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const frame = frames.shift();
+      if (frame) return frame;
+      if (Date.now() > deadline) throw new Error("No frame received");
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  return { socket, handshake, send, nextFrame };
+}
+
+describe("serveBus", () => {
+  let bridge: ServeBusProcess | null = null;
+
+  afterEach(async () => {
+    bridge?.stop();
+    await bridge?.result;
+    bridge = null;
+  });
+
+  async function startBridge(
+    bus: SimulatedMotorBus,
+    options: { token?: string; allowedOrigins?: string[] } = {}
+  ) {
+    bridge = await serveBus({
+      ...options,
+      robot: {
+        port: bus,
+        name: "Simulated SO-100",
+        isConnected: true,
+        serialNumber: "simulated",
+      },
+      host: "127.0.0.1",
+      port: 0,
+    });
+    return bridge;
+  }
+
+  it("should forward bus traffic in both directions", async () => {
+    const { url } = await startBridge(new SimulatedMotorBus({ motors: [3] }));
+    const client = await openClient(url);
+    expect(client.handshake).toContain("101 Switching Protocols");
+
+    client.send(WEBSOCKET_OPCODES.BINARY, createInstructionPacket(3, 0x01));
+
+    const parser = new StatusPacketParser();
+    let packets = parser.push((await client.nextFrame()).payload);
+    while (packets.length === 0) {
+      packets = parser.push((await client.nextFrame()).payload);
+    }
+    expect(packets[0].id).toBe(3);
+    client.socket.destroy();
+  });
+
+  it("should change the baud rate on request", async () => {
+    const bus = new SimulatedMotorBus({ motors: [1] });
+    const { url } = await startBridge(bus);
+    const client = await openClient(url);
+
+    client.send(
+      WEBSOCKET_OPCODES.TEXT,
+      new TextEncoder().encode(
+        JSON.stringify({ type: "setBaudRate", baudRate: 500000 })
+      )
+    );
+
+    const frame = await client.nextFrame();
+    expect(frame.opcode).toBe(WEBSOCKET_OPCODES.TEXT);
+    expect(JSON.parse(new TextDecoder().decode(frame.payload))).toEqual({
+      type: "baudRate",
+      baudRate: 500000,
+    });
+    client.socket.destroy();
+  });
+
+  it("should turn away a second client", async () => {
+    const { url } = await startBridge(new SimulatedMotorBus());
+    const first = await openClient(url);
+    const second = await openClient(url);
+
+    const frame = await second.nextFrame();
+    expect(frame.opcode).toBe(WEBSOCKET_OPCODES.CLOSE);
+    expect(new TextDecoder().decode(frame.payload.slice(2))).toContain(
+      "already in use"
+    );
+    first.socket.destroy();
+  });
+
+  it("should stop when the bus read fails", async () => {
+    const bus = new SimulatedMotorBus();
+    bus.read = async () => {
+      throw new Error("Port is closed");
+    };
+    const { result } = await startBridge(bus);
+
+    await expect(result).rejects.toThrow("Port is closed");
+    bridge = null;
+  });
+
+  it("should reject pages from other origins", async () => {
+    const { url } = await startBridge(new SimulatedMotorBus());
+
+    const local = await openClient(url, ["Origin: http://localhost:5173"]);
+    expect(local.handshake).toContain("101 Switching Protocols");
+    local.socket.destroy();
+
+    const foreign = await openClient(url, ["Origin: https://example.com"]);
+    expect(foreign.handshake).toContain("403 Forbidden");
+  });
+
+  it("should require the token when one is set", async () => {
+    const { url } = await startBridge(new SimulatedMotorBus(), {
+      token: "secret",
+    });
+
+    const anonymous = await openClient(url);
+    expect(anonymous.handshake).toContain("403 Forbidden");
+
+    const client = await openClient(`${url}/?token=secret`);
+    expect(client.handshake).toContain("101 Switching Protocols");
+    client.socket.destroy();
+  });
+
+  it("should close on unmasked client frames", async () => {
+    const { url } = await startBridge(new SimulatedMotorBus());
+    const client = await openClient(url);
+
+    client.socket.write(
+      encodeWebSocketFrame(WEBSOCKET_OPCODES.BINARY, new Uint8Array([1]))
+    );
+
+    const frame = await client.nextFrame();
+    expect(frame.opcode).toBe(WEBSOCKET_OPCODES.CLOSE);
+    expect(new DataView(frame.payload.buffer).getUint16(0)).toBe(1002);
+  });
+});
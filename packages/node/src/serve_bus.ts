@@ -0,0 +1,172 @@
+/**
+ * Node.js serial bus bridge
+ * Exposes a robot's MotorsBus over WebSocket, so @lerobot/web can drive a
+ * robot attached to another machine through WebSocketPortWrapper
+ */
+
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import {
+  acceptWebSocket,
+  type WebSocketConnection,
+} from "./utils/websocket.js";
+import type {
+  BusBridgeMessage,
+  ServeBusConfig,
+  ServeBusProcess,
+} from "./types/serve-bus.js";
+
+/**
+ * Timeout of one bus read, bounds how long stop() waits for the read loop
+ */
+const READ_POLL_TIMEOUT = 100;
+
+/**
+ * Default TCP port of the bridge
+ */
+export const SERVE_BUS_DEFAULT_PORT = 8765;
+
+/**
+ * Serve the robot's MotorsBus to one WebSocket client at a time
+ * Bytes are forwarded unchanged in both directions, the client runs the
+ * motor protocol
+ */
+export async function serveBus(
+  config: ServeBusConfig
+): Promise<ServeBusProcess> {
+  const {
+    robot,
+    host = "127.0.0.1",
+    port: listenPort = SERVE_BUS_DEFAULT_PORT,
+    allowedOrigins,
+    token,
+    onClientConnected,
+    onClientDisconnected,
+  } = config;
+
+  if (!robot.isConnected || !robot.port) {
+    throw new Error(
+      "Robot is not connected. Please use findPort() to connect first."
+    );
+  }
+
+  const bus = robot.port;
+  let client: WebSocketConnection | null = null;
+  let running = true;
+
+  const forwardToClient = (data: Uint8Array) => {
+    client?.send(data);
+  };
+
+  const server = createServer((_request, response) => {
+    response.writeHead(426, { "Content-Type": "text/plain" });
+    response.end("MotorsBus bridge, connect with a WebSocket client\n");
+  });
+
+  server.on("upgrade", (request, socket) => {
+    const connection = acceptWebSocket(request, socket, {
+      allowedOrigins,
+      token,
+    });
+    if (!connection) return;
+
+    if (client) {
+      connection.close(1013, "MotorsBus already in use by another client");
+      return;
+    }
+
+    client = connection;
+    onClientConnected?.(connection.remoteAddress);
+
+    connection.onMessage = (data) => {
+      if (typeof data !== "string") {
+        bus.write(data).catch((error) => {
+          connection.send(
+            JSON.stringify({ type: "error", message: error.message })
+          );
+        });
+        return;
+      }
+      handleMessage(connection, data);
+    };
+
+    connection.onClose = () => {
+      if (client === connection) client = null;
+      onClientDisconnected?.(connection.remoteAddress);
+    };
+  });
+
+  const handleMessage = async (
+    connection: WebSocketConnection,
+    text: string
+  ) => {
+    let reply: BusBridgeMessage;
+    try {
+      const message = JSON.parse(text) as BusBridgeMessage;
+      if (message.type !== "setBaudRate") {
+        throw new Error(`Unknown message type: ${message.type}`);
+      }
+      if (!bus.setBaudRate) {
+        throw new Error("Port does not support changing the baud rate");
+      }
+      await bus.setBaudRate(message.baudRate);
+      reply = { type: "baudRate", baudRate: message.baudRate };
+    } catch (error) {
+      reply = {
+        type: "error",
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+    connection.send(JSON.stringify(reply));
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(listenPort, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  let resolveClosed: () => void;
+  const closed = new Promise<void>((resolve) => {
+    resolveClosed = resolve;
+  });
+
+  const stop = () => {
+    if (!running) return;
+    running = false;
+    client?.close(1001, "MotorsBus bridge stopped");
+    server.close(() => resolveClosed());
+  };
+
+  // Forward everything the bus receives to the connected client
+  let readError: Error | null = null;
+  const readLoop = (async () => {
+    while (running) {
+      try {
+        forwardToClient(await bus.read(READ_POLL_TIMEOUT));
+      } catch (error) {
+        // Read timeout - bus is idle
+        if (error instanceof Error && error.message === "Read timeout") {
+          continue;
+        }
+
+        // Port closed or failed, every further read would fail at once
+        readError = error instanceof Error ? error : new Error(String(error));
+        stop();
+      }
+    }
+  })();
+
+  const address = server.address() as AddressInfo;
+  const urlHost = host === "0.0.0.0" || host === "::" ? "localhost" : host;
+
+  return {
+    url: `ws://${urlHost}:${address.port}`,
+    stop,
+    result: Promise.all([closed, readLoop]).then(() => {
+      if (readError) throw readError;
+    }),
+  };
+}
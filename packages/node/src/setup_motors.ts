@@ -0,0 +1,97 @@
+/**
+ * Node.js motor setup functionality
+ * Writes the configured ID and baud rate to fresh motors, one motor at a time
+ */
+
+import { createInterface } from "readline";
+import { setupMotor } from "./utils/motor-setup.js";
+import { STS3215_PROTOCOL } from "./utils/sts3215-protocol.js";
+import { getRobotConfig } from "./robots/robot_config.js";
+import type {
+  SetupMotorsConfig,
+  SetupMotorsResults,
+  SetupMotorsProcess,
+} from "./types/setup-motors.js";
+
+/**
+ * Prompt on the terminal until the user connected the given motor
+ */
+function promptForMotor(motorName: string): Promise<void> {
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(
+      `Connect the controller board to the '${motorName}' motor only and press enter.`,
+      () => {
+        rl.close();
+        resolve();
+      }
+    );
+  });
+}
+
+/**
+ * Set up every motor of a robot - Python lerobot compatible flow
+ * Motors are set up from the gripper down, each one connected on its own
+ */
+export async function setupMotors(
+  config: SetupMotorsConfig
+): Promise<SetupMotorsProcess> {
+  const {
+    robot,
+    baudRate = STS3215_PROTOCOL.DEFAULT_BAUD_RATE,
+    onConnectMotor = promptForMotor,
+    onProgress,
+  } = config;
+
+  if (!robot.robotType) {
+    throw new Error(
+      "Robot type is required for motor setup. Please configure the robot first."
+    );
+  }
+
+  if (!robot.isConnected || !robot.port) {
+    throw new Error(
+      "Robot is not connected. Please use findPort() to connect first."
+    );
+  }
+
+  const robotConfig = getRobotConfig(robot.robotType);
+  if (robotConfig.motorBus && robotConfig.motorBus !== "feetech") {
+    throw new Error(
+      `Motor setup only supports Feetech motors, ${robot.robotType} uses ${robotConfig.motorBus}`
+    );
+  }
+
+  let shouldStop = false;
+
+  const setupPromise = (async (): Promise<SetupMotorsResults> => {
+    const { motorIds, motorNames } = robotConfig;
+    const results: SetupMotorsResults = {};
+
+    for (let i = motorIds.length - 1; i >= 0; i--) {
+      if (shouldStop) throw new Error("Motor setup stopped by user");
+      await onConnectMotor(motorNames[i], motorIds[i]);
+      if (shouldStop) throw new Error("Motor setup stopped by user");
+
+      results[motorNames[i]] = await setupMotor(
+        robot.port,
+        motorIds[i],
+        baudRate
+      );
+      onProgress?.(`'${motorNames[i]}' motor id set to ${motorIds[i]}`);
+    }
+
+    return results;
+  })();
+
+  return {
+    stop: () => {
+      shouldStop = true;
+    },
+    result: setupPromise,
+  };
+}
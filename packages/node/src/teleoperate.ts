@@ -5,11 +5,18 @@
  */
 
 import { NodeSerialPortWrapper } from "./utils/serial-port-wrapper.js";
-import { createSO100Config } from "./robots/so100_config.js";
-import { readAllMotorPositions } from "./utils/motor-communication.js";
+import { getRobotConfig } from "./robots/robot_config.js";
+import { verifyMotors } from "./utils/motor-scan.js";
+import { getMotorBus, setTorqueEnabled } from "./utils/motor-bus.js";
+import { SafetyFilter } from "./utils/safety-filter.js";
+import { FilePoseStorage } from "./utils/pose-library.js";
 import {
   KeyboardTeleoperator,
   DirectTeleoperator,
+  LeaderArmTeleoperator,
+  GamepadTeleoperator,
+  BimanualTeleoperator,
+  type BaseNodeTeleoperator,
 } from "./teleoperators/index.js";
 import { readFile } from "fs/promises";
 import { join } from "path";
@@ -20,8 +27,12 @@ import type {
   TeleoperationProcess,
   MotorConfig,
   TeleoperationState,
+  EmergencyStopOptions,
+  LeaderArmTeleoperatorConfig,
+  BimanualTeleoperateConfig,
 } from "./types/teleoperation.js";
 import type { RobotConnection } from "./types/robot-connection.js";
+import type { MotorBus } from "./types/motor-bus.js";
 import type { CalibrationResults } from "./types/calibration.js";
 
 /**
@@ -78,8 +89,10 @@ function buildMotorConfigs(
     const motorName = robotConfig.motorNames[i];
     const motorId = robotConfig.motorIds[i];
 
-    let minPosition = 0;
-    let maxPosition = robotConfig.protocol.resolution - 1; // Default full range
+    // Default limits of the robot, or the full range
+    let minPosition = robotConfig.defaultLimits?.[i].min ?? 0;
+    let maxPosition =
+      robotConfig.defaultLimits?.[i].max ?? robotConfig.protocol.resolution - 1;
 
     // Use calibration data if available
     if (calibrationData && calibrationData[motorName]) {
@@ -93,18 +106,108 @@ function buildMotorConfigs(
       currentPosition: Math.floor((minPosition + maxPosition) / 2), // Start at center
       minPosition,
       maxPosition,
+      normMode: robotConfig.normModes[i],
     });
   }
 
   return motorConfigs;
 }
 
+/**
+ * Connect the leader arm of a leader arm teleoperator
+ * The leader is moved by hand, so its torque is disabled
+ */
+async function connectLeaderArm(teleop: LeaderArmTeleoperatorConfig): Promise<{
+  motorConfigs: MotorConfig[];
+  motorBus: MotorBus;
+}> {
+  const { leader } = teleop;
+  const leaderType = leader.robotType ?? "so100_leader";
+  const leaderConfig = getRobotConfig(leaderType);
+
+  if (!leader.isConnected || !leader.port) {
+    throw new Error(
+      "Leader arm is not connected. Please use findPort() to connect first."
+    );
+  }
+
+  const motorBus = getMotorBus(leaderConfig);
+  await verifyMotors(leader.port, leaderConfig.motorIds, motorBus);
+  await setTorqueEnabled(motorBus, leader.port, leaderConfig.motorIds, false);
+
+  // Load or use provided leader calibration data
+  const calibrationData =
+    teleop.calibrationData ??
+    (leader.robotId
+      ? await loadCalibrationData(leaderType, leader.robotId)
+      : null);
+
+  if (!calibrationData) {
+    console.warn(
+      "No leader calibration data found. Using default motor ranges. Consider running calibration first."
+    );
+  }
+
+  return {
+    motorConfigs: buildMotorConfigs(leaderConfig, calibrationData),
+    motorBus,
+  };
+}
+
 /**
  * Main teleoperate function with web-compatible API
  */
 export async function teleoperate(
   config: TeleoperateConfig
 ): Promise<TeleoperationProcess> {
+  const teleoperator = await createTeleoperator(config);
+  return createTeleoperationProcess(teleoperator);
+}
+
+/**
+ * Teleoperate two arms as one robot, e.g. bi_so100_follower
+ * Motor names get left_ and right_ prefixes
+ */
+export async function teleoperateBimanual(
+  config: BimanualTeleoperateConfig
+): Promise<TeleoperationProcess> {
+  const { robot, teleop, calibrationData } = config;
+
+  // Arm updates are reported with the state of both arms
+  // They only start with the process, so it is declared by then
+  const onStateUpdate = config.onStateUpdate
+    ? () => config.onStateUpdate?.(teleoperationProcess.getState())
+    : undefined;
+
+  const left = await createTeleoperator({
+    robot: robot.left,
+    teleop: teleop.left,
+    calibrationData: calibrationData?.left,
+    safety: config.safety,
+    health: config.health,
+    onStateUpdate,
+  });
+  const right = await createTeleoperator({
+    robot: robot.right,
+    teleop: teleop.right,
+    calibrationData: calibrationData?.right,
+    safety: config.safety,
+    health: config.health,
+    onStateUpdate,
+  });
+
+  const teleoperationProcess = createTeleoperationProcess(
+    new BimanualTeleoperator(left, right)
+  );
+  return teleoperationProcess;
+}
+
+/**
+ * Connect, verify and initialize the teleoperator of one arm
+ */
+async function createTeleoperator(
+  config: TeleoperateConfig
+): Promise<BaseNodeTeleoperator> {
   const { robot, teleop, calibrationData, onStateUpdate } = config;
 
   // Validate robot configuration
@@ -124,11 +227,21 @@ export async function teleoperate(
   const port = robot.port;
 
   // Get robot-specific configuration
-  let robotConfig;
-  if (robot.robotType.startsWith("so100")) {
-    robotConfig = createSO100Config(robot.robotType);
-  } else {
-    throw new Error(`Unsupported robot type: ${robot.robotType}`);
+  const robotConfig = getRobotConfig(robot.robotType);
+
+  // Make sure the whole arm answers before taking control
+  const motorBus = getMotorBus(robotConfig);
+  await verifyMotors(port, robotConfig.motorIds, motorBus);
+
+  // Dynamixel servos only follow goal positions with torque enabled
+  if (motorBus.type === "dynamixel") {
+    await setTorqueEnabled(motorBus, port, robotConfig.motorIds, true);
+  }
+
+  // Wheels follow Goal_Speed with torque enabled
+  if (robotConfig.base) {
+    await verifyMotors(port, robotConfig.base.wheelIds, motorBus);
+    await setTorqueEnabled(motorBus, port, robotConfig.base.wheelIds, true);
   }
 
   // Load or use provided calibration data
@@ -151,9 +264,10 @@ export async function teleoperate(
 
   // Read current motor positions
   try {
-    const currentPositions = await readAllMotorPositions(
+    const currentPositions = await motorBus.syncReadRegister(
       port,
-      robotConfig.motorIds
+      robotConfig.motorIds,
+      "Present_Position"
     );
     for (let i = 0; i < motorConfigs.length; i++) {
       motorConfigs[i].currentPosition = currentPositions[i];
@@ -163,7 +277,7 @@ export async function teleoperate(
   }
 
   // Create appropriate teleoperator based on configuration
-  let teleoperator;
+  let teleoperator: BaseNodeTeleoperator;
   switch (teleop.type) {
     case "keyboard":
       teleoperator = new KeyboardTeleoperator(
@@ -171,12 +285,53 @@ export async function teleoperate(
         port,
         motorConfigs,
         robotConfig.keyboardControls,
-        onStateUpdate
+        onStateUpdate,
+        motorBus,
+        robotConfig.base,
+        robotConfig.kinematics
       );
       break;
 
     case "direct":
-      teleoperator = new DirectTeleoperator(teleop, port, motorConfigs);
+      teleoperator = new DirectTeleoperator(
+        {
+          ...teleop,
+          // Poses of the robot next to its calibration file
+          poseStorage:
+            teleop.poseStorage ??
+            new FilePoseStorage(robot.robotType, robot.robotId ?? "default"),
+        },
+        port,
+        motorConfigs,
+        motorBus,
+        robotConfig.base
+      );
+      break;
+
+    case "so100_leader": {
+      const leader = await connectLeaderArm(teleop);
+      teleoperator = new LeaderArmTeleoperator(
+        teleop,
+        port,
+        motorConfigs,
+        teleop.leader.port,
+        leader.motorConfigs,
+        onStateUpdate,
+        motorBus,
+        leader.motorBus
+      );
+      break;
+    }
+
+    case "gamepad":
+      teleoperator = new GamepadTeleoperator(
+        teleop,
+        port,
+        motorConfigs,
+        onStateUpdate,
+        motorBus,
+        robotConfig.kinematics
+      );
       break;
 
     default:
@@ -186,7 +341,28 @@ export async function teleoperate(
   // Initialize teleoperator
   await teleoperator.initialize();
 
-  // Build process object
+  if (config.safety) {
+    teleoperator.setSafetyFilter(
+      new SafetyFilter(
+        config.safety,
+        teleoperator.motorConfigs,
+        robotConfig.kinematics
+      )
+    );
+  }
+  if (config.health) {
+    teleoperator.monitorHealth(config.health);
+  }
+
+  return teleoperator;
+}
+
+/**
+ * Wrap a teleoperator into the process control object
+ */
+function createTeleoperationProcess(
+  teleoperator: BaseNodeTeleoperator | BimanualTeleoperator
+): TeleoperationProcess {
   const process: TeleoperationProcess = {
     start(): void {
       teleoperator.start();
@@ -196,6 +372,14 @@ export async function teleoperate(
       teleoperator.stop();
     },
 
+    async emergencyStop(options?: EmergencyStopOptions): Promise<void> {
+      await teleoperator.emergencyStop(options);
+    },
+
+    async resetEmergencyStop(): Promise<void> {
+      await teleoperator.resetEmergencyStop();
+    },
+
     updateKeyState(key: string, pressed: boolean): void {
       if ("updateKeyState" in teleoperator) {
         (teleoperator as any).updateKeyState(key, pressed);
@@ -209,6 +393,7 @@ export async function teleoperate(
         motorConfigs: [...teleoperator.motorConfigs],
         lastUpdate: Date.now(),
         ...teleoperatorSpecificState,
+        estopped: teleoperator.estopped,
       };
     },
 
@@ -3,8 +3,26 @@
  * Defines the contract that all teleoperators must implement
  */
 
-import type { MotorConfig } from "../types/teleoperation.js";
+import type {
+  EmergencyStopOptions,
+  MotorConfig,
+} from "../types/teleoperation.js";
 import type { MotorCommunicationPort } from "../utils/motor-communication.js";
+import { BusScheduler } from "../utils/bus-scheduler.js";
+import { FEETECH_MOTOR_BUS } from "../utils/motor-bus.js";
+import type { MotorBus } from "../types/motor-bus.js";
+import type { SafetyFilter } from "../utils/safety-filter.js";
+import { HealthMonitor } from "../utils/health-monitor.js";
+import type { HealthMonitorConfig, MotorHealth } from "../types/health.js";
+import type {
+  BaseVelocity,
+  EndEffectorPose,
+  MobileBaseConfig,
+} from "../types/robot-config.js";
+import {
+  bodyToWheelSpeeds,
+  wheelSpeedsToBody,
+} from "../utils/omniwheel-kinematics.js";
 
 /**
  * Base interface that all Node.js teleoperators must implement
@@ -14,6 +32,9 @@ export interface NodeTeleoperator {
   start(): void;
   stop(): void;
   disconnect(): Promise<void>;
+  emergencyStop(options?: EmergencyStopOptions): Promise<void>;
+  resetEmergencyStop(): Promise<void>;
+  readonly estopped: boolean;
   getState(): TeleoperatorSpecificState;
   onMotorConfigsUpdate(motorConfigs: MotorConfig[]): void;
   motorConfigs: MotorConfig[];
@@ -25,6 +46,10 @@ export interface NodeTeleoperator {
 export type TeleoperatorSpecificState = {
   keyStates?: { [key: string]: { pressed: boolean; timestamp: number } }; // keyboard
   leaderPositions?: { [motor: string]: number }; // leader arm
+  gamepadState?: { axes: number[]; buttons: boolean[] }; // gamepad
+  baseVelocity?: BaseVelocity; // mobile base
+  endEffectorPose?: EndEffectorPose; // cartesian mode
+  motorHealth?: { [motor: string]: MotorHealth }; // health monitor
 };
 
 /**
@@ -32,12 +57,24 @@ export type TeleoperatorSpecificState = {
  */
 export abstract class BaseNodeTeleoperator implements NodeTeleoperator {
   protected port: MotorCommunicationPort;
+  protected bus: BusScheduler;
   public motorConfigs: MotorConfig[] = [];
   protected isActive: boolean = false;
+  protected mobileBase?: MobileBaseConfig;
+  protected healthMonitor: HealthMonitor | null = null;
+  public baseVelocity: BaseVelocity = { x: 0, y: 0, theta: 0 };
+  public measuredBaseVelocity: BaseVelocity = { x: 0, y: 0, theta: 0 };
 
-  constructor(port: MotorCommunicationPort, motorConfigs: MotorConfig[]) {
+  constructor(
+    port: MotorCommunicationPort,
+    motorConfigs: MotorConfig[],
+    motorBus: MotorBus = FEETECH_MOTOR_BUS,
+    mobileBase?: MobileBaseConfig
+  ) {
     this.port = port;
+    this.bus = new BusScheduler(port, motorBus);
     this.motorConfigs = motorConfigs;
+    this.mobileBase = mobileBase;
   }
 
   abstract initialize(): Promise<void>;
@@ -47,6 +84,7 @@ export abstract class BaseNodeTeleoperator implements NodeTeleoperator {
 
   async disconnect(): Promise<void> {
     this.stop();
+    this.healthMonitor?.stop();
     if (this.port && "close" in this.port) {
       await (this.port as any).close();
     }
@@ -56,6 +94,160 @@ export abstract class BaseNodeTeleoperator implements NodeTeleoperator {
     this.motorConfigs = motorConfigs;
   }
 
+  /**
+   * Limit all goal writes of this teleoperator, null removes the filter
+   */
+  setSafetyFilter(filter: SafetyFilter | null): void {
+    this.bus.setSafetyFilter(filter);
+  }
+
+  /**
+   * Latch the emergency stop: stop teleoperation and the base, drop every
+   * queued goal and refuse further writes until resetEmergencyStop()
+   */
+  async emergencyStop(options: EmergencyStopOptions = {}): Promise<void> {
+    this.bus.emergencyStop();
+    this.stop();
+    await this.stopBase();
+    if (options.disableTorque) {
+      await this.bus.releaseMotors(
+        this.motorConfigs.map((config) => config.id)
+      );
+    }
+  }
+
+  get estopped(): boolean {
+    return this.bus.estopped;
+  }
+
+  /**
+   * Accept writes again, teleoperation stays stopped until start()
+   * Positions are read back so the next goals start where the arm is
+   */
+  async resetEmergencyStop(): Promise<void> {
+    this.bus.resetEmergencyStop();
+    await this.readCurrentPositions();
+  }
+
+  /**
+   * Watch temperature, voltage and load of the motors until disconnect,
+   * also while teleoperation is stopped. null stops watching
+   */
+  monitorHealth(config: HealthMonitorConfig | null): HealthMonitor | null {
+    this.healthMonitor?.stop();
+    this.healthMonitor = config
+      ? new HealthMonitor(this.bus, this.motorConfigs, config)
+      : null;
+    this.healthMonitor?.start();
+    return this.healthMonitor;
+  }
+
+  /**
+   * Motor health for getState(), empty without a health monitor
+   */
+  protected healthState(): TeleoperatorSpecificState {
+    return this.healthMonitor
+      ? { motorHealth: this.healthMonitor.getHealth() }
+      : {};
+  }
+
+  /**
+   * Refresh currentPosition of every motor from hardware
+   * Uses one sync read and falls back to individual reads, keeping the
+   * previous position of motors that do not answer
+   * Runs as a telemetry read on the bus scheduler
+   */
+  protected readCurrentPositions(): Promise<void> {
+    return this.bus.run("read", async (port) => {
+      try {
+        const positions = await this.bus.motorBus.syncReadRegister(
+          port,
+          this.motorConfigs.map((config) => config.id),
+          "Present_Position"
+        );
+        this.motorConfigs.forEach((config, index) => {
+          config.currentPosition = positions[index];
+        });
+        return;
+      } catch {
+        // Some motors did not answer the sync read - read them one by one
+      }
+
+      for (const config of this.motorConfigs) {
+        try {
+          config.currentPosition = await this.bus.motorBus.readRegister(
+            port,
+            config.id,
+            "Present_Position"
+          );
+        } catch {
+          // Keep the previous position
+        }
+      }
+    });
+  }
+
+  get hasMobileBase(): boolean {
+    return this.mobileBase !== undefined;
+  }
+
+  /**
+   * Drive the mobile base at a body velocity
+   * Wheel speeds go out in one sync write on the bus scheduler
+   */
+  async setBaseVelocity(velocity: BaseVelocity): Promise<void> {
+    const base = this.mobileBase;
+    if (!base) {
+      throw new Error("Robot has no mobile base");
+    }
+
+    const speeds = bodyToWheelSpeeds(velocity, base);
+    await this.bus.run("write", (port) =>
+      this.bus.motorBus.syncWriteRegister(
+        port,
+        base.wheelIds,
+        "Goal_Speed",
+        speeds
+      )
+    );
+    this.baseVelocity = { ...velocity };
+  }
+
+  /**
+   * Refresh measuredBaseVelocity from the wheel Present_Speed
+   * Runs as a telemetry read on the bus scheduler
+   */
+  async readBaseVelocity(): Promise<BaseVelocity> {
+    const base = this.mobileBase;
+    if (!base) {
+      throw new Error("Robot has no mobile base");
+    }
+
+    const speeds = await this.bus.run("read", (port) =>
+      this.bus.motorBus.syncReadRegister(port, base.wheelIds, "Present_Speed")
+    );
+    this.measuredBaseVelocity = wheelSpeedsToBody(speeds, base);
+    return this.measuredBaseVelocity;
+  }
+
+  /**
+   * Stop the wheels ahead of every queued write and read
+   */
+  protected stopBase(): Promise<void> {
+    const base = this.mobileBase;
+    if (!base) return Promise.resolve();
+
+    this.baseVelocity = { x: 0, y: 0, theta: 0 };
+    return this.bus.run("emergency", (port) =>
+      this.bus.motorBus.syncWriteRegister(
+        port,
+        base.wheelIds,
+        "Goal_Speed",
+        base.wheelIds.map(() => 0)
+      )
+    );
+  }
+
   get isActiveTeleoperator(): boolean {
     return this.isActive;
   }
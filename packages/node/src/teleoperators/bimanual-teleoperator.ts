@@ -0,0 +1,248 @@
+/**
+ * Bimanual teleoperator for Node.js platform
+ * Drives two arms as one robot, following the Python lerobot bimanual layout
+ */
+
+import type {
+  BaseNodeTeleoperator,
+  NodeTeleoperator,
+  TeleoperatorSpecificState,
+} from "./base-teleoperator.js";
+import { KeyboardTeleoperator } from "./keyboard-teleoperator.js";
+import { DirectTeleoperator } from "./direct-teleoperator.js";
+import type {
+  EmergencyStopOptions,
+  MotorConfig,
+} from "../types/teleoperation.js";
+
+/**
+ * Joint name prefixes of the two arms, left arm first
+ */
+export const BIMANUAL_ARM_PREFIXES = {
+  left: "left_",
+  right: "right_",
+} as const;
+
+export type BimanualArm = keyof typeof BIMANUAL_ARM_PREFIXES;
+
+function prefixMotorConfigs(
+  motorConfigs: MotorConfig[],
+  arm: BimanualArm
+): MotorConfig[] {
+  return motorConfigs.map((config) => ({
+    ...config,
+    name: `${BIMANUAL_ARM_PREFIXES[arm]}${config.name}`,
+  }));
+}
+
+function prefixKeys<T>(
+  values: { [motor: string]: T } | undefined,
+  arm: BimanualArm
+): { [motor: string]: T } {
+  const prefixed: { [motor: string]: T } = {};
+  for (const [name, value] of Object.entries(values ?? {})) {
+    prefixed[`${BIMANUAL_ARM_PREFIXES[arm]}${name}`] = value;
+  }
+  return prefixed;
+}
+
+/**
+ * Composite teleoperator of a left and a right arm
+ * Motor names get left_ and right_ prefixes, left arm first
+ */
+export class BimanualTeleoperator implements NodeTeleoperator {
+  readonly left: BaseNodeTeleoperator;
+  readonly right: BaseNodeTeleoperator;
+  public motorConfigs: MotorConfig[] = [];
+
+  constructor(left: BaseNodeTeleoperator, right: BaseNodeTeleoperator) {
+    this.left = left;
+    this.right = right;
+    this.refreshMotorConfigs();
+  }
+
+  async initialize(): Promise<void> {
+    await this.left.initialize();
+    await this.right.initialize();
+    this.refreshMotorConfigs();
+  }
+
+  start(): void {
+    this.left.start();
+    this.right.start();
+  }
+
+  stop(): void {
+    this.left.stop();
+    this.right.stop();
+  }
+
+  get isActiveTeleoperator(): boolean {
+    return this.left.isActiveTeleoperator || this.right.isActiveTeleoperator;
+  }
+
+  /**
+   * Stop both arms at once, one arm failing does not keep the other running
+   */
+  async emergencyStop(options: EmergencyStopOptions = {}): Promise<void> {
+    const results = await Promise.allSettled([
+      this.left.emergencyStop(options),
+      this.right.emergencyStop(options),
+    ]);
+    for (const result of results) {
+      if (result.status === "rejected") throw result.reason;
+    }
+  }
+
+  get estopped(): boolean {
+    return this.left.estopped || this.right.estopped;
+  }
+
+  async resetEmergencyStop(): Promise<void> {
+    await this.left.resetEmergencyStop();
+    await this.right.resetEmergencyStop();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.left.disconnect();
+    await this.right.disconnect();
+  }
+
+  getState(): TeleoperatorSpecificState {
+    this.refreshMotorConfigs();
+
+    const leftState = this.left.getState();
+    const rightState = this.right.getState();
+    const hasLeaders = !!(
+      leftState.leaderPositions || rightState.leaderPositions
+    );
+    const hasHealth = !!(leftState.motorHealth || rightState.motorHealth);
+
+    return {
+      ...leftState,
+      ...rightState,
+      ...(hasLeaders && {
+        leaderPositions: {
+          ...prefixKeys(leftState.leaderPositions, "left"),
+          ...prefixKeys(rightState.leaderPositions, "right"),
+        },
+      }),
+      ...(hasHealth && {
+        motorHealth: {
+          ...prefixKeys(leftState.motorHealth, "left"),
+          ...prefixKeys(rightState.motorHealth, "right"),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Split prefixed motor configs back onto the two arms
+   */
+  onMotorConfigsUpdate(motorConfigs: MotorConfig[]): void {
+    for (const arm of ["left", "right"] as BimanualArm[]) {
+      const prefix = BIMANUAL_ARM_PREFIXES[arm];
+      this.arm(arm).onMotorConfigsUpdate(
+        motorConfigs
+          .filter((config) => config.name.startsWith(prefix))
+          .map((config) => ({
+            ...config,
+            name: config.name.slice(prefix.length),
+          }))
+      );
+    }
+    this.refreshMotorConfigs();
+  }
+
+  /**
+   * Forward a key press to the arms that use keyboard control
+   */
+  updateKeyState(key: string, pressed: boolean): void {
+    for (const teleoperator of [this.left, this.right]) {
+      if (teleoperator instanceof KeyboardTeleoperator) {
+        teleoperator.updateKeyState(key, pressed);
+      }
+    }
+  }
+
+  /**
+   * Move a motor by its prefixed name, e.g. left_gripper
+   */
+  async moveMotor(motorName: string, targetPosition: number): Promise<boolean> {
+    const target = this.resolveMotor(motorName);
+    if (!target || !(target.teleoperator instanceof DirectTeleoperator)) {
+      return false;
+    }
+
+    return target.teleoperator.moveMotor(target.motorName, targetPosition);
+  }
+
+  /**
+   * Move motors by prefixed name, one sync write per arm
+   */
+  async moveMotors(positions: {
+    [motorName: string]: number;
+  }): Promise<{ [motorName: string]: boolean }> {
+    const results: { [motorName: string]: boolean } = {};
+    const armPositions: { [arm in BimanualArm]: { [motor: string]: number } } =
+      { left: {}, right: {} };
+
+    for (const [motorName, position] of Object.entries(positions)) {
+      const target = this.resolveMotor(motorName);
+      if (!target) {
+        results[motorName] = false;
+        continue;
+      }
+      armPositions[target.arm][target.motorName] = position;
+    }
+
+    for (const arm of ["left", "right"] as BimanualArm[]) {
+      if (Object.keys(armPositions[arm]).length === 0) continue;
+
+      const teleoperator = this.arm(arm);
+      const armResults: { [motor: string]: boolean } =
+        teleoperator instanceof DirectTeleoperator
+          ? await teleoperator.moveMotors(armPositions[arm])
+          : {};
+      for (const motorName of Object.keys(armPositions[arm])) {
+        results[`${BIMANUAL_ARM_PREFIXES[arm]}${motorName}`] =
+          armResults[motorName] ?? false;
+      }
+    }
+
+    return results;
+  }
+
+  private arm(arm: BimanualArm): BaseNodeTeleoperator {
+    return arm === "left" ? this.left : this.right;
+  }
+
+  private resolveMotor(
+    motorName: string
+  ):
+    | {
+        arm: BimanualArm;
+        teleoperator: BaseNodeTeleoperator;
+        motorName: string;
+      }
+    | undefined {
+    for (const arm of ["left", "right"] as BimanualArm[]) {
+      const prefix = BIMANUAL_ARM_PREFIXES[arm];
+      if (motorName.startsWith(prefix)) {
+        return {
+          arm,
+          teleoperator: this.arm(arm),
+          motorName: motorName.slice(prefix.length),
+        };
+      }
+    }
+    return undefined;
+  }
+
+  private refreshMotorConfigs(): void {
+    this.motorConfigs = [
+      ...prefixMotorConfigs(this.left.motorConfigs, "left"),
+      ...prefixMotorConfigs(this.right.motorConfigs, "right"),
+    ];
+  }
+}
@@ -12,32 +12,39 @@ import type {
   MotorConfig,
 } from "../types/teleoperation.js";
 import type { MotorCommunicationPort } from "../utils/motor-communication.js";
+import type { MotorBus } from "../types/motor-bus.js";
+import type { MotionPromise, MoveToOptions } from "../types/motion.js";
+import type { Pose, PoseStorage } from "../types/pose.js";
+import { streamTrajectory } from "../utils/motion.js";
 import {
-  readMotorPosition,
-  writeMotorPosition,
-} from "../utils/motor-communication.js";
+  MemoryPoseStorage,
+  capturePose,
+  poseTargets,
+} from "../utils/pose-library.js";
+import type { MobileBaseConfig } from "../types/robot-config.js";
 
 /**
  * Direct teleoperator provides programmatic motor control
  * Use this when you want to control motors directly from code
  */
 export class DirectTeleoperator extends BaseNodeTeleoperator {
+  private motion: MotionPromise | null = null;
+  private poseStorage: PoseStorage;
+
   constructor(
     config: DirectTeleoperatorConfig,
     port: MotorCommunicationPort,
-    motorConfigs: MotorConfig[]
+    motorConfigs: MotorConfig[],
+    motorBus?: MotorBus,
+    mobileBase?: MobileBaseConfig
   ) {
-    super(port, motorConfigs);
+    super(port, motorConfigs, motorBus, mobileBase);
+    this.poseStorage = config.poseStorage ?? new MemoryPoseStorage();
   }
 
   async initialize(): Promise<void> {
     // Read current motor positions
-    for (const config of this.motorConfigs) {
-      const position = await readMotorPosition(this.port, config.id);
-      if (position !== null) {
-        config.currentPosition = position;
-      }
-    }
+    await this.readCurrentPositions();
   }
 
   start(): void {
@@ -46,10 +53,19 @@ export class DirectTeleoperator extends BaseNodeTeleoperator {
 
   stop(): void {
     this.isActive = false;
+    this.cancelMotion();
+
+    // Stop the mobile base
+    this.stopBase().catch((error) => {
+      console.warn("Failed to stop mobile base:", error);
+    });
   }
 
   getState(): TeleoperatorSpecificState {
-    return {};
+    return {
+      ...(this.hasMobileBase && { baseVelocity: { ...this.baseVelocity } }),
+      ...this.healthState(),
+    };
   }
 
   /**
@@ -67,12 +83,13 @@ export class DirectTeleoperator extends BaseNodeTeleoperator {
     );
 
     try {
-      await writeMotorPosition(
-        this.port,
-        motorConfig.id,
-        Math.round(clampedPosition)
+      // The safety filter may hold the goal back, record what was written
+      const written = await this.bus.writeGoalPositions(
+        [motorConfig.id],
+        [Math.round(clampedPosition)]
       );
-      motorConfig.currentPosition = clampedPosition;
+      motorConfig.currentPosition =
+        written.get(motorConfig.id) ?? motorConfig.currentPosition;
       return true;
     } catch (error) {
       console.warn(`Failed to move motor ${motorName}:`, error);
@@ -81,24 +98,145 @@ export class DirectTeleoperator extends BaseNodeTeleoperator {
   }
 
   /**
-   * Move multiple motors simultaneously
+   * Move multiple motors simultaneously with a single sync write
    */
   async moveMotors(
     positions: { [motorName: string]: number }
   ): Promise<{ [motorName: string]: boolean }> {
     const results: { [motorName: string]: boolean } = {};
-    
-    const promises = Object.entries(positions).map(
-      async ([motorName, position]) => {
-        const success = await this.moveMotor(motorName, position);
-        results[motorName] = success;
+    const targets: { motorConfig: MotorConfig; position: number }[] = [];
+
+    for (const [motorName, targetPosition] of Object.entries(positions)) {
+      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
+      if (!this.isActive || !motorConfig) {
+        results[motorName] = false;
+        continue;
       }
-    );
 
-    await Promise.all(promises);
+      targets.push({
+        motorConfig,
+        position: Math.max(
+          motorConfig.minPosition,
+          Math.min(motorConfig.maxPosition, targetPosition)
+        ),
+      });
+    }
+
+    if (targets.length === 0) return results;
+
+    try {
+      const written = await this.bus.writeGoalPositions(
+        targets.map(({ motorConfig }) => motorConfig.id),
+        targets.map(({ position }) => Math.round(position))
+      );
+      for (const { motorConfig } of targets) {
+        motorConfig.currentPosition =
+          written.get(motorConfig.id) ?? motorConfig.currentPosition;
+        results[motorConfig.name] = true;
+      }
+    } catch (error) {
+      console.warn("Failed to move motors:", error);
+      for (const { motorConfig } of targets) {
+        results[motorConfig.name] = false;
+      }
+    }
+
     return results;
   }
 
+  /**
+   * Move motors by name smoothly to target positions
+   * Goals are interpolated along the profile and streamed at the control
+   * rate, the promise resolves once Present_Position is within tolerance
+   * and the motors stopped moving. A new move or stop() cancels this one
+   */
+  moveTo(
+    positions: { [motorName: string]: number },
+    options: MoveToOptions = {}
+  ): MotionPromise {
+    this.cancelMotion();
+    if (!this.isActive) {
+      return rejectedMotion(
+        new Error("Teleoperation is not active, call start() first")
+      );
+    }
+
+    const motorConfigs: MotorConfig[] = [];
+    const targets: number[] = [];
+    for (const [motorName, targetPosition] of Object.entries(positions)) {
+      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
+      if (!motorConfig) {
+        return rejectedMotion(new Error(`Unknown motor: ${motorName}`));
+      }
+
+      motorConfigs.push(motorConfig);
+      targets.push(
+        Math.max(
+          motorConfig.minPosition,
+          Math.min(motorConfig.maxPosition, targetPosition)
+        )
+      );
+    }
+
+    const motion = streamTrajectory(this.bus, motorConfigs, targets, options);
+    this.motion = motion;
+    return motion;
+  }
+
+  /**
+   * Save the present motor positions as a named pose, replacing a saved
+   * pose of the same name
+   */
+  async savePose(name: string): Promise<Pose> {
+    await this.readCurrentPositions();
+    const pose = capturePose(name, this.motorConfigs);
+    const poses = await this.poseStorage.load();
+    await this.poseStorage.save([
+      ...poses.filter((saved) => saved.name !== name),
+      pose,
+    ]);
+    return pose;
+  }
+
+  /**
+   * Saved poses of this robot in the order they were first saved
+   */
+  listPoses(): Promise<Pose[]> {
+    return this.poseStorage.load();
+  }
+
+  /**
+   * Remove a saved pose, false when there was none of that name
+   */
+  async deletePose(name: string): Promise<boolean> {
+    const poses = await this.poseStorage.load();
+    const remaining = poses.filter((saved) => saved.name !== name);
+    if (remaining.length === poses.length) return false;
+
+    await this.poseStorage.save(remaining);
+    return true;
+  }
+
+  /**
+   * Move smoothly to a saved pose, options as for moveTo()
+   */
+  async goToPose(name: string, options: MoveToOptions = {}): Promise<void> {
+    const poses = await this.poseStorage.load();
+    const pose = poses.find((saved) => saved.name === name);
+    if (!pose) {
+      throw new Error(`Unknown pose: ${name}`);
+    }
+
+    await this.moveTo(poseTargets(pose, this.motorConfigs), options);
+  }
+
+  private cancelMotion(): void {
+    if (this.motion) {
+      this.motion.cancel();
+      this.motion = null;
+    }
+  }
+
   /**
    * Get current motor positions
    */
@@ -109,4 +247,8 @@ export class DirectTeleoperator extends BaseNodeTeleoperator {
     }
     return positions;
   }
-} 
\ No newline at end of file
+} 
+
+function rejectedMotion(error: Error): MotionPromise {
+  return Object.assign(Promise.reject(error), { cancel: () => {} });
+}
@@ -0,0 +1,86 @@
+/**
+ * Gamepad teleoperator tests
+ * Drive a simulated arm from a recorded joystick event stream
+ */
+
+import { describe, it, expect } from "vitest";
+import { PassThrough } from "stream";
+import { SimulatedMotorBus } from "../utils/simulated-motor-bus.js";
+import {
+  JoystickStreamReader,
+  JOYSTICK_EVENT_TYPES,
+} from "../utils/joystick-reader.js";
+import { teleoperate } from "../teleoperate.js";
+import type { RobotConnection } from "../types/robot-connection.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function jsEvent(value: number, type: number, number: number) {
+  const data = new Uint8Array(8);
+  const view = new DataView(data.buffer);
+  view.setInt16(4, value, true);
+  view.setUint8(6, type);
+  view.setUint8(7, number);
+  return data;
+}
+
+function simulatedRobot(bus: SimulatedMotorBus): RobotConnection {
+  return {
+    port: bus,
+    name: "Simulated SO-100",
+    isConnected: true,
+    robotType: "so100_follower",
+    serialNumber: "simulated",
+  };
+}
+
+describe("GamepadTeleoperator", () => {
+  it("should move joints from joystick events and stop on e-stop", async () => {
+    const bus = new SimulatedMotorBus();
+    const stream = new PassThrough();
+
+    const teleoperation = await teleoperate({
+      robot: simulatedRobot(bus),
+      teleop: {
+        type: "gamepad",
+        expo: 0,
+        reader: new JoystickStreamReader(() => stream),
+      },
+    });
+    const start = teleoperation.getState().motorConfigs[0].currentPosition;
+    teleoperation.start();
+
+    // Left stick fully right drives shoulder_pan
+    stream.write(jsEvent(32767, JOYSTICK_EVENT_TYPES.AXIS, 0));
+    await sleep(50);
+
+    const pan = teleoperation.getState().motorConfigs[0].currentPosition;
+    expect(pan).toBeGreaterThan(start);
+    expect(bus.getRegisterValue(1, "Goal_Position")).toBe(Math.round(pan));
+    expect(teleoperation.getState().gamepadState?.axes).toEqual([1]);
+
+    // B latches the emergency stop
+    stream.write(jsEvent(1, JOYSTICK_EVENT_TYPES.BUTTON, 1));
+    await sleep(30);
+    expect(teleoperation.getState()).toMatchObject({
+      isActive: false,
+      estopped: true,
+    });
+  });
+
+  it("should release torque on an emergency stop when asked", async () => {
+    const bus = new SimulatedMotorBus();
+    const teleoperation = await teleoperate({
+      robot: simulatedRobot(bus),
+      teleop: { type: "direct" },
+    });
+    bus.setRegisterValue(1, "Torque_Enable", 1);
+
+    await teleoperation.emergencyStop({ disableTorque: true });
+    expect(bus.getRegisterValue(1, "Torque_Enable")).toBe(0);
+    expect(teleoperation.getState().estopped).toBe(true);
+
+    await teleoperation.resetEmergencyStop();
+    expect(teleoperation.getState().estopped).toBe(false);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Gamepad teleoperator for Node.js platform using Linux joystick devices
+ */
+
+import {
+  BaseNodeTeleoperator,
+  type TeleoperatorSpecificState,
+} from "./base-teleoperator.js";
+import {
+  CARTESIAN_GAMEPAD_AXIS_MAPPING,
+  CARTESIAN_GAMEPAD_BUTTON_MAPPING,
+  GAMEPAD_AXIS_MAPPING,
+  GAMEPAD_BUTTON_MAPPING,
+  gamepadVelocities,
+} from "../utils/gamepad-mapping.js";
+import { CartesianController } from "../utils/cartesian-control.js";
+import {
+  openJoystickDevice,
+  type GamepadReader,
+  type JoystickEvent,
+} from "../utils/joystick-reader.js";
+import type {
+  GamepadButtonControl,
+  GamepadTeleoperatorConfig,
+  MotorConfig,
+  TeleoperationState,
+} from "../types/teleoperation.js";
+import type { MotorCommunicationPort } from "../utils/motor-communication.js";
+import type { MotorBus } from "../types/motor-bus.js";
+import type { ArmKinematicsConfig } from "../types/robot-config.js";
+
+/**
+ * Default configuration values for gamepad teleoperator
+ */
+export const GAMEPAD_TELEOPERATOR_DEFAULTS = {
+  controllerIndex: 0, // /dev/input/js0
+  deadzone: 0.1, // Stick travel ignored around the center
+  expo: 0.5, // Halfway between linear and cubic response
+  maxSpeed: 960, // Position units per second (keyboard step size at 120 Hz)
+  updateRate: 120, // Control loop FPS, matches the keyboard teleoperator
+  emergencyStopButton: 1, // B on Xbox style pads
+  mode: "joint", // Sticks move single joints
+  linearSpeed: 0.1, // End-effector speed in m/s at full deflection (cartesian mode)
+  angularSpeed: 90, // End-effector pitch/roll in deg/s at full deflection (cartesian mode)
+} as const;
+
+// Largest magnitude of a js_event axis value
+const MAX_AXIS_VALUE = 32767;
+
+export class GamepadTeleoperator extends BaseNodeTeleoperator {
+  private reader: GamepadReader;
+  private updateInterval: NodeJS.Timeout | null = null;
+  private connected: boolean = false;
+  private axes: number[] = [];
+  private buttons: { pressed: boolean; value: number }[] = [];
+  private onStateUpdate?: (state: TeleoperationState) => void;
+  private cartesianControl: CartesianController | null = null;
+
+  // Configuration values
+  private readonly axisMapping: { [axis: string]: string };
+  private readonly buttonMapping: { [button: string]: GamepadButtonControl };
+  private readonly deadzone: number;
+  private readonly expo: number;
+  private readonly maxSpeed: number;
+  private readonly updateRate: number;
+  private readonly emergencyStopButton: number;
+
+  constructor(
+    config: GamepadTeleoperatorConfig,
+    port: MotorCommunicationPort,
+    motorConfigs: MotorConfig[],
+    onStateUpdate?: (state: TeleoperationState) => void,
+    motorBus?: MotorBus,
+    kinematics?: ArmKinematicsConfig
+  ) {
+    super(port, motorConfigs, motorBus);
+    this.onStateUpdate = onStateUpdate;
+
+    const cartesian =
+      (config.mode ?? GAMEPAD_TELEOPERATOR_DEFAULTS.mode) === "cartesian";
+    if (cartesian) {
+      if (!kinematics) {
+        throw new Error(
+          "Cartesian teleoperation needs a robot with a kinematic chain"
+        );
+      }
+      this.cartesianControl = new CartesianController(
+        kinematics,
+        this.motorConfigs,
+        config.linearSpeed ?? GAMEPAD_TELEOPERATOR_DEFAULTS.linearSpeed,
+        config.angularSpeed ?? GAMEPAD_TELEOPERATOR_DEFAULTS.angularSpeed
+      );
+    }
+
+    // Set configuration values
+    this.axisMapping =
+      config.axisMapping ??
+      (cartesian ? CARTESIAN_GAMEPAD_AXIS_MAPPING : GAMEPAD_AXIS_MAPPING);
+    this.buttonMapping =
+      config.buttonMapping ??
+      (cartesian ? CARTESIAN_GAMEPAD_BUTTON_MAPPING : GAMEPAD_BUTTON_MAPPING);
+    this.deadzone = config.deadzone ?? GAMEPAD_TELEOPERATOR_DEFAULTS.deadzone;
+    this.expo = config.expo ?? GAMEPAD_TELEOPERATOR_DEFAULTS.expo;
+    this.maxSpeed = config.maxSpeed ?? GAMEPAD_TELEOPERATOR_DEFAULTS.maxSpeed;
+    this.updateRate =
+      config.updateRate ?? GAMEPAD_TELEOPERATOR_DEFAULTS.updateRate;
+    this.emergencyStopButton =
+      config.emergencyStopButton ??
+      GAMEPAD_TELEOPERATOR_DEFAULTS.emergencyStopButton;
+
+    const controllerIndex =
+      config.controllerIndex ?? GAMEPAD_TELEOPERATOR_DEFAULTS.controllerIndex;
+    this.reader =
+      config.reader ??
+      openJoystickDevice(config.device ?? `/dev/input/js${controllerIndex}`);
+  }
+
+  async initialize(): Promise<void> {
+    // Read current motor positions
+    await this.readCurrentPositions();
+  }
+
+  start(): void {
+    if (this.isActive) return;
+
+    this.isActive = true;
+    this.connected = true;
+    this.reader.start(
+      (event) => this.handleEvent(event),
+      (error) => {
+        if (error) {
+          console.warn("Gamepad disconnected:", error.message);
+        }
+        this.connected = false;
+        this.axes = [];
+        this.buttons = [];
+      }
+    );
+
+    this.updateInterval = setInterval(() => {
+      this.updateMotorPositions();
+    }, 1000 / this.updateRate);
+  }
+
+  stop(): void {
+    if (!this.isActive) return;
+
+    this.isActive = false;
+
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+
+    this.reader.stop();
+    this.connected = false;
+
+    // Notify UI of state change
+    if (this.onStateUpdate) {
+      this.onStateUpdate(this.buildTeleoperationState());
+    }
+  }
+
+  getState(): TeleoperatorSpecificState {
+    return {
+      gamepadState: {
+        axes: [...this.axes],
+        buttons: this.buttons.map((button) => button.pressed),
+      },
+      ...(this.cartesianControl && {
+        endEffectorPose: this.cartesianControl.getPose(),
+      }),
+      ...this.healthState(),
+    };
+  }
+
+  private buildTeleoperationState(): TeleoperationState {
+    return {
+      isActive: this.isActive,
+      motorConfigs: [...this.motorConfigs],
+      lastUpdate: Date.now(),
+      ...this.getState(),
+    };
+  }
+
+  /**
+   * Track the latest value of every axis and button
+   */
+  private handleEvent(event: JoystickEvent): void {
+    if (event.type === "axis") {
+      while (this.axes.length <= event.number) this.axes.push(0);
+      this.axes[event.number] = Math.max(
+        -1,
+        Math.min(1, event.value / MAX_AXIS_VALUE)
+      );
+      return;
+    }
+
+    while (this.buttons.length <= event.number) {
+      this.buttons.push({ pressed: false, value: 0 });
+    }
+    this.buttons[event.number] = {
+      pressed: event.value !== 0,
+      value: event.value !== 0 ? 1 : 0,
+    };
+  }
+
+  /**
+   * Velocity times cycle time, clamped to the motor limits
+   */
+  private jointTargetPositions(velocities: { [motorName: string]: number }): {
+    [motorName: string]: number;
+  } {
+    const targetPositions: { [motorName: string]: number } = {};
+
+    for (const [motorName, velocity] of Object.entries(velocities)) {
+      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
+      if (!motorConfig) continue;
+
+      targetPositions[motorName] = Math.max(
+        motorConfig.minPosition,
+        Math.min(
+          motorConfig.maxPosition,
+          motorConfig.currentPosition +
+            (velocity * this.maxSpeed) / this.updateRate
+        )
+      );
+    }
+
+    return targetPositions;
+  }
+
+  /**
+   * Move the arm
+   */
+  private async updateMotorPositions(): Promise<void> {
+    if (!this.connected) return;
+
+    // Emergency stop check
+    if (this.buttons[this.emergencyStopButton]?.pressed) {
+      this.emergencyStop().catch((error) => {
+        console.warn("Emergency stop failed:", error);
+      });
+      return;
+    }
+
+    const velocities = gamepadVelocities(
+      { axes: this.axes, buttons: this.buttons },
+      this.axisMapping,
+      this.buttonMapping,
+      this.deadzone,
+      this.expo
+    );
+
+    const targetPositions = this.cartesianControl
+      ? this.cartesianControl.targetPositions(
+          velocities,
+          this.maxSpeed,
+          1 / this.updateRate
+        )
+      : this.jointTargetPositions(velocities);
+
+    const changedMotors: {
+      motorConfig: MotorConfig;
+      targetPosition: number;
+    }[] = [];
+    for (const [motorName, targetPosition] of Object.entries(
+      targetPositions
+    )) {
+      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
+      if (motorConfig && targetPosition !== motorConfig.currentPosition) {
+        changedMotors.push({ motorConfig, targetPosition });
+      }
+    }
+
+    if (changedMotors.length === 0) return;
+
+    try {
+      await this.bus.writeGoalPositions(
+        changedMotors.map(({ motorConfig }) => motorConfig.id),
+        changedMotors.map(({ targetPosition }) => Math.round(targetPosition))
+      );
+
+      // Keep fractional targets, so slow stick motion adds up
+      changedMotors.forEach(({ motorConfig, targetPosition }) => {
+        motorConfig.currentPosition = targetPosition;
+      });
+    } catch (error) {
+      console.warn("Failed to write motor positions:", error);
+      return;
+    }
+
+    // Notify UI of position change
+    if (this.onStateUpdate) {
+      this.onStateUpdate(this.buildTeleoperationState());
+    }
+  }
+}
@@ -11,4 +11,17 @@ export {
   KeyboardTeleoperator,
   KEYBOARD_TELEOPERATOR_DEFAULTS,
 } from "./keyboard-teleoperator.js";
-export { DirectTeleoperator } from "./direct-teleoperator.js"; 
\ No newline at end of file
+export { DirectTeleoperator } from "./direct-teleoperator.js";
+export {
+  LeaderArmTeleoperator,
+  LEADER_ARM_TELEOPERATOR_DEFAULTS,
+} from "./leader-arm-teleoperator.js";
+export {
+  GamepadTeleoperator,
+  GAMEPAD_TELEOPERATOR_DEFAULTS,
+} from "./gamepad-teleoperator.js";
+export {
+  BimanualTeleoperator,
+  BIMANUAL_ARM_PREFIXES,
+  type BimanualArm,
+} from "./bimanual-teleoperator.js";
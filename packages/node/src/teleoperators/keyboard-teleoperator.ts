@@ -6,17 +6,23 @@ import {
   BaseNodeTeleoperator,
   type TeleoperatorSpecificState,
 } from "./base-teleoperator.js";
-import type { KeyboardControl } from "../types/robot-config.js";
+import {
+  CartesianController,
+  CARTESIAN_KEYBOARD_CONTROLS,
+} from "../utils/cartesian-control.js";
+import type {
+  ArmKinematicsConfig,
+  BaseVelocity,
+  KeyboardControl,
+  MobileBaseConfig,
+} from "../types/robot-config.js";
 import type {
   KeyboardTeleoperatorConfig,
   MotorConfig,
   TeleoperationState,
 } from "../types/teleoperation.js";
 import type { MotorCommunicationPort } from "../utils/motor-communication.js";
-import {
-  readMotorPosition,
-  writeMotorPosition,
-} from "../utils/motor-communication.js";
+import type { MotorBus } from "../types/motor-bus.js";
 
 /**
  * Default configuration values for keyboard teleoperator
@@ -25,6 +31,11 @@ export const KEYBOARD_TELEOPERATOR_DEFAULTS = {
   stepSize: 8, // Keep browser demo step size
   updateRate: 120, // Higher frequency for smoother movement (120 Hz)
   keyTimeout: 150, // Shorter for better single taps, accept some gap on hold
+  baseLinearSpeed: 0.1, // Mobile base speed in m/s while a base key is held
+  baseAngularSpeed: 30, // Mobile base rotation in deg/s while a base key is held
+  mode: "joint", // Keys move single joints
+  linearSpeed: 0.05, // End-effector speed in m/s while a key is held (cartesian mode)
+  angularSpeed: 45, // End-effector pitch/roll in deg/s while a key is held (cartesian mode)
 } as const;
 
 export class KeyboardTeleoperator extends BaseNodeTeleoperator {
@@ -34,20 +45,27 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
     [key: string]: { pressed: boolean; timestamp: number };
   } = {};
   private onStateUpdate?: (state: TeleoperationState) => void;
+  private cartesianControl: CartesianController | null = null;
+  private requestedBaseVelocity: BaseVelocity = { x: 0, y: 0, theta: 0 };
 
   // Configuration values
   private readonly stepSize: number;
   private readonly updateRate: number;
   private readonly keyTimeout: number;
+  private readonly baseLinearSpeed: number;
+  private readonly baseAngularSpeed: number;
 
   constructor(
     config: KeyboardTeleoperatorConfig,
     port: MotorCommunicationPort,
     motorConfigs: MotorConfig[],
     keyboardControls: { [key: string]: KeyboardControl },
-    onStateUpdate?: (state: TeleoperationState) => void
+    onStateUpdate?: (state: TeleoperationState) => void,
+    motorBus?: MotorBus,
+    mobileBase?: MobileBaseConfig,
+    kinematics?: ArmKinematicsConfig
   ) {
-    super(port, motorConfigs);
+    super(port, motorConfigs, motorBus, mobileBase);
     this.keyboardControls = keyboardControls;
     this.onStateUpdate = onStateUpdate;
 
@@ -57,6 +75,30 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
       config.updateRate ?? KEYBOARD_TELEOPERATOR_DEFAULTS.updateRate;
     this.keyTimeout =
       config.keyTimeout ?? KEYBOARD_TELEOPERATOR_DEFAULTS.keyTimeout;
+    this.baseLinearSpeed =
+      config.baseLinearSpeed ?? KEYBOARD_TELEOPERATOR_DEFAULTS.baseLinearSpeed;
+    this.baseAngularSpeed =
+      config.baseAngularSpeed ??
+      KEYBOARD_TELEOPERATOR_DEFAULTS.baseAngularSpeed;
+
+    // Cartesian mode: arm keys move the end-effector, base keys stay
+    if ((config.mode ?? KEYBOARD_TELEOPERATOR_DEFAULTS.mode) === "cartesian") {
+      if (!kinematics) {
+        throw new Error(
+          "Cartesian teleoperation needs a robot with a kinematic chain"
+        );
+      }
+      this.cartesianControl = new CartesianController(
+        kinematics,
+        this.motorConfigs,
+        config.linearSpeed ?? KEYBOARD_TELEOPERATOR_DEFAULTS.linearSpeed,
+        config.angularSpeed ?? KEYBOARD_TELEOPERATOR_DEFAULTS.angularSpeed
+      );
+      this.keyboardControls = {
+        ...keyboardControls,
+        ...CARTESIAN_KEYBOARD_CONTROLS,
+      };
+    }
   }
 
   async initialize(): Promise<void> {
@@ -71,12 +113,7 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
     process.stdin.on("data", this.handleKeyboardInput.bind(this));
 
     // Read current motor positions
-    for (const config of this.motorConfigs) {
-      const position = await readMotorPosition(this.port, config.id);
-      if (position !== null) {
-        config.currentPosition = position;
-      }
-    }
+    await this.readCurrentPositions();
   }
 
   start(): void {
@@ -104,6 +141,12 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
     // Clear all key states
     this.keyStates = {};
 
+    // Stop the mobile base
+    this.requestedBaseVelocity = { x: 0, y: 0, theta: 0 };
+    this.stopBase().catch((error) => {
+      console.warn("Failed to stop mobile base:", error);
+    });
+
     // Notify of state change
     if (this.onStateUpdate) {
       this.onStateUpdate(this.buildTeleoperationState());
@@ -113,6 +156,11 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
   getState(): TeleoperatorSpecificState {
     return {
       keyStates: { ...this.keyStates },
+      ...(this.hasMobileBase && { baseVelocity: { ...this.baseVelocity } }),
+      ...(this.cartesianControl && {
+        endEffectorPose: this.cartesianControl.getPose(),
+      }),
+      ...this.healthState(),
     };
   }
 
@@ -128,13 +176,16 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
 
     // Handle special keys
     if (key === "\u0003") {
-      // Ctrl+C
-      process.exit(0);
+      // Ctrl+C - raw mode swallows the signal, raise it for SIGINT handlers
+      process.kill(process.pid, "SIGINT");
+      return;
     }
 
     if (key === "\u001b") {
       // Escape
-      this.stop();
+      this.emergencyStop().catch((error) => {
+        console.warn("Emergency stop failed:", error);
+      });
       return;
     }
 
@@ -172,7 +223,10 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
     );
 
     // Send motor command immediately
-    writeMotorPosition(this.port, motorConfig.id, Math.round(clampedPosition))
+    this.bus.writeGoalPositions(
+      [motorConfig.id],
+      [Math.round(clampedPosition)]
+    )
       .then(() => {
         motorConfig.currentPosition = clampedPosition;
       })
@@ -200,53 +254,70 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
 
     // Emergency stop check
     if (activeKeys.includes("Escape")) {
-      this.stop();
+      this.emergencyStop().catch((error) => {
+        console.warn("Emergency stop failed:", error);
+      });
       return;
     }
 
     // Calculate target positions based on active keys
-    const targetPositions: { [motorName: string]: number } = {};
-
-    for (const key of activeKeys) {
-      const control = this.keyboardControls[key];
-      if (!control || control.motor === "emergency_stop") continue;
-
-      const motorConfig = this.motorConfigs.find(
-        (m) => m.name === control.motor
+    const targetPositions = this.cartesianControl
+      ? this.cartesianControl.targetPositions(
+          this.keyVelocities(activeKeys),
+          this.stepSize * this.updateRate,
+          1 / this.updateRate
+        )
+      : this.jointTargetPositions(activeKeys);
+
+    this.updateBaseVelocity(activeKeys);
+
+    // Send all changed motors in one sync write and update positions
+    const changedMotors = Object.entries(targetPositions)
+      .map(([motorName, targetPosition]) => ({
+        motorConfig: this.motorConfigs.find((m) => m.name === motorName),
+        targetPosition,
+      }))
+      .filter(
+        (entry): entry is { motorConfig: MotorConfig; targetPosition: number } =>
+          !!entry.motorConfig &&
+          entry.targetPosition !== entry.motorConfig.currentPosition
       );
-      if (!motorConfig) continue;
 
-      // Calculate new position
-      const currentTarget =
-        targetPositions[motorConfig.name] ?? motorConfig.currentPosition;
-      const newPosition = currentTarget + control.direction * this.stepSize;
+    if (changedMotors.length === 0) return;
 
-      // Apply limits
-      targetPositions[motorConfig.name] = Math.max(
-        motorConfig.minPosition,
-        Math.min(motorConfig.maxPosition, newPosition)
-      );
+    this.bus.writeGoalPositions(
+      changedMotors.map(({ motorConfig }) => motorConfig.id),
+      changedMotors.map(({ targetPosition }) => Math.round(targetPosition))
+    )
+      .then(() => {
+        changedMotors.forEach(({ motorConfig, targetPosition }) => {
+          motorConfig.currentPosition = targetPosition;
+        });
+      })
+      .catch((error) => {
+        console.warn("Failed to write motor positions:", error);
+      });
+  }
+
+  /**
+   * Drive the mobile base from the held base keys
+   */
+  private updateBaseVelocity(activeKeys: string[]): void {
+    if (!this.hasMobileBase) return;
+
+    const target = this.baseVelocityFromKeys(activeKeys);
+    const requested = this.requestedBaseVelocity;
+    if (
+      target.x === requested.x &&
+      target.y === requested.y &&
+      target.theta === requested.theta
+    ) {
+      return;
     }
 
-    // Send motor commands and update positions
-    Object.entries(targetPositions).forEach(([motorName, targetPosition]) => {
-      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
-      if (motorConfig && targetPosition !== motorConfig.currentPosition) {
-        writeMotorPosition(
-          this.port,
-          motorConfig.id,
-          Math.round(targetPosition)
-        )
-          .then(() => {
-            motorConfig.currentPosition = targetPosition;
-          })
-          .catch((error) => {
-            console.warn(
-              `Failed to write motor ${motorConfig.id} position:`,
-              error
-            );
-          });
-      }
+    this.requestedBaseVelocity = target;
+    this.setBaseVelocity(target).catch((error) => {
+      console.warn("Failed to drive mobile base:", error);
     });
   }
 
@@ -265,6 +336,12 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
       e: "e",
       o: "o",
       c: "c",
+      i: "i",
+      k: "k",
+      j: "j",
+      l: "l",
+      z: "z",
+      x: "x",
     };
 
     return keyMap[key] || null;
@@ -272,10 +349,22 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
 
   private displayControls(): void {
     console.log("\n=== Robot Teleoperation Controls ===");
-    console.log("Arrow Keys: Shoulder pan/lift");
-    console.log("WASD: Elbow flex / Wrist flex");
-    console.log("Q/E: Wrist roll");
+    if (this.cartesianControl) {
+      console.log("Arrow Keys: Gripper forward/backward, left/right");
+      console.log("W/S: Gripper up/down");
+      console.log("A/D: Tilt down/up");
+      console.log("Q/E: Roll left/right");
+    } else {
+      console.log("Arrow Keys: Shoulder pan/lift");
+      console.log("WASD: Elbow flex / Wrist flex");
+      console.log("Q/E: Wrist roll");
+    }
     console.log("O/C: Gripper open/close");
+    if (this.hasMobileBase) {
+      console.log("I/K: Base forward/backward");
+      console.log("J/L: Base left/right");
+      console.log("Z/X: Base rotate left/right");
+    }
     console.log("ESC: Emergency stop");
     console.log("Ctrl+C: Exit");
     console.log("=====================================\n");
@@ -286,7 +375,82 @@ export class KeyboardTeleoperator extends BaseNodeTeleoperator {
       isActive: this.isActive,
       motorConfigs: [...this.motorConfigs],
       lastUpdate: Date.now(),
-      keyStates: { ...this.keyStates },
+      ...this.getState(),
     };
   }
+
+  /**
+   * Joint target positions, every held key moves its motor by stepSize
+   */
+  private jointTargetPositions(activeKeys: string[]): {
+    [motorName: string]: number;
+  } {
+    const targetPositions: { [motorName: string]: number } = {};
+
+    for (const key of activeKeys) {
+      const control = this.keyboardControls[key];
+      if (!control || control.motor === "emergency_stop") continue;
+
+      const motorConfig = this.motorConfigs.find(
+        (m) => m.name === control.motor
+      );
+      if (!motorConfig) continue;
+
+      // Calculate new position
+      const currentTarget =
+        targetPositions[motorConfig.name] ?? motorConfig.currentPosition;
+      const newPosition = currentTarget + control.direction * this.stepSize;
+
+      // Apply limits
+      targetPositions[motorConfig.name] = Math.max(
+        motorConfig.minPosition,
+        Math.min(motorConfig.maxPosition, newPosition)
+      );
+    }
+
+    return targetPositions;
+  }
+
+  /**
+   * Held keys as velocities from -1 to 1 per motor or cartesian axis
+   */
+  private keyVelocities(activeKeys: string[]): { [name: string]: number } {
+    const velocities: { [name: string]: number } = {};
+
+    for (const key of activeKeys) {
+      const control = this.keyboardControls[key];
+      if (!control || control.motor === "emergency_stop") continue;
+
+      velocities[control.motor] =
+        (velocities[control.motor] ?? 0) + control.direction;
+    }
+
+    return velocities;
+  }
+
+  /**
+   * Body velocity requested by the held base keys
+   */
+  private baseVelocityFromKeys(activeKeys: string[]): BaseVelocity {
+    const velocity: BaseVelocity = { x: 0, y: 0, theta: 0 };
+
+    for (const key of activeKeys) {
+      const control = this.keyboardControls[key];
+      if (!control) continue;
+
+      switch (control.motor) {
+        case "base_x":
+          velocity.x += control.direction * this.baseLinearSpeed;
+          break;
+        case "base_y":
+          velocity.y += control.direction * this.baseLinearSpeed;
+          break;
+        case "base_theta":
+          velocity.theta += control.direction * this.baseAngularSpeed;
+          break;
+      }
+    }
+
+    return velocity;
+  }
 }
@@ -0,0 +1,72 @@
+/**
+ * Leader arm teleoperator tests
+ * Mirror a simulated leader arm on a simulated follower
+ */
+
+import { describe, it, expect } from "vitest";
+import { SimulatedMotorBus } from "../utils/simulated-motor-bus.js";
+import { teleoperate } from "../teleoperate.js";
+import { SO100_CONFIG } from "../robots/so100_config.js";
+import type { RobotConnection } from "../types/robot-connection.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function simulatedArm(
+  bus: SimulatedMotorBus,
+  robotType: string
+): RobotConnection {
+  return {
+    port: bus,
+    name: `Simulated ${robotType}`,
+    isConnected: true,
+    robotType,
+    serialNumber: "simulated",
+  };
+}
+
+function calibration(rangeMin: number, rangeMax: number) {
+  return Object.fromEntries(
+    SO100_CONFIG.motorNames.map((name, i) => [
+      name,
+      {
+        id: SO100_CONFIG.motorIds[i],
+        drive_mode: 0,
+        homing_offset: 0,
+        range_min: rangeMin,
+        range_max: rangeMax,
+      },
+    ])
+  );
+}
+
+describe("LeaderArmTeleoperator", () => {
+  it("should map leader positions through both calibrations", async () => {
+    const followerBus = new SimulatedMotorBus();
+    const leaderBus = new SimulatedMotorBus();
+
+    const teleoperation = await teleoperate({
+      robot: simulatedArm(followerBus, "so100_follower"),
+      teleop: {
+        type: "so100_leader",
+        leader: simulatedArm(leaderBus, "so100_leader"),
+        calibrationData: calibration(1000, 3000),
+        updateRate: 200,
+      },
+      calibrationData: calibration(0, 4000),
+    });
+
+    // The leader is moved by hand
+    expect(leaderBus.getRegisterValue(1, "Torque_Enable")).toBe(0);
+
+    leaderBus.setPresentPosition(1, 2500); // shoulder_pan at 50
+    leaderBus.setPresentPosition(6, 1500); // gripper at 25
+    teleoperation.start();
+    await sleep(50);
+
+    expect(followerBus.getRegisterValue(1, "Goal_Position")).toBe(3000);
+    expect(followerBus.getRegisterValue(6, "Goal_Position")).toBe(1000);
+    expect(teleoperation.getState().leaderPositions?.shoulder_pan).toBe(50);
+
+    teleoperation.stop();
+  });
+});
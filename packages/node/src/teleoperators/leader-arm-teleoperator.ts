@@ -0,0 +1,212 @@
+/**
+ * Leader arm teleoperator for Node.js platform
+ * The follower mirrors a hand-moved leader arm, following the Python lerobot
+ * so100_leader teleoperator
+ */
+
+import {
+  BaseNodeTeleoperator,
+  type TeleoperatorSpecificState,
+} from "./base-teleoperator.js";
+import { BusScheduler } from "../utils/bus-scheduler.js";
+import {
+  normalizeMotorValue,
+  unnormalizeMotorValue,
+} from "../utils/motor-normalization.js";
+import type {
+  LeaderArmTeleoperatorConfig,
+  MotorConfig,
+  TeleoperationState,
+} from "../types/teleoperation.js";
+import type { MotorCommunicationPort } from "../utils/motor-communication.js";
+import type { SerialPort } from "../types/robot-connection.js";
+import type { MotorBus } from "../types/motor-bus.js";
+
+/**
+ * Default configuration values for leader arm teleoperator
+ */
+export const LEADER_ARM_TELEOPERATOR_DEFAULTS = {
+  updateRate: 60, // Goal writes per second (Python lerobot teleoperate fps)
+  positionSmoothing: false, // Exponential smoothing of leader positions
+  smoothingFactor: 0.5, // Weight of a new leader reading while smoothing
+  scaleFactor: 1, // Multiplies normalized leader positions
+} as const;
+
+export class LeaderArmTeleoperator extends BaseNodeTeleoperator {
+  public leaderMotorConfigs: MotorConfig[];
+  private leaderPort: MotorCommunicationPort & Pick<SerialPort, "close">;
+  private leaderBus: BusScheduler;
+  private leaderPositions: { [motor: string]: number } = {};
+  private updateInterval: NodeJS.Timeout | null = null;
+  private isUpdating: boolean = false;
+  private onStateUpdate?: (state: TeleoperationState) => void;
+
+  // Configuration values
+  private readonly updateRate: number;
+  private readonly positionSmoothing: boolean;
+  private readonly scaleFactor: number;
+
+  constructor(
+    config: LeaderArmTeleoperatorConfig,
+    port: MotorCommunicationPort,
+    motorConfigs: MotorConfig[],
+    leaderPort: MotorCommunicationPort & Pick<SerialPort, "close">,
+    leaderMotorConfigs: MotorConfig[],
+    onStateUpdate?: (state: TeleoperationState) => void,
+    motorBus?: MotorBus,
+    leaderMotorBus?: MotorBus
+  ) {
+    super(port, motorConfigs, motorBus);
+    this.leaderPort = leaderPort;
+    this.leaderBus = new BusScheduler(leaderPort, leaderMotorBus);
+    this.leaderMotorConfigs = leaderMotorConfigs;
+    this.onStateUpdate = onStateUpdate;
+
+    // Set configuration values
+    this.updateRate =
+      config.updateRate ?? LEADER_ARM_TELEOPERATOR_DEFAULTS.updateRate;
+    this.positionSmoothing =
+      config.positionSmoothing ??
+      LEADER_ARM_TELEOPERATOR_DEFAULTS.positionSmoothing;
+    this.scaleFactor =
+      config.scaleFactor ?? LEADER_ARM_TELEOPERATOR_DEFAULTS.scaleFactor;
+  }
+
+  async initialize(): Promise<void> {
+    // Read current positions of both arms
+    await this.readCurrentPositions();
+    await this.readLeaderPositions();
+  }
+
+  start(): void {
+    if (this.isActive) return;
+
+    this.isActive = true;
+    this.updateInterval = setInterval(() => {
+      this.update();
+    }, 1000 / this.updateRate);
+  }
+
+  stop(): void {
+    if (!this.isActive) return;
+
+    this.isActive = false;
+
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+
+    // Notify UI of state change
+    if (this.onStateUpdate) {
+      this.onStateUpdate(this.buildTeleoperationState());
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await super.disconnect();
+    await this.leaderPort.close();
+  }
+
+  /**
+   * Leader positions are normalized, scaled and smoothed
+   */
+  getState(): TeleoperatorSpecificState {
+    return {
+      leaderPositions: { ...this.leaderPositions },
+      ...this.healthState(),
+    };
+  }
+
+  private buildTeleoperationState(): TeleoperationState {
+    return {
+      isActive: this.isActive,
+      motorConfigs: [...this.motorConfigs],
+      lastUpdate: Date.now(),
+      ...this.getState(),
+    };
+  }
+
+  /**
+   * Refresh the leader positions from hardware
+   * Raw positions are normalized with the leader calibration
+   */
+  private async readLeaderPositions(): Promise<void> {
+    const positions = await this.leaderBus.run("read", (port) =>
+      this.leaderBus.motorBus.syncReadRegister(
+        port,
+        this.leaderMotorConfigs.map((config) => config.id),
+        "Present_Position"
+      )
+    );
+
+    this.leaderMotorConfigs.forEach((config, index) => {
+      config.currentPosition = positions[index];
+
+      const position =
+        normalizeMotorValue(positions[index], config) * this.scaleFactor;
+      const previous = this.leaderPositions[config.name];
+      this.leaderPositions[config.name] =
+        this.positionSmoothing && previous !== undefined
+          ? previous +
+            LEADER_ARM_TELEOPERATOR_DEFAULTS.smoothingFactor *
+              (position - previous)
+          : position;
+    });
+  }
+
+  /**
+   * Follower motor configs at the goal positions of the current leader
+   * positions, unnormalized with the follower calibration
+   */
+  private goalMotorConfigs(): MotorConfig[] {
+    return this.motorConfigs.map((config) => {
+      const leaderPosition = this.leaderPositions[config.name];
+      if (leaderPosition === undefined) return { ...config };
+
+      const goal = unnormalizeMotorValue(leaderPosition, config);
+      return {
+        ...config,
+        currentPosition: Math.round(
+          Math.max(config.minPosition, Math.min(config.maxPosition, goal))
+        ),
+      };
+    });
+  }
+
+  /**
+   * One control cycle: read the leader, write the follower goals and read
+   * the follower back
+   */
+  private async update(): Promise<void> {
+    // Skip cycles while the previous one still waits for the bus
+    if (this.isUpdating) return;
+    this.isUpdating = true;
+
+    try {
+      await this.readLeaderPositions();
+      if (!this.isActive) return;
+
+      const targets = this.goalMotorConfigs().filter(
+        (config) => this.leaderPositions[config.name] !== undefined
+      );
+      if (targets.length === 0) return;
+
+      await this.bus.writeGoalPositions(
+        targets.map((config) => config.id),
+        targets.map((config) => config.currentPosition)
+      );
+
+      await this.readCurrentPositions();
+
+      // Notify UI of position change
+      if (this.onStateUpdate) {
+        this.onStateUpdate(this.buildTeleoperationState());
+      }
+    } catch (error) {
+      console.warn("Leader arm update failed:", error);
+    } finally {
+      this.isUpdating = false;
+    }
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Servo health monitor types
+ */
+
+/**
+ * Latest telemetry of a motor
+ * Values a motor does not report (or did not answer) are left out
+ */
+export interface MotorHealth {
+  temperature?: number; // °C
+  voltage?: number; // Volts
+  load?: number; // Percent of the maximum torque, signed by direction
+  current?: number; // mA
+  torqueReleased: boolean; // Released by the monitor after a fault
+}
+
+/**
+ * Health value a threshold applies to
+ */
+export type HealthMetric = "temperature" | "voltage" | "load" | "current";
+
+/**
+ * Health monitor configuration
+ * Thresholds default to HEALTH_MONITOR_DEFAULTS, warnings fire once when a
+ * value crosses a threshold and again after it recovered
+ */
+export interface HealthMonitorConfig {
+  updateRate?: number; // Reads per second, default: HEALTH_MONITOR_DEFAULTS.updateRate
+  warningTemperature?: number; // °C
+  maxTemperature?: number; // °C, releases torque
+  minVoltage?: number; // Volts
+  warningLoad?: number; // Percent
+  maxLoad?: number; // Percent, releases torque when held for overloadDuration
+  maxCurrent?: number; // mA, counts as overload like maxLoad (off by default)
+  overloadDuration?: number; // Milliseconds
+  onWarning?: (warning: HealthWarning) => void; // Default: console.warn
+}
+
+/**
+ * Threshold crossing of a motor
+ */
+export interface HealthWarning {
+  timestamp: number;
+  motorName: string;
+  motorId: number;
+  metric: HealthMetric;
+  value: number;
+  threshold: number;
+  torqueReleased: boolean; // The monitor released the motor because of it
+}
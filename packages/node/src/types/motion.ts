@@ -0,0 +1,30 @@
+/**
+ * Motion types
+ */
+
+/**
+ * Shape of the position over time of a move
+ * linear: constant speed, minjerk: minimum jerk (smooth start and stop),
+ * trapezoid: constant acceleration, cruise, constant deceleration
+ */
+export type MotionProfile = "linear" | "minjerk" | "trapezoid";
+
+/**
+ * moveTo() options
+ */
+export interface MoveToOptions {
+  duration?: number; // Milliseconds, default: the longest move at MOTION_DEFAULTS.speed
+  profile?: MotionProfile; // Default: MOTION_DEFAULTS.profile
+  controlRate?: number; // Goal writes per second, default: MOTION_DEFAULTS.controlRate
+  tolerance?: number; // Position units the motors have to settle within
+  settleTimeout?: number; // Milliseconds to wait for the motors after the last goal
+}
+
+/**
+ * Promise of a move, resolves once every motor reached its target
+ * cancel() stops streaming goals, the motors stop at the last goal written
+ * and the promise rejects
+ */
+export interface MotionPromise extends Promise<void> {
+  cancel(): void;
+}
@@ -0,0 +1,53 @@
+/**
+ * Motor bus types
+ * Protocol independent access to the servos of a robot
+ */
+
+import type { MotorCommunicationPort } from "../utils/motor-communication.js";
+
+/**
+ * Servo protocol families
+ */
+export type MotorBusType = "feetech" | "dynamixel";
+
+/**
+ * Protocol driver of a MotorsBus
+ * Register names follow the Python lerobot control tables, which use the same
+ * names for shared registers (Present_Position, Goal_Position, Torque_Enable,
+ * Homing_Offset, Min_Position_Limit, Max_Position_Limit)
+ */
+export interface MotorBus {
+  readonly type: MotorBusType;
+  readonly resolution: number; // Position steps per turn
+
+  pingMotor(
+    port: MotorCommunicationPort,
+    motorId: number,
+    timeout?: number
+  ): Promise<boolean>;
+  readRegister(
+    port: MotorCommunicationPort,
+    motorId: number,
+    register: string
+  ): Promise<number>;
+  writeRegister(
+    port: MotorCommunicationPort,
+    motorId: number,
+    register: string,
+    value: number
+  ): Promise<void>;
+  syncReadRegister(
+    port: MotorCommunicationPort,
+    motorIds: number[],
+    register: string
+  ): Promise<number[]>;
+  syncWriteRegister(
+    port: MotorCommunicationPort,
+    motorIds: number[],
+    register: string,
+    values: number[]
+  ): Promise<void>;
+
+  // Homing_Offset that puts a motor at the given position to half a turn
+  homingOffsetFor(position: number): number;
+}
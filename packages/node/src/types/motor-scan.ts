@@ -0,0 +1,35 @@
+/**
+ * Motor bus scan types
+ */
+
+import type { MotorBus } from "./motor-bus.js";
+
+/**
+ * Options for scanMotors
+ */
+export interface ScanMotorsOptions {
+  // Motor IDs to ping (default: every ID from 0 to 252)
+  ids?: number[];
+
+  // Baud rates to try; requires a port with setBaudRate (default: current rate only)
+  baudRates?: number[];
+
+  // Per-ID ping timeout in milliseconds
+  timeout?: number;
+
+  // Called for every motor as soon as it answers
+  onMotorFound?: (motor: ScannedMotor) => void;
+
+  // Protocol driver of the bus (default: Feetech)
+  motorBus?: MotorBus;
+}
+
+/**
+ * Motor found on the bus
+ */
+export interface ScannedMotor {
+  id: number;
+  baudRate: number | null; // null when scanned at the port's current rate
+  modelNumber: number | null; // null if the info registers could not be read
+  firmwareVersion: string | null; // "major.minor"
+}
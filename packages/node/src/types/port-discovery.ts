@@ -6,6 +6,7 @@
 import type {
   RobotConnection,
   RobotConfig,
+  RobotType,
   SerialPort,
   SerialPortInfo,
 } from "./robot-connection.js";
@@ -29,7 +30,7 @@ export interface FindPortConfig {
  */
 export interface DiscoveredPort {
   path: string; // Serial port path (e.g., "/dev/ttyUSB0", "COM4")
-  robotType: "so100_follower" | "so100_leader";
+  robotType: RobotType;
 }
 
 /**
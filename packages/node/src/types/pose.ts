@@ -0,0 +1,23 @@
+/**
+ * Pose library types
+ */
+
+/**
+ * Named joint positions of a robot, e.g. "home" or "rest"
+ * Positions are normalized (see normalizeMotorValue), so a pose survives
+ * recalibration
+ */
+export interface Pose {
+  name: string;
+  positions: { [motorName: string]: number };
+  savedAt: string; // ISO 8601
+}
+
+/**
+ * Where the poses of one robot are kept
+ * DirectTeleoperator loads and saves the whole library at once
+ */
+export interface PoseStorage {
+  load(): Promise<Pose[]>;
+  save(poses: Pose[]): Promise<void>;
+}
@@ -0,0 +1,42 @@
+/**
+ * Declarative robot definition types
+ * Field names follow the snake_case style of Python lerobot config files
+ */
+
+import type { MotorNormMode } from "./robot-config.js";
+
+/**
+ * Supported motor models
+ */
+export type MotorModel = "sts3215" | "sts3250";
+
+/**
+ * A single motor of a robot definition
+ */
+export interface RobotMotorDefinition {
+  name: string;
+  id: number;
+  model: MotorModel;
+  drive_mode?: 0 | 1; // Default: 0
+  norm_mode?: MotorNormMode; // Default: range_m100_100
+  full_turn?: boolean; // Continuous rotation motor, calibrated to the full range
+  limits?: { min: number; max: number }; // Default position range before calibration
+}
+
+/**
+ * Keyboard mapping entry of a robot definition
+ */
+export interface RobotKeyDefinition {
+  motor: string;
+  direction: number;
+  description?: string;
+}
+
+/**
+ * Robot defined in data (JSON, YAML or a plain object)
+ */
+export interface RobotDefinition {
+  type: string;
+  motors: RobotMotorDefinition[];
+  keyboard?: { [key: string]: RobotKeyDefinition };
+}
@@ -0,0 +1,50 @@
+/**
+ * Safety filter types
+ */
+
+/**
+ * Axis-aligned box in the robot base frame, meters
+ */
+export interface WorkspaceBox {
+  min: [number, number, number]; // Lowest x, y, z
+  max: [number, number, number]; // Highest x, y, z
+}
+
+/**
+ * Limit of a motor, either one value for every motor or per motor name
+ * Motors missing from a per-motor map are not limited
+ */
+export type MotorLimit = number | { [motorName: string]: number };
+
+/**
+ * Safety filter configuration
+ * Every limit is optional, goals pass unchanged without any
+ */
+export interface SafetyFilterConfig {
+  maxRelativeTarget?: MotorLimit; // Largest goal change per write in position units (Python lerobot max_relative_target)
+  maxVelocity?: MotorLimit; // Position units per second
+  maxAcceleration?: MotorLimit; // Position units per second squared
+  workspace?: WorkspaceBox[]; // The end-effector has to stay inside one of the boxes (needs a kinematic chain)
+  updateRate?: number; // Default: SAFETY_FILTER_DEFAULTS.updateRate
+  onIntervention?: (intervention: SafetyIntervention) => void;
+}
+
+/**
+ * Limit that changed a goal
+ */
+export type SafetyRule =
+  | "position_limit"
+  | "max_relative_target"
+  | "max_velocity"
+  | "max_acceleration"
+  | "workspace";
+
+/**
+ * Goal write changed by the safety filter
+ */
+export interface SafetyIntervention {
+  timestamp: number;
+  rules: SafetyRule[];
+  requested: { [motorName: string]: number }; // Goals as sent by the caller
+  commanded: { [motorName: string]: number }; // Goals written to the bus
+}
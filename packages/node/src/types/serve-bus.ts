@@ -0,0 +1,48 @@
+/**
+ * Serial bus bridge types
+ *
+ * Bridge protocol, one WebSocket connection per client:
+ * - binary messages from the client are written to the bus as is
+ * - binary messages from the server carry bytes received from the bus
+ * - text message {"type":"setBaudRate","baudRate":n} changes the bus speed,
+ *   answered with {"type":"baudRate","baudRate":n} or {"type":"error","message":"..."}
+ */
+
+import type { RobotConnection } from "./robot-connection.js";
+
+/**
+ * Text messages exchanged next to the bus bytes
+ */
+export type BusBridgeMessage =
+  | { type: "setBaudRate"; baudRate: number }
+  | { type: "baudRate"; baudRate: number }
+  | { type: "error"; message: string };
+
+/**
+ * Config for serveBus function
+ */
+export interface ServeBusConfig {
+  robot: RobotConnection;
+
+  // Interface and TCP port to listen on (default: 127.0.0.1, 8765)
+  host?: string;
+  port?: number;
+
+  // Browser origins allowed to connect, "*" allows any (default: localhost pages)
+  allowedOrigins?: string[];
+
+  // Shared secret clients must pass as ?token= in the URL (default: none)
+  token?: string;
+
+  onClientConnected?: (address: string) => void;
+  onClientDisconnected?: (address: string) => void;
+}
+
+/**
+ * Bus bridge process control object
+ */
+export interface ServeBusProcess {
+  url: string; // WebSocket URL the bridge listens on
+  stop(): void;
+  result: Promise<void>; // Resolves once the server is closed, rejects if the bus read fails
+}
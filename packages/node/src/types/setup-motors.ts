@@ -0,0 +1,44 @@
+/**
+ * Motor setup types
+ */
+
+import type { RobotConnection } from "./robot-connection.js";
+
+/**
+ * Config for setupMotors function
+ */
+export interface SetupMotorsConfig {
+  robot: RobotConnection;
+
+  // Baud rate written to every motor (default: 1000000)
+  baudRate?: number;
+
+  // Resolve once only this motor is connected (default: prompt on the terminal)
+  onConnectMotor?: (motorName: string, motorId: number) => Promise<void>;
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * ID and baud rate of a motor before and after setup
+ */
+export interface MotorSetupResult {
+  id: number;
+  baudRate: number;
+  previousId: number;
+  previousBaudRate: number;
+}
+
+/**
+ * Motor setup results keyed by motor name
+ */
+export interface SetupMotorsResults {
+  [motorName: string]: MotorSetupResult;
+}
+
+/**
+ * Motor setup process control object
+ */
+export interface SetupMotorsProcess {
+  stop(): void;
+  result: Promise<SetupMotorsResults>;
+}
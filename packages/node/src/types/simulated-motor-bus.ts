@@ -0,0 +1,39 @@
+/**
+ * Simulated motor bus types
+ */
+
+/**
+ * Initial state of a simulated motor
+ */
+export interface SimulatedMotorConfig {
+  id: number;
+  position?: number; // Present_Position at start (default: 2047)
+  baudRate?: number; // Baud rate the motor answers at (default: 1000000)
+  modelNumber?: number; // Reported Model_Number (default: 777, 1200 on Dynamixel)
+}
+
+/**
+ * Options for SimulatedMotorBus and SimulatedDynamixelBus
+ */
+export interface SimulatedMotorBusOptions {
+  // Motors on the bus, as IDs or full configs (default: IDs 1-6)
+  motors?: (number | SimulatedMotorConfig)[];
+
+  // Baud rate the port is opened at (default: 1000000)
+  baudRate?: number;
+
+  // Milliseconds before a motor answers
+  latency?: number;
+
+  // Probability (0-1) that an instruction or status packet is lost
+  dropRate?: number;
+
+  // Servo speed toward Goal_Position in steps per second (default: 3000)
+  maxSpeed?: number;
+
+  // Random source for dropped packets (default: Math.random)
+  random?: () => number;
+
+  // Port path reported to RobotConnection users (default: "simulated")
+  path?: string;
+}
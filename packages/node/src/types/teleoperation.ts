@@ -2,8 +2,21 @@
  * Teleoperation-related types for Node.js implementation
  */
 
-import type { RobotConnection } from "./robot-connection.js";
+import type {
+  BimanualRobotConnection,
+  RobotConnection,
+} from "./robot-connection.js";
+import type {
+  BaseVelocity,
+  EndEffectorPose,
+  MotorNormMode,
+} from "./robot-config.js";
+import type { SafetyFilterConfig } from "./safety.js";
+import type { HealthMonitorConfig, MotorHealth } from "./health.js";
+import type { PoseStorage } from "./pose.js";
+import type { CalibrationResults } from "./calibration.js";
 import type { NodeTeleoperator } from "../teleoperators/index.js";
+import type { GamepadReader } from "../utils/joystick-reader.js";
 
 /**
  * Motor position and limits for teleoperation
@@ -14,6 +27,7 @@ export interface MotorConfig {
   currentPosition: number;
   minPosition: number;
   maxPosition: number;
+  normMode?: MotorNormMode; // Falls back to the SO-100 rule (gripper 0..100) when unset
 }
 
 /**
@@ -27,6 +41,18 @@ export interface TeleoperationState {
   // Teleoperator-specific state (optional fields for different types)
   keyStates?: { [key: string]: { pressed: boolean; timestamp: number } }; // keyboard
   leaderPositions?: { [motor: string]: number }; // leader arm
+  gamepadState?: { axes: number[]; buttons: boolean[] }; // gamepad
+  baseVelocity?: BaseVelocity; // mobile base
+  endEffectorPose?: EndEffectorPose; // cartesian mode
+  motorHealth?: { [motor: string]: MotorHealth }; // health monitor
+  estopped?: boolean; // Writes blocked until resetEmergencyStop()
+}
+
+/**
+ * Emergency stop options
+ */
+export interface EmergencyStopOptions {
+  disableTorque?: boolean; // Also release all motors, default: false
 }
 
 /**
@@ -37,6 +63,8 @@ export interface TeleoperationProcess {
   stop(): void;
   updateKeyState(key: string, pressed: boolean): void;
   getState(): TeleoperationState;
+  emergencyStop(options?: EmergencyStopOptions): Promise<void>;
+  resetEmergencyStop(): Promise<void>;
   teleoperator: NodeTeleoperator;
   disconnect(): Promise<void>;
 }
@@ -48,6 +76,12 @@ export interface BaseTeleoperatorConfig {
   type: string;
 }
 
+/**
+ * What keyboard and gamepad input moves
+ * joint: single joints, cartesian: the end-effector through inverse kinematics
+ */
+export type TeleoperationMode = "joint" | "cartesian";
+
 /**
  * Keyboard teleoperator configuration
  */
@@ -56,17 +90,24 @@ export interface KeyboardTeleoperatorConfig extends BaseTeleoperatorConfig {
   stepSize?: number; // Default: KEYBOARD_TELEOPERATOR_DEFAULTS.stepSize
   updateRate?: number; // Default: KEYBOARD_TELEOPERATOR_DEFAULTS.updateRate
   keyTimeout?: number; // Default: KEYBOARD_TELEOPERATOR_DEFAULTS.keyTimeout
+  baseLinearSpeed?: number; // Default: KEYBOARD_TELEOPERATOR_DEFAULTS.baseLinearSpeed
+  baseAngularSpeed?: number; // Default: KEYBOARD_TELEOPERATOR_DEFAULTS.baseAngularSpeed
+  mode?: TeleoperationMode; // Default: KEYBOARD_TELEOPERATOR_DEFAULTS.mode
+  linearSpeed?: number; // Cartesian mode, m/s. Default: KEYBOARD_TELEOPERATOR_DEFAULTS.linearSpeed
+  angularSpeed?: number; // Cartesian mode, deg/s. Default: KEYBOARD_TELEOPERATOR_DEFAULTS.angularSpeed
 }
 
 /**
- * Leader arm teleoperator configuration (future)
+ * Leader arm teleoperator configuration
+ * The follower mirrors a hand-moved leader arm
  */
 export interface LeaderArmTeleoperatorConfig extends BaseTeleoperatorConfig {
   type: "so100_leader";
-  port: string;
-  calibrationData?: any;
-  positionSmoothing?: boolean;
-  scaleFactor?: number;
+  leader: RobotConnection; // Connected leader arm, robotType defaults to so100_leader
+  calibrationData?: { [motorName: string]: any }; // Leader calibration (default: loaded by robotId)
+  updateRate?: number; // Default: LEADER_ARM_TELEOPERATOR_DEFAULTS.updateRate
+  positionSmoothing?: boolean; // Default: LEADER_ARM_TELEOPERATOR_DEFAULTS.positionSmoothing
+  scaleFactor?: number; // Default: LEADER_ARM_TELEOPERATOR_DEFAULTS.scaleFactor
 }
 
 /**
@@ -74,6 +115,47 @@ export interface LeaderArmTeleoperatorConfig extends BaseTeleoperatorConfig {
  */
 export interface DirectTeleoperatorConfig extends BaseTeleoperatorConfig {
   type: "direct";
+  poseStorage?: PoseStorage; // Default: per robot, see teleoperate()
+}
+
+/**
+ * Gamepad button bound to a joint, moving it while held
+ */
+export interface GamepadButtonControl {
+  motor: string;
+  direction: number; // Sign of the motion, analog buttons (triggers) scale it
+}
+
+/**
+ * Current axes and buttons of a gamepad
+ * Axes range from -1 to 1, button values from 0 to 1
+ */
+export interface GamepadSnapshot {
+  connected?: boolean;
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean; value: number }[];
+}
+
+/**
+ * Gamepad teleoperator configuration
+ * Same mapping fields as the web gamepad teleoperator, read from a Linux
+ * joystick device
+ */
+export interface GamepadTeleoperatorConfig extends BaseTeleoperatorConfig {
+  type: "gamepad";
+  controllerIndex?: number; // Reads /dev/input/js{controllerIndex}. Default: GAMEPAD_TELEOPERATOR_DEFAULTS.controllerIndex
+  device?: string; // Joystick device path, replaces controllerIndex
+  axisMapping?: { [axis: string]: string }; // Axis index to motor or cartesian axis, "-motor" inverts. Default: GAMEPAD_AXIS_MAPPING, CARTESIAN_GAMEPAD_AXIS_MAPPING in cartesian mode
+  buttonMapping?: { [button: string]: GamepadButtonControl }; // Default: GAMEPAD_BUTTON_MAPPING, CARTESIAN_GAMEPAD_BUTTON_MAPPING in cartesian mode
+  deadzone?: number; // Default: GAMEPAD_TELEOPERATOR_DEFAULTS.deadzone
+  expo?: number; // 0 linear to 1 cubic. Default: GAMEPAD_TELEOPERATOR_DEFAULTS.expo
+  maxSpeed?: number; // Position units per second at full deflection. Default: GAMEPAD_TELEOPERATOR_DEFAULTS.maxSpeed
+  updateRate?: number; // Default: GAMEPAD_TELEOPERATOR_DEFAULTS.updateRate
+  emergencyStopButton?: number; // Default: GAMEPAD_TELEOPERATOR_DEFAULTS.emergencyStopButton
+  mode?: TeleoperationMode; // Default: GAMEPAD_TELEOPERATOR_DEFAULTS.mode
+  linearSpeed?: number; // Cartesian mode, m/s at full deflection. Default: GAMEPAD_TELEOPERATOR_DEFAULTS.linearSpeed
+  angularSpeed?: number; // Cartesian mode, deg/s at full deflection. Default: GAMEPAD_TELEOPERATOR_DEFAULTS.angularSpeed
+  reader?: GamepadReader; // Default: the joystick device
 }
 
 /**
@@ -82,7 +164,8 @@ export interface DirectTeleoperatorConfig extends BaseTeleoperatorConfig {
 export type TeleoperatorConfig =
   | KeyboardTeleoperatorConfig
   | LeaderArmTeleoperatorConfig
-  | DirectTeleoperatorConfig;
+  | DirectTeleoperatorConfig
+  | GamepadTeleoperatorConfig;
 
 /**
  * Main teleoperation configuration
@@ -91,5 +174,23 @@ export interface TeleoperateConfig {
   robot: RobotConnection;
   teleop: TeleoperatorConfig;
   calibrationData?: { [motorName: string]: any };
+  safety?: SafetyFilterConfig; // Limits every goal write, off by default
+  health?: HealthMonitorConfig; // Watches temperature, voltage and load, off by default
   onStateUpdate?: (state: TeleoperationState) => void;
-} 
\ No newline at end of file
+}
+
+/**
+ * Bimanual teleoperation configuration
+ * Each arm gets its own teleoperator, e.g. one leader arm per follower
+ */
+export interface BimanualTeleoperateConfig {
+  robot: BimanualRobotConnection;
+  teleop: { left: TeleoperatorConfig; right: TeleoperatorConfig };
+  calibrationData?: {
+    left?: CalibrationResults;
+    right?: CalibrationResults;
+  };
+  safety?: SafetyFilterConfig; // Applied to each arm, workspace in the arm's own frame
+  health?: HealthMonitorConfig; // Applied to each arm
+  onStateUpdate?: (state: TeleoperationState) => void;
+}
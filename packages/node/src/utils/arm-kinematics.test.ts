@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  forwardKinematics,
+  inverseKinematics,
+  jointAnglesFromMotorConfigs,
+  jointLimitsFromMotorConfigs,
+  motorPositionsFromJointAngles,
+} from "./arm-kinematics.js";
+import { SO100_CONFIG, SO100_KINEMATICS } from "../robots/so100_config.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+function so100MotorConfigs(): MotorConfig[] {
+  return SO100_CONFIG.motorNames.map((name, i) => ({
+    id: SO100_CONFIG.motorIds[i],
+    name,
+    currentPosition: 2048,
+    minPosition: 1024,
+    maxPosition: 3072,
+  }));
+}
+
+describe("arm kinematics", () => {
+  it("should reach straight forward in the calibration pose", () => {
+    const pose = forwardKinematics(SO100_KINEMATICS, [0, 0, 0, 0, 0]);
+
+    expect(pose.x).toBeCloseTo(0.3526, 4);
+    expect(pose.y).toBeCloseTo(0, 6);
+    expect(pose.z).toBeCloseTo(0.2172, 4);
+    expect(pose.pitch).toBeCloseTo(0, 6);
+    expect(pose.roll).toBeCloseTo(0, 6);
+    expect(pose.yaw).toBeCloseTo(0, 6);
+  });
+
+  it("should turn the whole arm with shoulder pan", () => {
+    const pose = forwardKinematics(SO100_KINEMATICS, [90, 0, 0, 0, 0]);
+
+    expect(pose.x).toBeCloseTo(0, 6);
+    expect(pose.y).toBeCloseTo(0.3526, 4);
+    expect(pose.yaw).toBeCloseTo(90, 6);
+  });
+
+  it("should find joint angles for a reachable pose", () => {
+    const target = forwardKinematics(SO100_KINEMATICS, [20, 30, -40, 25, -60]);
+    const result = inverseKinematics(SO100_KINEMATICS, target, [0, 0, 0, 0, 0]);
+    const pose = forwardKinematics(SO100_KINEMATICS, result.jointAngles);
+
+    expect(result.converged).toBe(true);
+    expect(pose.x).toBeCloseTo(target.x, 2);
+    expect(pose.y).toBeCloseTo(target.y, 2);
+    expect(pose.z).toBeCloseTo(target.z, 2);
+    expect(Math.abs(pose.pitch - target.pitch)).toBeLessThan(0.5);
+    expect(Math.abs(pose.roll - target.roll)).toBeLessThan(0.5);
+  });
+
+  it("should keep joint limits and report unreachable poses", () => {
+    const jointLimits: [number, number][] = [
+      [-90, 90],
+      [-45, 45],
+      [-90, 90],
+      [-90, 90],
+      [-180, 180],
+    ];
+    const result = inverseKinematics(
+      SO100_KINEMATICS,
+      { x: 0.6, y: 0, z: 0.1, pitch: 0, roll: 0, yaw: 0 },
+      [0, 0, 0, 0, 0],
+      { jointLimits, maxIterations: 50 }
+    );
+
+    expect(result.converged).toBe(false);
+    expect(result.positionError).toBeGreaterThan(0.1);
+    result.jointAngles.forEach((angle, i) => {
+      expect(angle).toBeGreaterThanOrEqual(jointLimits[i][0]);
+      expect(angle).toBeLessThanOrEqual(jointLimits[i][1]);
+    });
+  });
+
+  it("should convert between motor positions and joint angles", () => {
+    const motorConfigs = so100MotorConfigs();
+
+    expect(jointAnglesFromMotorConfigs(SO100_KINEMATICS, motorConfigs)).toEqual(
+      [0, 0, 0, 0, 0]
+    );
+    expect(
+      jointLimitsFromMotorConfigs(SO100_KINEMATICS, motorConfigs)[0][1]
+    ).toBeCloseTo(90.02, 2);
+
+    const positions = motorPositionsFromJointAngles(
+      SO100_KINEMATICS,
+      motorConfigs,
+      [90, 0, 0, 0, -45]
+    );
+    expect(positions.shoulder_pan).toBeCloseTo(3071.75, 2);
+    expect(positions.wrist_roll).toBeCloseTo(1536.125, 3);
+    expect(positions.gripper).toBeUndefined();
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Arm Kinematics
+ * Forward kinematics and damped least squares inverse kinematics of serial arms
+ * Joint angles are in degrees, measured from the middle of the calibrated
+ * motor range like the Python lerobot degrees normalization
+ */
+
+import {
+  normalizeMotorValue,
+  unnormalizeMotorValue,
+} from "./motor-normalization.js";
+import type {
+  ArmKinematicsConfig,
+  EndEffectorPose,
+} from "../types/robot-config.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+type Vector3 = [number, number, number];
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+/**
+ * Default settings of inverseKinematics
+ */
+export const INVERSE_KINEMATICS_DEFAULTS = {
+  damping: 0.02, // Trades accuracy near singularities for stable steps
+  maxIterations: 100,
+  positionTolerance: 0.001, // Meters
+  orientationTolerance: 0.5, // Degrees
+  orientationWeight: 0.1, // Meters per radian, balances pitch/roll against position
+  maxStep: 10, // Largest joint change per iteration in degrees
+} as const;
+
+/**
+ * Settings of inverseKinematics
+ */
+export interface InverseKinematicsOptions {
+  jointLimits?: [number, number][]; // Min and max angle of each joint in degrees
+  damping?: number; // Default: INVERSE_KINEMATICS_DEFAULTS.damping
+  maxIterations?: number; // Default: INVERSE_KINEMATICS_DEFAULTS.maxIterations
+  positionTolerance?: number; // Default: INVERSE_KINEMATICS_DEFAULTS.positionTolerance
+  orientationTolerance?: number; // Default: INVERSE_KINEMATICS_DEFAULTS.orientationTolerance
+  orientationWeight?: number; // Default: INVERSE_KINEMATICS_DEFAULTS.orientationWeight
+  maxStep?: number; // Default: INVERSE_KINEMATICS_DEFAULTS.maxStep
+}
+
+/**
+ * Result of inverseKinematics
+ * Unreachable targets return the closest joint angles found with converged false
+ */
+export interface InverseKinematicsResult {
+  jointAngles: number[]; // Degrees
+  converged: boolean;
+  positionError: number; // Meters
+  orientationError: number; // Degrees
+  iterations: number;
+}
+
+// Joint change used for the numerical Jacobian, radians
+const JACOBIAN_STEP = 1e-6;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * Wrap an angle in degrees into -180..180
+ */
+function wrapDegrees(angle: number): number {
+  return angle - 360 * Math.round(angle / 360);
+}
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  return a.map((row) =>
+    [0, 1, 2].map((column) =>
+      row.reduce((sum, value, i) => sum + value * b[i][column], 0)
+    )
+  ) as Matrix3;
+}
+
+function transform(m: Matrix3, v: Vector3): Vector3 {
+  return m.map(
+    (row) => row[0] * v[0] + row[1] * v[1] + row[2] * v[2]
+  ) as Vector3;
+}
+
+/**
+ * Rotation around an axis (Rodrigues formula)
+ */
+function rotation(axis: Vector3, degrees: number): Matrix3 {
+  const length = Math.hypot(...axis);
+  const [x, y, z] = axis.map((value) => value / length);
+  const c = Math.cos(toRadians(degrees));
+  const s = Math.sin(toRadians(degrees));
+  const t = 1 - c;
+
+  return [
+    [t * x * x + c, t * x * y - s * z, t * x * z + s * y],
+    [t * x * y + s * z, t * y * y + c, t * y * z - s * x],
+    [t * x * z - s * y, t * y * z + s * x, t * z * z + c],
+  ];
+}
+
+/**
+ * Solve a x = b with Gaussian elimination and partial pivoting
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(m[row][column]) > Math.abs(m[pivot][column])) pivot = row;
+    }
+    [m[column], m[pivot]] = [m[pivot], m[column]];
+
+    for (let row = column + 1; row < n; row++) {
+      const factor = m[row][column] / m[column][column];
+      for (let k = column; k <= n; k++) m[row][k] -= factor * m[column][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * End-effector pose for the given joint angles
+ * @param jointAngles One angle per joint of the chain in degrees
+ */
+export function forwardKinematics(
+  kinematics: ArmKinematicsConfig,
+  jointAngles: number[]
+): EndEffectorPose {
+  let frame: Matrix3 = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+  ];
+  let position: Vector3 = [0, 0, 0];
+
+  kinematics.joints.forEach((joint, i) => {
+    const offset = transform(frame, joint.origin);
+    position = [
+      position[0] + offset[0],
+      position[1] + offset[1],
+      position[2] + offset[2],
+    ];
+    frame = multiply(frame, rotation(joint.axis, jointAngles[i]));
+  });
+
+  const tool = transform(frame, kinematics.tool);
+  return {
+    x: position[0] + tool[0],
+    y: position[1] + tool[1],
+    z: position[2] + tool[2],
+    roll: toDegrees(Math.atan2(frame[2][1], frame[2][2])),
+    pitch: toDegrees(
+      Math.atan2(-frame[2][0], Math.hypot(frame[0][0], frame[1][0]))
+    ),
+    yaw: toDegrees(Math.atan2(frame[1][0], frame[0][0])),
+  };
+}
+
+/**
+ * Target minus actual pose as x, y, z in meters and pitch, roll in radians
+ * Yaw is left out, arms like the SO-100 set it through the target position
+ */
+function poseError(target: EndEffectorPose, pose: EndEffectorPose): number[] {
+  return [
+    target.x - pose.x,
+    target.y - pose.y,
+    target.z - pose.z,
+    toRadians(wrapDegrees(target.pitch - pose.pitch)),
+    toRadians(wrapDegrees(target.roll - pose.roll)),
+  ];
+}
+
+/**
+ * Joint angles that reach a target pose, solved with damped least squares
+ * Yaw of the target is ignored, the joint limits are kept on every step
+ * @param initialAngles Start of the search, usually the current joint angles
+ */
+export function inverseKinematics(
+  kinematics: ArmKinematicsConfig,
+  target: EndEffectorPose,
+  initialAngles: number[],
+  options: InverseKinematicsOptions = {}
+): InverseKinematicsResult {
+  const damping = options.damping ?? INVERSE_KINEMATICS_DEFAULTS.damping;
+  const maxIterations =
+    options.maxIterations ?? INVERSE_KINEMATICS_DEFAULTS.maxIterations;
+  const positionTolerance =
+    options.positionTolerance ?? INVERSE_KINEMATICS_DEFAULTS.positionTolerance;
+  const orientationTolerance =
+    options.orientationTolerance ??
+    INVERSE_KINEMATICS_DEFAULTS.orientationTolerance;
+  const weight =
+    options.orientationWeight ?? INVERSE_KINEMATICS_DEFAULTS.orientationWeight;
+  const maxStep = options.maxStep ?? INVERSE_KINEMATICS_DEFAULTS.maxStep;
+
+  const clamp = (angles: number[]) =>
+    angles.map((angle, i) => {
+      const limits = options.jointLimits?.[i];
+      return limits ? Math.max(limits[0], Math.min(limits[1], angle)) : angle;
+    });
+  const weighted = (error: number[]) =>
+    error.map((value, i) => (i < 3 ? value : value * weight));
+
+  let angles = clamp(initialAngles);
+  for (let iteration = 0; ; iteration++) {
+    const pose = forwardKinematics(kinematics, angles);
+    const error = poseError(target, pose);
+    const positionError = Math.hypot(error[0], error[1], error[2]);
+    const orientationError = toDegrees(Math.hypot(error[3], error[4]));
+    const converged =
+      positionError <= positionTolerance &&
+      orientationError <= orientationTolerance;
+
+    if (converged || iteration >= maxIterations) {
+      return {
+        jointAngles: angles,
+        converged,
+        positionError,
+        orientationError,
+        iterations: iteration,
+      };
+    }
+
+    // Numerical Jacobian, one column per joint in units per radian
+    const jacobianColumns = angles.map((_, j) => {
+      const moved = [...angles];
+      moved[j] += toDegrees(JACOBIAN_STEP);
+      return weighted(
+        poseError(forwardKinematics(kinematics, moved), pose)
+      ).map((value) => value / JACOBIAN_STEP);
+    });
+
+    // Damped least squares: dq = J^T (J J^T + damping^2 I)^-1 e
+    const rows = error.length;
+    const jjt = Array.from({ length: rows }, (_, i) =>
+      Array.from(
+        { length: rows },
+        (_, k) =>
+          jacobianColumns.reduce(
+            (sum, column) => sum + column[i] * column[k],
+            0
+          ) + (i === k ? damping * damping : 0)
+      )
+    );
+    const y = solveLinearSystem(jjt, weighted(error));
+    const step = jacobianColumns.map((column) =>
+      toDegrees(column.reduce((sum, value, i) => sum + value * y[i], 0))
+    );
+
+    // Long steps leave the region where the Jacobian is accurate
+    const largest = Math.max(...step.map(Math.abs));
+    const scale = largest > maxStep ? maxStep / largest : 1;
+    angles = clamp(angles.map((angle, j) => angle + step[j] * scale));
+  }
+}
+
+/**
+ * Motor config of a joint of the chain
+ * @throws Error if the robot has no motor of that name
+ */
+function jointMotorConfig(
+  motorConfigs: MotorConfig[],
+  motorName: string
+): MotorConfig {
+  const motorConfig = motorConfigs.find((m) => m.name === motorName);
+  if (!motorConfig) {
+    throw new Error(`Motor ${motorName} of the kinematic chain not found`);
+  }
+  return { ...motorConfig, normMode: "degrees" };
+}
+
+/**
+ * Joint angles of the chain in degrees for the current motor positions
+ */
+export function jointAnglesFromMotorConfigs(
+  kinematics: ArmKinematicsConfig,
+  motorConfigs: MotorConfig[]
+): number[] {
+  return kinematics.joints.map((joint) => {
+    const motorConfig = jointMotorConfig(motorConfigs, joint.motor);
+    return normalizeMotorValue(motorConfig.currentPosition, motorConfig);
+  });
+}
+
+/**
+ * Joint limits of the chain in degrees from the calibrated motor ranges
+ */
+export function jointLimitsFromMotorConfigs(
+  kinematics: ArmKinematicsConfig,
+  motorConfigs: MotorConfig[]
+): [number, number][] {
+  return kinematics.joints.map((joint) => {
+    const motorConfig = jointMotorConfig(motorConfigs, joint.motor);
+    return [
+      normalizeMotorValue(motorConfig.minPosition, motorConfig),
+      normalizeMotorValue(motorConfig.maxPosition, motorConfig),
+    ];
+  });
+}
+
+/**
+ * Raw motor positions for joint angles of the chain, not rounded
+ */
+export function motorPositionsFromJointAngles(
+  kinematics: ArmKinematicsConfig,
+  motorConfigs: MotorConfig[],
+  jointAngles: number[]
+): { [motorName: string]: number } {
+  const positions: { [motorName: string]: number } = {};
+  kinematics.joints.forEach((joint, i) => {
+    const motorConfig = jointMotorConfig(motorConfigs, joint.motor);
+    positions[joint.motor] = unnormalizeMotorValue(jointAngles[i], motorConfig);
+  });
+  return positions;
+}
@@ -0,0 +1,38 @@
+/**
+ * Bus capture tests
+ * Capture a session on the simulated bus and replay it from disk
+ */
+
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BusCapture, CapturingPort } from "./bus-capture.js";
+import { ReplayPort } from "./replay-port.js";
+import { SimulatedMotorBus } from "./simulated-motor-bus.js";
+import { readAllMotorPositions } from "./motor-communication.js";
+
+describe("BusCapture", () => {
+  it("should save and replay a capture in both formats", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "lerobot-capture-"));
+
+    try {
+      const port = new CapturingPort(
+        new SimulatedMotorBus({ motors: [{ id: 1, position: 3000 }, 2] })
+      );
+      const positions = await readAllMotorPositions(port, [1, 2]);
+      expect(positions).toEqual([3000, 2047]);
+
+      for (const file of ["session.lrbus", "session.jsonl"]) {
+        await port.capture.save(join(dir, file));
+        const capture = await BusCapture.load(join(dir, file));
+        expect(capture.entries).toHaveLength(port.capture.entries.length);
+
+        const replay = new ReplayPort(capture, { strict: true });
+        expect(await readAllMotorPositions(replay, [1, 2])).toEqual(positions);
+      }
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Bus Capture Utilities
+ * Record every byte written to and read from a MotorsBus with timestamps
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import type { MotorCommunicationPort } from "./motor-communication.js";
+import type { NodeSerialPortWrapper } from "./serial-port-wrapper.js";
+import type { SerialPort } from "../types/robot-connection.js";
+import type {
+  BusCaptureDirection,
+  BusCaptureEntry,
+} from "../types/bus-capture.js";
+
+/**
+ * Binary .lrbus layout: "LRBUS", version, start time (float64 ms since epoch),
+ * then per entry direction (0 tx, 1 rx), time (float64 ms), length (uint32), data
+ * All numbers are little-endian
+ */
+const LRBUS_MAGIC = [0x4c, 0x52, 0x42, 0x55, 0x53];
+const LRBUS_VERSION = 1;
+const LRBUS_HEADER_SIZE = LRBUS_MAGIC.length + 1 + 8;
+const LRBUS_ENTRY_HEADER_SIZE = 1 + 8 + 4;
+
+function toHex(data: Uint8Array): string {
+  return Array.from(data, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+function fromHex(hex: string): Uint8Array {
+  const data = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return data;
+}
+
+/**
+ * Timestamped log of serial traffic
+ * Exported as JSONL (readable) or .lrbus (compact binary)
+ */
+export class BusCapture {
+  readonly startTime: number; // Wall clock start, ms since epoch
+  private readonly origin = performance.now();
+  private readonly capturedEntries: BusCaptureEntry[];
+
+  constructor(entries: BusCaptureEntry[] = [], startTime: number = Date.now()) {
+    this.capturedEntries = entries;
+    this.startTime = startTime;
+  }
+
+  get entries(): readonly BusCaptureEntry[] {
+    return this.capturedEntries;
+  }
+
+  /**
+   * Append a chunk of traffic, empty chunks are ignored
+   */
+  record(direction: BusCaptureDirection, data: ArrayLike<number>): void {
+    if (data.length === 0) return;
+
+    this.capturedEntries.push({
+      time: performance.now() - this.origin,
+      direction,
+      data: new Uint8Array(Array.from(data)),
+    });
+  }
+
+  /**
+   * One JSON object per line, preceded by a header line
+   */
+  toJSONL(): string {
+    const lines = [
+      JSON.stringify({
+        format: "lrbus",
+        version: LRBUS_VERSION,
+        startTime: this.startTime,
+      }),
+      ...this.capturedEntries.map((entry) =>
+        JSON.stringify({
+          time: Math.round(entry.time * 1000) / 1000,
+          direction: entry.direction,
+          data: toHex(entry.data),
+        })
+      ),
+    ];
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Parse a capture written by toJSONL
+   */
+  static fromJSONL(text: string): BusCapture {
+    const lines = text.split("\n").filter((line) => line.trim() !== "");
+    const header = JSON.parse(lines[0] ?? "{}");
+    if (header.format !== "lrbus") {
+      throw new Error("Not a bus capture: missing lrbus header line");
+    }
+
+    const entries = lines.slice(1).map((line) => {
+      const { time, direction, data } = JSON.parse(line);
+      return { time, direction, data: fromHex(data) } as BusCaptureEntry;
+    });
+    return new BusCapture(entries, header.startTime);
+  }
+
+  /**
+   * Compact binary .lrbus encoding
+   */
+  toBinary(): Uint8Array {
+    const size = this.capturedEntries.reduce(
+      (total, entry) => total + LRBUS_ENTRY_HEADER_SIZE + entry.data.length,
+      LRBUS_HEADER_SIZE
+    );
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+
+    bytes.set(LRBUS_MAGIC, 0);
+    bytes[LRBUS_MAGIC.length] = LRBUS_VERSION;
+    view.setFloat64(LRBUS_MAGIC.length + 1, this.startTime, true);
+
+    let offset = LRBUS_HEADER_SIZE;
+    for (const entry of this.capturedEntries) {
+      bytes[offset] = entry.direction === "tx" ? 0 : 1;
+      view.setFloat64(offset + 1, entry.time, true);
+      view.setUint32(offset + 9, entry.data.length, true);
+      bytes.set(entry.data, offset + LRBUS_ENTRY_HEADER_SIZE);
+      offset += LRBUS_ENTRY_HEADER_SIZE + entry.data.length;
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Parse a capture written by toBinary
+   */
+  static fromBinary(bytes: Uint8Array): BusCapture {
+    if (
+      bytes.length < LRBUS_HEADER_SIZE ||
+      LRBUS_MAGIC.some((byte, i) => bytes[i] !== byte)
+    ) {
+      throw new Error("Not a bus capture: missing LRBUS header");
+    }
+    if (bytes[LRBUS_MAGIC.length] !== LRBUS_VERSION) {
+      throw new Error(
+        `Unsupported .lrbus version ${bytes[LRBUS_MAGIC.length]}`
+      );
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+    const startTime = view.getFloat64(LRBUS_MAGIC.length + 1, true);
+    const entries: BusCaptureEntry[] = [];
+
+    let offset = LRBUS_HEADER_SIZE;
+    while (offset + LRBUS_ENTRY_HEADER_SIZE <= bytes.length) {
+      const length = view.getUint32(offset + 9, true);
+      const start = offset + LRBUS_ENTRY_HEADER_SIZE;
+      if (start + length > bytes.length) {
+        throw new Error("Truncated .lrbus capture");
+      }
+
+      entries.push({
+        direction: bytes[offset] === 0 ? "tx" : "rx",
+        time: view.getFloat64(offset + 1, true),
+        data: bytes.slice(start, start + length),
+      });
+      offset = start + length;
+    }
+
+    return new BusCapture(entries, startTime);
+  }
+
+  /**
+   * Write the capture to disk, as JSONL for .jsonl paths and .lrbus otherwise
+   */
+  async save(filePath: string): Promise<void> {
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(
+      filePath,
+      filePath.endsWith(".jsonl") ? this.toJSONL() : this.toBinary()
+    );
+  }
+
+  /**
+   * Read a capture from disk, detecting the format from its content
+   */
+  static async load(filePath: string): Promise<BusCapture> {
+    const bytes = new Uint8Array(await readFile(filePath));
+    const isBinary = LRBUS_MAGIC.every((byte, i) => bytes[i] === byte);
+    return isBinary
+      ? BusCapture.fromBinary(bytes)
+      : BusCapture.fromJSONL(new TextDecoder().decode(bytes));
+  }
+}
+
+// Ports wrapping a Node serialport expose it for event-based capture
+type CapturablePort = MotorCommunicationPort &
+  Partial<SerialPort> &
+  Partial<Pick<NodeSerialPortWrapper, "underlyingPort">>;
+
+/**
+ * Port wrapper that records all traffic into a BusCapture
+ * Can be used as RobotConnection.port in place of the wrapped port
+ */
+export class CapturingPort implements MotorCommunicationPort, SerialPort {
+  readonly path: string;
+  readonly capture: BusCapture;
+  private readonly target: CapturablePort;
+  private readonly capturesEvents: boolean;
+  private readonly onData = (data: Buffer) => {
+    this.capture.record("rx", data);
+  };
+
+  constructor(port: CapturablePort, capture: BusCapture = new BusCapture()) {
+    this.target = port;
+    this.capture = capture;
+    this.path = port.path ?? "capture";
+
+    // Capture at the source, so bytes are recorded when they arrive
+    const source = this.underlyingPort;
+    this.capturesEvents = source !== undefined;
+    source?.on("data", this.onData);
+  }
+
+  // Expose the wrapped serial port for event-based reading
+  get underlyingPort(): NodeSerialPortWrapper["underlyingPort"] | undefined {
+    return this.target.underlyingPort;
+  }
+
+  get isOpen(): boolean {
+    return this.target.isOpen ?? true;
+  }
+
+  async open(): Promise<void> {
+    await this.target.open?.();
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    this.capture.record("tx", data);
+    await this.target.write(data);
+  }
+
+  async read(timeout?: number): Promise<Uint8Array> {
+    const data = await this.target.read(timeout);
+    if (!this.capturesEvents) {
+      this.capture.record("rx", data);
+    }
+    return data;
+  }
+
+  async setBaudRate(baudRate: number): Promise<void> {
+    if (!this.target.setBaudRate) {
+      throw new Error("Wrapped port does not support changing the baud rate");
+    }
+    await this.target.setBaudRate(baudRate);
+  }
+
+  async close(): Promise<void> {
+    this.underlyingPort?.removeListener("data", this.onData);
+    await this.target.close?.();
+  }
+}
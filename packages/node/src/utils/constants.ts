@@ -4,7 +4,7 @@
  */
 
 import { homedir } from "os";
-import { join } from "path";
+import { dirname, join } from "path";
 
 /**
  * Get HF Home directory
@@ -42,3 +42,10 @@ export function getCalibrationDir(): string {
 
   return join(getHfLerobotHome(), "calibration");
 }
+
+/**
+ * Get pose library directory, next to the calibration directory
+ */
+export function getPosesDir(): string {
+  return join(dirname(getCalibrationDir()), "poses");
+}
@@ -0,0 +1,146 @@
+/**
+ * Dynamixel Control Table
+ * Register map of Dynamixel X-series servos (XL330, XL430) with typed value encoding
+ */
+
+import type { RegisterAccess, RegisterMemory } from "./sts3215-control-table.js";
+
+/**
+ * Definition of a single Dynamixel control table register
+ */
+export interface DynamixelRegisterDefinition {
+  address: number;
+  size: 1 | 2 | 4;
+  access: RegisterAccess;
+  memory: RegisterMemory;
+  signed?: boolean; // Two's complement encoded when set
+}
+
+function defineControlTable<
+  T extends Record<string, DynamixelRegisterDefinition>,
+>(table: T): T {
+  return table;
+}
+
+/**
+ * Dynamixel X-series control table
+ * Register names follow the Python lerobot Dynamixel control table
+ */
+export const DYNAMIXEL_CONTROL_TABLE = defineControlTable({
+  // EEPROM area
+  Model_Number: { address: 0, size: 2, access: "R", memory: "EEPROM" },
+  Model_Information: { address: 2, size: 4, access: "R", memory: "EEPROM" },
+  Firmware_Version: { address: 6, size: 1, access: "R", memory: "EEPROM" },
+  ID: { address: 7, size: 1, access: "RW", memory: "EEPROM" },
+  Baud_Rate: { address: 8, size: 1, access: "RW", memory: "EEPROM" },
+  Return_Delay_Time: { address: 9, size: 1, access: "RW", memory: "EEPROM" },
+  Drive_Mode: { address: 10, size: 1, access: "RW", memory: "EEPROM" },
+  Operating_Mode: { address: 11, size: 1, access: "RW", memory: "EEPROM" },
+  Secondary_ID: { address: 12, size: 1, access: "RW", memory: "EEPROM" },
+  Protocol_Type: { address: 13, size: 1, access: "RW", memory: "EEPROM" },
+  Homing_Offset: { address: 20, size: 4, access: "RW", memory: "EEPROM", signed: true },
+  Moving_Threshold: { address: 24, size: 4, access: "RW", memory: "EEPROM" },
+  Temperature_Limit: { address: 31, size: 1, access: "RW", memory: "EEPROM" },
+  Max_Voltage_Limit: { address: 32, size: 2, access: "RW", memory: "EEPROM" },
+  Min_Voltage_Limit: { address: 34, size: 2, access: "RW", memory: "EEPROM" },
+  PWM_Limit: { address: 36, size: 2, access: "RW", memory: "EEPROM" },
+  Current_Limit: { address: 38, size: 2, access: "RW", memory: "EEPROM" },
+  Acceleration_Limit: { address: 40, size: 4, access: "RW", memory: "EEPROM" },
+  Velocity_Limit: { address: 44, size: 4, access: "RW", memory: "EEPROM" },
+  Max_Position_Limit: { address: 48, size: 4, access: "RW", memory: "EEPROM" },
+  Min_Position_Limit: { address: 52, size: 4, access: "RW", memory: "EEPROM" },
+  Shutdown: { address: 63, size: 1, access: "RW", memory: "EEPROM" },
+
+  // RAM area
+  Torque_Enable: { address: 64, size: 1, access: "RW", memory: "RAM" },
+  LED: { address: 65, size: 1, access: "RW", memory: "RAM" },
+  Status_Return_Level: { address: 68, size: 1, access: "RW", memory: "RAM" },
+  Registered_Instruction: { address: 69, size: 1, access: "R", memory: "RAM" },
+  Hardware_Error_Status: { address: 70, size: 1, access: "R", memory: "RAM" },
+  Velocity_I_Gain: { address: 76, size: 2, access: "RW", memory: "RAM" },
+  Velocity_P_Gain: { address: 78, size: 2, access: "RW", memory: "RAM" },
+  Position_D_Gain: { address: 80, size: 2, access: "RW", memory: "RAM" },
+  Position_I_Gain: { address: 82, size: 2, access: "RW", memory: "RAM" },
+  Position_P_Gain: { address: 84, size: 2, access: "RW", memory: "RAM" },
+  Feedforward_2nd_Gain: { address: 88, size: 2, access: "RW", memory: "RAM" },
+  Feedforward_1st_Gain: { address: 90, size: 2, access: "RW", memory: "RAM" },
+  Bus_Watchdog: { address: 98, size: 1, access: "RW", memory: "RAM" },
+  Goal_PWM: { address: 100, size: 2, access: "RW", memory: "RAM", signed: true },
+  Goal_Current: { address: 102, size: 2, access: "RW", memory: "RAM", signed: true },
+  Goal_Velocity: { address: 104, size: 4, access: "RW", memory: "RAM", signed: true },
+  Profile_Acceleration: { address: 108, size: 4, access: "RW", memory: "RAM" },
+  Profile_Velocity: { address: 112, size: 4, access: "RW", memory: "RAM" },
+  Goal_Position: { address: 116, size: 4, access: "RW", memory: "RAM", signed: true },
+  Realtime_Tick: { address: 120, size: 2, access: "R", memory: "RAM" },
+  Moving: { address: 122, size: 1, access: "R", memory: "RAM" },
+  Moving_Status: { address: 123, size: 1, access: "R", memory: "RAM" },
+  Present_PWM: { address: 124, size: 2, access: "R", memory: "RAM", signed: true },
+  Present_Current: { address: 126, size: 2, access: "R", memory: "RAM", signed: true },
+  Present_Velocity: { address: 128, size: 4, access: "R", memory: "RAM", signed: true },
+  Present_Position: { address: 132, size: 4, access: "R", memory: "RAM", signed: true },
+  Velocity_Trajectory: { address: 136, size: 4, access: "R", memory: "RAM" },
+  Position_Trajectory: { address: 140, size: 4, access: "R", memory: "RAM" },
+  Present_Input_Voltage: { address: 144, size: 2, access: "R", memory: "RAM" },
+  Present_Temperature: { address: 146, size: 1, access: "R", memory: "RAM" },
+});
+
+export type DynamixelRegister = keyof typeof DYNAMIXEL_CONTROL_TABLE;
+
+/**
+ * Look up a Dynamixel register definition by name
+ */
+export function getDynamixelRegister(
+  register: DynamixelRegister
+): DynamixelRegisterDefinition {
+  const definition: DynamixelRegisterDefinition | undefined =
+    DYNAMIXEL_CONTROL_TABLE[register];
+  if (!definition) {
+    throw new Error(`Unknown Dynamixel register: ${register}`);
+  }
+  return definition;
+}
+
+/**
+ * Encode a register value into little-endian bytes
+ * Applies two's complement encoding for signed registers
+ */
+export function encodeDynamixelValue(
+  register: DynamixelRegister,
+  value: number
+): number[] {
+  const { size, signed } = getDynamixelRegister(register);
+  const rounded = Math.round(value);
+  const range = 2 ** (size * 8);
+  const [min, max] = signed ? [-range / 2, range / 2 - 1] : [0, range - 1];
+
+  if (rounded < min || rounded > max) {
+    throw new Error(
+      `Value ${value} does not fit in ${size}-byte register ${register}`
+    );
+  }
+
+  const raw = rounded < 0 ? rounded + range : rounded;
+  const bytes: number[] = [];
+  for (let i = 0; i < size; i++) {
+    bytes.push(Math.floor(raw / 2 ** (8 * i)) & 0xff);
+  }
+  return bytes;
+}
+
+/**
+ * Decode little-endian register bytes into a value
+ * Applies two's complement decoding for signed registers
+ */
+export function decodeDynamixelValue(
+  register: DynamixelRegister,
+  bytes: ArrayLike<number>
+): number {
+  const { size, signed } = getDynamixelRegister(register);
+  let raw = 0;
+  for (let i = 0; i < size; i++) {
+    raw += bytes[i] * 2 ** (8 * i);
+  }
+
+  const range = 2 ** (size * 8);
+  return signed && raw >= range / 2 ? raw - range : raw;
+}
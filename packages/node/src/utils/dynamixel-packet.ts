@@ -0,0 +1,226 @@
+/**
+ * Dynamixel Protocol 2.0 Packet Framing
+ * CRC16, byte stuffing, instruction packet building and packet parsing
+ */
+
+import { DYNAMIXEL_PROTOCOL } from "./dynamixel-protocol.js";
+import type { StatusPacket } from "./sts3215-packet.js";
+
+/**
+ * Packet header; the trailing 0x00 is reserved
+ */
+const HEADER = [0xff, 0xff, 0xfd, 0x00];
+
+/**
+ * Error numbers of the status packet error field (bits 0-6)
+ */
+export const DYNAMIXEL_ERRORS: { [error: number]: string } = {
+  0x01: "result fail",
+  0x02: "instruction error",
+  0x03: "CRC error",
+  0x04: "data range error",
+  0x05: "data length error",
+  0x06: "data limit error",
+  0x07: "access error",
+};
+
+/**
+ * Bit 7 of the error field: the motor has a hardware error,
+ * see Hardware_Error_Status
+ */
+export const DYNAMIXEL_ALERT_BIT = 0x80;
+
+/**
+ * Decoded packet, either an instruction or a status packet
+ */
+export interface DynamixelPacket {
+  id: number;
+  instruction: number;
+  parameters: Uint8Array; // Unstuffed; status packets start with the error byte
+}
+
+/**
+ * CRC-16 (polynomial 0x8005) over a complete packet without its CRC field
+ */
+export function calculateCrc16(bytes: ArrayLike<number>): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Insert 0xFD after every 0xFF 0xFF 0xFD so parameters never look like a header
+ */
+export function stuffBytes(bytes: number[]): number[] {
+  const stuffed: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    stuffed.push(bytes[i]);
+    if (
+      i >= 2 &&
+      bytes[i] === 0xfd &&
+      bytes[i - 1] === 0xff &&
+      bytes[i - 2] === 0xff
+    ) {
+      stuffed.push(0xfd);
+    }
+  }
+  return stuffed;
+}
+
+/**
+ * Remove the 0xFD inserted by stuffBytes
+ */
+export function unstuffBytes(bytes: ArrayLike<number>): number[] {
+  const unstuffed: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    unstuffed.push(bytes[i]);
+    if (
+      i >= 2 &&
+      bytes[i] === 0xfd &&
+      bytes[i - 1] === 0xff &&
+      bytes[i - 2] === 0xff &&
+      bytes[i + 1] === 0xfd
+    ) {
+      i++; // Skip the stuffed byte
+    }
+  }
+  return unstuffed;
+}
+
+/**
+ * Build a packet with header, length, byte stuffing and CRC
+ * Status packets are built the same way with instruction 0x55
+ */
+export function createDynamixelPacket(
+  motorId: number,
+  instruction: number,
+  parameters: number[] = []
+): Uint8Array {
+  const body = stuffBytes([instruction, ...parameters]);
+  const length = body.length + 2; // Instruction + parameters + CRC
+  const packet = [
+    ...HEADER,
+    motorId,
+    length & 0xff,
+    (length >> 8) & 0xff,
+    ...body,
+  ];
+  const crc = calculateCrc16(packet);
+  return new Uint8Array([...packet, crc & 0xff, (crc >> 8) & 0xff]);
+}
+
+/**
+ * Turn a status packet into the protocol independent StatusPacket shape
+ * Returns null for instruction packets
+ */
+export function toStatusPacket(packet: DynamixelPacket): StatusPacket | null {
+  if (
+    packet.instruction !== DYNAMIXEL_PROTOCOL.STATUS_INSTRUCTION ||
+    packet.parameters.length < 1
+  ) {
+    return null;
+  }
+  return {
+    id: packet.id,
+    error: packet.parameters[0],
+    parameters: packet.parameters.slice(1),
+  };
+}
+
+/**
+ * Describe the error field of a status packet
+ */
+export function describeDynamixelError(error: number): string {
+  const reasons: string[] = [];
+  const errorNumber = error & ~DYNAMIXEL_ALERT_BIT;
+
+  if (errorNumber !== 0) {
+    reasons.push(
+      DYNAMIXEL_ERRORS[errorNumber] ??
+        `unknown error 0x${errorNumber.toString(16).padStart(2, "0")}`
+    );
+  }
+  if (error & DYNAMIXEL_ALERT_BIT) {
+    reasons.push("hardware error alert");
+  }
+  return reasons.join(", ");
+}
+
+/**
+ * Incremental packet framer
+ * Feed it raw chunks from port.read() - partial packets are kept until the
+ * rest arrives, concatenated packets are split, and garbage or packets with a
+ * bad CRC are skipped by resyncing on the next header
+ */
+export class DynamixelPacketParser {
+  private buffer: number[] = [];
+
+  /**
+   * Add received bytes and return every complete packet found so far
+   */
+  push(chunk: ArrayLike<number>): DynamixelPacket[] {
+    for (let i = 0; i < chunk.length; i++) this.buffer.push(chunk[i]);
+
+    const packets: DynamixelPacket[] = [];
+    let packet = this.nextPacket();
+    while (packet) {
+      packets.push(packet);
+      packet = this.nextPacket();
+    }
+    return packets;
+  }
+
+  /**
+   * Drop any partially received packet
+   */
+  reset(): void {
+    this.buffer = [];
+  }
+
+  /**
+   * Number of buffered bytes that do not form a complete packet yet
+   */
+  get pendingBytes(): number {
+    return this.buffer.length;
+  }
+
+  private nextPacket(): DynamixelPacket | null {
+    while (this.buffer.length >= DYNAMIXEL_PROTOCOL.PACKET_OVERHEAD) {
+      if (HEADER.some((byte, i) => this.buffer[i] !== byte)) {
+        this.buffer.shift();
+        continue;
+      }
+
+      const length = this.buffer[5] | (this.buffer[6] << 8);
+      if (length < 3) {
+        this.buffer.shift();
+        continue;
+      }
+
+      const packetLength = length + 7;
+      if (this.buffer.length < packetLength) return null;
+
+      const crc =
+        this.buffer[packetLength - 2] | (this.buffer[packetLength - 1] << 8);
+      if (calculateCrc16(this.buffer.slice(0, packetLength - 2)) !== crc) {
+        this.buffer.shift();
+        continue;
+      }
+
+      const packet = this.buffer.splice(0, packetLength);
+      const body = unstuffBytes(packet.slice(7, packetLength - 2));
+      return {
+        id: packet[4],
+        instruction: body[0],
+        parameters: new Uint8Array(body.slice(1)),
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Dynamixel Protocol 2.0 Constants and Configuration
+ * Single source of truth for all Dynamixel motor communication
+ */
+
+import type { RobotHardwareConfig } from "../types/robot-config.js";
+
+/**
+ * Dynamixel Protocol 2.0 Configuration
+ * Instructions, model numbers, timing and communication constants
+ * See DYNAMIXEL_CONTROL_TABLE for the complete register map
+ */
+export const DYNAMIXEL_PROTOCOL = {
+  // Instructions
+  PING_INSTRUCTION: 0x01,
+  READ_INSTRUCTION: 0x02,
+  WRITE_INSTRUCTION: 0x03,
+  SYNC_READ_INSTRUCTION: 0x82, // Read the same register from several motors
+  SYNC_WRITE_INSTRUCTION: 0x83, // Write the same register on several motors
+  STATUS_INSTRUCTION: 0x55, // Instruction field of every status packet
+  BROADCAST_ID: 0xfe, // Addresses every motor on the bus
+
+  // Model numbers reported by X-series servos
+  XL330_M077_MODEL_NUMBER: 1190,
+  XL330_M288_MODEL_NUMBER: 1200,
+  XL430_W250_MODEL_NUMBER: 1060,
+
+  // Protocol constants
+  DEFAULT_BAUD_RATE: 1000000,
+  RESOLUTION: 4096, // 12-bit resolution (0-4095) per turn
+  PACKET_OVERHEAD: 10, // Header (4) + ID + Length (2) + Instruction + CRC (2)
+
+  // Operating_Mode values
+  POSITION_MODE: 3,
+  EXTENDED_POSITION_MODE: 4,
+  CURRENT_POSITION_MODE: 5,
+
+  // Communication timing
+  WRITE_TO_READ_DELAY: 10,
+  RETRY_DELAY: 20,
+  MAX_RETRIES: 3,
+  PING_TIMEOUT: 50, // Single attempt per ID when scanning the bus
+} as const;
+
+/**
+ * Supported bus baud rates and their Baud_Rate register values
+ */
+export const DYNAMIXEL_BAUD_RATES: { [baudRate: number]: number } = {
+  9600: 0,
+  57600: 1,
+  115200: 2,
+  1000000: 3,
+  2000000: 4,
+  3000000: 5,
+  4000000: 6,
+};
+
+/**
+ * Register layout shared by all Dynamixel X-series robot configurations
+ */
+export const DYNAMIXEL_HARDWARE_PROTOCOL: RobotHardwareConfig["protocol"] = {
+  resolution: DYNAMIXEL_PROTOCOL.RESOLUTION,
+  homingOffsetAddress: 20,
+  homingOffsetLength: 4,
+  presentPositionAddress: 132,
+  presentPositionLength: 4,
+  minPositionLimitAddress: 52,
+  minPositionLimitLength: 4,
+  maxPositionLimitAddress: 48,
+  maxPositionLimitLength: 4,
+  signMagnitudeBit: 0, // Signed registers use two's complement
+};
@@ -0,0 +1,120 @@
+/**
+ * Gamepad Mapping
+ * Turns stick and button input into joint or end-effector velocities
+ * Axis and button indices follow the Linux joystick (xpad) layout
+ */
+
+import type {
+  GamepadButtonControl,
+  GamepadSnapshot,
+} from "../types/teleoperation.js";
+
+/**
+ * Default stick mapping for SO-100 style arms
+ * Left stick: shoulder pan/lift, right stick: wrist roll, elbow flex,
+ * D-pad up/down: wrist flex (the D-pad is an axis pair on Linux)
+ */
+export const GAMEPAD_AXIS_MAPPING: { [axis: string]: string } = {
+  0: "shoulder_pan",
+  1: "-shoulder_lift", // stick up lifts the arm
+  3: "wrist_roll",
+  4: "-elbow_flex",
+  7: "-wrist_flex",
+};
+
+/**
+ * Default button mapping for SO-100 style arms
+ * Bumpers: gripper
+ */
+export const GAMEPAD_BUTTON_MAPPING: {
+  [button: string]: GamepadButtonControl;
+} = {
+  4: { motor: "gripper", direction: -1 }, // LB closes
+  5: { motor: "gripper", direction: 1 }, // RB opens
+};
+
+/**
+ * Default stick mapping for cartesian teleoperation
+ * Left stick: move forward/back and sideways, right stick: roll and pitch,
+ * D-pad up/down: move up/down
+ */
+export const CARTESIAN_GAMEPAD_AXIS_MAPPING: { [axis: string]: string } = {
+  0: "-y", // stick right moves right
+  1: "-x", // stick up moves forward
+  3: "roll",
+  4: "pitch", // stick up tilts up
+  7: "-z",
+};
+
+/**
+ * Default button mapping for cartesian teleoperation
+ * Bumpers: gripper
+ */
+export const CARTESIAN_GAMEPAD_BUTTON_MAPPING: {
+  [button: string]: GamepadButtonControl;
+} = {
+  4: { motor: "gripper", direction: -1 }, // LB closes
+  5: { motor: "gripper", direction: 1 }, // RB opens
+};
+
+/**
+ * Zero a stick value inside the deadzone and rescale the rest,
+ * so the output still starts at 0 and reaches 1
+ */
+export function applyDeadzone(value: number, deadzone: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadzone) return 0;
+  return (
+    (Math.sign(value) * (Math.min(magnitude, 1) - deadzone)) / (1 - deadzone)
+  );
+}
+
+/**
+ * Expo curve for fine control near the center
+ * expo 0 is linear, expo 1 is cubic
+ */
+export function applyExpo(value: number, expo: number): number {
+  return (1 - expo) * value + expo * value * value * value;
+}
+
+/**
+ * Joint velocities from -1 to 1 for the current gamepad input
+ * Mapped sticks and buttons of the same joint add up
+ */
+export function gamepadVelocities(
+  gamepad: GamepadSnapshot,
+  axisMapping: { [axis: string]: string },
+  buttonMapping: { [button: string]: GamepadButtonControl },
+  deadzone: number,
+  expo: number
+): { [motorName: string]: number } {
+  const velocities: { [motorName: string]: number } = {};
+
+  for (const [axis, mapping] of Object.entries(axisMapping)) {
+    const value = gamepad.axes[Number(axis)];
+    if (value === undefined) continue;
+
+    const inverted = mapping.startsWith("-");
+    const motor = inverted ? mapping.slice(1) : mapping;
+    const velocity = applyExpo(applyDeadzone(value, deadzone), expo);
+    if (velocity === 0) continue;
+
+    velocities[motor] =
+      (velocities[motor] ?? 0) + (inverted ? -velocity : velocity);
+  }
+
+  for (const [button, control] of Object.entries(buttonMapping)) {
+    const state = gamepad.buttons[Number(button)];
+    if (!state?.pressed) continue;
+
+    // Digital buttons report value 1, triggers their travel
+    const velocity = control.direction * (state.value || 1);
+    velocities[control.motor] = (velocities[control.motor] ?? 0) + velocity;
+  }
+
+  for (const motor of Object.keys(velocities)) {
+    velocities[motor] = Math.max(-1, Math.min(1, velocities[motor]));
+  }
+
+  return velocities;
+}
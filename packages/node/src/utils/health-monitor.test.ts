@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { HealthMonitor } from "./health-monitor.js";
+import { BusScheduler } from "./bus-scheduler.js";
+import { SimulatedMotorBus } from "./simulated-motor-bus.js";
+import type { HealthWarning } from "../types/health.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+function createGripper() {
+  const sim = new SimulatedMotorBus({ motors: [6], maxSpeed: 100000 });
+  const bus = new BusScheduler(sim);
+  const motorConfigs: MotorConfig[] = [
+    {
+      id: 6,
+      name: "gripper",
+      currentPosition: 2048,
+      minPosition: 1024,
+      maxPosition: 3072,
+    },
+  ];
+  const warnings: HealthWarning[] = [];
+  const monitor = new HealthMonitor(bus, motorConfigs, {
+    overloadDuration: 1000,
+    onWarning: (warning) => warnings.push(warning),
+  });
+  return { sim, bus, monitor, warnings };
+}
+
+describe("HealthMonitor", () => {
+  it("should release a stalled gripper and keep it released", async () => {
+    const { sim, bus, monitor, warnings } = createGripper();
+    sim.setRegisterValue(6, "Torque_Enable", 1);
+    sim.setRegisterValue(6, "Present_Load", -950);
+
+    await monitor.poll(0);
+    await monitor.poll(1000);
+
+    expect(sim.getRegisterValue(6, "Torque_Enable")).toBe(0);
+    expect(monitor.getHealth().gripper).toMatchObject({
+      load: -95,
+      torqueReleased: true,
+    });
+    expect(warnings.map((w) => [w.metric, w.torqueReleased])).toEqual([
+      ["load", false],
+      ["load", true],
+    ]);
+    expect(bus.heldMotors).toEqual([6]);
+
+    monitor.clearFaults();
+    expect(bus.heldMotors).toEqual([]);
+  });
+
+  it("should release an overheating motor at once", async () => {
+    const { sim, monitor, warnings } = createGripper();
+    sim.setRegisterValue(6, "Present_Temperature", 70);
+
+    await monitor.poll(0);
+
+    expect(monitor.getHealth().gripper.torqueReleased).toBe(true);
+    expect(warnings[0]).toMatchObject({
+      metric: "temperature",
+      value: 70,
+      torqueReleased: true,
+    });
+  });
+});
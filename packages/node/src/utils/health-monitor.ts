@@ -0,0 +1,368 @@
+/**
+ * Health Monitor
+ * Reads temperature, voltage, load and current of every motor at a low rate,
+ * warns at thresholds and releases torque on overheating or sustained overload
+ */
+
+import type { BusScheduler } from "./bus-scheduler.js";
+import type {
+  HealthMetric,
+  HealthMonitorConfig,
+  HealthWarning,
+  MotorHealth,
+} from "../types/health.js";
+import type { MotorBusType } from "../types/motor-bus.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+/**
+ * Default configuration values for the health monitor
+ */
+export const HEALTH_MONITOR_DEFAULTS = {
+  updateRate: 2, // Reads per second, leaves the bus to goal writes
+  warningTemperature: 55, // °C
+  maxTemperature: 65, // °C, below the 70 °C the STS3215 shuts down at
+  minVoltage: 4.5, // Volts, below the supply of every supported arm
+  warningLoad: 70, // Percent of the maximum torque
+  maxLoad: 90, // Percent of the maximum torque
+  overloadDuration: 3000, // Milliseconds, a stalled servo heats up within minutes
+} as const;
+
+/**
+ * Health registers of each MotorsBus and their unit per register step
+ * Dynamixel Present_Current is in mA on the XL330, other models scale differently
+ */
+const HEALTH_REGISTERS: {
+  [type in MotorBusType]: {
+    metric: HealthMetric;
+    register: string;
+    scale: number;
+  }[];
+} = {
+  feetech: [
+    { metric: "temperature", register: "Present_Temperature", scale: 1 },
+    { metric: "voltage", register: "Present_Voltage", scale: 0.1 },
+    { metric: "load", register: "Present_Load", scale: 0.1 },
+    { metric: "current", register: "Present_Current", scale: 6.5 },
+  ],
+  dynamixel: [
+    { metric: "temperature", register: "Present_Temperature", scale: 1 },
+    { metric: "voltage", register: "Present_Input_Voltage", scale: 0.1 },
+    { metric: "current", register: "Present_Current", scale: 1 },
+  ],
+};
+
+/**
+ * Value of a motor that crossed a threshold
+ */
+interface HealthReading {
+  motorConfig: MotorConfig;
+  metric: HealthMetric;
+  value: number;
+  threshold: number;
+}
+
+const HEALTH_UNITS: { [metric in HealthMetric]: string } = {
+  temperature: "°C",
+  voltage: "V",
+  load: "%",
+  current: "mA",
+};
+
+/**
+ * One line description of a health warning, e.g. for logs
+ */
+export function formatHealthWarning(warning: HealthWarning): string {
+  const unit = HEALTH_UNITS[warning.metric];
+  const value = Math.round(warning.value * 10) / 10;
+  return `Motor ${warning.motorName} ${warning.metric} ${value}${unit} (limit ${warning.threshold}${unit})${warning.torqueReleased ? ", torque released" : ""}`;
+}
+
+export class HealthMonitor {
+  readonly updateRate: number;
+  private readonly bus: BusScheduler;
+  private readonly motorConfigs: MotorConfig[];
+  private health = new Map<number, MotorHealth>();
+  private activeWarnings = new Map<number, Set<HealthMetric>>();
+  private overloadSince = new Map<number, number>();
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  // Configuration values
+  private readonly warningTemperature: number;
+  private readonly maxTemperature: number;
+  private readonly minVoltage: number;
+  private readonly warningLoad: number;
+  private readonly maxLoad: number;
+  private readonly maxCurrent?: number;
+  private readonly overloadDuration: number;
+  private readonly onWarning: (warning: HealthWarning) => void;
+
+  /**
+   * @param bus Scheduler of the motors, health reads queue as telemetry
+   */
+  constructor(
+    bus: BusScheduler,
+    motorConfigs: MotorConfig[],
+    config: HealthMonitorConfig = {}
+  ) {
+    this.bus = bus;
+    this.motorConfigs = motorConfigs;
+
+    // Set configuration values
+    this.updateRate = config.updateRate ?? HEALTH_MONITOR_DEFAULTS.updateRate;
+    this.warningTemperature =
+      config.warningTemperature ?? HEALTH_MONITOR_DEFAULTS.warningTemperature;
+    this.maxTemperature =
+      config.maxTemperature ?? HEALTH_MONITOR_DEFAULTS.maxTemperature;
+    this.minVoltage = config.minVoltage ?? HEALTH_MONITOR_DEFAULTS.minVoltage;
+    this.warningLoad =
+      config.warningLoad ?? HEALTH_MONITOR_DEFAULTS.warningLoad;
+    this.maxLoad = config.maxLoad ?? HEALTH_MONITOR_DEFAULTS.maxLoad;
+    this.maxCurrent = config.maxCurrent;
+    this.overloadDuration =
+      config.overloadDuration ?? HEALTH_MONITOR_DEFAULTS.overloadDuration;
+    this.onWarning =
+      config.onWarning ??
+      ((warning) => console.warn(formatHealthWarning(warning)));
+  }
+
+  get isRunning(): boolean {
+    return this.interval !== null;
+  }
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(() => {
+      this.poll().catch((error) => {
+        console.warn("Failed to read motor health:", error);
+      });
+    }, 1000 / this.updateRate);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Latest health of the motors that answered, keyed by motor name
+   */
+  getHealth(): { [motorName: string]: MotorHealth } {
+    const health: { [motorName: string]: MotorHealth } = {};
+    for (const motorConfig of this.motorConfigs) {
+      const motorHealth = this.health.get(motorConfig.id);
+      if (motorHealth) health[motorConfig.name] = { ...motorHealth };
+    }
+    return health;
+  }
+
+  /**
+   * Read all health registers once and act on the thresholds
+   * A register that fails to read keeps its previous values
+   */
+  async poll(now: number = Date.now()): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const motorIds = this.motorConfigs.map((config) => config.id);
+      for (const { metric, register, scale } of HEALTH_REGISTERS[
+        this.bus.motorBus.type
+      ]) {
+        try {
+          const values = await this.bus.run("read", (port) =>
+            this.bus.motorBus.syncReadRegister(port, motorIds, register)
+          );
+          motorIds.forEach((id, i) => {
+            this.motorHealth(id)[metric] = values[i] * scale;
+          });
+        } catch {
+          // Some motors did not answer - keep the previous values
+        }
+      }
+
+      for (const motorConfig of this.motorConfigs) {
+        await this.check(motorConfig, now);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Accept goal writes for motors released after a fault again
+   * Feetech servos take torque with their next goal, Dynamixel servos once
+   * Torque_Enable is written
+   */
+  clearFaults(): void {
+    const released: number[] = [];
+    for (const { id } of this.motorConfigs) {
+      const health = this.health.get(id);
+      if (!health?.torqueReleased) continue;
+
+      health.torqueReleased = false;
+      this.activeWarnings.delete(id);
+      released.push(id);
+    }
+    this.bus.resumeMotors(released);
+  }
+
+  private motorHealth(motorId: number): MotorHealth {
+    let health = this.health.get(motorId);
+    if (!health) {
+      health = { torqueReleased: false };
+      this.health.set(motorId, health);
+    }
+    return health;
+  }
+
+  /**
+   * Release the motor on a fault, otherwise update its warnings
+   */
+  private async check(motorConfig: MotorConfig, now: number): Promise<void> {
+    const health = this.health.get(motorConfig.id);
+    if (!health || health.torqueReleased) return;
+
+    const overload: Omit<HealthReading, "motorConfig"> | null =
+      health.load !== undefined && Math.abs(health.load) >= this.maxLoad
+        ? { metric: "load", value: health.load, threshold: this.maxLoad }
+        : this.maxCurrent !== undefined &&
+            health.current !== undefined &&
+            health.current >= this.maxCurrent
+          ? {
+              metric: "current",
+              value: health.current,
+              threshold: this.maxCurrent,
+            }
+          : null;
+
+    let overloadSince = this.overloadSince.get(motorConfig.id);
+    if (!overload) {
+      this.overloadSince.delete(motorConfig.id);
+    } else if (overloadSince === undefined) {
+      overloadSince = now;
+      this.overloadSince.set(motorConfig.id, now);
+    }
+
+    if (
+      health.temperature !== undefined &&
+      health.temperature >= this.maxTemperature
+    ) {
+      await this.release(
+        {
+          motorConfig,
+          metric: "temperature",
+          value: health.temperature,
+          threshold: this.maxTemperature,
+        },
+        health,
+        now
+      );
+      return;
+    }
+
+    if (
+      overload &&
+      overloadSince !== undefined &&
+      now - overloadSince >= this.overloadDuration
+    ) {
+      await this.release({ motorConfig, ...overload }, health, now);
+      return;
+    }
+
+    this.updateWarning(
+      motorConfig,
+      "temperature",
+      health.temperature,
+      this.warningTemperature,
+      now
+    );
+    this.updateWarning(
+      motorConfig,
+      "voltage",
+      health.voltage,
+      this.minVoltage,
+      now
+    );
+    this.updateWarning(motorConfig, "load", health.load, this.warningLoad, now);
+    if (this.maxCurrent !== undefined) {
+      this.updateWarning(
+        motorConfig,
+        "current",
+        health.current,
+        this.maxCurrent,
+        now
+      );
+    }
+  }
+
+  /**
+   * Stop goal writes to the motor and disable its torque
+   */
+  private async release(
+    { motorConfig, metric, value, threshold }: HealthReading,
+    health: MotorHealth,
+    now: number
+  ): Promise<void> {
+    health.torqueReleased = true;
+    this.overloadSince.delete(motorConfig.id);
+    this.bus.holdMotors([motorConfig.id]);
+
+    try {
+      await this.bus.releaseMotor(motorConfig.id);
+    } catch (error) {
+      console.warn(`Failed to release motor ${motorConfig.name}:`, error);
+    }
+
+    this.onWarning({
+      timestamp: now,
+      motorName: motorConfig.name,
+      motorId: motorConfig.id,
+      metric,
+      value,
+      threshold,
+      torqueReleased: true,
+    });
+  }
+
+  /**
+   * Warn once when a value crosses its threshold, voltage warns below it
+   */
+  private updateWarning(
+    motorConfig: MotorConfig,
+    metric: HealthMetric,
+    value: number | undefined,
+    threshold: number,
+    now: number
+  ): void {
+    if (value === undefined) return;
+
+    let active = this.activeWarnings.get(motorConfig.id);
+    if (!active) {
+      active = new Set();
+      this.activeWarnings.set(motorConfig.id, active);
+    }
+
+    const crossed =
+      metric === "voltage" ? value < threshold : Math.abs(value) >= threshold;
+    if (!crossed) {
+      active.delete(metric);
+      return;
+    }
+    if (active.has(metric)) return;
+
+    active.add(metric);
+    this.onWarning({
+      timestamp: now,
+      motorName: motorConfig.name,
+      motorId: motorConfig.id,
+      metric,
+      value,
+      threshold,
+      torqueReleased: false,
+    });
+  }
+}
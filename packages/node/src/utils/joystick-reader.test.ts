@@ -0,0 +1,72 @@
+/**
+ * Joystick reader tests
+ * Decode recorded js_event streams
+ */
+
+import { describe, it, expect } from "vitest";
+import { PassThrough } from "stream";
+import {
+  JoystickStreamReader,
+  JOYSTICK_EVENT_TYPES,
+  openJoystickDevice,
+  parseJoystickEvents,
+  type JoystickEvent,
+} from "./joystick-reader.js";
+
+function jsEvent(time: number, value: number, type: number, number: number) {
+  const data = new Uint8Array(8);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, time, true);
+  view.setInt16(4, value, true);
+  view.setUint8(6, type);
+  view.setUint8(7, number);
+  return data;
+}
+
+describe("JoystickStreamReader", () => {
+  it("should decode axis, button and initial state events", () => {
+    const data = new Uint8Array(24);
+    data.set(
+      jsEvent(10, 1, JOYSTICK_EVENT_TYPES.BUTTON | JOYSTICK_EVENT_TYPES.INIT, 4)
+    );
+    data.set(jsEvent(20, -32767, JOYSTICK_EVENT_TYPES.AXIS, 1), 8);
+    data.set(jsEvent(30, 0, 0x04, 0), 16); // unknown type
+
+    expect(parseJoystickEvents(data)).toEqual([
+      { time: 10, type: "button", number: 4, value: 1, initial: true },
+      { time: 20, type: "axis", number: 1, value: -32767, initial: false },
+    ]);
+  });
+
+  it("should join events split across chunks", () => {
+    const stream = new PassThrough();
+    const reader = new JoystickStreamReader(() => stream);
+    const events: JoystickEvent[] = [];
+    let closed = false;
+    reader.start(
+      (event) => events.push(event),
+      () => (closed = true)
+    );
+
+    const event = jsEvent(5, 12000, JOYSTICK_EVENT_TYPES.AXIS, 0);
+    stream.write(event.slice(0, 3));
+    stream.write(event.slice(3));
+    stream.end();
+
+    return new Promise<void>((resolve) => {
+      stream.on("end", () => {
+        expect(events).toEqual([
+          { time: 5, type: "axis", number: 0, value: 12000, initial: false },
+        ]);
+        expect(closed).toBe(true);
+        resolve();
+      });
+    });
+  });
+
+  it("should reject missing devices", () => {
+    expect(() => openJoystickDevice("/dev/input/js-missing")).toThrow(
+      "not found"
+    );
+  });
+});
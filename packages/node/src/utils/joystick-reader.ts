@@ -0,0 +1,142 @@
+/**
+ * Joystick Reader
+ * Reads gamepad events from the Linux joystick API (/dev/input/js*)
+ * Every event is 8 little-endian bytes: u32 time (ms), s16 value, u8 type, u8 number
+ */
+
+import { createReadStream, existsSync } from "fs";
+
+/**
+ * js_event type flags
+ */
+export const JOYSTICK_EVENT_TYPES = {
+  BUTTON: 0x01,
+  AXIS: 0x02,
+  INIT: 0x80, // Initial state, sent once for every axis and button on open
+} as const;
+
+const JOYSTICK_EVENT_SIZE = 8;
+
+/**
+ * One decoded js_event
+ */
+export interface JoystickEvent {
+  time: number; // Milliseconds, driver clock
+  type: "button" | "axis";
+  number: number; // Axis or button index
+  value: number; // Axes -32767..32767, buttons 0 or 1
+  initial: boolean; // Part of the initial state
+}
+
+/**
+ * Source of gamepad events
+ * The joystick device in production, recorded event streams in tests
+ */
+export interface GamepadReader {
+  start(
+    onEvent: (event: JoystickEvent) => void,
+    onClose?: (error?: Error) => void
+  ): void;
+  stop(): void;
+}
+
+/**
+ * Decode complete js_event records, ignoring a trailing partial record
+ */
+export function parseJoystickEvents(data: Uint8Array): JoystickEvent[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const events: JoystickEvent[] = [];
+
+  for (
+    let offset = 0;
+    offset + JOYSTICK_EVENT_SIZE <= data.length;
+    offset += JOYSTICK_EVENT_SIZE
+  ) {
+    const type = view.getUint8(offset + 6);
+    const kind = type & ~JOYSTICK_EVENT_TYPES.INIT;
+    if (
+      kind !== JOYSTICK_EVENT_TYPES.BUTTON &&
+      kind !== JOYSTICK_EVENT_TYPES.AXIS
+    ) {
+      continue;
+    }
+
+    events.push({
+      time: view.getUint32(offset, true),
+      type: kind === JOYSTICK_EVENT_TYPES.AXIS ? "axis" : "button",
+      number: view.getUint8(offset + 7),
+      value: view.getInt16(offset + 4, true),
+      initial: (type & JOYSTICK_EVENT_TYPES.INIT) !== 0,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Reads js_event records from a byte stream
+ * Records split across chunks are joined before decoding
+ */
+export class JoystickStreamReader implements GamepadReader {
+  private openStream: () => NodeJS.ReadableStream;
+  private stream: NodeJS.ReadableStream | null = null;
+  private pending: Uint8Array = new Uint8Array(0);
+
+  constructor(openStream: () => NodeJS.ReadableStream) {
+    this.openStream = openStream;
+  }
+
+  start(
+    onEvent: (event: JoystickEvent) => void,
+    onClose?: (error?: Error) => void
+  ): void {
+    if (this.stream) return;
+
+    const stream = this.openStream();
+    let closed = false;
+    const close = (error?: Error) => {
+      if (closed) return;
+      closed = true;
+      this.stream = null;
+      onClose?.(error);
+    };
+
+    stream.on("data", (chunk: Uint8Array) => {
+      const data = new Uint8Array(this.pending.length + chunk.length);
+      data.set(this.pending);
+      data.set(chunk, this.pending.length);
+
+      const complete = data.length - (data.length % JOYSTICK_EVENT_SIZE);
+      this.pending = data.slice(complete);
+      parseJoystickEvents(data.subarray(0, complete)).forEach(onEvent);
+    });
+    stream.on("error", (error: Error) => close(error));
+    stream.on("end", () => close());
+    stream.on("close", () => close());
+
+    this.stream = stream;
+  }
+
+  stop(): void {
+    const stream = this.stream;
+    this.stream = null;
+    this.pending = new Uint8Array(0);
+
+    if (stream && "destroy" in stream) {
+      (stream as NodeJS.ReadableStream & { destroy(): void }).destroy();
+    }
+  }
+}
+
+/**
+ * Open a Linux joystick device, e.g. /dev/input/js0
+ */
+export function openJoystickDevice(device: string): JoystickStreamReader {
+  if (!existsSync(device)) {
+    throw new Error(
+      `Gamepad device ${device} not found. Is the gamepad connected?`
+    );
+  }
+
+  return new JoystickStreamReader(() => createReadStream(device));
+}
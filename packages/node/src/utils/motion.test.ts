@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { streamTrajectory } from "./motion.js";
+import { BusScheduler } from "./bus-scheduler.js";
+import { SimulatedMotorBus } from "./simulated-motor-bus.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+describe("streamTrajectory", () => {
+  it("should move a simulated motor along a minimum jerk trajectory", async () => {
+    const sim = new SimulatedMotorBus({ motors: [1], maxSpeed: 100000 });
+    sim.setRegisterValue(1, "Torque_Enable", 1);
+    const bus = new BusScheduler(sim);
+    const motorConfigs: MotorConfig[] = [
+      {
+        id: 1,
+        name: "shoulder_pan",
+        currentPosition: 2047,
+        minPosition: 1024,
+        maxPosition: 3072,
+      },
+    ];
+    const goals: number[] = [];
+
+    await streamTrajectory(bus, motorConfigs, [2647], { duration: 100 }, () =>
+      goals.push(sim.getRegisterValue(1, "Goal_Position"))
+    );
+
+    // Slow at the start, all the way at the end
+    expect(goals[1] - goals[0]).toBeLessThan(50);
+    expect(goals[goals.length - 1]).toBe(2647);
+    expect(sim.getRegisterValue(1, "Present_Position")).toBe(2647);
+  });
+});
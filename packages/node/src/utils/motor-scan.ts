@@ -0,0 +1,142 @@
+/**
+ * Motor Bus Scan Utilities
+ * Discover which motors answer on a bus and identify them
+ */
+
+import { STS3215_PROTOCOL } from "./sts3215-protocol.js";
+import { STS3215_CONTROL_TABLE } from "./sts3215-control-table.js";
+import {
+  readMotorData,
+  type MotorCommunicationPort,
+} from "./motor-communication.js";
+import { FEETECH_MOTOR_BUS } from "./motor-bus.js";
+import { MotorTimeoutError } from "./motor-errors.js";
+import type { MotorBus } from "../types/motor-bus.js";
+import type {
+  ScanMotorsOptions,
+  ScannedMotor,
+} from "../types/motor-scan.js";
+
+/**
+ * Every addressable motor ID (0xFE is broadcast, 0xFD-0xFF are reserved)
+ */
+const ALL_MOTOR_IDS = Array.from({ length: 253 }, (_, id) => id);
+
+/**
+ * Read model number and firmware version of a motor that answered a ping
+ */
+async function readMotorInfo(
+  port: MotorCommunicationPort,
+  motorId: number,
+  motorBus: MotorBus
+): Promise<Pick<ScannedMotor, "modelNumber" | "firmwareVersion">> {
+  if (motorBus.type !== "feetech") {
+    try {
+      return {
+        modelNumber: await motorBus.readRegister(port, motorId, "Model_Number"),
+        firmwareVersion: String(
+          await motorBus.readRegister(port, motorId, "Firmware_Version")
+        ),
+      };
+    } catch {
+      return { modelNumber: null, firmwareVersion: null };
+    }
+  }
+
+  // Firmware_Major_Version through Model_Number in one read
+  const start = STS3215_CONTROL_TABLE.Firmware_Major_Version.address;
+  const modelOffset = STS3215_CONTROL_TABLE.Model_Number.address - start;
+
+  try {
+    const data = await readMotorData(
+      port,
+      motorId,
+      start,
+      modelOffset + STS3215_CONTROL_TABLE.Model_Number.size
+    );
+    return {
+      modelNumber: data[modelOffset] | (data[modelOffset + 1] << 8),
+      firmwareVersion: `${data[0]}.${data[1]}`,
+    };
+  } catch {
+    return { modelNumber: null, firmwareVersion: null };
+  }
+}
+
+/**
+ * PING motor IDs, optionally across several baud rates
+ * Returns every motor that answered with its model number and firmware
+ */
+export async function scanMotors(
+  port: MotorCommunicationPort,
+  options: ScanMotorsOptions = {}
+): Promise<ScannedMotor[]> {
+  const {
+    ids = ALL_MOTOR_IDS,
+    baudRates,
+    timeout = STS3215_PROTOCOL.PING_TIMEOUT,
+    onMotorFound,
+    motorBus = FEETECH_MOTOR_BUS,
+  } = options;
+
+  if (baudRates && baudRates.length > 0 && !port.setBaudRate) {
+    throw new Error("Scanning baud rates requires a port with setBaudRate");
+  }
+
+  const found: ScannedMotor[] = [];
+  const rates: (number | null)[] =
+    baudRates && baudRates.length > 0 ? baudRates : [null];
+
+  for (const baudRate of rates) {
+    if (baudRate !== null && port.setBaudRate) {
+      await port.setBaudRate(baudRate);
+    }
+
+    for (const id of ids) {
+      if (!(await motorBus.pingMotor(port, id, timeout))) continue;
+
+      const motor: ScannedMotor = {
+        id,
+        baudRate,
+        ...(await readMotorInfo(port, id, motorBus)),
+      };
+      found.push(motor);
+      onMotorFound?.(motor);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Make sure every expected motor answers before starting a procedure
+ * @throws MotorTimeoutError listing the missing motor IDs
+ */
+export async function verifyMotors(
+  port: MotorCommunicationPort,
+  motorIds: number[],
+  motorBus: MotorBus = FEETECH_MOTOR_BUS
+): Promise<ScannedMotor[]> {
+  const found: ScannedMotor[] = [];
+  let missingIds = motorIds;
+
+  // Pings are single attempts, so give missing motors a few more chances
+  for (
+    let attempts = 1;
+    attempts <= STS3215_PROTOCOL.MAX_RETRIES && missingIds.length > 0;
+    attempts++
+  ) {
+    found.push(...(await scanMotors(port, { ids: missingIds, motorBus })));
+    const foundIds = found.map((motor) => motor.id);
+    missingIds = motorIds.filter((id) => !foundIds.includes(id));
+  }
+
+  if (missingIds.length > 0) {
+    throw new MotorTimeoutError(
+      `Motor(s) ${missingIds.join(", ")} not found on the MotorsBus. Check the cables and power supply.`,
+      missingIds
+    );
+  }
+
+  return found;
+}
@@ -0,0 +1,93 @@
+/**
+ * Omniwheel Kinematics
+ * Conversion between mobile base body velocity and raw wheel speeds
+ * Follows the Python lerobot LeKiwi base
+ */
+
+import { STS3215_PROTOCOL } from "./sts3215-protocol.js";
+import type { BaseVelocity, MobileBaseConfig } from "../types/robot-config.js";
+
+// Highest magnitude of the sign-magnitude encoded Goal_Speed register
+const MAX_RAW_SPEED = 0x7fff;
+
+const STEPS_PER_DEGREE = STS3215_PROTOCOL.RESOLUTION / 360;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * Rows map body velocity (x, y in m/s, theta in rad/s) to wheel rim speed (m/s)
+ */
+function kinematicsMatrix(base: MobileBaseConfig): number[][] {
+  return base.wheelAngles.map((angle) => {
+    const radians = toRadians(angle - 90);
+    return [Math.cos(radians), Math.sin(radians), base.baseRadius];
+  });
+}
+
+function invert3x3(m: number[][]): number[][] {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const determinant =
+    a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(determinant) < 1e-9) {
+    throw new Error("Wheel layout does not allow body velocity estimation");
+  }
+
+  return [
+    [e * i - f * h, c * h - b * i, b * f - c * e],
+    [f * g - d * i, a * i - c * g, c * d - a * f],
+    [d * h - e * g, b * g - a * h, a * e - b * d],
+  ].map((row) => row.map((value) => value / determinant));
+}
+
+/**
+ * Convert a body velocity into raw Goal_Speed values, one per wheel
+ * All wheels are scaled down together when one exceeds maxWheelSpeed,
+ * so the base keeps its direction
+ */
+export function bodyToWheelSpeeds(
+  velocity: BaseVelocity,
+  base: MobileBaseConfig
+): number[] {
+  const body = [velocity.x, velocity.y, toRadians(velocity.theta)];
+  const wheelDegreesPerSecond = kinematicsMatrix(base).map((row) =>
+    toDegrees(
+      (row[0] * body[0] + row[1] * body[1] + row[2] * body[2]) /
+        base.wheelRadius
+    )
+  );
+
+  const fastest = Math.max(
+    ...wheelDegreesPerSecond.map((speed) => Math.abs(speed) * STEPS_PER_DEGREE)
+  );
+  const scale = fastest > base.maxWheelSpeed ? base.maxWheelSpeed / fastest : 1;
+
+  return wheelDegreesPerSecond.map((speed) =>
+    Math.max(
+      -MAX_RAW_SPEED,
+      Math.min(MAX_RAW_SPEED, Math.round(speed * scale * STEPS_PER_DEGREE))
+    )
+  );
+}
+
+/**
+ * Convert raw Present_Speed values, one per wheel, into a body velocity
+ */
+export function wheelSpeedsToBody(
+  speeds: number[],
+  base: MobileBaseConfig
+): BaseVelocity {
+  const wheelLinearSpeeds = speeds.map(
+    (speed) => toRadians(speed / STEPS_PER_DEGREE) * base.wheelRadius
+  );
+  const [x, y, theta] = invert3x3(kinematicsMatrix(base)).map((row) =>
+    row.reduce((sum, value, i) => sum + value * wheelLinearSpeeds[i], 0)
+  );
+
+  return { x, y, theta: toDegrees(theta) };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getPosesDir } from "./constants.js";
+import { FilePoseStorage } from "./pose-library.js";
+import { SimulatedMotorBus } from "./simulated-motor-bus.js";
+import { DirectTeleoperator } from "../teleoperators/direct-teleoperator.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+describe("FilePoseStorage", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should keep poses of a direct teleoperator in a file", async () => {
+    dir = await mkdtemp(join(tmpdir(), "lerobot-poses-"));
+    const path = join(dir, "robots", "so100_follower", "my_arm.json");
+    const sim = new SimulatedMotorBus({ motors: [6], maxSpeed: 100000 });
+    sim.setRegisterValue(6, "Torque_Enable", 1);
+    const motorConfigs: MotorConfig[] = [
+      {
+        id: 6,
+        name: "gripper",
+        currentPosition: 2048,
+        minPosition: 1024,
+        maxPosition: 3072,
+      },
+    ];
+    const teleoperator = new DirectTeleoperator(
+      {
+        type: "direct",
+        poseStorage: new FilePoseStorage("so100_follower", "my_arm", path),
+      },
+      sim,
+      motorConfigs
+    );
+    await teleoperator.initialize();
+    teleoperator.start();
+
+    await teleoperator.moveTo({ gripper: 3072 }, { duration: 20 });
+    await teleoperator.savePose("open");
+    await teleoperator.moveTo({ gripper: 1024 }, { duration: 20 });
+
+    // A new session reads the pose back from the file
+    const reloaded = await new FilePoseStorage(
+      "so100_follower",
+      "my_arm",
+      path
+    ).load();
+    expect(reloaded).toMatchObject([
+      { name: "open", positions: { gripper: 100 } },
+    ]);
+
+    await teleoperator.goToPose("open", { duration: 20 });
+    expect(sim.getRegisterValue(6, "Present_Position")).toBe(3072);
+  });
+});
+
+describe("getPosesDir", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should keep poses next to HF_LEROBOT_CALIBRATION", () => {
+    vi.stubEnv(
+      "HF_LEROBOT_CALIBRATION",
+      join("/data", "lerobot", "calibration")
+    );
+    expect(getPosesDir()).toBe(join("/data", "lerobot", "poses"));
+  });
+});
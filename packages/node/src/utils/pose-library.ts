@@ -0,0 +1,94 @@
+/**
+ * Pose Library
+ * Named poses per robot in normalized units, kept in a pluggable PoseStorage
+ */
+
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { getPosesDir } from "./constants.js";
+import {
+  normalizeMotorValue,
+  unnormalizeMotorValue,
+} from "./motor-normalization.js";
+import type { Pose, PoseStorage } from "../types/pose.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+/**
+ * Keeps the poses of a robot in a JSON file
+ * Default: {getPosesDir()}/robots/{robotType}/{robotId}.json, laid out like
+ * the calibration files next to it
+ */
+export class FilePoseStorage implements PoseStorage {
+  readonly path: string;
+
+  constructor(robotType: string, robotId: string, path?: string) {
+    this.path =
+      path ?? join(getPosesDir(), "robots", robotType, `${robotId}.json`);
+  }
+
+  async load(): Promise<Pose[]> {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+    return JSON.parse(await readFile(this.path, "utf-8")) as Pose[];
+  }
+
+  async save(poses: Pose[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(poses, null, 2));
+  }
+}
+
+/**
+ * Keeps poses in memory, e.g. for tests and demos
+ */
+export class MemoryPoseStorage implements PoseStorage {
+  private poses: Pose[] = [];
+
+  async load(): Promise<Pose[]> {
+    return this.poses.map((pose) => structuredClone(pose));
+  }
+
+  async save(poses: Pose[]): Promise<void> {
+    this.poses = poses.map((pose) => structuredClone(pose));
+  }
+}
+
+/**
+ * Pose of the current motor positions
+ */
+export function capturePose(name: string, motorConfigs: MotorConfig[]): Pose {
+  if (!name.trim()) {
+    throw new Error("Pose name must not be empty");
+  }
+
+  const positions: { [motorName: string]: number } = {};
+  for (const motorConfig of motorConfigs) {
+    positions[motorConfig.name] = normalizeMotorValue(
+      motorConfig.currentPosition,
+      motorConfig
+    );
+  }
+  return { name, positions, savedAt: new Date().toISOString() };
+}
+
+/**
+ * Raw target positions of a pose by motor name
+ * Motors of the pose the robot does not have are an error, motors missing
+ * from the pose stay where they are
+ */
+export function poseTargets(
+  pose: Pose,
+  motorConfigs: MotorConfig[]
+): { [motorName: string]: number } {
+  const targets: { [motorName: string]: number } = {};
+  for (const [motorName, value] of Object.entries(pose.positions)) {
+    const motorConfig = motorConfigs.find((m) => m.name === motorName);
+    if (!motorConfig) {
+      throw new Error(`Pose ${pose.name} moves unknown motor ${motorName}`);
+    }
+    targets[motorName] = unnormalizeMotorValue(value, motorConfig);
+  }
+  return targets;
+}
@@ -0,0 +1,118 @@
+/**
+ * Replay Port
+ * Feed a recorded BusCapture back to the library deterministically
+ */
+
+import type { MotorCommunicationPort } from "./motor-communication.js";
+import type { BusCapture } from "./bus-capture.js";
+import type { SerialPort } from "../types/robot-connection.js";
+import type {
+  BusCaptureEntry,
+  ReplayPortOptions,
+} from "../types/bus-capture.js";
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Port that answers reads with captured rx traffic, in capture order
+ * Writes consume the next captured tx entry, reads wait for the next write
+ * when the capture continues with one
+ * Can be used as RobotConnection.port to replay a CLI session
+ */
+export class ReplayPort implements MotorCommunicationPort, SerialPort {
+  readonly path = "replay";
+  private opened = true;
+  private readonly entries: readonly BusCaptureEntry[];
+  private readonly strict: boolean;
+  private position = 0;
+  private writeListeners: (() => void)[] = [];
+
+  constructor(capture: BusCapture, options: ReplayPortOptions = {}) {
+    this.entries = capture.entries;
+    this.strict = options.strict ?? false;
+  }
+
+  /**
+   * True once every captured entry was replayed
+   */
+  get finished(): boolean {
+    return this.position >= this.entries.length;
+  }
+
+  /**
+   * Consume the next captured write
+   * @throws Error in strict mode when the data differs from the capture
+   */
+  async write(data: Uint8Array): Promise<void> {
+    // Traffic the caller never read is dropped, like stale bytes on a real bus
+    while (!this.finished && this.entries[this.position].direction === "rx") {
+      this.position++;
+    }
+
+    const entry = this.entries[this.position];
+    if (this.strict && (!entry || !sameBytes(entry.data, data))) {
+      throw new Error(
+        `Replay diverged at entry ${this.position}: write does not match the capture`
+      );
+    }
+    if (entry) this.position++;
+
+    const listeners = this.writeListeners;
+    this.writeListeners = [];
+    listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Return the next captured read
+   * Times out when the capture has no read before the next write
+   */
+  async read(timeout: number = 1000): Promise<Uint8Array> {
+    if (!this.nextIsRead()) {
+      await this.waitForWrite(timeout);
+    }
+
+    const entry = this.entries[this.position];
+    if (!this.nextIsRead()) {
+      throw new Error("Read timeout");
+    }
+
+    this.position++;
+    return entry.data;
+  }
+
+  async setBaudRate(_baudRate: number): Promise<void> {
+    // Captured bytes are replayed regardless of baud rate
+  }
+
+  get isOpen(): boolean {
+    return this.opened;
+  }
+
+  async open(): Promise<void> {
+    this.opened = true;
+  }
+
+  async close(): Promise<void> {
+    this.opened = false;
+  }
+
+  private nextIsRead(): boolean {
+    return !this.finished && this.entries[this.position].direction === "rx";
+  }
+
+  private waitForWrite(timeout: number): Promise<void> {
+    return new Promise((resolve) => {
+      const listener = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.writeListeners = this.writeListeners.filter((l) => l !== listener);
+        resolve();
+      }, timeout);
+      this.writeListeners.push(listener);
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from "vitest";
+import { SafetyFilter } from "./safety-filter.js";
+import { BusScheduler } from "./bus-scheduler.js";
+import { SimulatedMotorBus } from "./simulated-motor-bus.js";
+import { SO100_CONFIG, SO100_KINEMATICS } from "../robots/so100_config.js";
+import type { SafetyIntervention } from "../types/safety.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+// One cycle of the default update rate in milliseconds
+const CYCLE = 1000 / 60;
+
+function so100MotorConfigs(): MotorConfig[] {
+  return SO100_CONFIG.motorNames.map((name, i) => ({
+    id: SO100_CONFIG.motorIds[i],
+    name,
+    currentPosition: 2048,
+    minPosition: 1024,
+    maxPosition: 3072,
+  }));
+}
+
+describe("SafetyFilter", () => {
+  it("should limit goal change and speed per write", () => {
+    const interventions: SafetyIntervention[] = [];
+    const filter = new SafetyFilter(
+      {
+        maxRelativeTarget: 50,
+        maxVelocity: { shoulder_lift: 600 },
+        onIntervention: (intervention) => interventions.push(intervention),
+      },
+      so100MotorConfigs()
+    );
+
+    expect(filter.filter([1, 2], [3000, 1100], 0)).toEqual([2098, 2038]);
+    expect(interventions[0].rules).toEqual([
+      "max_relative_target",
+      "max_velocity",
+    ]);
+    expect(filter.pendingGoals).toEqual(
+      new Map([
+        [1, 3000],
+        [2, 1100],
+      ])
+    );
+  });
+
+  it("should hold the arm at the edge of the workspace", () => {
+    const filter = new SafetyFilter(
+      { workspace: [{ min: [0, -0.3, 0], max: [0.4, 0.3, 0.25] }] },
+      so100MotorConfigs(),
+      SO100_KINEMATICS
+    );
+
+    expect(filter.filter([2], [1820], 0)).toEqual([2048]);
+    expect(filter.filter([2], [2276], CYCLE)).toEqual([2276]);
+  });
+
+  it("should keep writing held back goals through the bus scheduler", async () => {
+    const sim = new SimulatedMotorBus({ motors: [1], maxSpeed: 100000 });
+    const bus = new BusScheduler(sim);
+    bus.setSafetyFilter(
+      new SafetyFilter({ maxRelativeTarget: 400 }, so100MotorConfigs())
+    );
+
+    const written = await bus.writeGoalPositions([1], [3000]);
+    expect(written).toEqual(new Map([[1, 2448]]));
+    expect(sim.getRegisterValue(1, "Goal_Position")).toBe(2448);
+
+    await vi.waitFor(() => {
+      expect(sim.getRegisterValue(1, "Goal_Position")).toBe(3000);
+    });
+  });
+});
@@ -1,16 +1,20 @@
 /**
  * Node.js Serial Port Wrapper
- * Standardized serialport API interface with write/read operations
+ * Standardized serialport API interface with a persistent buffered reader
  */
 
 import { SerialPort } from "serialport";
+import type { StatusPacket } from "./sts3215-packet.js";
+import { SerialReadBuffer } from "./serial-read-buffer.js";
 
 /**
  * Node.js Serial Port wrapper - provides write/read interface similar to web version
+ * Every received chunk goes into a ring buffer, so no bytes are lost between reads
  */
 export class NodeSerialPortWrapper {
   private port: SerialPort;
   private isConnected: boolean = false;
+  private buffer = new SerialReadBuffer();
   public readonly path: string; // Expose path for releaseMotors compatibility
 
   // Expose underlying port for OLD WORKING approach compatibility
@@ -28,6 +32,11 @@ export class NodeSerialPortWrapper {
       stopBits: options.stopBits || 1,
       autoOpen: false,
     });
+
+    this.port.on("data", (data: Buffer) => this.buffer.push(data));
+    this.port.on("close", () =>
+      this.buffer.fail(new Error("Read failed - port closed"))
+    );
   }
 
   get isOpen(): boolean {
@@ -40,6 +49,7 @@ export class NodeSerialPortWrapper {
         if (err) {
           reject(new Error(`Failed to open port: ${err.message}`));
         } else {
+          this.buffer.clear();
           this.isConnected = true;
           resolve();
         }
@@ -69,24 +79,46 @@ export class NodeSerialPortWrapper {
     });
   }
 
-  async read(timeout: number = 1000): Promise<Buffer | null> {
+  /**
+   * Return all buffered bytes, waiting up to timeout for the first one
+   */
+  async read(timeout: number = 1000): Promise<Uint8Array> {
+    this.assertReadable();
+    return this.buffer.read(timeout);
+  }
+
+  /**
+   * Return exactly n bytes, waiting up to timeout for all of them
+   */
+  async readExact(n: number, timeout: number = 1000): Promise<Uint8Array> {
+    this.assertReadable();
+    return this.buffer.readExact(n, timeout);
+  }
+
+  /**
+   * Return the next complete status packet, waiting up to timeout
+   */
+  async readPacket(timeout: number = 1000): Promise<StatusPacket> {
+    this.assertReadable();
+    return this.buffer.readPacket(timeout);
+  }
+
+  async setBaudRate(baudRate: number): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.isConnected) {
-        reject(new Error("Port not open for reading"));
+        reject(new Error("Port not open"));
         return;
       }
 
-      const timeoutId = setTimeout(() => {
-        reject(new Error("Read timeout"));
-      }, timeout);
-
-      const onData = (data: Buffer) => {
-        clearTimeout(timeoutId);
-        this.port.removeListener("data", onData);
-        resolve(data); // Return Buffer directly to match interface
-      };
-
-      this.port.once("data", onData);
+      this.port.update({ baudRate }, (err) => {
+        if (err) {
+          reject(new Error(`Failed to set baud rate: ${err.message}`));
+        } else {
+          // Bytes received at the old rate are garbage now
+          this.buffer.clear();
+          resolve();
+        }
+      });
     });
   }
 
@@ -99,8 +131,7 @@ export class NodeSerialPortWrapper {
     // Wait for motor response (motors need time to process command)
     await new Promise((resolve) => setTimeout(resolve, 10));
 
-    const response = await this.read(timeout);
-    return response ? new Uint8Array(response) : new Uint8Array();
+    return this.read(timeout);
   }
 
   async close(): Promise<void> {
@@ -116,4 +147,10 @@ export class NodeSerialPortWrapper {
       }
     });
   }
+
+  private assertReadable(): void {
+    if (!this.isConnected) {
+      throw new Error("Port not open for reading");
+    }
+  }
 }
@@ -0,0 +1,153 @@
+/**
+ * Serial Read Buffer
+ * Ring buffer filled by a long-lived port read loop, with timed reads
+ */
+
+import { StatusPacketParser, type StatusPacket } from "./sts3215-packet.js";
+
+const DEFAULT_CAPACITY = 4096;
+
+/**
+ * Fixed-size byte ring buffer with blocking reads
+ * The read loop pushes every received chunk, so no bytes are lost between
+ * reads. When full, the oldest bytes are overwritten.
+ */
+export class SerialReadBuffer {
+  private storage: Uint8Array;
+  private start = 0;
+  private length = 0;
+  private parser = new StatusPacketParser();
+  private listeners: (() => void)[] = [];
+  private error: Error | null = null;
+
+  constructor(capacity: number = DEFAULT_CAPACITY) {
+    this.storage = new Uint8Array(capacity);
+  }
+
+  /**
+   * Number of bytes waiting to be read
+   */
+  get available(): number {
+    return this.length;
+  }
+
+  /**
+   * Append received bytes and wake up waiting reads
+   */
+  push(chunk: ArrayLike<number>): void {
+    const capacity = this.storage.length;
+    for (let i = 0; i < chunk.length; i++) {
+      this.storage[(this.start + this.length) % capacity] = chunk[i];
+      if (this.length < capacity) {
+        this.length++;
+      } else {
+        this.start = (this.start + 1) % capacity;
+      }
+    }
+
+    if (chunk.length > 0) this.notify();
+  }
+
+  /**
+   * Fail waiting and future reads, e.g. when the read loop ends
+   * Bytes already buffered can still be read
+   */
+  fail(error: Error): void {
+    this.error = error;
+    this.notify();
+  }
+
+  /**
+   * Drop buffered bytes and any partial packet, and clear a failure
+   */
+  clear(): void {
+    this.start = 0;
+    this.length = 0;
+    this.parser.reset();
+    this.error = null;
+  }
+
+  /**
+   * Return every buffered byte, waiting up to timeout for the first one
+   * @throws Error "Read timeout" if nothing arrived in time
+   */
+  async read(timeout: number = 1000): Promise<Uint8Array> {
+    await this.waitFor(1, Date.now() + timeout);
+    return this.take(this.length);
+  }
+
+  /**
+   * Return exactly n bytes, waiting up to timeout for all of them
+   * Bytes stay buffered when the timeout expires
+   * @throws Error "Read timeout" if fewer than n bytes arrived in time
+   */
+  async readExact(n: number, timeout: number = 1000): Promise<Uint8Array> {
+    if (n > this.storage.length) {
+      throw new Error(
+        `Cannot read ${n} bytes from a ${this.storage.length} byte buffer`
+      );
+    }
+    await this.waitFor(n, Date.now() + timeout);
+    return this.take(n);
+  }
+
+  /**
+   * Return the next valid status packet, waiting up to timeout
+   * Bytes are consumed only up to the end of the packet; garbage and
+   * packets with a bad checksum are skipped
+   * @throws Error "Read timeout" if no complete packet arrived in time
+   */
+  async readPacket(timeout: number = 1000): Promise<StatusPacket> {
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      while (this.length > 0) {
+        const [packet] = this.parser.push(this.take(1));
+        if (packet) return packet;
+      }
+      await this.waitFor(1, deadline);
+    }
+  }
+
+  private take(n: number): Uint8Array {
+    const capacity = this.storage.length;
+    const bytes = new Uint8Array(n);
+    for (let i = 0; i < n; i++) {
+      bytes[i] = this.storage[(this.start + i) % capacity];
+    }
+    this.start = (this.start + n) % capacity;
+    this.length -= n;
+    return bytes;
+  }
+
+  private notify(): void {
+    const listeners = this.listeners;
+    this.listeners = [];
+    listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Resolve once n bytes are buffered
+   * @throws the read loop error, or Error "Read timeout" at the deadline
+   */
+  private async waitFor(n: number, deadline: number): Promise<void> {
+    while (this.length < n) {
+      if (this.error) throw this.error;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error("Read timeout");
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          this.listeners = this.listeners.filter((l) => l !== listener);
+          resolve();
+        }, remaining);
+        const listener = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        this.listeners.push(listener);
+      });
+    }
+  }
+}
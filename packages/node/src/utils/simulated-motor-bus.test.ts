@@ -0,0 +1,59 @@
+/**
+ * Simulated motor bus tests
+ * Run the library end to end without hardware
+ */
+
+import { describe, it, expect } from "vitest";
+import { SimulatedMotorBus } from "./simulated-motor-bus.js";
+import { syncWriteRegister } from "./motor-communication.js";
+import { releaseMotors } from "../release_motors.js";
+import { teleoperate } from "../teleoperate.js";
+import { DirectTeleoperator } from "../teleoperators/index.js";
+import type { RobotConnection } from "../types/robot-connection.js";
+
+function createSimulatedRobot(bus: SimulatedMotorBus): RobotConnection {
+  return {
+    port: bus,
+    name: "Simulated SO-100",
+    isConnected: true,
+    robotType: "so100_follower",
+    serialNumber: "simulated",
+  };
+}
+
+describe("SimulatedMotorBus", () => {
+  it("should release every motor of the arm", async () => {
+    const bus = new SimulatedMotorBus();
+    const motorIds = [1, 2, 3, 4, 5, 6];
+    await syncWriteRegister(bus, motorIds, "Torque_Enable", [1, 1, 1, 1, 1, 1]);
+
+    await releaseMotors(createSimulatedRobot(bus));
+
+    for (const id of motorIds) {
+      expect(bus.getRegisterValue(id, "Torque_Enable")).toBe(0);
+    }
+  });
+
+  it("should follow direct teleoperation", async () => {
+    const bus = new SimulatedMotorBus({ maxSpeed: 20000 });
+    const motorIds = [1, 2, 3, 4, 5, 6];
+    await syncWriteRegister(bus, motorIds, "Torque_Enable", [1, 1, 1, 1, 1, 1]);
+
+    const teleoperation = await teleoperate({
+      robot: createSimulatedRobot(bus),
+      teleop: { type: "direct" },
+    });
+    teleoperation.start();
+
+    const teleoperator = teleoperation.teleoperator as DirectTeleoperator;
+    expect(teleoperator).toBeInstanceOf(DirectTeleoperator);
+    await teleoperator.moveMotors({ shoulder_pan: 2500, gripper: 1800 });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(bus.getRegisterValue(1, "Present_Position")).toBe(2500);
+    expect(bus.getRegisterValue(6, "Present_Position")).toBe(1800);
+
+    await teleoperation.disconnect();
+    expect(bus.isOpen).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * STS3215 Packet Framing
+ * Instruction packet building and status packet parsing for Feetech servos
+ */
+
+import { STS3215_PROTOCOL } from "./sts3215-protocol.js";
+
+/**
+ * Bits of the status packet error byte
+ * Matches the Feetech SCServo SDK error definitions
+ */
+export const STS3215_ERROR_FLAGS = {
+  voltage: 0x01, // Input voltage outside Min/Max_Voltage
+  angle_limit: 0x02, // Goal position outside position limits
+  overheat: 0x04, // Temperature above Max_Temperature
+  overcurrent: 0x08, // Current above Protection_Current
+  overload: 0x20, // Load above Overload_Torque for Protection_Time
+} as const;
+
+export type MotorErrorFlag = keyof typeof STS3215_ERROR_FLAGS;
+
+/**
+ * Human readable description of each error flag
+ */
+export const MOTOR_ERROR_DESCRIPTIONS: Record<MotorErrorFlag, string> = {
+  voltage: "input voltage error",
+  angle_limit: "angle limit error",
+  overheat: "overheat error",
+  overcurrent: "overcurrent error",
+  overload: "overload error",
+};
+
+/**
+ * Decoded status packet returned by a motor
+ */
+export interface StatusPacket {
+  id: number;
+  error: number;
+  parameters: Uint8Array;
+}
+
+/**
+ * Calculate packet checksum over ID, length, instruction/error and parameters
+ */
+export function calculateChecksum(bytes: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < bytes.length; i++) sum += bytes[i];
+  return ~sum & 0xff;
+}
+
+/**
+ * Build an instruction packet with header, length and checksum
+ */
+export function createInstructionPacket(
+  motorId: number,
+  instruction: number,
+  parameters: number[] = []
+): Uint8Array {
+  const length = parameters.length + 2; // Instruction + parameters + checksum
+  const body = [motorId, length, instruction, ...parameters];
+  return new Uint8Array([0xff, 0xff, ...body, calculateChecksum(body)]);
+}
+
+/**
+ * Decode the error byte of a status packet into its flags
+ */
+export function decodeErrorFlags(error: number): MotorErrorFlag[] {
+  return (Object.keys(STS3215_ERROR_FLAGS) as MotorErrorFlag[]).filter(
+    (flag) => (error & STS3215_ERROR_FLAGS[flag]) !== 0
+  );
+}
+
+/**
+ * Incremental status packet framer
+ * Feed it raw chunks from port.read() - partial packets are kept until
+ * the rest arrives, concatenated packets are split, and garbage or packets
+ * with a bad checksum are skipped by resyncing on the next 0xFF 0xFF header
+ */
+export class StatusPacketParser {
+  private buffer: number[] = [];
+
+  /**
+   * Add received bytes and return every complete packet found so far
+   */
+  push(chunk: ArrayLike<number>): StatusPacket[] {
+    for (let i = 0; i < chunk.length; i++) this.buffer.push(chunk[i]);
+
+    const packets: StatusPacket[] = [];
+    let packet = this.nextPacket();
+    while (packet) {
+      packets.push(packet);
+      packet = this.nextPacket();
+    }
+    return packets;
+  }
+
+  /**
+   * Drop any partially received packet
+   */
+  reset(): void {
+    this.buffer = [];
+  }
+
+  /**
+   * Number of buffered bytes that do not form a complete packet yet
+   */
+  get pendingBytes(): number {
+    return this.buffer.length;
+  }
+
+  private nextPacket(): StatusPacket | null {
+    while (this.buffer.length >= STS3215_PROTOCOL.STATUS_PACKET_OVERHEAD) {
+      // Resync on header; 0xFF is not a valid ID, so FF FF FF shifts by one
+      if (
+        this.buffer[0] !== 0xff ||
+        this.buffer[1] !== 0xff ||
+        this.buffer[2] === 0xff
+      ) {
+        this.buffer.shift();
+        continue;
+      }
+
+      const length = this.buffer[3];
+      if (length < 2) {
+        this.buffer.shift();
+        continue;
+      }
+
+      const packetLength = length + 4;
+      if (this.buffer.length < packetLength) return null;
+
+      const body = this.buffer.slice(2, packetLength - 1);
+      if (calculateChecksum(body) !== this.buffer[packetLength - 1]) {
+        this.buffer.shift();
+        continue;
+      }
+
+      this.buffer.splice(0, packetLength);
+      return {
+        id: body[0],
+        error: body[2],
+        parameters: new Uint8Array(body.slice(3)),
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * WebSocket Utilities
+ * Minimal RFC 6455 server side framing on top of the Node.js http upgrade event
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/**
+ * Default limit of a message payload, bus traffic stays far below it
+ */
+export const WEBSOCKET_MAX_PAYLOAD = 64 * 1024;
+
+/**
+ * Origins accepted when no allow-list is given: pages served from this machine
+ */
+const LOOPBACK_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+/**
+ * Frame opcodes used by the bridge
+ */
+export const WEBSOCKET_OPCODES = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+} as const;
+
+/**
+ * Decoded WebSocket frame
+ */
+export interface WebSocketFrame {
+  fin: boolean;
+  opcode: number;
+  masked: boolean;
+  payload: Uint8Array;
+}
+
+/**
+ * Checks applied to an upgrade request and its connection
+ */
+export interface WebSocketAcceptOptions {
+  // Browser origins allowed to connect, "*" allows any
+  // (default: pages on localhost; requests without Origin are not browsers)
+  allowedOrigins?: string[];
+
+  // Shared secret the client passes as ?token= in the URL
+  token?: string;
+
+  // Largest message payload in bytes (default: WEBSOCKET_MAX_PAYLOAD)
+  maxPayload?: number;
+}
+
+/**
+ * Build a single frame, masked when sent by a client
+ */
+export function encodeWebSocketFrame(
+  opcode: number,
+  payload: Uint8Array,
+  mask?: Uint8Array
+): Uint8Array {
+  const length = payload.length;
+  const lengthBytes = length < 126 ? 0 : length < 0x10000 ? 2 : 8;
+  const header = new Uint8Array(2 + lengthBytes + (mask ? 4 : 0));
+
+  header[0] = 0x80 | opcode; // FIN, no fragmentation
+  header[1] =
+    (mask ? 0x80 : 0) |
+    (lengthBytes === 0 ? length : lengthBytes === 2 ? 126 : 127);
+
+  const view = new DataView(header.buffer);
+  if (lengthBytes === 2) view.setUint16(2, length);
+  if (lengthBytes === 8) view.setBigUint64(2, BigInt(length));
+
+  const frame = new Uint8Array(header.length + length);
+  frame.set(header);
+  frame.set(payload, header.length);
+
+  if (mask) {
+    frame.set(mask, header.length - 4);
+    for (let i = 0; i < length; i++) {
+      frame[header.length + i] ^= mask[i % 4];
+    }
+  }
+
+  return frame;
+}
+
+/**
+ * Incremental WebSocket frame parser
+ * Partial frames are kept until the rest arrives, masked payloads are unmasked
+ */
+export class WebSocketFrameParser {
+  private buffer = new Uint8Array(0);
+  private maxPayload: number;
+
+  constructor(maxPayload: number = Infinity) {
+    this.maxPayload = maxPayload;
+  }
+
+  /**
+   * Append received bytes and return the frames completed by them
+   * @throws Error if a frame announces a payload above maxPayload
+   */
+  push(chunk: Uint8Array): WebSocketFrame[] {
+    const combined = new Uint8Array(this.buffer.length + chunk.length);
+    combined.set(this.buffer);
+    combined.set(chunk, this.buffer.length);
+    this.buffer = combined;
+
+    const frames: WebSocketFrame[] = [];
+    let frame = this.nextFrame();
+    while (frame) {
+      frames.push(frame);
+      frame = this.nextFrame();
+    }
+    return frames;
+  }
+
+  private nextFrame(): WebSocketFrame | null {
+    const buffer = this.buffer;
+    if (buffer.length < 2) return null;
+
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    const view = new DataView(buffer.buffer, buffer.byteOffset);
+    if (length === 126) {
+      if (buffer.length < 4) return null;
+      length = view.getUint16(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return null;
+      length = Number(view.getBigUint64(2));
+      offset = 10;
+    }
+
+    if (length > this.maxPayload) {
+      throw new Error(
+        `WebSocket frame of ${length} bytes exceeds the ${this.maxPayload} byte limit`
+      );
+    }
+
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return null;
+
+    const payload = buffer.slice(offset, offset + length);
+    if (masked) {
+      for (let i = 0; i < length; i++) {
+        payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+    }
+
+    this.buffer = buffer.slice(offset + length);
+    return {
+      fin: (buffer[0] & 0x80) !== 0,
+      opcode: buffer[0] & 0x0f,
+      masked,
+      payload,
+    };
+  }
+}
+
+/**
+ * Server side of an accepted WebSocket connection
+ */
+export class WebSocketConnection {
+  readonly remoteAddress: string;
+  onMessage: ((data: Uint8Array | string) => void) | null = null;
+  onClose: (() => void) | null = null;
+  private socket: Duplex;
+  private parser: WebSocketFrameParser;
+  private maxPayload: number;
+  private fragments: Uint8Array[] = [];
+  private fragmentLength = 0;
+  private fragmentOpcode = 0;
+  private closed = false;
+
+  constructor(
+    socket: Duplex,
+    remoteAddress: string,
+    maxPayload: number = WEBSOCKET_MAX_PAYLOAD
+  ) {
+    this.socket = socket;
+    this.remoteAddress = remoteAddress;
+    this.maxPayload = maxPayload;
+    this.parser = new WebSocketFrameParser(maxPayload);
+
+    socket.on("data", (chunk: Buffer) => {
+      let frames: WebSocketFrame[];
+      try {
+        frames = this.parser.push(chunk);
+      } catch {
+        this.close(1009, "Message too big");
+        return;
+      }
+      for (const frame of frames) {
+        if (this.closed) return;
+        this.handleFrame(frame);
+      }
+    });
+    socket.on("close", () => this.handleClose());
+    socket.on("error", () => socket.destroy());
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(data: Uint8Array | string): void {
+    if (this.closed) return;
+
+    const frame =
+      typeof data === "string"
+        ? encodeWebSocketFrame(
+            WEBSOCKET_OPCODES.TEXT,
+            new TextEncoder().encode(data)
+          )
+        : encodeWebSocketFrame(WEBSOCKET_OPCODES.BINARY, data);
+    this.socket.write(frame);
+  }
+
+  /**
+   * Send a close frame and end the connection
+   */
+  close(code: number = 1000, reason: string = ""): void {
+    if (this.closed) return;
+
+    const reasonBytes = new TextEncoder().encode(reason);
+    const payload = new Uint8Array(2 + reasonBytes.length);
+    new DataView(payload.buffer).setUint16(0, code);
+    payload.set(reasonBytes, 2);
+
+    this.socket.end(encodeWebSocketFrame(WEBSOCKET_OPCODES.CLOSE, payload));
+    this.handleClose();
+  }
+
+  private handleFrame(frame: WebSocketFrame): void {
+    // Clients must mask every frame (RFC 6455 section 5.1)
+    if (!frame.masked) {
+      this.close(1002, "Client frames must be masked");
+      return;
+    }
+
+    switch (frame.opcode) {
+      case WEBSOCKET_OPCODES.PING:
+        this.socket.write(
+          encodeWebSocketFrame(WEBSOCKET_OPCODES.PONG, frame.payload)
+        );
+        return;
+      case WEBSOCKET_OPCODES.PONG:
+        return;
+      case WEBSOCKET_OPCODES.CLOSE:
+        this.close();
+        return;
+    }
+
+    // Reassemble fragmented messages
+    if (frame.opcode !== WEBSOCKET_OPCODES.CONTINUATION) {
+      this.fragments = [];
+      this.fragmentLength = 0;
+      this.fragmentOpcode = frame.opcode;
+    }
+    this.fragments.push(frame.payload);
+    this.fragmentLength += frame.payload.length;
+    if (this.fragmentLength > this.maxPayload) {
+      this.close(1009, "Message too big");
+      return;
+    }
+    if (!frame.fin) return;
+
+    const message = new Uint8Array(this.fragmentLength);
+    let offset = 0;
+    for (const part of this.fragments) {
+      message.set(part, offset);
+      offset += part.length;
+    }
+    this.fragments = [];
+
+    this.onMessage?.(
+      this.fragmentOpcode === WEBSOCKET_OPCODES.TEXT
+        ? new TextDecoder().decode(message)
+        : message
+    );
+  }
+
+  private handleClose(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose?.();
+  }
+}
+
+/**
+ * Whether the browser origin of a request may connect
+ */
+function isOriginAllowed(
+  origin: string | undefined,
+  allowedOrigins: string[] | undefined
+): boolean {
+  if (origin === undefined) return true;
+  if (!allowedOrigins) return LOOPBACK_ORIGIN.test(origin);
+  return allowedOrigins.includes("*") || allowedOrigins.includes(origin);
+}
+
+/**
+ * Whether the request carries the shared token, compared in constant time
+ */
+function hasToken(request: IncomingMessage, token: string): boolean {
+  const given = new URL(request.url ?? "/", "ws://localhost").searchParams.get(
+    "token"
+  );
+  if (given === null) return false;
+
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Complete the WebSocket handshake of an http upgrade request
+ * Returns null and rejects the request when it is not a WebSocket upgrade,
+ * comes from a foreign origin or lacks the token
+ */
+export function acceptWebSocket(
+  request: IncomingMessage,
+  socket: Duplex,
+  options: WebSocketAcceptOptions = {}
+): WebSocketConnection | null {
+  const key = request.headers["sec-websocket-key"];
+  if (
+    request.headers.upgrade?.toLowerCase() !== "websocket" ||
+    typeof key !== "string"
+  ) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+
+  if (
+    !isOriginAllowed(request.headers.origin, options.allowedOrigins) ||
+    (options.token !== undefined && !hasToken(request, options.token))
+  ) {
+    socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+    return null;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64");
+
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n")
+  );
+
+  return new WebSocketConnection(
+    socket,
+    request.socket.remoteAddress ?? "unknown",
+    options.maxPayload
+  );
+}
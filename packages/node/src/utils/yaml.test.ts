@@ -0,0 +1,57 @@
+/**
+ * YAML parser tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseYaml, YamlParseError } from "./yaml.js";
+
+describe("parseYaml", () => {
+  it("should parse nested mappings and sequences", () => {
+    const source = `
+# robot
+type: my_arm
+motors:
+  - name: base   # first joint
+    id: 1
+    limits: { min: 100, max: 4000 }
+  - name: "grip: left"
+    id: 0x02
+    full_turn: true
+keyboard:
+  ArrowUp: {motor: base, direction: 1}
+tags: [a, 'it''s', 1.5, null]
+`;
+
+    expect(parseYaml(source)).toEqual({
+      type: "my_arm",
+      motors: [
+        { name: "base", id: 1, limits: { min: 100, max: 4000 } },
+        { name: "grip: left", id: 2, full_turn: true },
+      ],
+      keyboard: { ArrowUp: { motor: "base", direction: 1 } },
+      tags: ["a", "it's", 1.5, null],
+    });
+  });
+
+  it("should accept sequences indented under their key", () => {
+    expect(parseYaml("ids:\n  - 1\n  - 2\nempty:\n")).toEqual({
+      ids: [1, 2],
+      empty: null,
+    });
+  });
+
+  it("should report the line of an error", () => {
+    const error = (() => {
+      try {
+        parseYaml("a: 1\na: 2");
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(YamlParseError);
+    expect((error as YamlParseError).line).toBe(2);
+    expect(() => parseYaml("a: 1\n   b: 2")).toThrow("unexpected indentation");
+    expect(() => parseYaml("a: [1, 2")).toThrow(YamlParseError);
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Minimal YAML parser
+ * Covers the subset used by robot definition files: block mappings and
+ * sequences, flow collections, quoted and plain scalars, and comments
+ */
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  line: number;
+}
+
+/**
+ * The source is not valid YAML (or uses an unsupported feature)
+ */
+export class YamlParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`YAML line ${line}: ${message}`);
+    this.name = "YamlParseError";
+    this.line = line;
+  }
+}
+
+/**
+ * Remove a trailing comment, ignoring # inside quoted strings
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+function splitLines(source: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const text = stripComment(raw).trimEnd();
+    const content = text.trimStart();
+    if (content === "" || (lines.length === 0 && content === "---")) return;
+
+    const indentation = text.slice(0, text.length - content.length);
+    if (indentation.includes("\t")) {
+      throw new YamlParseError("tabs are not allowed for indentation", i + 1);
+    }
+    lines.push({ indent: indentation.length, text: content, line: i + 1 });
+  });
+  return lines;
+}
+
+/**
+ * Resolve a plain scalar to null, boolean, number or string
+ */
+function resolvePlainScalar(text: string): unknown {
+  if (text === "" || text === "~" || text === "null") return null;
+  if (text === "true" || text === "True") return true;
+  if (text === "false" || text === "False") return false;
+  if (/^[-+]?\d+$/.test(text)) return parseInt(text, 10);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text, 16);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Find the ": " that separates a mapping key from its value
+ * @returns Index of the colon, or -1 when the text is not a mapping entry
+ */
+function findKeySeparator(text: string): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[" || char === "{") {
+      depth++;
+    } else if (char === "]" || char === "}") {
+      depth--;
+    } else if (
+      char === ":" &&
+      depth === 0 &&
+      (i === text.length - 1 || text[i + 1] === " ")
+    ) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+/**
+ * Parser for single-line values: scalars and flow collections
+ */
+class FlowParser {
+  private readonly text: string;
+  private readonly line: number;
+  private index = 0;
+
+  constructor(text: string, line: number) {
+    this.text = text;
+    this.line = line;
+  }
+
+  parse(): unknown {
+    const value = this.parseValue("");
+    this.skipSpaces();
+    if (this.index < this.text.length) {
+      this.fail(`unexpected "${this.text.slice(this.index)}"`);
+    }
+    return value;
+  }
+
+  private parseValue(terminators: string): unknown {
+    this.skipSpaces();
+    const char = this.text[this.index];
+
+    if (char === "[") return this.parseSequence();
+    if (char === "{") return this.parseMapping();
+    if (char === '"' || char === "'") return this.parseQuoted();
+    if (char === "|" || char === ">")
+      this.fail("block scalars are not supported");
+    if (char === "&" || char === "*") this.fail("anchors are not supported");
+
+    const start = this.index;
+    while (
+      this.index < this.text.length &&
+      !terminators.includes(this.text[this.index])
+    ) {
+      this.index++;
+    }
+    return resolvePlainScalar(this.text.slice(start, this.index).trim());
+  }
+
+  private parseSequence(): unknown[] {
+    const items: unknown[] = [];
+    this.index++; // [
+    this.skipSpaces();
+    if (this.text[this.index] === "]") {
+      this.index++;
+      return items;
+    }
+
+    while (true) {
+      items.push(this.parseValue(",]"));
+      this.skipSpaces();
+      const char = this.text[this.index++];
+      if (char === "]") return items;
+      if (char !== ",") this.fail('expected "," or "]"');
+    }
+  }
+
+  private parseMapping(): { [key: string]: unknown } {
+    const mapping: { [key: string]: unknown } = {};
+    this.index++; // {
+    this.skipSpaces();
+    if (this.text[this.index] === "}") {
+      this.index++;
+      return mapping;
+    }
+
+    while (true) {
+      const key = String(this.parseValue(":,}"));
+      this.skipSpaces();
+      if (this.text[this.index++] !== ":") this.fail('expected ":"');
+      if (key in mapping) this.fail(`duplicate key "${key}"`);
+      mapping[key] = this.parseValue(",}");
+      this.skipSpaces();
+      const char = this.text[this.index++];
+      if (char === "}") return mapping;
+      if (char !== ",") this.fail('expected "," or "}"');
+    }
+  }
+
+  private parseQuoted(): string {
+    const quote = this.text[this.index];
+    let end = this.index + 1;
+    while (end < this.text.length) {
+      if (this.text[end] === "\\" && quote === '"') {
+        end += 2;
+        continue;
+      }
+      if (this.text[end] === quote) {
+        // '' escapes a single quote inside single-quoted strings
+        if (quote === "'" && this.text[end + 1] === "'") {
+          end += 2;
+          continue;
+        }
+        break;
+      }
+      end++;
+    }
+    if (end >= this.text.length) this.fail("unterminated string");
+
+    const raw = this.text.slice(this.index, end + 1);
+    this.index = end + 1;
+    if (quote === "'") {
+      return raw.slice(1, -1).replace(/''/g, "'");
+    }
+    try {
+      return JSON.parse(raw);
+    } catch {
+      this.fail(`invalid string ${raw}`);
+    }
+  }
+
+  private skipSpaces(): void {
+    while (this.text[this.index] === " ") this.index++;
+  }
+
+  private fail(message: string): never {
+    throw new YamlParseError(message, this.line);
+  }
+}
+
+/**
+ * Parser for indentation-based block structure
+ */
+class BlockParser {
+  private readonly lines: YamlLine[];
+  private position = 0;
+
+  constructor(lines: YamlLine[]) {
+    this.lines = lines;
+  }
+
+  parseDocument(): unknown {
+    const value = this.parseNode(0);
+    const extra = this.lines[this.position];
+    if (extra) {
+      throw new YamlParseError("unexpected indentation", extra.line);
+    }
+    return value;
+  }
+
+  private parseNode(minIndent: number): unknown {
+    const current = this.lines[this.position];
+    if (!current || current.indent < minIndent) return null;
+
+    if (isSequenceItem(current.text)) {
+      return this.parseSequence(current.indent);
+    }
+    if (findKeySeparator(current.text) !== -1) {
+      return this.parseMapping(current.indent);
+    }
+
+    this.position++;
+    return new FlowParser(current.text, current.line).parse();
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    while (this.position < this.lines.length) {
+      const current = this.lines[this.position];
+      if (current.indent !== indent || !isSequenceItem(current.text)) break;
+
+      const rest = current.text.slice(1).trimStart();
+      if (rest === "") {
+        this.position++;
+        items.push(this.parseNode(indent + 1));
+      } else if (findKeySeparator(rest) !== -1 || isSequenceItem(rest)) {
+        // "- key: value" starts a nested block at the column of "key"
+        this.lines[this.position] = {
+          indent: indent + current.text.length - rest.length,
+          text: rest,
+          line: current.line,
+        };
+        items.push(this.parseNode(indent + 1));
+      } else {
+        this.position++;
+        items.push(new FlowParser(rest, current.line).parse());
+      }
+    }
+
+    return items;
+  }
+
+  private parseMapping(indent: number): { [key: string]: unknown } {
+    const mapping: { [key: string]: unknown } = {};
+
+    while (this.position < this.lines.length) {
+      const current = this.lines[this.position];
+      if (current.indent < indent) break;
+      if (current.indent > indent) {
+        throw new YamlParseError("unexpected indentation", current.line);
+      }
+
+      const separator = findKeySeparator(current.text);
+      if (separator === -1) {
+        throw new YamlParseError("expected a mapping entry", current.line);
+      }
+
+      const key = String(
+        new FlowParser(current.text.slice(0, separator), current.line).parse()
+      );
+      if (key in mapping) {
+        throw new YamlParseError(`duplicate key "${key}"`, current.line);
+      }
+
+      const rest = current.text.slice(separator + 1).trim();
+      this.position++;
+
+      if (rest !== "") {
+        mapping[key] = new FlowParser(rest, current.line).parse();
+        continue;
+      }
+
+      const next = this.lines[this.position];
+      if (next && next.indent === indent && isSequenceItem(next.text)) {
+        // Sequences may sit at the same indentation as their key
+        mapping[key] = this.parseSequence(indent);
+      } else {
+        mapping[key] = this.parseNode(indent + 1);
+      }
+    }
+
+    return mapping;
+  }
+}
+
+/**
+ * Parse a YAML document
+ * @throws YamlParseError with the offending line number
+ */
+export function parseYaml(source: string): unknown {
+  return new BlockParser(splitLines(source)).parseDocument();
+}
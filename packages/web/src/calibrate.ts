@@ -6,16 +6,15 @@
  */
 
 import { WebSerialPortWrapper } from "./utils/serial-port-wrapper.js";
-import {
-  readAllMotorPositions,
-  type MotorCommunicationPort,
-} from "./utils/motor-communication.js";
+import type { MotorCommunicationPort } from "./utils/motor-communication.js";
+import { verifyMotors } from "./utils/motor-scan.js";
+import { getMotorBus } from "./utils/motor-bus.js";
 import {
   setHomingOffsets,
   writeHardwarePositionLimits,
 } from "./utils/motor-calibration.js";
-import { createSO100Config } from "./robots/so100_config.js";
-import type { RobotHardwareConfig } from "./types/robot-config.js";
+import { getRobotConfig } from "./robots/robot_config.js";
+import type { MotorBus } from "./types/motor-bus.js";
 import type {
   CalibrateConfig,
   CalibrationResults,
@@ -35,6 +34,7 @@ export type {
  */
 async function recordRangesOfMotion(
   port: MotorCommunicationPort,
+  motorBus: MotorBus,
   motorIds: number[],
   motorNames: string[],
   shouldStop: () => boolean,
@@ -47,7 +47,11 @@ async function recordRangesOfMotion(
   const rangeMaxes: { [motor: string]: number } = {};
 
   // Read actual current positions
-  const startPositions = await readAllMotorPositions(port, motorIds);
+  const startPositions = await motorBus.syncReadRegister(
+    port,
+    motorIds,
+    "Present_Position"
+  );
 
   for (let i = 0; i < motorNames.length; i++) {
     const motorName = motorNames[i];
@@ -59,7 +63,11 @@ async function recordRangesOfMotion(
   // Recording loop
   while (!shouldStop()) {
     try {
-      const positions = await readAllMotorPositions(port, motorIds);
+      const positions = await motorBus.syncReadRegister(
+        port,
+        motorIds,
+        "Present_Position"
+      );
 
       for (let i = 0; i < motorNames.length; i++) {
         const motorName = motorNames[i];
@@ -98,31 +106,6 @@ async function recordRangesOfMotion(
   return { rangeMins, rangeMaxes };
 }
 
-/**
- * Apply robot-specific range adjustments
- * Different robot types may have special cases (like continuous rotation motors)
- */
-function applyRobotSpecificRangeAdjustments(
-  robotType: string,
-  protocol: { resolution: number },
-  rangeMins: { [motor: string]: number },
-  rangeMaxes: { [motor: string]: number }
-): void {
-  // SO-100 specific: wrist_roll is a continuous rotation motor
-  if (robotType.startsWith("so100") && rangeMins["wrist_roll"] !== undefined) {
-    // The wrist_roll is a continuous rotation motor that should use the full
-    // 0-4095 range regardless of what the user recorded during calibration.
-    rangeMins["wrist_roll"] = 0;
-    rangeMaxes["wrist_roll"] = protocol.resolution - 1;
-  }
-
-  // Future robot types can add their own specific adjustments here
-  // if (robotType.startsWith('newrobot') && rangeMins["special_joint"] !== undefined) {
-  //   rangeMins["special_joint"] = 0;
-  //   rangeMaxes["special_joint"] = 2048;
-  // }
-}
-
 /**
  * Main calibrate function - simple API, handles robot types internally
  */
@@ -143,29 +126,33 @@ export async function calibrate(
   await port.initialize();
 
   // Get robot-specific configuration
-  let robotConfig: RobotHardwareConfig;
-  if (robot.robotType.startsWith("so100")) {
-    robotConfig = createSO100Config(robot.robotType);
-  } else {
-    throw new Error(`Unsupported robot type: ${robot.robotType}`);
-  }
+  const robotConfig = getRobotConfig(robot.robotType);
+  const motorBus = getMotorBus(robotConfig);
 
   let shouldStop = false;
   const stopFunction = () => shouldStop;
 
   // Start calibration process
   const resultPromise = (async (): Promise<CalibrationResults> => {
+    // Make sure the whole arm answers before writing any register
+    await verifyMotors(port, robotConfig.motorIds, motorBus);
+
+    // Robot-specific motor setup, e.g. operating modes
+    await robotConfig.calibration?.prepare?.(port, motorBus);
+
     // Step 1: Set homing offsets (automatic)
     onProgress?.("⚙️ Setting motor homing offsets");
     const homingOffsets = await setHomingOffsets(
       port,
       robotConfig.motorIds,
-      robotConfig.motorNames
+      robotConfig.motorNames,
+      motorBus
     );
 
     // Step 2: Record ranges of motion with live updates
     const { rangeMins, rangeMaxes } = await recordRangesOfMotion(
       port,
+      motorBus,
       robotConfig.motorIds,
       robotConfig.motorNames,
       stopFunction,
@@ -173,11 +160,10 @@ export async function calibrate(
     );
 
     // Step 3: Apply robot-specific range adjustments
-    applyRobotSpecificRangeAdjustments(
-      robot.robotType!,
-      robotConfig.protocol,
+    robotConfig.calibration?.adjustRanges?.(
       rangeMins,
-      rangeMaxes
+      rangeMaxes,
+      robotConfig.protocol
     );
 
     // Step 4: Write hardware position limits to motors
@@ -186,7 +172,8 @@ export async function calibrate(
       robotConfig.motorIds,
       robotConfig.motorNames,
       rangeMins,
-      rangeMaxes
+      rangeMaxes,
+      motorBus
     );
 
     // Step 5: Compile results
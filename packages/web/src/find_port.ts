@@ -30,7 +30,9 @@
  */
 
 import { WebSerialPortWrapper } from "./utils/serial-port-wrapper.js";
-import { readMotorPosition } from "./utils/motor-communication.js";
+import { verifyMotors } from "./utils/motor-scan.js";
+import { getMotorBus } from "./utils/motor-bus.js";
+import { getRobotConfig } from "./robots/robot_config.js";
 import {
   isWebSerialSupported,
   isWebUSBSupported,
@@ -294,36 +296,25 @@ async function findPortAutoConnect(
           const portWrapper = new WebSerialPortWrapper(port);
           await portWrapper.initialize();
 
-          // Try to read from motor ID 1 (most robots have at least one motor)
-          // Retry mechanism for more robust connection testing
-          let testPosition: number | null = null;
-          for (let attempt = 0; attempt < 3; attempt++) {
-            try {
-              testPosition = await readMotorPosition(portWrapper, 1);
-              if (testPosition !== null) break;
-              await new Promise((resolve) => setTimeout(resolve, 50));
-            } catch (retryError) {
-              if (attempt === 2) throw retryError;
-              await new Promise((resolve) => setTimeout(resolve, 100));
-            }
-          }
+          // Check that every motor of the arm answers, not just one
+          const robotConfig = getRobotConfig(matchingConfig.robotType);
+          await verifyMotors(
+            portWrapper,
+            robotConfig.motorIds,
+            getMotorBus(robotConfig)
+          );
 
-          // If we can read a position, this is likely a working robot port
-          if (testPosition !== null) {
-            onMessage?.(`✅ Connected to ${matchingConfig.robotId}`);
-
-            results.push({
-              port,
-              name: getPortDisplayName(port),
-              isConnected: true,
-              robotType: matchingConfig.robotType,
-              robotId: matchingConfig.robotId,
-              serialNumber,
-              usbMetadata,
-            });
-          } else {
-            throw new Error("No motor response - not a robot port");
-          }
+          onMessage?.(`✅ Connected to ${matchingConfig.robotId}`);
+
+          results.push({
+            port,
+            name: getPortDisplayName(port),
+            isConnected: true,
+            robotType: matchingConfig.robotType,
+            robotId: matchingConfig.robotId,
+            serialNumber,
+            usbMetadata,
+          });
         } catch (connectionError) {
           onMessage?.(
             `❌ Failed to connect to ${matchingConfig.robotId}: ${
@@ -6,9 +6,10 @@
 
 // Core functions
 export { calibrate } from "./calibrate.js";
-export { teleoperate } from "./teleoperate.js";
+export { teleoperate, teleoperateBimanual } from "./teleoperate.js";
 export { findPort } from "./find_port.js";
 export { releaseMotors } from "./release_motors.js";
+export { setupMotors } from "./setup_motors.js";
 
 // Browser support utilities
 export {
@@ -20,6 +21,10 @@ export {
 export type {
   RobotConnection,
   RobotConfig,
+  RobotType,
+  BuiltInRobotType,
+  BimanualRobotType,
+  BimanualRobotConnection,
   SerialPort,
   SerialPortInfo,
   SerialOptions,
@@ -37,31 +42,272 @@ export type {
   CalibrationProcess,
 } from "./types/calibration.js";
 
+export type {
+  SetupMotorsConfig,
+  SetupMotorsResults,
+  SetupMotorsProcess,
+  MotorSetupResult,
+} from "./types/setup-motors.js";
+
 export type {
   MotorConfig,
   TeleoperationState,
+  EmergencyStopOptions,
   TeleoperationProcess,
   TeleoperateConfig,
   TeleoperatorConfig,
   DirectTeleoperatorConfig,
+  LeaderArmTeleoperatorConfig,
+  GamepadTeleoperatorConfig,
+  GamepadButtonControl,
+  GamepadSnapshot,
+  TeleoperationMode,
+  BimanualTeleoperateConfig,
 } from "./types/teleoperation.js";
 
 export type {
   RobotHardwareConfig,
   KeyboardControl,
+  MotorNormMode,
+  RobotCalibrationHooks,
+  MobileBaseConfig,
+  BaseVelocity,
+  KinematicJoint,
+  ArmKinematicsConfig,
+  EndEffectorPose,
 } from "./types/robot-config.js";
 
 // Utilities (advanced users)
 export { WebSerialPortWrapper } from "./utils/serial-port-wrapper.js";
+export { WebSocketPortWrapper } from "./utils/websocket-port-wrapper.js";
+export type {
+  WebSocketPortOptions,
+  BusBridgeMessage,
+} from "./types/websocket-port.js";
 export {
   readAllMotorPositions,
+  pingMotor,
+  broadcastPing,
+  readMotorData,
   readMotorPosition,
+  readRegister,
+  writeRegister,
+  syncReadPositions,
+  syncWritePositions,
+  syncReadRegister,
+  syncWriteRegister,
 } from "./utils/motor-communication.js";
+export { scanMotors, verifyMotors } from "./utils/motor-scan.js";
+export type { ScanMotorsOptions, ScannedMotor } from "./types/motor-scan.js";
+export { setupMotor, findSingleMotor } from "./utils/motor-setup.js";
+export { SimulatedMotorBus } from "./utils/simulated-motor-bus.js";
+export { SimulatedDynamixelBus } from "./utils/simulated-dynamixel-bus.js";
+export type {
+  SimulatedMotorConfig,
+  SimulatedMotorBusOptions,
+} from "./types/simulated-motor-bus.js";
+export {
+  BusCapture,
+  CapturingPort,
+  CapturingSerialPort,
+} from "./utils/bus-capture.js";
+export { ReplayPort } from "./utils/replay-port.js";
+export type {
+  BusCaptureDirection,
+  BusCaptureEntry,
+  ReplayPortOptions,
+} from "./types/bus-capture.js";
+export { BusScheduler } from "./utils/bus-scheduler.js";
+export type { BusPriority } from "./utils/bus-scheduler.js";
+export { STS3215_BAUD_RATES } from "./utils/sts3215-protocol.js";
+export {
+  STS3215_CONTROL_TABLE,
+  getRegister,
+  encodeRegisterValue,
+  decodeRegisterValue,
+} from "./utils/sts3215-control-table.js";
+export type {
+  STS3215Register,
+  RegisterDefinition,
+  RegisterAccess,
+  RegisterMemory,
+} from "./utils/sts3215-control-table.js";
+export {
+  StatusPacketParser,
+  createInstructionPacket,
+  decodeErrorFlags,
+  STS3215_ERROR_FLAGS,
+} from "./utils/sts3215-packet.js";
+export type { StatusPacket, MotorErrorFlag } from "./utils/sts3215-packet.js";
+export {
+  FEETECH_MOTOR_BUS,
+  getMotorBus,
+  setTorqueEnabled,
+} from "./utils/motor-bus.js";
+export type { MotorBus, MotorBusType } from "./types/motor-bus.js";
+export {
+  DYNAMIXEL_PROTOCOL,
+  DYNAMIXEL_BAUD_RATES,
+  DYNAMIXEL_HARDWARE_PROTOCOL,
+} from "./utils/dynamixel-protocol.js";
+export {
+  DYNAMIXEL_CONTROL_TABLE,
+  getDynamixelRegister,
+  encodeDynamixelValue,
+  decodeDynamixelValue,
+} from "./utils/dynamixel-control-table.js";
+export type {
+  DynamixelRegister,
+  DynamixelRegisterDefinition,
+} from "./utils/dynamixel-control-table.js";
+export {
+  DynamixelPacketParser,
+  createDynamixelPacket,
+  calculateCrc16,
+  describeDynamixelError,
+  DYNAMIXEL_ERRORS,
+} from "./utils/dynamixel-packet.js";
+export type { DynamixelPacket } from "./utils/dynamixel-packet.js";
+export {
+  DYNAMIXEL_MOTOR_BUS,
+  pingDynamixel,
+  readDynamixelRegister,
+  writeDynamixelRegister,
+  syncReadDynamixelRegister,
+  syncWriteDynamixelRegister,
+} from "./utils/dynamixel-communication.js";
+export {
+  MotorCommunicationError,
+  MotorTimeoutError,
+  MotorPacketError,
+  MotorStatusError,
+  DynamixelStatusError,
+} from "./utils/motor-errors.js";
 export {
   createSO100Config,
   SO100_KEYBOARD_CONTROLS,
+  SO100_KINEMATICS,
 } from "./robots/so100_config.js";
-export { KEYBOARD_TELEOPERATOR_DEFAULTS } from "./teleoperators/index.js";
+export {
+  createSO101Config,
+  SO101_KEYBOARD_CONTROLS,
+} from "./robots/so101_config.js";
+export {
+  createKochConfig,
+  KOCH_KEYBOARD_CONTROLS,
+} from "./robots/koch_config.js";
+export {
+  createBimanualRobot,
+  BIMANUAL_ROBOT_ARMS,
+} from "./robots/bimanual_config.js";
+export {
+  createLeKiwiConfig,
+  LEKIWI_BASE_CONFIG,
+  LEKIWI_KEYBOARD_CONTROLS,
+} from "./robots/lekiwi_config.js";
+export {
+  bodyToWheelSpeeds,
+  wheelSpeedsToBody,
+} from "./utils/omniwheel-kinematics.js";
+export {
+  normalizeMotorValue,
+  unnormalizeMotorValue,
+} from "./utils/motor-normalization.js";
+export {
+  forwardKinematics,
+  inverseKinematics,
+  jointAnglesFromMotorConfigs,
+  jointLimitsFromMotorConfigs,
+  motorPositionsFromJointAngles,
+  INVERSE_KINEMATICS_DEFAULTS,
+} from "./utils/arm-kinematics.js";
+export type {
+  InverseKinematicsOptions,
+  InverseKinematicsResult,
+} from "./utils/arm-kinematics.js";
+export {
+  CartesianController,
+  CARTESIAN_AXES,
+  CARTESIAN_KEYBOARD_CONTROLS,
+} from "./utils/cartesian-control.js";
+export { SafetyFilter, SAFETY_FILTER_DEFAULTS } from "./utils/safety-filter.js";
+export type {
+  MotorLimit,
+  SafetyFilterConfig,
+  SafetyIntervention,
+  SafetyRule,
+  WorkspaceBox,
+} from "./types/safety.js";
+export {
+  HealthMonitor,
+  HEALTH_MONITOR_DEFAULTS,
+  formatHealthWarning,
+} from "./utils/health-monitor.js";
+export type {
+  HealthMetric,
+  HealthMonitorConfig,
+  HealthWarning,
+  MotorHealth,
+} from "./types/health.js";
+export {
+  MOTION_DEFAULTS,
+  profileProgress,
+  streamTrajectory,
+} from "./utils/motion.js";
+export type {
+  MotionProfile,
+  MotionPromise,
+  MoveToOptions,
+} from "./types/motion.js";
+export {
+  LocalStoragePoseStorage,
+  MemoryPoseStorage,
+  capturePose,
+  poseTargets,
+} from "./utils/pose-library.js";
+export type { Pose, PoseStorage } from "./types/pose.js";
+export {
+  GAMEPAD_AXIS_MAPPING,
+  GAMEPAD_BUTTON_MAPPING,
+  CARTESIAN_GAMEPAD_AXIS_MAPPING,
+  CARTESIAN_GAMEPAD_BUTTON_MAPPING,
+  applyDeadzone,
+  applyExpo,
+  gamepadVelocities,
+} from "./utils/gamepad-mapping.js";
+export {
+  registerRobot,
+  getRobotConfig,
+  listRobotTypes,
+} from "./robots/robot_config.js";
+export type { RobotConfigFactory } from "./robots/robot_config.js";
+export { fullTurnMotors } from "./robots/calibration_hooks.js";
+export {
+  ROBOT_DEFINITION_SCHEMA,
+  RobotDefinitionError,
+  validateRobotDefinition,
+  createRobotConfigFromDefinition,
+  registerRobotDefinition,
+} from "./robots/robot_definition.js";
+export type {
+  MotorModel,
+  RobotDefinition,
+  RobotMotorDefinition,
+  RobotKeyDefinition,
+} from "./types/robot-definition.js";
+export { validateSchema } from "./utils/schema-validation.js";
+export type { JsonSchema } from "./utils/schema-validation.js";
+export {
+  KEYBOARD_TELEOPERATOR_DEFAULTS,
+  KeyboardTeleoperator,
+  DirectTeleoperator,
+  LeaderArmTeleoperator,
+  LEADER_ARM_TELEOPERATOR_DEFAULTS,
+  GamepadTeleoperator,
+  GAMEPAD_TELEOPERATOR_DEFAULTS,
+  BimanualTeleoperator,
+  BIMANUAL_ARM_PREFIXES,
+} from "./teleoperators/index.js";
 
 // Record
 export { LeRobotDatasetRecorder } from "./record.js";
@@ -1,5 +1,11 @@
-import { WebTeleoperator } from "./teleoperators/base-teleoperator";
+import {
+  WebTeleoperator,
+  BaseWebTeleoperator,
+} from "./teleoperators/base-teleoperator";
+import { BimanualTeleoperator } from "./teleoperators/bimanual-teleoperator";
 import { MotorConfig } from "./types/teleoperation";
+import type { BaseVelocity } from "./types/robot-config";
+import type { RobotType } from "./types/robot-connection";
 import * as parquet from "parquet-wasm";
 import * as arrow from "apache-arrow";
 import JSZip from "jszip";
@@ -10,6 +16,16 @@ import generateREADME from "./utils/record/generateREADME";
 import { LeRobotHFUploader } from "./hf_uploader";
 import { LeRobotS3Uploader } from "./s3_uploader";
 
+// Joint order of single SO-100 arm recordings
+const DEFAULT_JOINT_NAMES = [
+  "shoulder_pan",
+  "shoulder_lift",
+  "elbow_flex",
+  "wrist_flex",
+  "wrist_roll",
+  "gripper",
+];
+
 // declare a type leRobot action that's basically an array of numbers
 interface LeRobotAction {
   [key: number]: number;
@@ -342,8 +358,11 @@ export class LeRobotDatasetRecorder {
   private _isRecording: boolean;
   private episodeIndex: number = 0;
   private taskIndex: number = 0;
+  private recordsBaseVelocity: boolean = false;
+  private jointNames: string[] = [...DEFAULT_JOINT_NAMES];
   fps: number;
   taskDescription: string;
+  robotType: RobotType;
 
   /**
    * Ensures BlobPart compatibility across environments by converting Uint8Array
@@ -367,18 +386,33 @@ export class LeRobotDatasetRecorder {
     teleoperators: WebTeleoperator[],
     videoStreams: { [key: string]: MediaStream },
     fps: number,
-    taskDescription: string = "Default task description"
+    taskDescription: string = "Default task description",
+    robotType?: RobotType
   ) {
     this.teleoperators = [];
 
-    if (teleoperators.length > 1)
+    if (teleoperators.length > 2)
       throw Error(`
-                Currently, only 1 teleoperator can be recorded at a time!
+                Currently, only 1 teleoperator, or 2 for the arms of a bimanual robot, can be recorded at a time!
 
                 Note : Do not attempt to create 2 different recorders via 2 different teleoperators, this would not work either
             `);
 
-    this.addTeleoperator(teleoperators[0]);
+    // Two teleoperators are recorded as the left and right arm of one robot
+    if (teleoperators.length === 2) {
+      const [left, right] = teleoperators;
+      if (
+        !(left instanceof BaseWebTeleoperator) ||
+        !(right instanceof BaseWebTeleoperator)
+      ) {
+        throw new Error(
+          "Bimanual recording needs one single arm teleoperator per arm"
+        );
+      }
+      this.addTeleoperator(new BimanualTeleoperator(left, right));
+    } else {
+      this.addTeleoperator(teleoperators[0]);
+    }
     this.mediaRecorders = {};
     this.videoChunks = {};
     this.videoBlobs = {};
@@ -387,6 +421,8 @@ export class LeRobotDatasetRecorder {
     this._isRecording = false;
     this.fps = fps;
     this.taskDescription = taskDescription;
+    this.robotType =
+      robotType ?? (this.isBimanual ? "bi_so100_follower" : "so100_follower");
 
     for (const [key, stream] of Object.entries(videoStreams)) {
       this.addVideoStream(key, stream);
@@ -397,6 +433,10 @@ export class LeRobotDatasetRecorder {
     return this._isRecording;
   }
 
+  get isBimanual(): boolean {
+    return this.teleoperators[0] instanceof BimanualTeleoperator;
+  }
+
   get currentEpisode(): LeRobotEpisode | undefined {
     return this.teleoperatorData.at(-1);
   }
@@ -431,6 +471,11 @@ export class LeRobotDatasetRecorder {
    * @param teleoperator The teleoperator to add callbacks to
    */
   addTeleoperator(teleoperator: WebTeleoperator) {
+    // Record the joints in the motor order of the teleoperator
+    if (teleoperator.motorConfigs?.length) {
+      this.jointNames = teleoperator.motorConfigs.map((config) => config.name);
+    }
+
     teleoperator.addOnStateUpdateCallback((params) => {
       if (this._isRecording) {
         if (!this.currentEpisode)
@@ -438,18 +483,33 @@ export class LeRobotDatasetRecorder {
             "There is no current episode while recording, something is wrong!, this means that no frames exist on the recorder for some reason"
           );
 
-        // Create a frame with the current state data
+        // For observation state, use the current motor positions
         // Using the normalized configs for consistent data ranges
+        const observationState = this.convertMotorConfigToArray(
+          params.newMotorConfigsNormalized
+        );
+        // For action, use the target positions that were commanded
+        const action = this.convertMotorConfigToArray(
+          params.previousMotorConfigsNormalized
+        );
+
+        // Robots with a mobile base append the base velocity to both:
+        // measured for the observation, commanded for the action
+        if (params.baseVelocity) {
+          this.recordsBaseVelocity = true;
+          observationState.push(
+            ...this.convertBaseVelocityToArray(
+              params.measuredBaseVelocity ?? params.baseVelocity
+            )
+          );
+          action.push(...this.convertBaseVelocityToArray(params.baseVelocity));
+        }
+
+        // Create a frame with the current state data
         const frame: NonIndexedLeRobotDatasetRow = {
           timestamp: params.commandSentTimestamp,
-          // For observation state, use the current motor positions
-          "observation.state": this.convertMotorConfigToArray(
-            params.newMotorConfigsNormalized
-          ),
-          // For action, use the target positions that were commanded
-          action: this.convertMotorConfigToArray(
-            params.previousMotorConfigsNormalized
-          ),
+          "observation.state": observationState,
+          action,
           episode_index: this.episodeIndex,
           task_index: this.taskIndex,
         };
@@ -638,14 +698,7 @@ export class LeRobotDatasetRecorder {
    * @returns An array of numbers
    */
   convertActionToArray(action: any): number[] {
-    return [
-      action["shoulder_pan"],
-      action["shoulder_lift"],
-      action["elbow_flex"],
-      action["wrist_flex"],
-      action["wrist_roll"],
-      action["gripper"],
-    ];
+    return this.jointNames.map((joint) => action[joint]);
   }
 
   /**
@@ -662,15 +715,8 @@ export class LeRobotDatasetRecorder {
       motorMap[config.name] = config.currentPosition;
     }
 
-    // Define required joint names
-    const requiredJoints = [
-      "shoulder_pan",
-      "shoulder_lift",
-      "elbow_flex",
-      "wrist_flex",
-      "wrist_roll",
-      "gripper",
-    ];
+    // Every recorded joint is required
+    const requiredJoints = this.jointNames;
 
     // Check that all required joints are present
     const missingJoints = requiredJoints.filter(
@@ -685,14 +731,34 @@ export class LeRobotDatasetRecorder {
     }
 
     // Return in the same order as convertActionToArray
-    return [
-      motorMap["shoulder_pan"],
-      motorMap["shoulder_lift"],
-      motorMap["elbow_flex"],
-      motorMap["wrist_flex"],
-      motorMap["wrist_roll"],
-      motorMap["gripper"],
-    ];
+    return requiredJoints.map((joint) => motorMap[joint]);
+  }
+
+  /**
+   * Converts a mobile base velocity to an array of numbers
+   * follows the x.vel, y.vel, theta.vel order of the Python lerobot LeKiwi
+   *
+   * @param velocity The base velocity to convert
+   * @returns An array of numbers
+   */
+  convertBaseVelocityToArray(velocity: BaseVelocity): number[] {
+    return [velocity.x, velocity.y, velocity.theta];
+  }
+
+  /**
+   * Names of the action and observation.state entries, in recording order
+   *
+   * @returns The feature names for the dataset metadata
+   */
+  getStateNames(): string[] {
+    // Bimanual joints carry their arm prefix, a single arm is the main arm
+    const jointNames = this.isBimanual
+      ? [...this.jointNames]
+      : this.jointNames.map((joint) => `main_${joint}`);
+
+    return this.recordsBaseVelocity
+      ? [...jointNames, "x.vel", "y.vel", "theta.vel"]
+      : jointNames;
   }
 
   /**
@@ -985,6 +1051,8 @@ export class LeRobotDatasetRecorder {
       fps: this.fps,
       splits: { train: `0:${total_episodes}` }, // All episodes in train split
       features: {}, // Additional features can be added here
+      state_names: this.getStateNames(),
+      robot_type: this.robotType,
       videos_info,
       data_files_size_in_mb,
       video_files_size_in_mb,
@@ -6,8 +6,8 @@
  */
 
 import { WebSerialPortWrapper } from "./utils/serial-port-wrapper.js";
-import { createSO100Config } from "./robots/so100_config.js";
-import { releaseMotors as releaseMotorsLowLevel } from "./utils/motor-communication.js";
+import { getRobotConfig } from "./robots/robot_config.js";
+import { getMotorBus, setTorqueEnabled } from "./utils/motor-bus.js";
 import type { RobotConnection } from "./types/robot-connection.js";
 
 /**
@@ -41,12 +41,7 @@ export async function releaseMotors(
   await port.initialize();
 
   // Get robot-specific configuration
-  let robotConfig;
-  if (robotConnection.robotType.startsWith("so100")) {
-    robotConfig = createSO100Config(robotConnection.robotType);
-  } else {
-    throw new Error(`Unsupported robot type: ${robotConnection.robotType}`);
-  }
+  const robotConfig = getRobotConfig(robotConnection.robotType);
 
   // Determine which motors to release
   const motorsToRelease = motorIds || robotConfig.motorIds;
@@ -65,6 +60,11 @@ export async function releaseMotors(
     }
   }
 
-  // Release the motors using low-level function
-  await releaseMotorsLowLevel(port, motorsToRelease);
+  // Disable torque through the robot's MotorsBus
+  await setTorqueEnabled(
+    getMotorBus(robotConfig),
+    port,
+    motorsToRelease,
+    false
+  );
 }
@@ -0,0 +1,21 @@
+/**
+ * Reusable calibration hooks for robot configurations
+ */
+
+import type { RobotCalibrationHooks } from "../types/robot-config.js";
+
+/**
+ * Give continuous rotation motors the full position range
+ * They should use 0..resolution-1 regardless of what was recorded during calibration
+ */
+export function fullTurnMotors(motorNames: string[]): RobotCalibrationHooks {
+  return {
+    adjustRanges(rangeMins, rangeMaxes, protocol) {
+      for (const motorName of motorNames) {
+        if (rangeMins[motorName] === undefined) continue;
+        rangeMins[motorName] = 0;
+        rangeMaxes[motorName] = protocol.resolution - 1;
+      }
+    },
+  };
+}
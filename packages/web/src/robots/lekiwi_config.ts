@@ -0,0 +1,95 @@
+/**
+ * LeKiwi specific hardware configuration
+ * An SO-100 arm on a three omniwheel mobile base, all on one Feetech bus
+ */
+
+import type {
+  MobileBaseConfig,
+  RobotCalibrationHooks,
+  RobotHardwareConfig,
+} from "../types/robot-config.js";
+import {
+  STS3215_HARDWARE_PROTOCOL,
+  STS3215_PROTOCOL,
+} from "../utils/sts3215-protocol.js";
+import { setTorqueEnabled } from "../utils/motor-bus.js";
+import {
+  SO100_CONFIG,
+  SO100_KEYBOARD_CONTROLS,
+  SO100_KINEMATICS,
+} from "./so100_config.js";
+import { fullTurnMotors } from "./calibration_hooks.js";
+
+/**
+ * LeKiwi mobile base
+ * Wheel layout and dimensions of the Python lerobot LeKiwi
+ */
+export const LEKIWI_BASE_CONFIG: MobileBaseConfig = {
+  wheelNames: ["base_left_wheel", "base_back_wheel", "base_right_wheel"],
+  wheelIds: [7, 8, 9],
+  wheelAngles: [240, 0, 120],
+  wheelRadius: 0.05,
+  baseRadius: 0.125,
+  maxWheelSpeed: 3000,
+};
+
+/**
+ * LeKiwi Keyboard Controls for Teleoperation
+ * SO-100 arm keys plus base keys, which drive the virtual base_x, base_y and
+ * base_theta motors
+ */
+export const LEKIWI_KEYBOARD_CONTROLS = {
+  ...SO100_KEYBOARD_CONTROLS,
+
+  // Base controls
+  i: { motor: "base_x", direction: 1, description: "Base forward" },
+  k: { motor: "base_x", direction: -1, description: "Base backward" },
+  j: { motor: "base_y", direction: 1, description: "Base left" },
+  l: { motor: "base_y", direction: -1, description: "Base right" },
+  z: { motor: "base_theta", direction: 1, description: "Base rotate left" },
+  x: { motor: "base_theta", direction: -1, description: "Base rotate right" },
+} as const;
+
+/**
+ * LeKiwi calibration: the arm calibrates like an SO-100,
+ * the wheels are switched to velocity mode
+ */
+function createLeKiwiCalibration(): RobotCalibrationHooks {
+  return {
+    ...fullTurnMotors(["wrist_roll"]),
+    async prepare(port, motorBus) {
+      const { wheelIds } = LEKIWI_BASE_CONFIG;
+
+      // Operating_Mode lives in EEPROM, writable without torque and lock only
+      await setTorqueEnabled(motorBus, port, wheelIds, false);
+      for (const motorId of wheelIds) {
+        await motorBus.writeRegister(port, motorId, "Lock", 0);
+        await motorBus.writeRegister(
+          port,
+          motorId,
+          "Operating_Mode",
+          STS3215_PROTOCOL.VELOCITY_MODE
+        );
+        await motorBus.writeRegister(port, motorId, "Lock", 1);
+      }
+    },
+  };
+}
+
+/**
+ * Create LeKiwi hardware configuration
+ */
+export function createLeKiwiConfig(): RobotHardwareConfig {
+  return {
+    deviceType: "lekiwi",
+    motorNames: SO100_CONFIG.motorNames,
+    motorIds: SO100_CONFIG.motorIds,
+    driveModes: SO100_CONFIG.driveModes,
+    normModes: SO100_CONFIG.normModes,
+    keyboardControls: LEKIWI_KEYBOARD_CONTROLS,
+    protocol: STS3215_HARDWARE_PROTOCOL,
+    calibration: createLeKiwiCalibration(),
+    base: LEKIWI_BASE_CONFIG,
+    kinematics: SO100_KINEMATICS,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Declarative robot definitions
+ * Builds a RobotHardwareConfig from data validated against ROBOT_DEFINITION_SCHEMA
+ */
+
+import type {
+  KeyboardControl,
+  RobotHardwareConfig,
+} from "../types/robot-config.js";
+import type { MotorModel, RobotDefinition } from "../types/robot-definition.js";
+import { validateSchema, type JsonSchema } from "../utils/schema-validation.js";
+import { STS3215_HARDWARE_PROTOCOL } from "../utils/sts3215-protocol.js";
+import { fullTurnMotors } from "./calibration_hooks.js";
+import { registerRobot } from "./robot_config.js";
+
+/**
+ * Hardware protocol of each supported motor model
+ */
+const MOTOR_MODEL_PROTOCOLS: {
+  [model in MotorModel]: RobotHardwareConfig["protocol"];
+} = {
+  sts3215: STS3215_HARDWARE_PROTOCOL,
+  sts3250: STS3215_HARDWARE_PROTOCOL,
+};
+
+/**
+ * JSON Schema of a robot definition
+ */
+export const ROBOT_DEFINITION_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["type", "motors"],
+  additionalProperties: false,
+  properties: {
+    type: {
+      type: "string",
+      description: "Robot type used with robotType and --robot.type",
+      pattern: "^[a-z0-9_]+$",
+    },
+    motors: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["name", "id", "model"],
+        additionalProperties: false,
+        properties: {
+          name: { type: "string", minLength: 1 },
+          id: { type: "integer", minimum: 0, maximum: 252 },
+          model: { type: "string", enum: Object.keys(MOTOR_MODEL_PROTOCOLS) },
+          drive_mode: { type: "integer", enum: [0, 1] },
+          norm_mode: {
+            type: "string",
+            enum: ["range_m100_100", "range_0_100", "degrees"],
+          },
+          full_turn: { type: "boolean" },
+          limits: {
+            type: "object",
+            required: ["min", "max"],
+            additionalProperties: false,
+            properties: {
+              min: { type: "integer", minimum: 0 },
+              max: { type: "integer", minimum: 0 },
+            },
+          },
+        },
+      },
+    },
+    keyboard: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        required: ["motor", "direction"],
+        additionalProperties: false,
+        properties: {
+          motor: { type: "string" },
+          direction: { type: "number" },
+          description: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * A robot definition failed validation
+ */
+export class RobotDefinitionError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid robot definition:\n  ${issues.join("\n  ")}`);
+    this.name = "RobotDefinitionError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Checks the schema cannot express: unique names and IDs, one motor model,
+ * limits inside the motor resolution and keys that map to existing motors
+ */
+function checkConsistency(definition: RobotDefinition): string[] {
+  const issues: string[] = [];
+  const names = new Set<string>();
+  const ids = new Set<number>();
+
+  definition.motors.forEach((motor, i) => {
+    const path = `$.motors[${i}]`;
+
+    if (names.has(motor.name)) {
+      issues.push(`${path}.name: duplicate motor name "${motor.name}"`);
+    }
+    if (ids.has(motor.id)) {
+      issues.push(`${path}.id: duplicate motor id ${motor.id}`);
+    }
+    names.add(motor.name);
+    ids.add(motor.id);
+
+    if (motor.model !== definition.motors[0].model) {
+      issues.push(
+        `${path}.model: all motors must share one model (found ${motor.model} and ${definition.motors[0].model})`
+      );
+    }
+
+    if (motor.limits) {
+      const { resolution } = MOTOR_MODEL_PROTOCOLS[motor.model];
+      if (motor.limits.min >= motor.limits.max) {
+        issues.push(`${path}.limits: min must be lower than max`);
+      }
+      if (motor.limits.max > resolution - 1) {
+        issues.push(`${path}.limits.max: must be <= ${resolution - 1}`);
+      }
+    }
+  });
+
+  for (const [key, control] of Object.entries(definition.keyboard ?? {})) {
+    if (control.motor !== "emergency_stop" && !names.has(control.motor)) {
+      issues.push(`$.keyboard.${key}.motor: unknown motor "${control.motor}"`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a robot definition
+ * @throws RobotDefinitionError listing every problem found
+ */
+export function validateRobotDefinition(value: unknown): RobotDefinition {
+  const issues = validateSchema(value, ROBOT_DEFINITION_SCHEMA);
+  if (issues.length === 0) {
+    issues.push(...checkConsistency(value as RobotDefinition));
+  }
+  if (issues.length > 0) {
+    throw new RobotDefinitionError(issues);
+  }
+  return value as RobotDefinition;
+}
+
+/**
+ * Build the hardware configuration of a robot definition
+ * @throws RobotDefinitionError for invalid definitions
+ */
+export function createRobotConfigFromDefinition(
+  value: unknown
+): RobotHardwareConfig {
+  const definition = validateRobotDefinition(value);
+  const { motors } = definition;
+
+  const keyboardControls: { [key: string]: KeyboardControl } = {};
+  for (const [key, control] of Object.entries(definition.keyboard ?? {})) {
+    keyboardControls[key] = {
+      motor: control.motor,
+      direction: control.direction,
+      description:
+        control.description ??
+        `${control.motor} ${control.direction > 0 ? "+" : "-"}`,
+    };
+  }
+
+  const config: RobotHardwareConfig = {
+    deviceType: definition.type,
+    motorNames: motors.map((motor) => motor.name),
+    motorIds: motors.map((motor) => motor.id),
+    driveModes: motors.map((motor) => motor.drive_mode ?? 0),
+    normModes: motors.map((motor) => motor.norm_mode ?? "range_m100_100"),
+    keyboardControls,
+    protocol: MOTOR_MODEL_PROTOCOLS[motors[0].model],
+  };
+
+  if (motors.some((motor) => motor.limits)) {
+    config.defaultLimits = motors.map(
+      (motor) => motor.limits ?? { min: 0, max: config.protocol.resolution - 1 }
+    );
+  }
+
+  const fullTurn = motors
+    .filter((motor) => motor.full_turn)
+    .map((motor) => motor.name);
+  if (fullTurn.length > 0) {
+    config.calibration = fullTurnMotors(fullTurn);
+  }
+
+  return config;
+}
+
+/**
+ * Validate a robot definition and register its type
+ * @returns The registered robot type
+ */
+export function registerRobotDefinition(value: unknown): string {
+  const config = createRobotConfigFromDefinition(value);
+  registerRobot(config.deviceType, () => config);
+  return config.deviceType;
+}
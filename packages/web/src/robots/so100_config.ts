@@ -2,27 +2,17 @@
  * SO-100 specific hardware configuration
  */
 
-import type { RobotHardwareConfig } from "../types/robot-config.js";
-
-/**
- * STS3215 Protocol Configuration for SO-100 devices
- */
-export const WEB_STS3215_PROTOCOL = {
-  resolution: 4096, // 12-bit resolution (0-4095)
-  homingOffsetAddress: 31, // Address for Homing_Offset register
-  homingOffsetLength: 2, // 2 bytes for Homing_Offset
-  presentPositionAddress: 56, // Address for Present_Position register
-  presentPositionLength: 2, // 2 bytes for Present_Position
-  minPositionLimitAddress: 9, // Address for Min_Position_Limit register
-  minPositionLimitLength: 2, // 2 bytes for Min_Position_Limit
-  maxPositionLimitAddress: 11, // Address for Max_Position_Limit register
-  maxPositionLimitLength: 2, // 2 bytes for Max_Position_Limit
-  signMagnitudeBit: 11, // Bit 11 is sign bit for Homing_Offset encoding
-} as const;
+import type {
+  ArmKinematicsConfig,
+  MotorNormMode,
+  RobotHardwareConfig,
+} from "../types/robot-config.js";
+import { STS3215_HARDWARE_PROTOCOL } from "../utils/sts3215-protocol.js";
+import { fullTurnMotors } from "./calibration_hooks.js";
 
 /**
  * SO-100 Device Configuration
- * Motor names, IDs, and drive modes for both follower and leader
+ * Motor names, IDs, drive modes and normalization modes for both follower and leader
  */
 export const SO100_CONFIG = {
   motorNames: [
@@ -36,6 +26,15 @@ export const SO100_CONFIG = {
   motorIds: [1, 2, 3, 4, 5, 6],
   // All SO-100 motors use drive_mode=0
   driveModes: [0, 0, 0, 0, 0, 0],
+  // Joints map to -100..100, the gripper to 0..100 (closed..open)
+  normModes: [
+    "range_m100_100",
+    "range_m100_100",
+    "range_m100_100",
+    "range_m100_100",
+    "range_m100_100",
+    "range_0_100",
+  ] as MotorNormMode[],
 };
 
 /**
@@ -81,6 +80,22 @@ export const SO100_KEYBOARD_CONTROLS = {
   },
 } as const;
 
+/**
+ * SO-100 kinematic chain, following the SO-ARM100 URDF
+ * At zero angles the arm stands in its calibration pose: upper arm up,
+ * forearm and gripper pointing forward
+ */
+export const SO100_KINEMATICS: ArmKinematicsConfig = {
+  joints: [
+    { motor: "shoulder_pan", origin: [0, 0, 0.0452], axis: [0, 0, 1] },
+    { motor: "shoulder_lift", origin: [0.0306, 0, 0.0542], axis: [0, 1, 0] },
+    { motor: "elbow_flex", origin: [0.028, 0, 0.1126], axis: [0, 1, 0] },
+    { motor: "wrist_flex", origin: [0.1349, 0, 0.0052], axis: [0, 1, 0] },
+    { motor: "wrist_roll", origin: [0.0611, 0, 0], axis: [1, 0, 0] },
+  ],
+  tool: [0.098, 0, 0], // Between the gripper jaw tips
+};
+
 /**
  * Create SO-100 hardware configuration
  */
@@ -92,7 +107,11 @@ export function createSO100Config(
     motorNames: SO100_CONFIG.motorNames,
     motorIds: SO100_CONFIG.motorIds,
     driveModes: SO100_CONFIG.driveModes,
+    normModes: SO100_CONFIG.normModes,
     keyboardControls: SO100_KEYBOARD_CONTROLS,
-    protocol: WEB_STS3215_PROTOCOL,
+    protocol: STS3215_HARDWARE_PROTOCOL,
+    kinematics: SO100_KINEMATICS,
+    // wrist_roll is a continuous rotation motor
+    calibration: fullTurnMotors(["wrist_roll"]),
   };
 }
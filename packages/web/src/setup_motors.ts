@@ -0,0 +1,78 @@
+/**
+ * Web motor setup functionality using Web Serial API
+ * Writes the configured ID and baud rate to fresh motors, one motor at a time
+ */
+
+import { WebSerialPortWrapper } from "./utils/serial-port-wrapper.js";
+import { setupMotor } from "./utils/motor-setup.js";
+import { STS3215_PROTOCOL } from "./utils/sts3215-protocol.js";
+import { getRobotConfig } from "./robots/robot_config.js";
+import type {
+  SetupMotorsConfig,
+  SetupMotorsResults,
+  SetupMotorsProcess,
+} from "./types/setup-motors.js";
+
+// Re-export types for external use
+export type {
+  SetupMotorsResults,
+  SetupMotorsProcess,
+} from "./types/setup-motors.js";
+
+/**
+ * Set up every motor of a robot - Python lerobot compatible flow
+ * Motors are set up from the gripper down, onConnectMotor resolves once
+ * the user connected only that motor
+ */
+export async function setupMotors(
+  config: SetupMotorsConfig
+): Promise<SetupMotorsProcess> {
+  const {
+    robot,
+    baudRate = STS3215_PROTOCOL.DEFAULT_BAUD_RATE,
+    onConnectMotor,
+    onProgress,
+  } = config;
+
+  if (!robot.robotType) {
+    throw new Error(
+      "Robot type is required for motor setup. Please configure the robot first."
+    );
+  }
+
+  // Get robot-specific configuration
+  const robotConfig = getRobotConfig(robot.robotType);
+  if (robotConfig.motorBus && robotConfig.motorBus !== "feetech") {
+    throw new Error(
+      `Motor setup only supports Feetech motors, ${robot.robotType} uses ${robotConfig.motorBus}`
+    );
+  }
+
+  const port = new WebSerialPortWrapper(robot.port);
+  await port.initialize();
+
+  let shouldStop = false;
+
+  const resultPromise = (async (): Promise<SetupMotorsResults> => {
+    const { motorIds, motorNames } = robotConfig;
+    const results: SetupMotorsResults = {};
+
+    for (let i = motorIds.length - 1; i >= 0; i--) {
+      if (shouldStop) throw new Error("Motor setup stopped by user");
+      await onConnectMotor(motorNames[i], motorIds[i]);
+      if (shouldStop) throw new Error("Motor setup stopped by user");
+
+      results[motorNames[i]] = await setupMotor(port, motorIds[i], baudRate);
+      onProgress?.(`'${motorNames[i]}' motor id set to ${motorIds[i]}`);
+    }
+
+    return results;
+  })();
+
+  return {
+    stop: () => {
+      shouldStop = true;
+    },
+    result: resultPromise,
+  };
+}
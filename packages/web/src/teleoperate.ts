@@ -2,7 +2,7 @@
  * Web teleoperation functionality using Web Serial API
  */
 
-import { createSO100Config } from "./robots/so100_config.js";
+import { getRobotConfig } from "./robots/robot_config.js";
 import type { RobotHardwareConfig } from "./types/robot-config.js";
 import type { RobotConnection } from "./types/robot-connection.js";
 import { WebSerialPortWrapper } from "./utils/serial-port-wrapper.js";
@@ -11,17 +11,29 @@ import {
   writeMotorPosition,
   type MotorCommunicationPort,
 } from "./utils/motor-communication.js";
+import { verifyMotors } from "./utils/motor-scan.js";
+import { getMotorBus, setTorqueEnabled } from "./utils/motor-bus.js";
+import { SafetyFilter } from "./utils/safety-filter.js";
+import { LocalStoragePoseStorage } from "./utils/pose-library.js";
+import type { MotorBus } from "./types/motor-bus.js";
 import type {
   MotorConfig,
   TeleoperationState,
+  EmergencyStopOptions,
   TeleoperationProcess,
   TeleoperateConfig,
   TeleoperatorConfig,
   DirectTeleoperatorConfig,
+  LeaderArmTeleoperatorConfig,
+  BimanualTeleoperateConfig,
 } from "./types/teleoperation.js";
 import {
   KeyboardTeleoperator,
   DirectTeleoperator,
+  LeaderArmTeleoperator,
+  GamepadTeleoperator,
+  BimanualTeleoperator,
+  type BaseWebTeleoperator,
   type WebTeleoperator,
 } from "./teleoperators/index.js";
 
@@ -33,6 +45,9 @@ export type {
   TeleoperateConfig,
   TeleoperatorConfig,
   DirectTeleoperatorConfig,
+  LeaderArmTeleoperatorConfig,
+  GamepadTeleoperatorConfig,
+  BimanualTeleoperateConfig,
 } from "./types/teleoperation.js";
 
 /**
@@ -46,8 +61,9 @@ function createMotorConfigsFromRobotConfig(
     id: robotConfig.motorIds[i],
     name,
     currentPosition: 2048,
-    minPosition: 1024,
-    maxPosition: 3072,
+    minPosition: robotConfig.defaultLimits?.[i].min ?? 1024,
+    maxPosition: robotConfig.defaultLimits?.[i].max ?? 3072,
+    normMode: robotConfig.normModes[i],
   }));
 }
 
@@ -82,6 +98,35 @@ export function applyCalibrationToMotorConfigs(
   });
 }
 
+/**
+ * Connect the leader arm of a leader arm teleoperator
+ * The leader is moved by hand, so its torque is disabled
+ */
+async function connectLeaderArm(teleop: LeaderArmTeleoperatorConfig): Promise<{
+  port: WebSerialPortWrapper;
+  motorConfigs: MotorConfig[];
+  motorBus: MotorBus;
+}> {
+  const leaderHardwareConfig = getRobotConfig(
+    teleop.leader.robotType ?? "so100_leader"
+  );
+
+  const port = new WebSerialPortWrapper(teleop.leader.port);
+  await port.initialize();
+
+  const motorBus = getMotorBus(leaderHardwareConfig);
+  await verifyMotors(port, leaderHardwareConfig.motorIds, motorBus);
+  await setTorqueEnabled(motorBus, port, leaderHardwareConfig.motorIds, false);
+
+  const defaultMotorConfigs =
+    createMotorConfigsFromRobotConfig(leaderHardwareConfig);
+  const motorConfigs = teleop.calibrationData
+    ? applyCalibrationToMotorConfigs(defaultMotorConfigs, teleop.calibrationData)
+    : defaultMotorConfigs;
+
+  return { port, motorConfigs, motorBus };
+}
+
 /**
  * Create appropriate teleoperator based on configuration
  */
@@ -89,8 +134,9 @@ async function createTeleoperator(
   config: TeleoperateConfig,
   port: MotorCommunicationPort,
   motorConfigs: MotorConfig[],
-  robotHardwareConfig: RobotHardwareConfig
-): Promise<WebTeleoperator> {
+  robotHardwareConfig: RobotHardwareConfig,
+  motorBus: MotorBus
+): Promise<BaseWebTeleoperator> {
   switch (config.teleop.type) {
     case "keyboard":
       return new KeyboardTeleoperator(
@@ -98,22 +144,61 @@ async function createTeleoperator(
         port,
         motorConfigs,
         robotHardwareConfig.keyboardControls,
-        config.onStateUpdate
+        config.onStateUpdate,
+        motorBus,
+        robotHardwareConfig.base,
+        robotHardwareConfig.kinematics
       );
 
-    case "direct":
+    case "direct": {
+      const { robotType, robotId = "default" } = config.robot;
+      if (!robotType) {
+        throw new Error(
+          "Robot type is required for teleoperation. Please configure the robot first."
+        );
+      }
+
       return new DirectTeleoperator(
-        config.teleop,
+        {
+          ...config.teleop,
+          // Poses of the robot in localStorage unless the app brings storage
+          poseStorage:
+            config.teleop.poseStorage ??
+            (typeof localStorage !== "undefined"
+              ? new LocalStoragePoseStorage(robotType, robotId)
+              : undefined),
+        },
         port,
         motorConfigs,
-        config.onStateUpdate
+        config.onStateUpdate,
+        motorBus,
+        robotHardwareConfig.base
       );
+    }
 
-    case "so100_leader":
-      throw new Error("Leader arm teleoperator not yet implemented");
+    case "so100_leader": {
+      const leader = await connectLeaderArm(config.teleop);
+      return new LeaderArmTeleoperator(
+        config.teleop,
+        port,
+        motorConfigs,
+        leader.port,
+        leader.motorConfigs,
+        config.onStateUpdate,
+        motorBus,
+        leader.motorBus
+      );
+    }
 
     case "gamepad":
-      throw new Error("Gamepad teleoperator not yet implemented");
+      return new GamepadTeleoperator(
+        config.teleop,
+        port,
+        motorConfigs,
+        config.onStateUpdate,
+        motorBus,
+        robotHardwareConfig.kinematics
+      );
 
     default:
       throw new Error(
@@ -136,6 +221,7 @@ function buildTeleoperationStateFromTeleoperator(
     motorConfigs: [...teleoperator.motorConfigs], // Get fresh motor configs from teleoperator
     lastUpdate: Date.now(),
     ...teleoperatorState,
+    estopped: teleoperator.estopped,
   };
 }
 
@@ -146,17 +232,54 @@ export async function teleoperate(
   config: TeleoperateConfig
 ): Promise<TeleoperationProcess> {
   const teleoperator = await createTeleoperatorProcess(config);
+  return createTeleoperationProcess(teleoperator, config.onStateUpdate);
+}
+
+/**
+ * Teleoperate two arms as one robot, e.g. bi_so100_follower
+ * Motor names get left_ and right_ prefixes
+ */
+export async function teleoperateBimanual(
+  config: BimanualTeleoperateConfig
+): Promise<TeleoperationProcess> {
+  const { robot, teleop, calibrationData } = config;
+
+  const left = await createTeleoperatorProcess({
+    robot: robot.left,
+    teleop: teleop.left,
+    calibrationData: calibrationData?.left,
+    safety: config.safety,
+    health: config.health,
+  });
+  const right = await createTeleoperatorProcess({
+    robot: robot.right,
+    teleop: teleop.right,
+    calibrationData: calibrationData?.right,
+    safety: config.safety,
+    health: config.health,
+  });
+
+  const teleoperator = new BimanualTeleoperator(left, right);
+  return createTeleoperationProcess(teleoperator, config.onStateUpdate);
+}
 
+/**
+ * Wrap a teleoperator into the process control object (shared logic)
+ */
+function createTeleoperationProcess(
+  teleoperator: WebTeleoperator,
+  onStateUpdate?: (state: TeleoperationState) => void
+): TeleoperationProcess {
   return {
     start: () => {
       teleoperator.start();
       // CRITICAL: State update loop for UI synchronization
       // This ensures sliders and UI reflect actual motor positions when moved via keyboard
-      if (config.onStateUpdate) {
+      if (onStateUpdate) {
         const updateLoop = () => {
           const state = buildTeleoperationStateFromTeleoperator(teleoperator);
           if (state.isActive) {
-            config.onStateUpdate!(state);
+            onStateUpdate(state);
             setTimeout(updateLoop, 100); // 10fps state updates - keeps sliders in sync
           }
         };
@@ -164,9 +287,24 @@ export async function teleoperate(
       }
     },
     stop: () => teleoperator.stop(),
+    emergencyStop: async (options?: EmergencyStopOptions) => {
+      try {
+        await teleoperator.emergencyStop(options);
+      } finally {
+        // The update loop ended with stop(), show the latched state
+        onStateUpdate?.(buildTeleoperationStateFromTeleoperator(teleoperator));
+      }
+    },
+    resetEmergencyStop: async () => {
+      await teleoperator.resetEmergencyStop();
+      onStateUpdate?.(buildTeleoperationStateFromTeleoperator(teleoperator));
+    },
     updateKeyState: (key: string, pressed: boolean) => {
       // Delegate to teleoperator if it supports keyboard input
-      if (teleoperator instanceof KeyboardTeleoperator) {
+      if (
+        teleoperator instanceof KeyboardTeleoperator ||
+        teleoperator instanceof BimanualTeleoperator
+      ) {
         teleoperator.updateKeyState(key, pressed);
       }
     },
@@ -181,7 +319,7 @@ export async function teleoperate(
  */
 async function createTeleoperatorProcess(
   config: TeleoperateConfig
-): Promise<WebTeleoperator> {
+): Promise<BaseWebTeleoperator> {
   // Validate required fields
   if (!config.robot.robotType) {
     throw new Error(
@@ -194,11 +332,22 @@ async function createTeleoperatorProcess(
   await port.initialize();
 
   // Get robot-specific configuration
-  let robotHardwareConfig: RobotHardwareConfig;
-  if (config.robot.robotType.startsWith("so100")) {
-    robotHardwareConfig = createSO100Config(config.robot.robotType);
-  } else {
-    throw new Error(`Unsupported robot type: ${config.robot.robotType}`);
+  const robotHardwareConfig = getRobotConfig(config.robot.robotType);
+
+  // Make sure the whole arm answers before taking control
+  const motorBus = getMotorBus(robotHardwareConfig);
+  await verifyMotors(port, robotHardwareConfig.motorIds, motorBus);
+
+  // Dynamixel servos only follow goal positions with torque enabled
+  if (motorBus.type === "dynamixel") {
+    await setTorqueEnabled(motorBus, port, robotHardwareConfig.motorIds, true);
+  }
+
+  // Wheels follow Goal_Speed with torque enabled
+  if (robotHardwareConfig.base) {
+    const { wheelIds } = robotHardwareConfig.base;
+    await verifyMotors(port, wheelIds, motorBus);
+    await setTorqueEnabled(motorBus, port, wheelIds, true);
   }
 
   // Create motor configs from robot hardware specs
@@ -218,9 +367,23 @@ async function createTeleoperatorProcess(
     config,
     port,
     motorConfigs,
-    robotHardwareConfig
+    robotHardwareConfig,
+    motorBus
   );
   await teleoperator.initialize();
 
+  if (config.safety) {
+    teleoperator.setSafetyFilter(
+      new SafetyFilter(
+        config.safety,
+        teleoperator.motorConfigs,
+        robotHardwareConfig.kinematics
+      )
+    );
+  }
+  if (config.health) {
+    teleoperator.monitorHealth(config.health);
+  }
+
   return teleoperator;
 }
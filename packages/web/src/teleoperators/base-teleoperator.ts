@@ -3,41 +3,46 @@
  * Defines the contract that all teleoperators must implement
  */
 
-import type { MotorConfig } from "../types/teleoperation.js";
+import type {
+  EmergencyStopOptions,
+  MotorConfig,
+} from "../types/teleoperation.js";
 import type { MotorCommunicationPort } from "../utils/motor-communication.js";
-
-/**
- * Normalizes a value from one range to another
- * @param value The value to normalize
- * @param minVal The minimum value of the original range
- * @param maxVal The maximum value of the original range
- * @param minNorm The minimum value of the normalized range
- * @param maxNorm The maximum value of the normalized range
- * @returns The normalized value
- */
-function normalizeValue(value: number, minVal: number, maxVal: number, minNorm: number, maxNorm: number): number {
-  const range = maxVal - minVal;
-  const normRange = maxNorm - minNorm;
-  const normalized = (value - minVal) / range;
-  return normalized * normRange + minNorm;
-}
+import { BusScheduler } from "../utils/bus-scheduler.js";
+import { FEETECH_MOTOR_BUS } from "../utils/motor-bus.js";
+import type { MotorBus } from "../types/motor-bus.js";
+import type { SafetyFilter } from "../utils/safety-filter.js";
+import { HealthMonitor } from "../utils/health-monitor.js";
+import type { HealthMonitorConfig, MotorHealth } from "../types/health.js";
+import type {
+  BaseVelocity,
+  EndEffectorPose,
+  MobileBaseConfig,
+} from "../types/robot-config.js";
+import {
+  bodyToWheelSpeeds,
+  wheelSpeedsToBody,
+} from "../utils/omniwheel-kinematics.js";
+import { normalizeMotorValue } from "../utils/motor-normalization.js";
 
 /**
  * Type definition for state update callback parameters
  */
-interface StateUpdateCallbackParams {
+export interface StateUpdateCallbackParams {
   previousMotorConfigs: MotorConfig[];
   newMotorConfigs: MotorConfig[];
   previousMotorConfigsNormalized: MotorConfig[];
   newMotorConfigsNormalized: MotorConfig[];
   commandSentTimestamp: number;
   positionChangedTimestamp: number;
+  baseVelocity?: BaseVelocity; // Commanded, robots with a mobile base only
+  measuredBaseVelocity?: BaseVelocity; // From wheel Present_Speed
 }
 
 /**
  * Type definition for state update callback function
  */
-type StateUpdateCallback = (params: StateUpdateCallbackParams) => void;
+export type StateUpdateCallback = (params: StateUpdateCallbackParams) => void;
 
 /**
  * Type definition for array of state update callbacks
@@ -60,6 +65,9 @@ export abstract class WebTeleoperator {
   abstract setTaskIndex(index: number): void;
   
   abstract disconnect(): Promise<void>;
+  abstract emergencyStop(options?: EmergencyStopOptions): Promise<void>;
+  abstract resetEmergencyStop(): Promise<void>;
+  abstract readonly estopped: boolean;
   abstract getState(): TeleoperatorSpecificState;
   abstract onMotorConfigsUpdate(motorConfigs: MotorConfig[]): void;
   abstract addOnStateUpdateCallback(fn : StateUpdateCallback): void;
@@ -72,6 +80,9 @@ export type TeleoperatorSpecificState = {
   keyStates?: { [key: string]: { pressed: boolean; timestamp: number } }; // keyboard
   leaderPositions?: { [motor: string]: number }; // leader arm
   gamepadState?: { axes: number[]; buttons: boolean[] }; // gamepad
+  baseVelocity?: BaseVelocity; // mobile base
+  endEffectorPose?: EndEffectorPose; // cartesian mode
+  motorHealth?: { [motor: string]: MotorHealth }; // health monitor
 };
 
 /**
@@ -79,17 +90,29 @@ export type TeleoperatorSpecificState = {
  */
 export abstract class BaseWebTeleoperator extends WebTeleoperator {
   protected port: MotorCommunicationPort;
+  protected bus: BusScheduler;
   public motorConfigs: MotorConfig[] = [];
   protected isActive: boolean = false;
+  protected mobileBase?: MobileBaseConfig;
+  protected healthMonitor: HealthMonitor | null = null;
+  public baseVelocity: BaseVelocity = { x: 0, y: 0, theta: 0 };
+  public measuredBaseVelocity: BaseVelocity = { x: 0, y: 0, theta: 0 };
   public isRecording: boolean = false;
   public recordingTaskIndex : number;
   public recordingEpisodeIndex : number;
   public recordedMotorPositionEpisodes : any[];
 
-  constructor(port: MotorCommunicationPort, motorConfigs: MotorConfig[]) {
+  constructor(
+    port: MotorCommunicationPort,
+    motorConfigs: MotorConfig[],
+    motorBus: MotorBus = FEETECH_MOTOR_BUS,
+    mobileBase?: MobileBaseConfig
+  ) {
     super();
     this.port = port;
+    this.bus = new BusScheduler(port, motorBus);
     this.motorConfigs = motorConfigs;
+    this.mobileBase = mobileBase;
 
     // store episode positions
     this.recordedMotorPositionEpisodes = []
@@ -106,6 +129,7 @@ export abstract class BaseWebTeleoperator extends WebTeleoperator {
 
   async disconnect(): Promise<void> {
     this.stop();
+    this.healthMonitor?.stop();
     if (this.port && "close" in this.port) {
       await (this.port as any).close();
     }
@@ -126,24 +150,162 @@ export abstract class BaseWebTeleoperator extends WebTeleoperator {
     this.motorConfigs = motorConfigs;
   }
 
-  normalizeMotorConfigPosition(motorConfig: MotorConfig){
-    let minNormPosition;
-    let maxNormPosition;
-
-    /**
-     * This follows the guide at https://github.com/huggingface/lerobot/blob/cf86b9300dc83fdad408cfe4787b7b09b55f12cf/src/lerobot/robots/so100_follower/so100_follower.py#L49
-     * Meaning, for everything except gripper, it normalizes the positions to between -100 and 100
-     * and for gripper it normalizes between 0 - 100
-     */
-    if(["shoulder_pan", "shoulder_lift", "elbow_flex", "wrist_flex", "wrist_roll"].includes(motorConfig.name)) {
-      minNormPosition = -100;
-      maxNormPosition = 100;
-    } else {
-      minNormPosition = 0;
-      maxNormPosition = 100;
+  /**
+   * Limit all goal writes of this teleoperator, null removes the filter
+   */
+  setSafetyFilter(filter: SafetyFilter | null): void {
+    this.bus.setSafetyFilter(filter);
+  }
+
+  /**
+   * Latch the emergency stop: stop teleoperation and the base, drop every
+   * queued goal and refuse further writes until resetEmergencyStop()
+   */
+  async emergencyStop(options: EmergencyStopOptions = {}): Promise<void> {
+    this.bus.emergencyStop();
+    this.stop();
+    await this.stopBase();
+    if (options.disableTorque) {
+      await this.bus.releaseMotors(
+        this.motorConfigs.map((config) => config.id)
+      );
     }
+  }
 
-    return normalizeValue(motorConfig.currentPosition, motorConfig.minPosition, motorConfig.maxPosition, minNormPosition, maxNormPosition)
+  get estopped(): boolean {
+    return this.bus.estopped;
+  }
+
+  /**
+   * Accept writes again, teleoperation stays stopped until start()
+   * Positions are read back so the next goals start where the arm is
+   */
+  async resetEmergencyStop(): Promise<void> {
+    this.bus.resetEmergencyStop();
+    await this.readCurrentPositions();
+  }
+
+  /**
+   * Watch temperature, voltage and load of the motors until disconnect,
+   * also while teleoperation is stopped. null stops watching
+   */
+  monitorHealth(config: HealthMonitorConfig | null): HealthMonitor | null {
+    this.healthMonitor?.stop();
+    this.healthMonitor = config
+      ? new HealthMonitor(this.bus, this.motorConfigs, config)
+      : null;
+    this.healthMonitor?.start();
+    return this.healthMonitor;
+  }
+
+  /**
+   * Motor health for getState(), empty without a health monitor
+   */
+  protected healthState(): TeleoperatorSpecificState {
+    return this.healthMonitor
+      ? { motorHealth: this.healthMonitor.getHealth() }
+      : {};
+  }
+
+  /**
+   * Refresh currentPosition of every motor from hardware
+   * Uses one sync read and falls back to individual reads, keeping the
+   * previous position of motors that do not answer
+   * Runs as a telemetry read on the bus scheduler
+   */
+  protected readCurrentPositions(): Promise<void> {
+    return this.bus.run("read", async (port) => {
+      try {
+        const positions = await this.bus.motorBus.syncReadRegister(
+          port,
+          this.motorConfigs.map((config) => config.id),
+          "Present_Position"
+        );
+        this.motorConfigs.forEach((config, index) => {
+          config.currentPosition = positions[index];
+        });
+        return;
+      } catch {
+        // Some motors did not answer the sync read - read them one by one
+      }
+
+      for (const config of this.motorConfigs) {
+        try {
+          config.currentPosition = await this.bus.motorBus.readRegister(
+            port,
+            config.id,
+            "Present_Position"
+          );
+        } catch {
+          // Keep the previous position
+        }
+      }
+    });
+  }
+
+  get hasMobileBase(): boolean {
+    return this.mobileBase !== undefined;
+  }
+
+  /**
+   * Drive the mobile base at a body velocity
+   * Wheel speeds go out in one sync write on the bus scheduler
+   */
+  async setBaseVelocity(velocity: BaseVelocity): Promise<void> {
+    const base = this.mobileBase;
+    if (!base) {
+      throw new Error("Robot has no mobile base");
+    }
+
+    const speeds = bodyToWheelSpeeds(velocity, base);
+    await this.bus.run("write", (port) =>
+      this.bus.motorBus.syncWriteRegister(
+        port,
+        base.wheelIds,
+        "Goal_Speed",
+        speeds
+      )
+    );
+    this.baseVelocity = { ...velocity };
+  }
+
+  /**
+   * Refresh measuredBaseVelocity from the wheel Present_Speed
+   * Runs as a telemetry read on the bus scheduler
+   */
+  async readBaseVelocity(): Promise<BaseVelocity> {
+    const base = this.mobileBase;
+    if (!base) {
+      throw new Error("Robot has no mobile base");
+    }
+
+    const speeds = await this.bus.run("read", (port) =>
+      this.bus.motorBus.syncReadRegister(port, base.wheelIds, "Present_Speed")
+    );
+    this.measuredBaseVelocity = wheelSpeedsToBody(speeds, base);
+    return this.measuredBaseVelocity;
+  }
+
+  /**
+   * Stop the wheels ahead of every queued write and read
+   */
+  protected stopBase(): Promise<void> {
+    const base = this.mobileBase;
+    if (!base) return Promise.resolve();
+
+    this.baseVelocity = { x: 0, y: 0, theta: 0 };
+    return this.bus.run("emergency", (port) =>
+      this.bus.motorBus.syncWriteRegister(
+        port,
+        base.wheelIds,
+        "Goal_Speed",
+        base.wheelIds.map(() => 0)
+      )
+    );
+  }
+
+  normalizeMotorConfigPosition(motorConfig: MotorConfig){
+    return normalizeMotorValue(motorConfig.currentPosition, motorConfig)
   }
 
   /**
@@ -160,21 +322,11 @@ export abstract class BaseWebTeleoperator extends WebTeleoperator {
     // Normalize the current position values
     for(let i = 0; i < normalizedConfigs.length; i++) {
       const config = normalizedConfigs[i];
-      
-      if(config.name === "gripper") {
-        config.currentPosition = normalizeValue(motorConfigs[i].currentPosition, motorConfigs[i].minPosition, motorConfigs[i].maxPosition, 0, 100);
-      } else {
-        config.currentPosition = normalizeValue(motorConfigs[i].currentPosition, motorConfigs[i].minPosition, motorConfigs[i].maxPosition, -100, 100);
-      }
-      
+      config.currentPosition = normalizeMotorValue(motorConfigs[i].currentPosition, motorConfigs[i]);
+
       // Also normalize min/max positions for consistency
-      if(config.name === "gripper") {
-        config.minPosition = 0;
-        config.maxPosition = 100;
-      } else {
-        config.minPosition = -100;
-        config.maxPosition = 100;
-      }
+      config.minPosition = normalizeMotorValue(motorConfigs[i].minPosition, motorConfigs[i]);
+      config.maxPosition = normalizeMotorValue(motorConfigs[i].maxPosition, motorConfigs[i]);
     }
     
     return normalizedConfigs;
@@ -202,7 +354,11 @@ export abstract class BaseWebTeleoperator extends WebTeleoperator {
       previousMotorConfigsNormalized: this.normalizeMotorConfigs(prevMotorConfigs),
       newMotorConfigsNormalized: this.normalizeMotorConfigs(newMotorConfigs),
       commandSentTimestamp: commandSentTimestamp,
-      positionChangedTimestamp: positionChangedTimestamp
+      positionChangedTimestamp: positionChangedTimestamp,
+      ...(this.mobileBase && {
+        baseVelocity: { ...this.baseVelocity },
+        measuredBaseVelocity: { ...this.measuredBaseVelocity },
+      }),
     };
     
     // call all the onStateUpdateCallbacks
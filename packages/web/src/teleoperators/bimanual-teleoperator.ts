@@ -0,0 +1,324 @@
+/**
+ * Bimanual teleoperator for Web platform
+ * Drives two arms as one robot, following the Python lerobot bimanual layout
+ */
+
+import {
+  WebTeleoperator,
+  type BaseWebTeleoperator,
+  type StateUpdateCallback,
+  type StateUpdateCallbackParams,
+  type TeleoperatorSpecificState,
+} from "./base-teleoperator.js";
+import { KeyboardTeleoperator } from "./keyboard-teleoperator.js";
+import { DirectTeleoperator } from "./direct-teleoperator.js";
+import type {
+  EmergencyStopOptions,
+  MotorConfig,
+} from "../types/teleoperation.js";
+
+/**
+ * Joint name prefixes of the two arms, left arm first
+ */
+export const BIMANUAL_ARM_PREFIXES = {
+  left: "left_",
+  right: "right_",
+} as const;
+
+export type BimanualArm = keyof typeof BIMANUAL_ARM_PREFIXES;
+
+function prefixMotorConfigs(
+  motorConfigs: MotorConfig[],
+  arm: BimanualArm
+): MotorConfig[] {
+  return motorConfigs.map((config) => ({
+    ...config,
+    name: `${BIMANUAL_ARM_PREFIXES[arm]}${config.name}`,
+  }));
+}
+
+function prefixKeys<T>(
+  values: { [motor: string]: T } | undefined,
+  arm: BimanualArm
+): { [motor: string]: T } {
+  const prefixed: { [motor: string]: T } = {};
+  for (const [name, value] of Object.entries(values ?? {})) {
+    prefixed[`${BIMANUAL_ARM_PREFIXES[arm]}${name}`] = value;
+  }
+  return prefixed;
+}
+
+/**
+ * Composite teleoperator of a left and a right arm
+ * Motor names get left_ and right_ prefixes, state updates of either arm
+ * carry the joints of both arms, left arm first
+ */
+export class BimanualTeleoperator extends WebTeleoperator {
+  readonly left: BaseWebTeleoperator;
+  readonly right: BaseWebTeleoperator;
+  public recordingTaskIndex: number = 0;
+  public recordingEpisodeIndex: number = 0;
+
+  constructor(left: BaseWebTeleoperator, right: BaseWebTeleoperator) {
+    super();
+    this.left = left;
+    this.right = right;
+    this.refreshMotorConfigs();
+  }
+
+  async initialize(): Promise<void> {
+    await this.left.initialize();
+    await this.right.initialize();
+    this.refreshMotorConfigs();
+  }
+
+  start(): void {
+    this.left.start();
+    this.right.start();
+  }
+
+  stop(): void {
+    this.left.stop();
+    this.right.stop();
+  }
+
+  get isActive(): boolean {
+    return this.left.isActiveTeleoperator || this.right.isActiveTeleoperator;
+  }
+
+  get isActiveTeleoperator(): boolean {
+    return this.isActive;
+  }
+
+  setEpisodeIndex(index: number): void {
+    this.recordingEpisodeIndex = index;
+    this.left.setEpisodeIndex(index);
+    this.right.setEpisodeIndex(index);
+  }
+
+  setTaskIndex(index: number): void {
+    this.recordingTaskIndex = index;
+    this.left.setTaskIndex(index);
+    this.right.setTaskIndex(index);
+  }
+
+  /**
+   * Stop both arms at once, one arm failing does not keep the other running
+   */
+  async emergencyStop(options: EmergencyStopOptions = {}): Promise<void> {
+    const results = await Promise.allSettled([
+      this.left.emergencyStop(options),
+      this.right.emergencyStop(options),
+    ]);
+    for (const result of results) {
+      if (result.status === "rejected") throw result.reason;
+    }
+  }
+
+  get estopped(): boolean {
+    return this.left.estopped || this.right.estopped;
+  }
+
+  async resetEmergencyStop(): Promise<void> {
+    await this.left.resetEmergencyStop();
+    await this.right.resetEmergencyStop();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.left.disconnect();
+    await this.right.disconnect();
+  }
+
+  getState(): TeleoperatorSpecificState {
+    this.refreshMotorConfigs();
+
+    const leftState = this.left.getState();
+    const rightState = this.right.getState();
+    const hasLeaders = !!(
+      leftState.leaderPositions || rightState.leaderPositions
+    );
+    const hasHealth = !!(leftState.motorHealth || rightState.motorHealth);
+
+    return {
+      ...leftState,
+      ...rightState,
+      ...(hasLeaders && {
+        leaderPositions: {
+          ...prefixKeys(leftState.leaderPositions, "left"),
+          ...prefixKeys(rightState.leaderPositions, "right"),
+        },
+      }),
+      ...(hasHealth && {
+        motorHealth: {
+          ...prefixKeys(leftState.motorHealth, "left"),
+          ...prefixKeys(rightState.motorHealth, "right"),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Split prefixed motor configs back onto the two arms
+   */
+  onMotorConfigsUpdate(motorConfigs: MotorConfig[]): void {
+    for (const arm of ["left", "right"] as BimanualArm[]) {
+      const prefix = BIMANUAL_ARM_PREFIXES[arm];
+      this.arm(arm).onMotorConfigsUpdate(
+        motorConfigs
+          .filter((config) => config.name.startsWith(prefix))
+          .map((config) => ({
+            ...config,
+            name: config.name.slice(prefix.length),
+          }))
+      );
+    }
+    this.refreshMotorConfigs();
+  }
+
+  /**
+   * Adds an onstateupdate callback, called with the joints of both arms
+   * whenever one of them moves
+   * @param fn Callback function that receives state update parameters
+   */
+  addOnStateUpdateCallback(fn: StateUpdateCallback): void {
+    this.onStateUpdateCallbacks.push(fn);
+
+    // Forward arm updates once, no matter how many callbacks are added
+    if (this.onStateUpdateCallbacks.length > 1) return;
+    for (const arm of ["left", "right"] as BimanualArm[]) {
+      this.arm(arm).addOnStateUpdateCallback((params) => {
+        const combined = this.combineStateUpdate(arm, params);
+        this.onStateUpdateCallbacks.forEach((callback) => callback(combined));
+      });
+    }
+  }
+
+  /**
+   * Forward a key press to the arms that use keyboard control
+   */
+  updateKeyState(key: string, pressed: boolean): void {
+    for (const teleoperator of [this.left, this.right]) {
+      if (teleoperator instanceof KeyboardTeleoperator) {
+        teleoperator.updateKeyState(key, pressed);
+      }
+    }
+  }
+
+  /**
+   * Move a motor by its prefixed name, e.g. left_gripper
+   */
+  async moveMotor(motorName: string, targetPosition: number): Promise<boolean> {
+    const target = this.resolveMotor(motorName);
+    if (
+      !target ||
+      !(
+        target.teleoperator instanceof KeyboardTeleoperator ||
+        target.teleoperator instanceof DirectTeleoperator
+      )
+    ) {
+      return false;
+    }
+
+    return target.teleoperator.moveMotor(target.motorName, targetPosition);
+  }
+
+  /**
+   * Set motor positions by prefixed name, one write per arm
+   */
+  async setMotorPositions(positions: {
+    [motorName: string]: number;
+  }): Promise<boolean> {
+    const armPositions: { [arm in BimanualArm]: { [motor: string]: number } } =
+      { left: {}, right: {} };
+    let allFound = true;
+
+    for (const [motorName, position] of Object.entries(positions)) {
+      const target = this.resolveMotor(motorName);
+      if (!target) {
+        allFound = false;
+        continue;
+      }
+      armPositions[target.arm][target.motorName] = position;
+    }
+
+    for (const arm of ["left", "right"] as BimanualArm[]) {
+      if (Object.keys(armPositions[arm]).length === 0) continue;
+
+      const teleoperator = this.arm(arm);
+      if (!(teleoperator instanceof DirectTeleoperator)) {
+        allFound = false;
+        continue;
+      }
+      allFound =
+        (await teleoperator.setMotorPositions(armPositions[arm])) && allFound;
+    }
+
+    return allFound;
+  }
+
+  private arm(arm: BimanualArm): BaseWebTeleoperator {
+    return arm === "left" ? this.left : this.right;
+  }
+
+  private resolveMotor(
+    motorName: string
+  ):
+    | { arm: BimanualArm; teleoperator: BaseWebTeleoperator; motorName: string }
+    | undefined {
+    for (const arm of ["left", "right"] as BimanualArm[]) {
+      const prefix = BIMANUAL_ARM_PREFIXES[arm];
+      if (motorName.startsWith(prefix)) {
+        return {
+          arm,
+          teleoperator: this.arm(arm),
+          motorName: motorName.slice(prefix.length),
+        };
+      }
+    }
+    return undefined;
+  }
+
+  private refreshMotorConfigs(): void {
+    this.motorConfigs = [
+      ...prefixMotorConfigs(this.left.motorConfigs, "left"),
+      ...prefixMotorConfigs(this.right.motorConfigs, "right"),
+    ];
+  }
+
+  /**
+   * Complete a state update of one arm with the current joints of the other
+   */
+  private combineStateUpdate(
+    arm: BimanualArm,
+    params: StateUpdateCallbackParams
+  ): StateUpdateCallbackParams {
+    const otherArm: BimanualArm = arm === "left" ? "right" : "left";
+    const other = this.arm(otherArm);
+    const otherConfigs = prefixMotorConfigs(other.motorConfigs, otherArm);
+    const otherNormalized = prefixMotorConfigs(
+      other.normalizeMotorConfigs(other.motorConfigs),
+      otherArm
+    );
+
+    const combine = (configs: MotorConfig[], others: MotorConfig[]) => {
+      const own = prefixMotorConfigs(configs, arm);
+      return arm === "left" ? [...own, ...others] : [...others, ...own];
+    };
+
+    this.refreshMotorConfigs();
+
+    return {
+      ...params,
+      previousMotorConfigs: combine(params.previousMotorConfigs, otherConfigs),
+      newMotorConfigs: combine(params.newMotorConfigs, otherConfigs),
+      previousMotorConfigsNormalized: combine(
+        params.previousMotorConfigsNormalized,
+        otherNormalized
+      ),
+      newMotorConfigsNormalized: combine(
+        params.newMotorConfigsNormalized,
+        otherNormalized
+      ),
+    };
+  }
+}
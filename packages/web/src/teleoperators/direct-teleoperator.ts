@@ -13,32 +13,41 @@ import type {
   TeleoperationState,
 } from "../types/teleoperation.js";
 import type { MotorCommunicationPort } from "../utils/motor-communication.js";
+import type { MotorBus } from "../types/motor-bus.js";
+import type { MotionPromise, MoveToOptions } from "../types/motion.js";
+import type { Pose, PoseStorage } from "../types/pose.js";
+import { streamTrajectory } from "../utils/motion.js";
 import {
-  readMotorPosition,
-  writeMotorPosition,
-} from "../utils/motor-communication.js";
+  MemoryPoseStorage,
+  capturePose,
+  poseTargets,
+} from "../utils/pose-library.js";
+import type {
+  BaseVelocity,
+  MobileBaseConfig,
+} from "../types/robot-config.js";
 
 export class DirectTeleoperator extends BaseWebTeleoperator {
   private onStateUpdate?: (state: TeleoperationState) => void;
+  private motion: MotionPromise | null = null;
+  private poseStorage: PoseStorage;
 
   constructor(
     config: DirectTeleoperatorConfig,
     port: MotorCommunicationPort,
     motorConfigs: MotorConfig[],
-    onStateUpdate?: (state: TeleoperationState) => void
+    onStateUpdate?: (state: TeleoperationState) => void,
+    motorBus?: MotorBus,
+    mobileBase?: MobileBaseConfig
   ) {
-    super(port, motorConfigs);
+    super(port, motorConfigs, motorBus, mobileBase);
+    this.poseStorage = config.poseStorage ?? new MemoryPoseStorage();
     this.onStateUpdate = onStateUpdate;
   }
 
   async initialize(): Promise<void> {
     // Read current motor positions
-    for (const config of this.motorConfigs) {
-      const position = await readMotorPosition(this.port, config.id);
-      if (position !== null) {
-        config.currentPosition = position;
-      }
-    }
+    await this.readCurrentPositions();
   }
 
   start(): void {
@@ -47,6 +56,12 @@ export class DirectTeleoperator extends BaseWebTeleoperator {
 
   stop(): void {
     this.isActive = false;
+    this.cancelMotion();
+
+    // Stop the mobile base
+    this.stopBase().catch((error) => {
+      console.warn("Failed to stop mobile base:", error);
+    });
 
     // Notify UI of state change
     if (this.onStateUpdate) {
@@ -55,7 +70,10 @@ export class DirectTeleoperator extends BaseWebTeleoperator {
   }
 
   getState(): TeleoperatorSpecificState {
-    return {};
+    return {
+      ...(this.hasMobileBase && { baseVelocity: { ...this.baseVelocity } }),
+      ...this.healthState(),
+    };
   }
 
   /**
@@ -73,12 +91,13 @@ export class DirectTeleoperator extends BaseWebTeleoperator {
     const prevMotorConfigs = structuredClone(this.motorConfigs)
 
     try {
-      await writeMotorPosition(
-        this.port,
-        motorConfig.id,
-        Math.round(clampedPosition)
+      // The safety filter may hold the goal back, record what was written
+      const written = await this.bus.writeGoalPositions(
+        [motorConfig.id],
+        [Math.round(clampedPosition)]
       );
-      motorConfig.currentPosition = clampedPosition;
+      motorConfig.currentPosition =
+        written.get(motorConfig.id) ?? motorConfig.currentPosition;
       const positionChangedTimestamp = performance.now()/1000;
 
       // Notify UI of position change
@@ -95,23 +114,186 @@ export class DirectTeleoperator extends BaseWebTeleoperator {
   }
 
   /**
-   * Set multiple motor positions at once
+   * Set multiple motor positions at once with a single sync write
    */
   async setMotorPositions(positions: {
     [motorName: string]: number;
   }): Promise<boolean> {
     const commandSentTimestamp = performance.now()/1000;
     const prevMotorConfigs = structuredClone(this.motorConfigs)
-    const results = await Promise.all(
-      Object.entries(positions).map(([motorName, position]) =>
-        this.moveMotor(motorName, position)
-      )
-    );
+
+    const targets: { motorConfig: MotorConfig; position: number }[] = [];
+    let allFound = true;
+    for (const [motorName, targetPosition] of Object.entries(positions)) {
+      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
+      if (!motorConfig) {
+        allFound = false;
+        continue;
+      }
+
+      targets.push({
+        motorConfig,
+        position: Math.max(
+          motorConfig.minPosition,
+          Math.min(motorConfig.maxPosition, targetPosition)
+        ),
+      });
+    }
+
+    if (targets.length === 0) return allFound;
+
+    let written: Map<number, number>;
+    try {
+      written = await this.bus.writeGoalPositions(
+        targets.map(({ motorConfig }) => motorConfig.id),
+        targets.map(({ position }) => Math.round(position))
+      );
+    } catch (error) {
+      console.warn("Failed to set motor positions:", error);
+      return false;
+    }
+
+    for (const { motorConfig } of targets) {
+      motorConfig.currentPosition =
+        written.get(motorConfig.id) ?? motorConfig.currentPosition;
+    }
     const positionChangedTimestamp = performance.now()/1000;
 
+    // Notify UI of position change
+    if (this.onStateUpdate) {
+      this.onStateUpdate(this.buildTeleoperationState());
+    }
+
     this.dispatchMotorPositionChanged(prevMotorConfigs,this.motorConfigs, commandSentTimestamp, positionChangedTimestamp);
 
-    return results.every((result) => result);
+    return allFound;
+  }
+
+  /**
+   * Move motors by name smoothly to target positions
+   * Goals are interpolated along the profile and streamed at the control
+   * rate, the promise resolves once Present_Position is within tolerance
+   * and the motors stopped moving. A new move or stop() cancels this one
+   */
+  moveTo(
+    positions: { [motorName: string]: number },
+    options: MoveToOptions = {}
+  ): MotionPromise {
+    this.cancelMotion();
+    const motorConfigs: MotorConfig[] = [];
+    const targets: number[] = [];
+    for (const [motorName, targetPosition] of Object.entries(positions)) {
+      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
+      if (!motorConfig) {
+        return rejectedMotion(new Error(`Unknown motor: ${motorName}`));
+      }
+
+      motorConfigs.push(motorConfig);
+      targets.push(
+        Math.max(
+          motorConfig.minPosition,
+          Math.min(motorConfig.maxPosition, targetPosition)
+        )
+      );
+    }
+
+    let prevMotorConfigs = structuredClone(this.motorConfigs);
+    const motion = streamTrajectory(
+      this.bus,
+      motorConfigs,
+      targets,
+      options,
+      () => {
+        const timestamp = performance.now() / 1000;
+
+        // Notify UI of every step of the move
+        if (this.onStateUpdate) {
+          this.onStateUpdate(this.buildTeleoperationState());
+        }
+
+        this.dispatchMotorPositionChanged(
+          prevMotorConfigs,
+          this.motorConfigs,
+          timestamp,
+          timestamp
+        );
+        prevMotorConfigs = structuredClone(this.motorConfigs);
+      }
+    );
+    this.motion = motion;
+    return motion;
+  }
+
+  /**
+   * Save the present motor positions as a named pose, replacing a saved
+   * pose of the same name
+   */
+  async savePose(name: string): Promise<Pose> {
+    await this.readCurrentPositions();
+    const pose = capturePose(name, this.motorConfigs);
+    const poses = await this.poseStorage.load();
+    await this.poseStorage.save([
+      ...poses.filter((saved) => saved.name !== name),
+      pose,
+    ]);
+    return pose;
+  }
+
+  /**
+   * Saved poses of this robot in the order they were first saved
+   */
+  listPoses(): Promise<Pose[]> {
+    return this.poseStorage.load();
+  }
+
+  /**
+   * Remove a saved pose, false when there was none of that name
+   */
+  async deletePose(name: string): Promise<boolean> {
+    const poses = await this.poseStorage.load();
+    const remaining = poses.filter((saved) => saved.name !== name);
+    if (remaining.length === poses.length) return false;
+
+    await this.poseStorage.save(remaining);
+    return true;
+  }
+
+  /**
+   * Move smoothly to a saved pose, options as for moveTo()
+   */
+  async goToPose(name: string, options: MoveToOptions = {}): Promise<void> {
+    const poses = await this.poseStorage.load();
+    const pose = poses.find((saved) => saved.name === name);
+    if (!pose) {
+      throw new Error(`Unknown pose: ${name}`);
+    }
+
+    await this.moveTo(poseTargets(pose, this.motorConfigs), options);
+  }
+
+  private cancelMotion(): void {
+    if (this.motion) {
+      this.motion.cancel();
+      this.motion = null;
+    }
+  }
+
+  /**
+   * Drive the mobile base at a body velocity
+   */
+  async setBaseVelocity(velocity: BaseVelocity): Promise<void> {
+    const commandSentTimestamp = performance.now()/1000;
+    const prevMotorConfigs = structuredClone(this.motorConfigs)
+
+    await super.setBaseVelocity(velocity);
+    const positionChangedTimestamp = performance.now()/1000;
+
+    // Notify UI of velocity change
+    if (this.onStateUpdate) {
+      this.onStateUpdate(this.buildTeleoperationState());
+    }
+
+    this.dispatchMotorPositionChanged(prevMotorConfigs,this.motorConfigs, commandSentTimestamp, positionChangedTimestamp);
   }
 
   private buildTeleoperationState(): TeleoperationState {
@@ -119,6 +301,11 @@ export class DirectTeleoperator extends BaseWebTeleoperator {
       isActive: this.isActive,
       motorConfigs: [...this.motorConfigs],
       lastUpdate: Date.now(),
+      ...this.getState(),
     };
   }
 }
+
+function rejectedMotion(error: Error): MotionPromise {
+  return Object.assign(Promise.reject(error), { cancel: () => {} });
+}
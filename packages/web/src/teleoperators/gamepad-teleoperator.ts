@@ -0,0 +1,278 @@
+/**
+ * Gamepad teleoperator for Web platform using the Gamepad API
+ */
+
+import {
+  BaseWebTeleoperator,
+  type TeleoperatorSpecificState,
+} from "./base-teleoperator.js";
+import {
+  CARTESIAN_GAMEPAD_AXIS_MAPPING,
+  CARTESIAN_GAMEPAD_BUTTON_MAPPING,
+  GAMEPAD_AXIS_MAPPING,
+  GAMEPAD_BUTTON_MAPPING,
+  gamepadVelocities,
+} from "../utils/gamepad-mapping.js";
+import { CartesianController } from "../utils/cartesian-control.js";
+import type {
+  GamepadButtonControl,
+  GamepadSnapshot,
+  GamepadTeleoperatorConfig,
+  MotorConfig,
+  TeleoperationState,
+} from "../types/teleoperation.js";
+import type { MotorCommunicationPort } from "../utils/motor-communication.js";
+import type { MotorBus } from "../types/motor-bus.js";
+import type { ArmKinematicsConfig } from "../types/robot-config.js";
+
+/**
+ * Default configuration values for gamepad teleoperator
+ */
+export const GAMEPAD_TELEOPERATOR_DEFAULTS = {
+  controllerIndex: 0, // First connected gamepad
+  deadzone: 0.1, // Stick travel ignored around the center
+  expo: 0.5, // Halfway between linear and cubic response
+  maxSpeed: 480, // Position units per second (keyboard step size at 60 Hz)
+  updateRate: 60, // Control loop FPS
+  emergencyStopButton: 1, // B on the standard layout
+  mode: "joint", // Sticks move single joints
+  linearSpeed: 0.1, // End-effector speed in m/s at full deflection (cartesian mode)
+  angularSpeed: 90, // End-effector pitch/roll in deg/s at full deflection (cartesian mode)
+} as const;
+
+/**
+ * Gamepads of the browser, empty where the Gamepad API is missing
+ */
+function browserGamepads(): ArrayLike<GamepadSnapshot | null> {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) {
+    return [];
+  }
+  return navigator.getGamepads();
+}
+
+export class GamepadTeleoperator extends BaseWebTeleoperator {
+  private updateInterval: NodeJS.Timeout | null = null;
+  private gamepadState: { axes: number[]; buttons: boolean[] } = {
+    axes: [],
+    buttons: [],
+  };
+  private onStateUpdate?: (state: TeleoperationState) => void;
+  private cartesianControl: CartesianController | null = null;
+
+  // Configuration values
+  private readonly controllerIndex: number;
+  private readonly axisMapping: { [axis: string]: string };
+  private readonly buttonMapping: { [button: string]: GamepadButtonControl };
+  private readonly deadzone: number;
+  private readonly expo: number;
+  private readonly maxSpeed: number;
+  private readonly updateRate: number;
+  private readonly emergencyStopButton: number;
+  private readonly getGamepads: () => ArrayLike<GamepadSnapshot | null>;
+
+  constructor(
+    config: GamepadTeleoperatorConfig,
+    port: MotorCommunicationPort,
+    motorConfigs: MotorConfig[],
+    onStateUpdate?: (state: TeleoperationState) => void,
+    motorBus?: MotorBus,
+    kinematics?: ArmKinematicsConfig
+  ) {
+    super(port, motorConfigs, motorBus);
+    this.onStateUpdate = onStateUpdate;
+
+    const cartesian =
+      (config.mode ?? GAMEPAD_TELEOPERATOR_DEFAULTS.mode) === "cartesian";
+    if (cartesian) {
+      if (!kinematics) {
+        throw new Error(
+          "Cartesian teleoperation needs a robot with a kinematic chain"
+        );
+      }
+      this.cartesianControl = new CartesianController(
+        kinematics,
+        this.motorConfigs,
+        config.linearSpeed ?? GAMEPAD_TELEOPERATOR_DEFAULTS.linearSpeed,
+        config.angularSpeed ?? GAMEPAD_TELEOPERATOR_DEFAULTS.angularSpeed
+      );
+    }
+
+    // Set configuration values
+    this.controllerIndex =
+      config.controllerIndex ?? GAMEPAD_TELEOPERATOR_DEFAULTS.controllerIndex;
+    this.axisMapping =
+      config.axisMapping ??
+      (cartesian ? CARTESIAN_GAMEPAD_AXIS_MAPPING : GAMEPAD_AXIS_MAPPING);
+    this.buttonMapping =
+      config.buttonMapping ??
+      (cartesian ? CARTESIAN_GAMEPAD_BUTTON_MAPPING : GAMEPAD_BUTTON_MAPPING);
+    this.deadzone = config.deadzone ?? GAMEPAD_TELEOPERATOR_DEFAULTS.deadzone;
+    this.expo = config.expo ?? GAMEPAD_TELEOPERATOR_DEFAULTS.expo;
+    this.maxSpeed = config.maxSpeed ?? GAMEPAD_TELEOPERATOR_DEFAULTS.maxSpeed;
+    this.updateRate =
+      config.updateRate ?? GAMEPAD_TELEOPERATOR_DEFAULTS.updateRate;
+    this.emergencyStopButton =
+      config.emergencyStopButton ??
+      GAMEPAD_TELEOPERATOR_DEFAULTS.emergencyStopButton;
+    this.getGamepads = config.getGamepads ?? browserGamepads;
+  }
+
+  async initialize(): Promise<void> {
+    // Read current motor positions
+    await this.readCurrentPositions();
+  }
+
+  start(): void {
+    if (this.isActive) return;
+
+    this.isActive = true;
+    this.updateInterval = setInterval(() => {
+      this.updateMotorPositions();
+    }, 1000 / this.updateRate);
+  }
+
+  stop(): void {
+    if (!this.isActive) return;
+
+    this.isActive = false;
+
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+
+    // Notify UI of state change
+    if (this.onStateUpdate) {
+      this.onStateUpdate(this.buildTeleoperationState());
+    }
+  }
+
+  getState(): TeleoperatorSpecificState {
+    return {
+      gamepadState: {
+        axes: [...this.gamepadState.axes],
+        buttons: [...this.gamepadState.buttons],
+      },
+      ...(this.cartesianControl && {
+        endEffectorPose: this.cartesianControl.getPose(),
+      }),
+      ...this.healthState(),
+    };
+  }
+
+  private buildTeleoperationState(): TeleoperationState {
+    return {
+      isActive: this.isActive,
+      motorConfigs: [...this.motorConfigs],
+      lastUpdate: Date.now(),
+      ...this.getState(),
+    };
+  }
+
+  /**
+   * Velocity times cycle time, clamped to the motor limits
+   */
+  private jointTargetPositions(velocities: { [motorName: string]: number }): {
+    [motorName: string]: number;
+  } {
+    const targetPositions: { [motorName: string]: number } = {};
+
+    for (const [motorName, velocity] of Object.entries(velocities)) {
+      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
+      if (!motorConfig) continue;
+
+      targetPositions[motorName] = Math.max(
+        motorConfig.minPosition,
+        Math.min(
+          motorConfig.maxPosition,
+          motorConfig.currentPosition +
+            (velocity * this.maxSpeed) / this.updateRate
+        )
+      );
+    }
+
+    return targetPositions;
+  }
+
+  /**
+   * Poll the gamepad and move the arm
+   */
+  private async updateMotorPositions(): Promise<void> {
+    const gamepad = this.getGamepads()[this.controllerIndex];
+    if (!gamepad || gamepad.connected === false) {
+      this.gamepadState = { axes: [], buttons: [] };
+      return;
+    }
+
+    this.gamepadState = {
+      axes: [...gamepad.axes],
+      buttons: gamepad.buttons.map((button) => button.pressed),
+    };
+
+    // Emergency stop check
+    if (this.gamepadState.buttons[this.emergencyStopButton]) {
+      this.emergencyStop().catch((error) => {
+        console.warn("Emergency stop failed:", error);
+      });
+      return;
+    }
+
+    const velocities = gamepadVelocities(
+      gamepad,
+      this.axisMapping,
+      this.buttonMapping,
+      this.deadzone,
+      this.expo
+    );
+
+    const targetPositions = this.cartesianControl
+      ? this.cartesianControl.targetPositions(
+          velocities,
+          this.maxSpeed,
+          1 / this.updateRate
+        )
+      : this.jointTargetPositions(velocities);
+
+    const changedMotors: {
+      motorConfig: MotorConfig;
+      targetPosition: number;
+    }[] = [];
+    for (const [motorName, targetPosition] of Object.entries(
+      targetPositions
+    )) {
+      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
+      if (motorConfig && targetPosition !== motorConfig.currentPosition) {
+        changedMotors.push({ motorConfig, targetPosition });
+      }
+    }
+
+    if (changedMotors.length === 0) return;
+
+    const prevMotorConfigs = structuredClone(this.motorConfigs);
+    const commandSentTimestamp = performance.now() / 1000;
+
+    try {
+      await this.bus.writeGoalPositions(
+        changedMotors.map(({ motorConfig }) => motorConfig.id),
+        changedMotors.map(({ targetPosition }) => Math.round(targetPosition))
+      );
+
+      // Keep fractional targets, so slow stick motion adds up
+      changedMotors.forEach(({ motorConfig, targetPosition }) => {
+        motorConfig.currentPosition = targetPosition;
+      });
+    } catch (error) {
+      console.warn("Failed to write motor positions:", error);
+      return;
+    }
+
+    const positionChangedTimestamp = performance.now() / 1000;
+
+    this.dispatchMotorPositionChanged(
+      prevMotorConfigs,
+      this.motorConfigs,
+      commandSentTimestamp,
+      positionChangedTimestamp
+    );
+  }
+}
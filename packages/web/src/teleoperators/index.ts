@@ -12,3 +12,16 @@ export {
   KEYBOARD_TELEOPERATOR_DEFAULTS,
 } from "./keyboard-teleoperator.js";
 export { DirectTeleoperator } from "./direct-teleoperator.js";
+export {
+  LeaderArmTeleoperator,
+  LEADER_ARM_TELEOPERATOR_DEFAULTS,
+} from "./leader-arm-teleoperator.js";
+export {
+  GamepadTeleoperator,
+  GAMEPAD_TELEOPERATOR_DEFAULTS,
+} from "./gamepad-teleoperator.js";
+export {
+  BimanualTeleoperator,
+  BIMANUAL_ARM_PREFIXES,
+  type BimanualArm,
+} from "./bimanual-teleoperator.js";
@@ -6,17 +6,23 @@ import {
   BaseWebTeleoperator,
   type TeleoperatorSpecificState,
 } from "./base-teleoperator.js";
-import type { KeyboardControl } from "../types/robot-config.js";
+import {
+  CartesianController,
+  CARTESIAN_KEYBOARD_CONTROLS,
+} from "../utils/cartesian-control.js";
+import type {
+  ArmKinematicsConfig,
+  BaseVelocity,
+  KeyboardControl,
+  MobileBaseConfig,
+} from "../types/robot-config.js";
 import type {
   KeyboardTeleoperatorConfig,
   MotorConfig,
   TeleoperationState,
 } from "../types/teleoperation.js";
 import type { MotorCommunicationPort } from "../utils/motor-communication.js";
-import {
-  readMotorPosition,
-  writeMotorPosition,
-} from "../utils/motor-communication.js";
+import type { MotorBus } from "../types/motor-bus.js";
 
 /**
  * Default configuration values for keyboard teleoperator
@@ -25,6 +31,11 @@ export const KEYBOARD_TELEOPERATOR_DEFAULTS = {
   stepSize: 8, // Position units per keypress (smooth responsive control)
   updateRate: 60, // Control loop FPS (60 Hz for smooth updates)
   keyTimeout: 10000, // Key state timeout in ms (10 seconds for virtual buttons)
+  baseLinearSpeed: 0.1, // Mobile base speed in m/s while a base key is held
+  baseAngularSpeed: 30, // Mobile base rotation in deg/s while a base key is held
+  mode: "joint", // Keys move single joints
+  linearSpeed: 0.05, // End-effector speed in m/s while a key is held (cartesian mode)
+  angularSpeed: 45, // End-effector pitch/roll in deg/s while a key is held (cartesian mode)
 } as const;
 
 export class KeyboardTeleoperator extends BaseWebTeleoperator {
@@ -34,20 +45,26 @@ export class KeyboardTeleoperator extends BaseWebTeleoperator {
     [key: string]: { pressed: boolean; timestamp: number };
   } = {};
   private onStateUpdate?: (state: TeleoperationState) => void;
+  private cartesianControl: CartesianController | null = null;
 
   // Configuration values
   private readonly stepSize: number;
   private readonly updateRate: number;
   private readonly keyTimeout: number;
+  private readonly baseLinearSpeed: number;
+  private readonly baseAngularSpeed: number;
 
   constructor(
     config: KeyboardTeleoperatorConfig,
     port: MotorCommunicationPort,
     motorConfigs: MotorConfig[],
     keyboardControls: { [key: string]: KeyboardControl },
-    onStateUpdate?: (state: TeleoperationState) => void
+    onStateUpdate?: (state: TeleoperationState) => void,
+    motorBus?: MotorBus,
+    mobileBase?: MobileBaseConfig,
+    kinematics?: ArmKinematicsConfig
   ) {
-    super(port, motorConfigs);
+    super(port, motorConfigs, motorBus, mobileBase);
     this.keyboardControls = keyboardControls;
     this.onStateUpdate = onStateUpdate;
 
@@ -57,16 +74,35 @@ export class KeyboardTeleoperator extends BaseWebTeleoperator {
       config.updateRate ?? KEYBOARD_TELEOPERATOR_DEFAULTS.updateRate;
     this.keyTimeout =
       config.keyTimeout ?? KEYBOARD_TELEOPERATOR_DEFAULTS.keyTimeout;
+    this.baseLinearSpeed =
+      config.baseLinearSpeed ?? KEYBOARD_TELEOPERATOR_DEFAULTS.baseLinearSpeed;
+    this.baseAngularSpeed =
+      config.baseAngularSpeed ??
+      KEYBOARD_TELEOPERATOR_DEFAULTS.baseAngularSpeed;
+
+    // Cartesian mode: arm keys move the end-effector, base keys stay
+    if ((config.mode ?? KEYBOARD_TELEOPERATOR_DEFAULTS.mode) === "cartesian") {
+      if (!kinematics) {
+        throw new Error(
+          "Cartesian teleoperation needs a robot with a kinematic chain"
+        );
+      }
+      this.cartesianControl = new CartesianController(
+        kinematics,
+        this.motorConfigs,
+        config.linearSpeed ?? KEYBOARD_TELEOPERATOR_DEFAULTS.linearSpeed,
+        config.angularSpeed ?? KEYBOARD_TELEOPERATOR_DEFAULTS.angularSpeed
+      );
+      this.keyboardControls = {
+        ...keyboardControls,
+        ...CARTESIAN_KEYBOARD_CONTROLS,
+      };
+    }
   }
 
   async initialize(): Promise<void> {
     // Read current motor positions
-    for (const config of this.motorConfigs) {
-      const position = await readMotorPosition(this.port, config.id);
-      if (position !== null) {
-        config.currentPosition = position;
-      }
-    }
+    await this.readCurrentPositions();
   }
 
   start(): void {
@@ -91,6 +127,11 @@ export class KeyboardTeleoperator extends BaseWebTeleoperator {
     // Clear all key states
     this.keyStates = {};
 
+    // Stop the mobile base
+    this.stopBase().catch((error) => {
+      console.warn("Failed to stop mobile base:", error);
+    });
+
     // Notify UI of state change
     if (this.onStateUpdate) {
       this.onStateUpdate(this.buildTeleoperationState());
@@ -100,6 +141,11 @@ export class KeyboardTeleoperator extends BaseWebTeleoperator {
   getState(): TeleoperatorSpecificState {
     return {
       keyStates: { ...this.keyStates },
+      ...(this.hasMobileBase && { baseVelocity: { ...this.baseVelocity } }),
+      ...(this.cartesianControl && {
+        endEffectorPose: this.cartesianControl.getPose(),
+      }),
+      ...this.healthState(),
     };
   }
 
@@ -124,10 +170,9 @@ export class KeyboardTeleoperator extends BaseWebTeleoperator {
     );
 
     try {
-      await writeMotorPosition(
-        this.port,
-        motorConfig.id,
-        Math.round(clampedPosition)
+      await this.bus.writeGoalPositions(
+        [motorConfig.id],
+        [Math.round(clampedPosition)]
       );
       motorConfig.currentPosition = clampedPosition;
 
@@ -148,10 +193,85 @@ export class KeyboardTeleoperator extends BaseWebTeleoperator {
       isActive: this.isActive,
       motorConfigs: [...this.motorConfigs],
       lastUpdate: Date.now(),
-      keyStates: { ...this.keyStates },
+      ...this.getState(),
     };
   }
 
+  /**
+   * Joint target positions, every held key moves its motor by stepSize
+   */
+  private jointTargetPositions(activeKeys: string[]): {
+    [motorName: string]: number;
+  } {
+    const targetPositions: { [motorName: string]: number } = {};
+
+    for (const key of activeKeys) {
+      const control = this.keyboardControls[key];
+      if (!control || control.motor === "emergency_stop") continue;
+
+      const motorConfig = this.motorConfigs.find(
+        (m) => m.name === control.motor
+      );
+      if (!motorConfig) continue;
+
+      // Calculate new position
+      const currentTarget =
+        targetPositions[motorConfig.name] ?? motorConfig.currentPosition;
+      const newPosition = currentTarget + control.direction * this.stepSize;
+
+      // Apply limits
+      targetPositions[motorConfig.name] = Math.max(
+        motorConfig.minPosition,
+        Math.min(motorConfig.maxPosition, newPosition)
+      );
+    }
+
+    return targetPositions;
+  }
+
+  /**
+   * Held keys as velocities from -1 to 1 per motor or cartesian axis
+   */
+  private keyVelocities(activeKeys: string[]): { [name: string]: number } {
+    const velocities: { [name: string]: number } = {};
+
+    for (const key of activeKeys) {
+      const control = this.keyboardControls[key];
+      if (!control || control.motor === "emergency_stop") continue;
+
+      velocities[control.motor] =
+        (velocities[control.motor] ?? 0) + control.direction;
+    }
+
+    return velocities;
+  }
+
+  /**
+   * Body velocity requested by the held base keys
+   */
+  private baseVelocityFromKeys(activeKeys: string[]): BaseVelocity {
+    const velocity: BaseVelocity = { x: 0, y: 0, theta: 0 };
+
+    for (const key of activeKeys) {
+      const control = this.keyboardControls[key];
+      if (!control) continue;
+
+      switch (control.motor) {
+        case "base_x":
+          velocity.x += control.direction * this.baseLinearSpeed;
+          break;
+        case "base_y":
+          velocity.y += control.direction * this.baseLinearSpeed;
+          break;
+        case "base_theta":
+          velocity.theta += control.direction * this.baseAngularSpeed;
+          break;
+      }
+    }
+
+    return velocity;
+  }
+
   /**
    * IMPORTANT: This method implements the WORKING keyboard control logic.
    *
@@ -190,65 +310,60 @@ export class KeyboardTeleoperator extends BaseWebTeleoperator {
 
     // Emergency stop check
     if (activeKeys.includes("Escape")) {
-      this.stop();
+      this.emergencyStop().catch((error) => {
+        console.warn("Emergency stop failed:", error);
+      });
       return;
     }
 
     // Calculate target positions based on active keys
     // SIMPLE RULE: If key is pressed → apply movement (works perfectly!)
-    const targetPositions: { [motorName: string]: number } = {};
+    const targetPositions = this.cartesianControl
+      ? this.cartesianControl.targetPositions(
+          this.keyVelocities(activeKeys),
+          this.stepSize * this.updateRate,
+          1 / this.updateRate
+        )
+      : this.jointTargetPositions(activeKeys);
 
-    for (const key of activeKeys) {
-      const control = this.keyboardControls[key];
-      if (!control || control.motor === "emergency_stop") continue;
+    const prevMotorConfigs = structuredClone(this.motorConfigs);
+    const commandSentTimestamp = performance.now()/1000;
 
-      const motorConfig = this.motorConfigs.find(
-        (m) => m.name === control.motor
-      );
-      if (!motorConfig) continue;
 
-      // Calculate new position
-      const currentTarget =
-        targetPositions[motorConfig.name] ?? motorConfig.currentPosition;
-      const newPosition = currentTarget + control.direction * this.stepSize;
-
-      // Apply limits
-      targetPositions[motorConfig.name] = Math.max(
-        motorConfig.minPosition,
-        Math.min(motorConfig.maxPosition, newPosition)
+    // Send all changed motors in one sync write and update positions
+    const changedMotors = Object.entries(targetPositions)
+      .map(([motorName, targetPosition]) => ({
+        motorConfig: this.motorConfigs.find((m) => m.name === motorName),
+        targetPosition,
+      }))
+      .filter(
+        (entry): entry is { motorConfig: MotorConfig; targetPosition: number } =>
+          !!entry.motorConfig &&
+          entry.targetPosition !== entry.motorConfig.currentPosition
       );
-    }
-
-    const prevMotorConfigs = structuredClone(this.motorConfigs);
-    const commandSentTimestamp = performance.now()/1000;
 
+    if (changedMotors.length > 0) {
+      try {
+        await this.bus.writeGoalPositions(
+          changedMotors.map(({ motorConfig }) => motorConfig.id),
+          changedMotors.map(({ targetPosition }) => Math.round(targetPosition))
+        );
 
-    // Send motor commands and update positions
-    for (const [motorName, targetPosition] of Object.entries(targetPositions)) {
-      const motorConfig = this.motorConfigs.find((m) => m.name === motorName);
-      if (motorConfig && targetPosition !== motorConfig.currentPosition) {        
-        try {
-          await writeMotorPosition(
-            this.port,
-            motorConfig.id,
-            Math.round(targetPosition)
-          );
-          
+        changedMotors.forEach(({ motorConfig, targetPosition }) => {
           motorConfig.currentPosition = targetPosition;
-        } catch (error) {
-          console.warn(
-            `Failed to write motor ${motorConfig.id} position:`,
-            error
-          );
-        }
+        });
+      } catch (error) {
+        console.warn("Failed to write motor positions:", error);
       }
     }
 
+    const baseDriving = await this.updateBaseVelocity(activeKeys);
 
     const positionChangedTimestamp = performance.now()/1000;
 
     // Dispatch event for motor position change if something has changed
-    const somethingChanged = Object.entries(targetPositions).length > 0;
+    const somethingChanged =
+      Object.entries(targetPositions).length > 0 || baseDriving;
 
     if(somethingChanged){
       this.dispatchMotorPositionChanged(
@@ -259,4 +374,32 @@ export class KeyboardTeleoperator extends BaseWebTeleoperator {
       );
     }
   }
+
+  /**
+   * Drive the mobile base from the held base keys
+   * Returns true while the base moves or has just been stopped
+   */
+  private async updateBaseVelocity(activeKeys: string[]): Promise<boolean> {
+    if (!this.hasMobileBase) return false;
+
+    const target = this.baseVelocityFromKeys(activeKeys);
+    const changed =
+      target.x !== this.baseVelocity.x ||
+      target.y !== this.baseVelocity.y ||
+      target.theta !== this.baseVelocity.theta;
+    if (!changed && target.x === 0 && target.y === 0 && target.theta === 0) {
+      return false;
+    }
+
+    try {
+      if (changed) {
+        await this.setBaseVelocity(target);
+      }
+      await this.readBaseVelocity();
+    } catch (error) {
+      console.warn("Failed to drive mobile base:", error);
+    }
+
+    return true;
+  }
 }
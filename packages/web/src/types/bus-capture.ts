@@ -0,0 +1,25 @@
+/**
+ * Bus capture types
+ */
+
+/**
+ * Direction of captured traffic: tx is written to the bus, rx is read from it
+ */
+export type BusCaptureDirection = "tx" | "rx";
+
+/**
+ * Single captured chunk of serial traffic
+ */
+export interface BusCaptureEntry {
+  time: number; // Milliseconds since the capture started
+  direction: BusCaptureDirection;
+  data: Uint8Array;
+}
+
+/**
+ * Options for ReplayPort
+ */
+export interface ReplayPortOptions {
+  // Throw when a write differs from the captured one (default: false)
+  strict?: boolean;
+}
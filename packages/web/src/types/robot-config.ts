@@ -3,6 +3,9 @@
  * Used across calibration, teleoperation, and other robot operations
  */
 
+import type { MotorBus, MotorBusType } from "./motor-bus.js";
+import type { MotorCommunicationPort } from "../utils/motor-communication.js";
+
 /**
  * Keyboard control mapping for teleoperation
  */
@@ -12,6 +15,87 @@ export interface KeyboardControl {
   description: string;
 }
 
+/**
+ * How raw motor positions map to normalized values
+ * Follows the Python lerobot MotorNormMode values
+ */
+export type MotorNormMode = "range_m100_100" | "range_0_100" | "degrees";
+
+/**
+ * Calibration hooks of a robot type
+ * Called by calibrate() to apply robot-specific rules to the recorded data
+ */
+export interface RobotCalibrationHooks {
+  /**
+   * Configure the motors before homing, e.g. operating or drive modes
+   */
+  prepare?(port: MotorCommunicationPort, motorBus: MotorBus): Promise<void>;
+
+  /**
+   * Adjust recorded ranges of motion before they are written to the motors
+   */
+  adjustRanges?(
+    rangeMins: { [motor: string]: number },
+    rangeMaxes: { [motor: string]: number },
+    protocol: RobotHardwareConfig["protocol"]
+  ): void;
+}
+
+/**
+ * Omniwheel mobile base driven by servos in velocity mode
+ * Follows the Python lerobot LeKiwi base
+ */
+export interface MobileBaseConfig {
+  wheelNames: string[];
+  wheelIds: number[];
+  wheelAngles: number[]; // Wheel angles in degrees, Python lerobot layout (back wheel at 0)
+  wheelRadius: number; // Meters
+  baseRadius: number; // Distance from the base center to each wheel in meters
+  maxWheelSpeed: number; // Raw Goal_Speed limit, faster commands are scaled down
+}
+
+/**
+ * Body velocity of a mobile base
+ * x is forward and y left in m/s, theta counterclockwise in deg/s
+ */
+export interface BaseVelocity {
+  x: number;
+  y: number;
+  theta: number;
+}
+
+/**
+ * Revolute joint of a serial arm, URDF style
+ */
+export interface KinematicJoint {
+  motor: string; // Motor driving the joint
+  origin: [number, number, number]; // Joint position in the frame of the previous joint, meters
+  axis: [number, number, number]; // Rotation axis, positive angles turn counterclockwise around it
+}
+
+/**
+ * Kinematic chain of an arm, from the base to the end-effector
+ * Joint angles are measured from the middle of the calibrated motor range
+ */
+export interface ArmKinematicsConfig {
+  joints: KinematicJoint[];
+  tool: [number, number, number]; // End-effector point in the frame of the last joint, meters
+}
+
+/**
+ * End-effector pose in the base frame
+ * x is forward, y left and z up in meters, angles in degrees (yaw, pitch, roll
+ * Euler angles, positive pitch tilts the end-effector down)
+ */
+export interface EndEffectorPose {
+  x: number;
+  y: number;
+  z: number;
+  roll: number;
+  pitch: number;
+  yaw: number;
+}
+
 /**
  * Robot hardware configuration interface
  * Defines the contract that all robot configurations must implement
@@ -21,10 +105,26 @@ export interface RobotHardwareConfig {
   motorNames: string[];
   motorIds: number[];
   driveModes: number[];
+  normModes: MotorNormMode[];
+
+  // Servo protocol of the MotorsBus (default: feetech)
+  motorBus?: MotorBusType;
+
+  // Position range of each motor before calibration (default: full range)
+  defaultLimits?: { min: number; max: number }[];
 
   // Keyboard controls for teleoperation (robot-specific)
   keyboardControls: { [key: string]: KeyboardControl };
 
+  // Robot-specific calibration rules
+  calibration?: RobotCalibrationHooks;
+
+  // Mobile base driven next to the arm motors
+  base?: MobileBaseConfig;
+
+  // Kinematic chain of the arm, enables cartesian teleoperation
+  kinematics?: ArmKinematicsConfig;
+
   protocol: {
     resolution: number;
     homingOffsetAddress: number;
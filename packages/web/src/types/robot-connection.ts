@@ -28,6 +28,24 @@ export interface SerialOptions {
   parity?: "none" | "even" | "odd";
 }
 
+/**
+ * Robot types registered by the library
+ */
+export type BuiltInRobotType =
+  | "so100_follower"
+  | "so100_leader"
+  | "so101_follower"
+  | "so101_leader"
+  | "koch_follower"
+  | "koch_leader"
+  | "lekiwi";
+
+/**
+ * Robot types accepted by robot operations
+ * Any type added with registerRobot() is valid, built-in types keep autocompletion
+ */
+export type RobotType = BuiltInRobotType | (string & Record<never, never>);
+
 /**
  * Unified robot connection interface used across all functions
  * This same object works for findPort, calibrate, teleoperate, etc.
@@ -37,7 +55,7 @@ export interface RobotConnection {
   port: SerialPort;
   name: string; // Display name for UI
   isConnected: boolean; // Connection status
-  robotType?: "so100_follower" | "so100_leader"; // Optional until user configures
+  robotType?: RobotType; // Optional until user configures
   robotId?: string; // Optional until user configures
   serialNumber: string; // Always required for identification
   error?: string; // Error message if connection failed
@@ -57,11 +75,27 @@ export interface RobotConnection {
   };
 }
 
+/**
+ * Robot types made of two arms
+ */
+export type BimanualRobotType = "bi_so100_follower";
+
+/**
+ * Two arm connections driven as one robot
+ * Each arm is a regular robot of the arm type of the bimanual robot type
+ */
+export interface BimanualRobotConnection {
+  robotType: BimanualRobotType;
+  robotId?: string;
+  left: RobotConnection;
+  right: RobotConnection;
+}
+
 /**
  * Minimal robot config for finding/connecting to specific robots
  */
 export interface RobotConfig {
-  robotType: "so100_follower" | "so100_leader";
+  robotType: RobotType;
   robotId: string;
   serialNumber: string;
 }
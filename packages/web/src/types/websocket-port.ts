@@ -0,0 +1,28 @@
+/**
+ * WebSocket bus bridge types
+ *
+ * Bridge protocol of `lerobot serve-bus`, one WebSocket connection per client:
+ * - binary messages from the client are written to the bus as is
+ * - binary messages from the server carry bytes received from the bus
+ * - text message {"type":"setBaudRate","baudRate":n} changes the bus speed,
+ *   answered with {"type":"baudRate","baudRate":n} or {"type":"error","message":"..."}
+ */
+
+/**
+ * Text messages exchanged next to the bus bytes
+ */
+export type BusBridgeMessage =
+  | { type: "setBaudRate"; baudRate: number }
+  | { type: "baudRate"; baudRate: number }
+  | { type: "error"; message: string };
+
+/**
+ * Options for WebSocketPortWrapper
+ */
+export interface WebSocketPortOptions {
+  // Time to wait for the connection and for baud rate changes (default: 5000)
+  timeout?: number;
+
+  // Socket factory, for custom transports and tests (default: new WebSocket(url))
+  createWebSocket?: (url: string) => WebSocket;
+}
@@ -0,0 +1,343 @@
+/**
+ * Bus Capture Utilities
+ * Record every byte written to and read from a MotorsBus with timestamps
+ */
+
+import type { MotorCommunicationPort } from "./motor-communication.js";
+import type {
+  SerialPort,
+  SerialPortInfo,
+  SerialOptions,
+} from "../types/robot-connection.js";
+import type {
+  BusCaptureDirection,
+  BusCaptureEntry,
+} from "../types/bus-capture.js";
+
+/**
+ * Binary .lrbus layout: "LRBUS", version, start time (float64 ms since epoch),
+ * then per entry direction (0 tx, 1 rx), time (float64 ms), length (uint32), data
+ * All numbers are little-endian
+ */
+const LRBUS_MAGIC = [0x4c, 0x52, 0x42, 0x55, 0x53];
+const LRBUS_VERSION = 1;
+const LRBUS_HEADER_SIZE = LRBUS_MAGIC.length + 1 + 8;
+const LRBUS_ENTRY_HEADER_SIZE = 1 + 8 + 4;
+
+function toHex(data: Uint8Array): string {
+  return Array.from(data, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+function fromHex(hex: string): Uint8Array {
+  const data = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return data;
+}
+
+/**
+ * Timestamped log of serial traffic
+ * Exported as JSONL (readable) or .lrbus (compact binary)
+ */
+export class BusCapture {
+  readonly startTime: number; // Wall clock start, ms since epoch
+  private readonly origin = performance.now();
+  private readonly capturedEntries: BusCaptureEntry[];
+
+  constructor(entries: BusCaptureEntry[] = [], startTime: number = Date.now()) {
+    this.capturedEntries = entries;
+    this.startTime = startTime;
+  }
+
+  get entries(): readonly BusCaptureEntry[] {
+    return this.capturedEntries;
+  }
+
+  /**
+   * Append a chunk of traffic, empty chunks are ignored
+   */
+  record(direction: BusCaptureDirection, data: ArrayLike<number>): void {
+    if (data.length === 0) return;
+
+    this.capturedEntries.push({
+      time: performance.now() - this.origin,
+      direction,
+      data: new Uint8Array(Array.from(data)),
+    });
+  }
+
+  /**
+   * One JSON object per line, preceded by a header line
+   */
+  toJSONL(): string {
+    const lines = [
+      JSON.stringify({
+        format: "lrbus",
+        version: LRBUS_VERSION,
+        startTime: this.startTime,
+      }),
+      ...this.capturedEntries.map((entry) =>
+        JSON.stringify({
+          time: Math.round(entry.time * 1000) / 1000,
+          direction: entry.direction,
+          data: toHex(entry.data),
+        })
+      ),
+    ];
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Parse a capture written by toJSONL
+   */
+  static fromJSONL(text: string): BusCapture {
+    const lines = text.split("\n").filter((line) => line.trim() !== "");
+    const header = JSON.parse(lines[0] ?? "{}");
+    if (header.format !== "lrbus") {
+      throw new Error("Not a bus capture: missing lrbus header line");
+    }
+
+    const entries = lines.slice(1).map((line) => {
+      const { time, direction, data } = JSON.parse(line);
+      return { time, direction, data: fromHex(data) } as BusCaptureEntry;
+    });
+    return new BusCapture(entries, header.startTime);
+  }
+
+  /**
+   * Compact binary .lrbus encoding
+   */
+  toBinary(): Uint8Array {
+    const size = this.capturedEntries.reduce(
+      (total, entry) => total + LRBUS_ENTRY_HEADER_SIZE + entry.data.length,
+      LRBUS_HEADER_SIZE
+    );
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+
+    bytes.set(LRBUS_MAGIC, 0);
+    bytes[LRBUS_MAGIC.length] = LRBUS_VERSION;
+    view.setFloat64(LRBUS_MAGIC.length + 1, this.startTime, true);
+
+    let offset = LRBUS_HEADER_SIZE;
+    for (const entry of this.capturedEntries) {
+      bytes[offset] = entry.direction === "tx" ? 0 : 1;
+      view.setFloat64(offset + 1, entry.time, true);
+      view.setUint32(offset + 9, entry.data.length, true);
+      bytes.set(entry.data, offset + LRBUS_ENTRY_HEADER_SIZE);
+      offset += LRBUS_ENTRY_HEADER_SIZE + entry.data.length;
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Parse a capture written by toBinary
+   */
+  static fromBinary(bytes: Uint8Array): BusCapture {
+    if (
+      bytes.length < LRBUS_HEADER_SIZE ||
+      LRBUS_MAGIC.some((byte, i) => bytes[i] !== byte)
+    ) {
+      throw new Error("Not a bus capture: missing LRBUS header");
+    }
+    if (bytes[LRBUS_MAGIC.length] !== LRBUS_VERSION) {
+      throw new Error(
+        `Unsupported .lrbus version ${bytes[LRBUS_MAGIC.length]}`
+      );
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+    const startTime = view.getFloat64(LRBUS_MAGIC.length + 1, true);
+    const entries: BusCaptureEntry[] = [];
+
+    let offset = LRBUS_HEADER_SIZE;
+    while (offset + LRBUS_ENTRY_HEADER_SIZE <= bytes.length) {
+      const length = view.getUint32(offset + 9, true);
+      const start = offset + LRBUS_ENTRY_HEADER_SIZE;
+      if (start + length > bytes.length) {
+        throw new Error("Truncated .lrbus capture");
+      }
+
+      entries.push({
+        direction: bytes[offset] === 0 ? "tx" : "rx",
+        time: view.getFloat64(offset + 1, true),
+        data: bytes.slice(start, start + length),
+      });
+      offset = start + length;
+    }
+
+    return new BusCapture(entries, startTime);
+  }
+
+  /**
+   * Download the capture, as JSONL for .jsonl names and .lrbus otherwise
+   */
+  download(filename: string = "bus-capture.lrbus"): void {
+    const isJSONL = filename.endsWith(".jsonl");
+    const blob = new Blob([isJSONL ? this.toJSONL() : this.toBinary()], {
+      type: isJSONL ? "application/x-ndjson" : "application/octet-stream",
+    });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+
+    // Clean up
+    setTimeout(() => {
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    }, 100);
+  }
+}
+
+/**
+ * Port wrapper that records all traffic into a BusCapture
+ */
+export class CapturingPort implements MotorCommunicationPort {
+  readonly capture: BusCapture;
+  private readonly target: MotorCommunicationPort;
+
+  constructor(
+    port: MotorCommunicationPort,
+    capture: BusCapture = new BusCapture()
+  ) {
+    this.target = port;
+    this.capture = capture;
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    this.capture.record("tx", data);
+    await this.target.write(data);
+  }
+
+  async read(timeout?: number): Promise<Uint8Array> {
+    const data = await this.target.read(timeout);
+    this.capture.record("rx", data);
+    return data;
+  }
+
+  async setBaudRate(baudRate: number): Promise<void> {
+    if (!this.target.setBaudRate) {
+      throw new Error("Wrapped port does not support changing the baud rate");
+    }
+    await this.target.setBaudRate(baudRate);
+  }
+}
+
+/**
+ * Web Serial port that records all traffic into a BusCapture
+ * Use it as RobotConnection.port to capture calibrate() or teleoperate()
+ */
+export class CapturingSerialPort implements SerialPort {
+  readonly capture: BusCapture;
+  private readonly target: SerialPort;
+  // Tapped streams with the port streams they wrap
+  private tappedReadable: {
+    source: ReadableStream;
+    stream: ReadableStream;
+  } | null = null;
+  private tappedWritable: {
+    sink: WritableStream;
+    stream: WritableStream;
+  } | null = null;
+  private pendingRead: Promise<void> | null = null;
+  private sourceReader: ReadableStreamDefaultReader | null = null;
+
+  constructor(port: SerialPort, capture: BusCapture = new BusCapture()) {
+    this.target = port;
+    this.capture = capture;
+  }
+
+  get readable(): ReadableStream {
+    const source = this.target.readable;
+    if (!source) return source;
+
+    // The port creates new streams every time it is reopened
+    if (this.tappedReadable?.source !== source) {
+      this.tappedReadable = {
+        source,
+        stream: new ReadableStream<Uint8Array>(
+          {
+            pull: (controller) => {
+              this.pendingRead = this.pullChunk(source, controller);
+              return this.pendingRead;
+            },
+            cancel: async () => {
+              await this.sourceReader?.cancel().catch(() => {});
+            },
+          },
+          { highWaterMark: 0 } // Only read the port while a reader is waiting
+        ),
+      };
+    }
+    return this.tappedReadable.stream;
+  }
+
+  get writable(): WritableStream {
+    const sink = this.target.writable;
+    if (!sink) return sink;
+
+    if (this.tappedWritable?.sink !== sink) {
+      this.tappedWritable = {
+        sink,
+        stream: new WritableStream<Uint8Array>({
+          write: async (chunk) => {
+            this.capture.record("tx", chunk);
+            const writer = sink.getWriter();
+            try {
+              await writer.write(chunk);
+            } finally {
+              writer.releaseLock();
+            }
+          },
+        }),
+      };
+    }
+    return this.tappedWritable.stream;
+  }
+
+  getInfo(): SerialPortInfo {
+    return this.target.getInfo();
+  }
+
+  async open(options: SerialOptions): Promise<void> {
+    await this.target.open(options);
+  }
+
+  async close(): Promise<void> {
+    // A read in progress keeps the port locked
+    if (this.sourceReader) {
+      await this.sourceReader.cancel().catch(() => {});
+      await this.pendingRead?.catch(() => {});
+    }
+    await this.target.close();
+  }
+
+  private async pullChunk(
+    source: ReadableStream,
+    controller: ReadableStreamDefaultController<Uint8Array>
+  ): Promise<void> {
+    const reader = source.getReader();
+    this.sourceReader = reader;
+
+    try {
+      const { value, done } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      this.capture.record("rx", value);
+      controller.enqueue(value);
+    } finally {
+      reader.releaseLock();
+      this.sourceReader = null;
+    }
+  }
+}
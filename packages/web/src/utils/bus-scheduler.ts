@@ -0,0 +1,313 @@
+/**
+ * Bus Scheduler
+ * Serialized, prioritized access to a MotorsBus shared by several callers
+ */
+
+import type { MotorCommunicationPort } from "./motor-communication.js";
+import { FEETECH_MOTOR_BUS, setTorqueEnabled } from "./motor-bus.js";
+import type { MotorBus } from "../types/motor-bus.js";
+import type { SafetyFilter } from "./safety-filter.js";
+
+/**
+ * Transaction priority, highest first:
+ * emergency (e-stop, torque off), write (goals, registers), read (telemetry)
+ */
+export type BusPriority = "emergency" | "write" | "read";
+
+const PRIORITY_ORDER: BusPriority[] = ["emergency", "write", "read"];
+
+function emergencyStopError(): Error {
+  return new Error(
+    "Emergency stop is active, call resetEmergencyStop() to write again"
+  );
+}
+
+interface QueuedTransaction {
+  execute: () => Promise<void>;
+  cancel: (error: unknown) => void;
+}
+
+/**
+ * Owns a port and runs one transaction at a time
+ * A transaction keeps the port until its last status packet is read, so
+ * every response is matched to the request that caused it
+ */
+export class BusScheduler {
+  readonly port: MotorCommunicationPort;
+  readonly motorBus: MotorBus;
+  private queues: { [priority in BusPriority]: QueuedTransaction[] } = {
+    emergency: [],
+    write: [],
+    read: [],
+  };
+  private busy = false;
+  private stopped = false;
+
+  // Goal positions waiting for the next sync write, keyed by motor ID
+  private pendingGoals = new Map<number, number>();
+  private goalWaiters: {
+    resolve: (written: Map<number, number>) => void;
+    reject: (e: unknown) => void;
+  }[] = [];
+
+  // Limits every goal write, held back goals are written again until reached
+  private safetyFilter: SafetyFilter | null = null;
+  private catchUpTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Motors whose goals are dropped, e.g. after a fault released their torque
+  private heldMotorIds = new Set<number>();
+
+  constructor(
+    port: MotorCommunicationPort,
+    motorBus: MotorBus = FEETECH_MOTOR_BUS
+  ) {
+    this.port = port;
+    this.motorBus = motorBus;
+  }
+
+  /**
+   * Number of transactions waiting for the port
+   */
+  get pendingTransactions(): number {
+    return PRIORITY_ORDER.reduce(
+      (total, priority) => total + this.queues[priority].length,
+      0
+    );
+  }
+
+  /**
+   * True after emergencyStop() until resetEmergencyStop()
+   */
+  get estopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Queue a transaction with exclusive access to the port
+   * Higher priorities run first, equal priorities in call order
+   * Writes are refused while the emergency stop is latched
+   */
+  run<T>(
+    priority: BusPriority,
+    transaction: (port: MotorCommunicationPort) => Promise<T>
+  ): Promise<T> {
+    if (this.stopped && priority === "write") {
+      return Promise.reject(emergencyStopError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({
+        execute: () => transaction(this.port).then(resolve, reject),
+        cancel: reject,
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * Drop all queued goals and writes and refuse new ones until
+   * resetEmergencyStop()
+   * A write already on the wire completes, reads and emergency
+   * transactions (torque off) keep running
+   */
+  emergencyStop(): void {
+    this.stopped = true;
+    this.cancelCatchUp();
+    this.safetyFilter?.reset();
+
+    const error = emergencyStopError();
+    const waiters = this.goalWaiters;
+    const writes = this.queues.write;
+    this.pendingGoals = new Map();
+    this.goalWaiters = [];
+    this.queues.write = [];
+
+    waiters.forEach((waiter) => waiter.reject(error));
+    writes.forEach((transaction) => transaction.cancel(error));
+  }
+
+  /**
+   * Accept writes again after an emergency stop
+   */
+  resetEmergencyStop(): void {
+    this.stopped = false;
+  }
+
+  /**
+   * Pass all goal writes through a safety filter, null removes it
+   */
+  setSafetyFilter(filter: SafetyFilter | null): void {
+    this.cancelCatchUp();
+    this.safetyFilter = filter;
+  }
+
+  /**
+   * Drop goal writes to these motors until they are resumed
+   * Feetech servos take torque again with any goal, so released motors have
+   * to be held to stay released
+   */
+  holdMotors(motorIds: number[]): void {
+    motorIds.forEach((id) => this.heldMotorIds.add(id));
+  }
+
+  resumeMotors(motorIds: number[]): void {
+    motorIds.forEach((id) => this.heldMotorIds.delete(id));
+  }
+
+  /**
+   * IDs of the motors whose goals are dropped
+   */
+  get heldMotors(): number[] {
+    return Array.from(this.heldMotorIds);
+  }
+
+  /**
+   * Queue goal positions for one sync write
+   * A newer goal for a motor replaces one that was not sent yet
+   * With a safety filter the promise resolves after the first limited write
+   * Resolves with the goals actually written, keyed by motor ID, held motors
+   * are left out
+   */
+  writeGoalPositions(
+    motorIds: number[],
+    positions: number[]
+  ): Promise<Map<number, number>> {
+    if (this.stopped) {
+      return Promise.reject(emergencyStopError());
+    }
+    if (motorIds.length !== positions.length) {
+      return Promise.reject(
+        new Error(
+          `Goal write needs one position per motor (got ${positions.length} positions for ${motorIds.length} motors)`
+        )
+      );
+    }
+
+    const queued = this.pendingGoals.size > 0 || this.goalWaiters.length > 0;
+    motorIds.forEach((id, i) => this.pendingGoals.set(id, positions[i]));
+
+    return new Promise<Map<number, number>>((resolve, reject) => {
+      this.goalWaiters.push({ resolve, reject });
+      if (queued) return;
+
+      this.queues.write.push({
+        execute: async () => {
+          const goals = this.pendingGoals;
+          const waiters = this.goalWaiters;
+          this.pendingGoals = new Map();
+          this.goalWaiters = [];
+          this.heldMotorIds.forEach((id) => goals.delete(id));
+          if (goals.size === 0) {
+            waiters.forEach((waiter) => waiter.resolve(new Map()));
+            return;
+          }
+
+          try {
+            const ids = Array.from(goals.keys());
+            const requested = Array.from(goals.values());
+            const positions = this.safetyFilter
+              ? this.safetyFilter.filter(ids, requested)
+              : requested;
+            await this.motorBus.syncWriteRegister(
+              this.port,
+              ids,
+              "Goal_Position",
+              positions
+            );
+            const written = new Map(
+              ids.map((id, i): [number, number] => [id, positions[i]])
+            );
+            waiters.forEach((waiter) => waiter.resolve(written));
+          } catch (error) {
+            waiters.forEach((waiter) => waiter.reject(error));
+          }
+          this.scheduleCatchUp();
+        },
+        // Its goals and waiters are flushed by emergencyStop()
+        cancel: () => {},
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * Disable torque ahead of every queued write and read
+   */
+  releaseMotors(motorIds: number[]): Promise<void> {
+    this.cancelCatchUp();
+    this.safetyFilter?.reset();
+    return this.run("emergency", (port) =>
+      setTorqueEnabled(this.motorBus, port, motorIds, false)
+    );
+  }
+
+  /**
+   * Disable torque of one motor ahead of every queued write and read
+   */
+  releaseMotor(motorId: number): Promise<void> {
+    return this.releaseMotors([motorId]);
+  }
+
+  /**
+   * Write the goals the safety filter held back once more after a cycle
+   */
+  private scheduleCatchUp(): void {
+    const filter = this.safetyFilter;
+    if (
+      !filter ||
+      this.stopped ||
+      this.catchUpTimer ||
+      filter.pendingGoals.size === 0
+    ) {
+      return;
+    }
+
+    this.catchUpTimer = setTimeout(() => {
+      this.catchUpTimer = null;
+      const pending = filter.pendingGoals;
+      if (filter !== this.safetyFilter || pending.size === 0) return;
+
+      this.writeGoalPositions(
+        Array.from(pending.keys()),
+        Array.from(pending.values())
+      ).catch((error) => {
+        console.warn("Failed to continue limited motion:", error);
+      });
+    }, 1000 / filter.updateRate);
+  }
+
+  private cancelCatchUp(): void {
+    if (this.catchUpTimer) {
+      clearTimeout(this.catchUpTimer);
+      this.catchUpTimer = null;
+    }
+  }
+
+  private async pump(): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+
+    try {
+      let next = this.dequeue();
+      while (next) {
+        // A transaction that throws synchronously must not stall the queue
+        try {
+          await next.execute();
+        } catch (error) {
+          next.cancel(error);
+        }
+        next = this.dequeue();
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private dequeue(): QueuedTransaction | undefined {
+    for (const priority of PRIORITY_ORDER) {
+      const transaction = this.queues[priority].shift();
+      if (transaction) return transaction;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Cartesian Control
+ * Moves the end-effector of an arm along x/y/z and pitch/roll,
+ * inverse kinematics turns every step into joint positions
+ */
+
+import {
+  forwardKinematics,
+  inverseKinematics,
+  jointAnglesFromMotorConfigs,
+  jointLimitsFromMotorConfigs,
+  motorPositionsFromJointAngles,
+} from "./arm-kinematics.js";
+import type {
+  ArmKinematicsConfig,
+  EndEffectorPose,
+  KeyboardControl,
+} from "../types/robot-config.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+/**
+ * Controls of the end-effector, used in place of motor names by keyboard
+ * and gamepad mappings
+ */
+export const CARTESIAN_AXES = ["x", "y", "z", "pitch", "roll"] as const;
+
+/**
+ * Keyboard controls for cartesian teleoperation
+ * Directions follow the base frame: x forward, y left, z up
+ */
+export const CARTESIAN_KEYBOARD_CONTROLS: {
+  [key: string]: KeyboardControl;
+} = {
+  ArrowUp: { motor: "x", direction: 1, description: "Forward" },
+  ArrowDown: { motor: "x", direction: -1, description: "Backward" },
+  ArrowLeft: { motor: "y", direction: 1, description: "Left" },
+  ArrowRight: { motor: "y", direction: -1, description: "Right" },
+  w: { motor: "z", direction: 1, description: "Up" },
+  s: { motor: "z", direction: -1, description: "Down" },
+  a: { motor: "pitch", direction: 1, description: "Tilt down" },
+  d: { motor: "pitch", direction: -1, description: "Tilt up" },
+  q: { motor: "roll", direction: -1, description: "Roll left" },
+  e: { motor: "roll", direction: 1, description: "Roll right" },
+  o: { motor: "gripper", direction: 1, description: "Gripper open" },
+  c: { motor: "gripper", direction: -1, description: "Gripper close" },
+  Escape: {
+    motor: "emergency_stop",
+    direction: 0,
+    description: "Emergency stop",
+  },
+};
+
+function isCartesianAxis(name: string): boolean {
+  return (CARTESIAN_AXES as readonly string[]).includes(name);
+}
+
+/**
+ * Turns end-effector velocities into motor target positions
+ * Reads and never writes the motor configs, teleoperators update them after
+ * writing the targets
+ */
+export class CartesianController {
+  private readonly kinematics: ArmKinematicsConfig;
+  private readonly motorConfigs: MotorConfig[];
+  private readonly linearSpeed: number;
+  private readonly angularSpeed: number;
+  private target: EndEffectorPose | null = null;
+
+  /**
+   * @param linearSpeed End-effector speed at full input in m/s
+   * @param angularSpeed Pitch and roll speed at full input in deg/s
+   */
+  constructor(
+    kinematics: ArmKinematicsConfig,
+    motorConfigs: MotorConfig[],
+    linearSpeed: number,
+    angularSpeed: number
+  ) {
+    this.kinematics = kinematics;
+    this.motorConfigs = motorConfigs;
+    this.linearSpeed = linearSpeed;
+    this.angularSpeed = angularSpeed;
+
+    // Fail early on robots without the motors of the chain
+    jointAnglesFromMotorConfigs(kinematics, motorConfigs);
+  }
+
+  /**
+   * End-effector pose of the current motor positions
+   */
+  getPose(): EndEffectorPose {
+    return forwardKinematics(
+      this.kinematics,
+      jointAnglesFromMotorConfigs(this.kinematics, this.motorConfigs)
+    );
+  }
+
+  /**
+   * Motor target positions after one control cycle
+   * Targets inverse kinematics cannot reach within the joint limits are
+   * dropped, so the end-effector stops at the edge of the workspace
+   * @param velocities From -1 to 1 per cartesian axis, other names move that
+   * motor directly (e.g. the gripper)
+   * @param jointSpeed Speed of directly moved motors in position units per second
+   * @param dt Cycle time in seconds
+   */
+  targetPositions(
+    velocities: { [name: string]: number },
+    jointSpeed: number,
+    dt: number
+  ): { [motorName: string]: number } {
+    const targets: { [motorName: string]: number } = {};
+
+    if (CARTESIAN_AXES.every((axis) => !velocities[axis])) {
+      // The next motion starts from the pose the arm is in by then
+      this.target = null;
+    } else {
+      const angles = jointAnglesFromMotorConfigs(
+        this.kinematics,
+        this.motorConfigs
+      );
+      const start = this.target ?? forwardKinematics(this.kinematics, angles);
+      const linear = this.linearSpeed * dt;
+      const angular = this.angularSpeed * dt;
+      const target: EndEffectorPose = {
+        ...start,
+        x: start.x + (velocities.x ?? 0) * linear,
+        y: start.y + (velocities.y ?? 0) * linear,
+        z: start.z + (velocities.z ?? 0) * linear,
+        // Pitch beyond straight down or up flips the Euler angles
+        pitch: Math.max(
+          -90,
+          Math.min(90, start.pitch + (velocities.pitch ?? 0) * angular)
+        ),
+        roll: start.roll + (velocities.roll ?? 0) * angular,
+      };
+
+      const solution = inverseKinematics(this.kinematics, target, angles, {
+        jointLimits: jointLimitsFromMotorConfigs(
+          this.kinematics,
+          this.motorConfigs
+        ),
+      });
+
+      if (solution.converged) {
+        this.target = target;
+        Object.assign(
+          targets,
+          motorPositionsFromJointAngles(
+            this.kinematics,
+            this.motorConfigs,
+            solution.jointAngles
+          )
+        );
+      } else {
+        this.target = start;
+      }
+    }
+
+    for (const [name, velocity] of Object.entries(velocities)) {
+      if (!velocity || isCartesianAxis(name)) continue;
+
+      const motorConfig = this.motorConfigs.find((m) => m.name === name);
+      if (!motorConfig) continue;
+
+      targets[name] = Math.max(
+        motorConfig.minPosition,
+        Math.min(
+          motorConfig.maxPosition,
+          motorConfig.currentPosition + velocity * jointSpeed * dt
+        )
+      );
+    }
+
+    return targets;
+  }
+}
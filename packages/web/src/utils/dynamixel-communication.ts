@@ -0,0 +1,364 @@
+/**
+ * Dynamixel Communication Utilities
+ * Dynamixel Protocol 2.0 reading and writing operations
+ */
+
+import { DYNAMIXEL_PROTOCOL } from "./dynamixel-protocol.js";
+import {
+  createDynamixelPacket,
+  DynamixelPacketParser,
+  toStatusPacket,
+} from "./dynamixel-packet.js";
+import {
+  DYNAMIXEL_CONTROL_TABLE,
+  decodeDynamixelValue,
+  encodeDynamixelValue,
+  getDynamixelRegister,
+  type DynamixelRegister,
+} from "./dynamixel-control-table.js";
+import {
+  DynamixelStatusError,
+  MotorPacketError,
+  MotorTimeoutError,
+  type MotorCommunicationError,
+} from "./motor-errors.js";
+import type { MotorCommunicationPort } from "./motor-communication.js";
+import type { StatusPacket } from "./sts3215-packet.js";
+import type { MotorBus } from "../types/motor-bus.js";
+
+/**
+ * Split a 16-bit value into little-endian bytes
+ */
+function word(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+/**
+ * Clear any stale bytes waiting in the port before a new request
+ */
+async function flushPort(port: MotorCommunicationPort): Promise<void> {
+  try {
+    await port.read(0); // Non-blocking read to clear buffer
+  } catch {
+    // Expected - buffer was empty
+  }
+}
+
+/**
+ * Read from the port until every expected motor answered or the timeout expires
+ * Passing null for expectedIds collects every answer until the timeout expires
+ * Resolves with the status packets received so far, keyed by motor ID
+ */
+async function receiveStatusPackets(
+  port: MotorCommunicationPort,
+  expectedIds: number[] | null,
+  timeout: number
+): Promise<Map<number, StatusPacket>> {
+  const parser = new DynamixelPacketParser();
+  const packets = new Map<number, StatusPacket>();
+  const deadline = Date.now() + timeout;
+
+  while (expectedIds === null || !expectedIds.every((id) => packets.has(id))) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+
+    try {
+      const chunk = await port.read(remaining);
+      for (const packet of parser.push(chunk)) {
+        const status = toStatusPacket(packet);
+        if (
+          status &&
+          (expectedIds === null || expectedIds.includes(status.id))
+        ) {
+          packets.set(status.id, status);
+        }
+      }
+    } catch {
+      break;
+    }
+  }
+
+  return packets;
+}
+
+/**
+ * Send a packet and collect the status packets of the given motors
+ */
+async function sendAndReceive(
+  port: MotorCommunicationPort,
+  packet: Uint8Array,
+  expectedIds: number[] | null,
+  timeout: number
+): Promise<Map<number, StatusPacket>> {
+  await flushPort(port);
+  await port.write(packet);
+
+  // Wait for motor response
+  await new Promise((resolve) =>
+    setTimeout(resolve, DYNAMIXEL_PROTOCOL.WRITE_TO_READ_DELAY)
+  );
+
+  return receiveStatusPackets(port, expectedIds, timeout);
+}
+
+/**
+ * Send an instruction and wait for the status packet of the addressed motor
+ * @throws DynamixelStatusError if the motor reports an error,
+ * MotorTimeoutError if it does not answer
+ */
+async function transact(
+  port: MotorCommunicationPort,
+  motorId: number,
+  packet: Uint8Array,
+  timeout: number
+): Promise<StatusPacket> {
+  const status = (await sendAndReceive(port, packet, [motorId], timeout)).get(
+    motorId
+  );
+
+  if (!status) {
+    throw new MotorTimeoutError(`No response from motor ${motorId}`, [motorId]);
+  }
+  if (status.error !== 0) {
+    throw new DynamixelStatusError(motorId, status.error);
+  }
+
+  return status;
+}
+
+/**
+ * Check whether a Dynamixel motor answers on the bus
+ * Single attempt with a short timeout, suitable for scanning many IDs
+ */
+export async function pingDynamixel(
+  port: MotorCommunicationPort,
+  motorId: number,
+  timeout: number = DYNAMIXEL_PROTOCOL.PING_TIMEOUT
+): Promise<boolean> {
+  const packet = createDynamixelPacket(
+    motorId,
+    DYNAMIXEL_PROTOCOL.PING_INSTRUCTION
+  );
+
+  try {
+    await transact(port, motorId, packet, timeout);
+    return true;
+  } catch (error) {
+    // A motor reporting an error is still present on the bus
+    return error instanceof DynamixelStatusError;
+  }
+}
+
+/**
+ * Read a named control table register from a single Dynamixel motor
+ * Retries on timeouts and short answers
+ * @throws MotorCommunicationError subclasses describing why the read failed
+ */
+export async function readDynamixelRegister(
+  port: MotorCommunicationPort,
+  motorId: number,
+  register: DynamixelRegister
+): Promise<number> {
+  const { address, size } = getDynamixelRegister(register);
+  const packet = createDynamixelPacket(
+    motorId,
+    DYNAMIXEL_PROTOCOL.READ_INSTRUCTION,
+    [...word(address), ...word(size)]
+  );
+
+  let lastError: MotorCommunicationError | null = null;
+
+  for (let attempt = 1; attempt <= DYNAMIXEL_PROTOCOL.MAX_RETRIES; attempt++) {
+    try {
+      const status = await transact(port, motorId, packet, 150);
+      if (status.parameters.length >= size) {
+        return decodeDynamixelValue(register, status.parameters);
+      }
+      lastError = new MotorPacketError(
+        `Motor ${motorId} returned ${status.parameters.length} bytes, expected ${size}`,
+        [motorId]
+      );
+    } catch (error) {
+      if (error instanceof DynamixelStatusError) throw error;
+      lastError = error as MotorCommunicationError;
+    }
+
+    // Wait between retry attempts
+    if (attempt < DYNAMIXEL_PROTOCOL.MAX_RETRIES) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, DYNAMIXEL_PROTOCOL.RETRY_DELAY)
+      );
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Write a named control table register on a single Dynamixel motor
+ * EEPROM registers can only be written while torque is disabled
+ * @throws Error for read-only registers, MotorCommunicationError subclasses
+ * if the motor does not acknowledge the write
+ */
+export async function writeDynamixelRegister(
+  port: MotorCommunicationPort,
+  motorId: number,
+  register: DynamixelRegister,
+  value: number
+): Promise<void> {
+  const { address, access } = getDynamixelRegister(register);
+  if (access !== "RW") {
+    throw new Error(`Register ${register} is read-only`);
+  }
+
+  const packet = createDynamixelPacket(
+    motorId,
+    DYNAMIXEL_PROTOCOL.WRITE_INSTRUCTION,
+    [...word(address), ...encodeDynamixelValue(register, value)]
+  );
+
+  // Broadcast writes are never answered
+  if (motorId === DYNAMIXEL_PROTOCOL.BROADCAST_ID) {
+    await port.write(packet);
+    return;
+  }
+
+  await transact(port, motorId, packet, 200);
+}
+
+/**
+ * Read a named register from several motors with a single SYNC_READ transaction
+ * Returns values in the same order as motorIds
+ * @throws DynamixelStatusError if a motor reports an error, MotorTimeoutError
+ * listing the motors that did not answer
+ */
+export async function syncReadDynamixelRegister(
+  port: MotorCommunicationPort,
+  motorIds: number[],
+  register: DynamixelRegister
+): Promise<number[]> {
+  const { address, size } = getDynamixelRegister(register);
+  const values = new Map<number, number>();
+
+  for (let attempt = 1; attempt <= DYNAMIXEL_PROTOCOL.MAX_RETRIES; attempt++) {
+    // Only ask again for motors that have not answered yet
+    const pendingIds = motorIds.filter((id) => !values.has(id));
+    if (pendingIds.length === 0) break;
+
+    const packet = createDynamixelPacket(
+      DYNAMIXEL_PROTOCOL.BROADCAST_ID,
+      DYNAMIXEL_PROTOCOL.SYNC_READ_INSTRUCTION,
+      [...word(address), ...word(size), ...pendingIds]
+    );
+    const packets = await sendAndReceive(port, packet, pendingIds, 150);
+
+    for (const [id, status] of packets) {
+      if (status.error !== 0) {
+        throw new DynamixelStatusError(id, status.error);
+      }
+      if (status.parameters.length >= size) {
+        values.set(id, decodeDynamixelValue(register, status.parameters));
+      }
+    }
+
+    // Wait between retry attempts
+    if (
+      values.size < motorIds.length &&
+      attempt < DYNAMIXEL_PROTOCOL.MAX_RETRIES
+    ) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, DYNAMIXEL_PROTOCOL.RETRY_DELAY)
+      );
+    }
+  }
+
+  const results: number[] = [];
+  const missingIds: number[] = [];
+  for (const id of motorIds) {
+    const value = values.get(id);
+    if (value === undefined) {
+      missingIds.push(id);
+    } else {
+      results.push(value);
+    }
+  }
+  if (missingIds.length > 0) {
+    throw new MotorTimeoutError(
+      `Sync read failed: no response from motor(s) ${missingIds.join(", ")}`,
+      missingIds
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Write a named register on several motors with a single SYNC_WRITE transaction
+ * Motors do not answer sync writes, so this only sends the packet
+ */
+export async function syncWriteDynamixelRegister(
+  port: MotorCommunicationPort,
+  motorIds: number[],
+  register: DynamixelRegister,
+  values: number[]
+): Promise<void> {
+  if (motorIds.length !== values.length) {
+    throw new Error(
+      `Sync write needs one value per motor (got ${values.length} values for ${motorIds.length} motors)`
+    );
+  }
+  if (motorIds.length === 0) return;
+
+  const { address, size, access } = getDynamixelRegister(register);
+  if (access !== "RW") {
+    throw new Error(`Register ${register} is read-only`);
+  }
+
+  const parameters: number[] = [...word(address), ...word(size)];
+  for (let i = 0; i < motorIds.length; i++) {
+    parameters.push(motorIds[i], ...encodeDynamixelValue(register, values[i]));
+  }
+
+  await port.write(
+    createDynamixelPacket(
+      DYNAMIXEL_PROTOCOL.BROADCAST_ID,
+      DYNAMIXEL_PROTOCOL.SYNC_WRITE_INSTRUCTION,
+      parameters
+    )
+  );
+}
+
+/**
+ * Check a register name against the Dynamixel control table
+ */
+function toDynamixelRegister(register: string): DynamixelRegister {
+  if (!(register in DYNAMIXEL_CONTROL_TABLE)) {
+    throw new Error(`Unknown Dynamixel register: ${register}`);
+  }
+  return register as DynamixelRegister;
+}
+
+/**
+ * Dynamixel Protocol 2.0 MotorsBus
+ * Present_Position = actual position + Homing_Offset
+ */
+export const DYNAMIXEL_MOTOR_BUS: MotorBus = {
+  type: "dynamixel",
+  resolution: DYNAMIXEL_PROTOCOL.RESOLUTION,
+  pingMotor: pingDynamixel,
+  readRegister: (port, motorId, register) =>
+    readDynamixelRegister(port, motorId, toDynamixelRegister(register)),
+  writeRegister: (port, motorId, register, value) =>
+    writeDynamixelRegister(port, motorId, toDynamixelRegister(register), value),
+  syncReadRegister: (port, motorIds, register) =>
+    syncReadDynamixelRegister(port, motorIds, toDynamixelRegister(register)),
+  syncWriteRegister: (port, motorIds, register, values) =>
+    syncWriteDynamixelRegister(
+      port,
+      motorIds,
+      toDynamixelRegister(register),
+      values
+    ),
+  homingOffsetFor: (position) =>
+    Math.floor((DYNAMIXEL_PROTOCOL.RESOLUTION - 1) / 2) - position,
+};
@@ -0,0 +1,190 @@
+/**
+ * Motion
+ * Streams an interpolated trajectory of goal positions at the control rate,
+ * then waits until Present_Position and Moving show the motors arrived
+ */
+
+import type { BusScheduler } from "./bus-scheduler.js";
+import type {
+  MotionProfile,
+  MotionPromise,
+  MoveToOptions,
+} from "../types/motion.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+/**
+ * Default configuration values for moves
+ */
+export const MOTION_DEFAULTS = {
+  profile: "minjerk" as MotionProfile,
+  speed: 1000, // Position units per second of the longest move without a duration
+  controlRate: 50, // Goal writes per second
+  tolerance: 20, // Position units, about 1.8°
+  settleTimeout: 1000, // Milliseconds
+  trapezoidRamp: 0.25, // Share of the duration spent accelerating and braking each
+} as const;
+
+/**
+ * Share of the distance covered at a share of the duration, both 0..1
+ */
+export function profileProgress(profile: MotionProfile, t: number): number {
+  const s = Math.min(1, Math.max(0, t));
+
+  switch (profile) {
+    case "linear":
+      return s;
+    case "minjerk":
+      return s * s * s * (10 - 15 * s + 6 * s * s);
+    case "trapezoid": {
+      const ramp = MOTION_DEFAULTS.trapezoidRamp;
+      const cruiseSpeed = 1 / (1 - ramp);
+      if (s < ramp) return (cruiseSpeed * s * s) / (2 * ramp);
+      if (s <= 1 - ramp) return cruiseSpeed * (s - ramp / 2);
+      return 1 - (cruiseSpeed * (1 - s) * (1 - s)) / (2 * ramp);
+    }
+    default:
+      throw new Error(`Unknown motion profile: ${profile}`);
+  }
+}
+
+// Move options that have to be positive, with their unit
+const POSITIVE_MOVE_OPTIONS = [
+  ["duration", "milliseconds"],
+  ["controlRate", "goal writes per second"],
+  ["tolerance", "position units"],
+  ["settleTimeout", "milliseconds"],
+] as const;
+
+/**
+ * Move motors to their targets along a trajectory
+ * Goals go out through bus.writeGoalPositions(), so a safety filter and the
+ * emergency stop apply. motorConfigs follow the commanded positions,
+ * onStep runs after every write
+ * Rejects for a duration, control rate, tolerance or settle timeout that is
+ * not a positive finite number
+ */
+export function streamTrajectory(
+  bus: BusScheduler,
+  motorConfigs: MotorConfig[],
+  targets: number[],
+  options: MoveToOptions = {},
+  onStep?: () => void
+): MotionPromise {
+  const profile = options.profile ?? MOTION_DEFAULTS.profile;
+  const controlRate = options.controlRate ?? MOTION_DEFAULTS.controlRate;
+  const tolerance = options.tolerance ?? MOTION_DEFAULTS.tolerance;
+  const settleTimeout = options.settleTimeout ?? MOTION_DEFAULTS.settleTimeout;
+  const motorIds = motorConfigs.map((config) => config.id);
+
+  let cancelled = false;
+  let wake: (() => void) | null = null;
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        wake = null;
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      wake = done;
+    });
+
+  const checkCancelled = () => {
+    if (cancelled) throw new Error("Motion cancelled");
+  };
+
+  const run = async (): Promise<void> => {
+    if (motorConfigs.length !== targets.length) {
+      throw new Error(
+        `Move needs one target per motor (got ${targets.length} targets for ${motorConfigs.length} motors)`
+      );
+    }
+    for (const [option, unit] of POSITIVE_MOVE_OPTIONS) {
+      const value = options[option];
+      if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+        throw new Error(
+          `Move ${option} must be a positive number of ${unit} (got ${value})`
+        );
+      }
+    }
+
+    // Start from where the motors are, not where they were commanded
+    let start: number[];
+    try {
+      start = await bus.run("read", (port) =>
+        bus.motorBus.syncReadRegister(port, motorIds, "Present_Position")
+      );
+    } catch {
+      start = motorConfigs.map((config) => config.currentPosition);
+    }
+    checkCancelled();
+
+    const distance = Math.max(
+      0,
+      ...targets.map((target, i) => Math.abs(target - start[i]))
+    );
+    const duration =
+      options.duration ?? (distance / MOTION_DEFAULTS.speed) * 1000;
+    const startTime = Date.now();
+
+    for (;;) {
+      const t = duration > 0 ? (Date.now() - startTime) / duration : 1;
+      const progress = profileProgress(profile, t);
+      const goals = targets.map(
+        (target, i) => start[i] + (target - start[i]) * progress
+      );
+
+      await bus.writeGoalPositions(
+        motorIds,
+        goals.map((goal) => Math.round(goal))
+      );
+      motorConfigs.forEach((config, i) => {
+        config.currentPosition = goals[i];
+      });
+      onStep?.();
+
+      if (t >= 1) break;
+      await sleep(1000 / controlRate);
+      checkCancelled();
+    }
+
+    // Verify the arrival on the motors themselves
+    const deadline = Date.now() + settleTimeout;
+    for (;;) {
+      checkCancelled();
+      const { positions, moving } = await bus.run("read", async (port) => ({
+        positions: await bus.motorBus.syncReadRegister(
+          port,
+          motorIds,
+          "Present_Position"
+        ),
+        moving: await bus.motorBus
+          .syncReadRegister(port, motorIds, "Moving")
+          .catch(() => motorIds.map(() => 0)),
+      }));
+
+      const away = motorConfigs.filter(
+        (_, i) =>
+          Math.abs(positions[i] - targets[i]) > tolerance || moving[i] !== 0
+      );
+      if (away.length === 0) return;
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Motors did not reach their target within ${tolerance} units: ${away
+            .map((config) => config.name)
+            .join(", ")}`
+        );
+      }
+      await sleep(1000 / controlRate);
+    }
+  };
+
+  return Object.assign(run(), {
+    cancel: () => {
+      cancelled = true;
+      wake?.();
+    },
+  });
+}
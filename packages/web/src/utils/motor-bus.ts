@@ -0,0 +1,82 @@
+/**
+ * Motor Bus Drivers
+ * Protocol independent MotorsBus access for calibration, teleoperation and setup
+ */
+
+import { STS3215_PROTOCOL } from "./sts3215-protocol.js";
+import {
+  STS3215_CONTROL_TABLE,
+  type STS3215Register,
+} from "./sts3215-control-table.js";
+import {
+  pingMotor,
+  readRegister,
+  syncReadRegister,
+  syncWriteRegister,
+  writeRegister,
+  type MotorCommunicationPort,
+} from "./motor-communication.js";
+import { DYNAMIXEL_MOTOR_BUS } from "./dynamixel-communication.js";
+import type { MotorBus, MotorBusType } from "../types/motor-bus.js";
+import type { RobotHardwareConfig } from "../types/robot-config.js";
+
+/**
+ * Check a register name against the STS3215 control table
+ */
+function toSTS3215Register(register: string): STS3215Register {
+  if (!(register in STS3215_CONTROL_TABLE)) {
+    throw new Error(`Unknown STS3215 register: ${register}`);
+  }
+  return register as STS3215Register;
+}
+
+/**
+ * Feetech STS3215 MotorsBus
+ * Present_Position = actual position - Homing_Offset
+ */
+export const FEETECH_MOTOR_BUS: MotorBus = {
+  type: "feetech",
+  resolution: STS3215_PROTOCOL.RESOLUTION,
+  pingMotor,
+  readRegister: (port, motorId, register) =>
+    readRegister(port, motorId, toSTS3215Register(register)),
+  writeRegister: (port, motorId, register, value) =>
+    writeRegister(port, motorId, toSTS3215Register(register), value),
+  syncReadRegister: (port, motorIds, register) =>
+    syncReadRegister(port, motorIds, toSTS3215Register(register)),
+  syncWriteRegister: (port, motorIds, register, values) =>
+    syncWriteRegister(port, motorIds, toSTS3215Register(register), values),
+  homingOffsetFor: (position) =>
+    position - Math.floor((STS3215_PROTOCOL.RESOLUTION - 1) / 2),
+};
+
+const MOTOR_BUSES: { [type in MotorBusType]: MotorBus } = {
+  feetech: FEETECH_MOTOR_BUS,
+  dynamixel: DYNAMIXEL_MOTOR_BUS,
+};
+
+/**
+ * MotorsBus driver of a robot configuration (Feetech unless configured otherwise)
+ */
+export function getMotorBus(robotConfig?: RobotHardwareConfig): MotorBus {
+  return MOTOR_BUSES[robotConfig?.motorBus ?? "feetech"];
+}
+
+/**
+ * Enable or disable torque motor by motor
+ */
+export async function setTorqueEnabled(
+  motorBus: MotorBus,
+  port: MotorCommunicationPort,
+  motorIds: number[],
+  enabled: boolean
+): Promise<void> {
+  for (const motorId of motorIds) {
+    await motorBus.writeRegister(
+      port,
+      motorId,
+      "Torque_Enable",
+      enabled ? 1 : 0
+    );
+  }
+}
@@ -3,57 +3,34 @@
  * Specialized functions for motor calibration procedures
  */
 
-import { STS3215_PROTOCOL } from "./sts3215-protocol.js";
-import { encodeSignMagnitude } from "./sign-magnitude.js";
-import {
-  readAllMotorPositions,
-  writeMotorRegister,
-  type MotorCommunicationPort,
-} from "./motor-communication.js";
+import type { MotorCommunicationPort } from "./motor-communication.js";
+import { FEETECH_MOTOR_BUS } from "./motor-bus.js";
+import type { MotorBus } from "../types/motor-bus.js";
+
+/**
+ * Extract a printable reason from a caught error
+ */
+function errorReason(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
 /**
  * Reset homing offsets to 0 for all motors
  */
 export async function resetHomingOffsets(
   port: MotorCommunicationPort,
-  motorIds: number[]
+  motorIds: number[],
+  motorBus: MotorBus = FEETECH_MOTOR_BUS
 ): Promise<void> {
   for (let i = 0; i < motorIds.length; i++) {
     const motorId = motorIds[i];
 
     try {
-      const packet = new Uint8Array([
-        0xff,
-        0xff,
-        motorId,
-        0x05,
-        0x03,
-        STS3215_PROTOCOL.HOMING_OFFSET_ADDRESS,
-        0x00, // Low byte of 0
-        0x00, // High byte of 0
-        0x00, // Checksum
-      ]);
-
-      const checksum =
-        ~(
-          motorId +
-          0x05 +
-          0x03 +
-          STS3215_PROTOCOL.HOMING_OFFSET_ADDRESS +
-          0x00 +
-          0x00
-        ) & 0xff;
-      packet[8] = checksum;
-
-      await port.write(packet);
-
-      try {
-        await port.read(200);
-      } catch (error) {
-        // Silent - response not required
-      }
+      await motorBus.writeRegister(port, motorId, "Homing_Offset", 0);
     } catch (error) {
-      throw new Error(`Failed to reset homing offset for motor ${motorId}`);
+      throw new Error(
+        `Failed to reset homing offset for motor ${motorId}: ${errorReason(error)}`
+      );
     }
   }
 }
@@ -65,7 +42,8 @@ export async function writeHomingOffsetsToMotors(
   port: MotorCommunicationPort,
   motorIds: number[],
   motorNames: string[],
-  homingOffsets: { [motor: string]: number }
+  homingOffsets: { [motor: string]: number },
+  motorBus: MotorBus = FEETECH_MOTOR_BUS
 ): Promise<void> {
   for (let i = 0; i < motorIds.length; i++) {
     const motorId = motorIds[i];
@@ -73,43 +51,17 @@ export async function writeHomingOffsetsToMotors(
     const homingOffset = homingOffsets[motorName];
 
     try {
-      const encodedOffset = encodeSignMagnitude(
-        homingOffset,
-        STS3215_PROTOCOL.SIGN_MAGNITUDE_BIT
-      );
-
-      const packet = new Uint8Array([
-        0xff,
-        0xff,
+      // Homing_Offset is encoded by the bus (sign-magnitude on Feetech)
+      await motorBus.writeRegister(
+        port,
         motorId,
-        0x05,
-        0x03,
-        STS3215_PROTOCOL.HOMING_OFFSET_ADDRESS,
-        encodedOffset & 0xff,
-        (encodedOffset >> 8) & 0xff,
-        0x00,
-      ]);
-
-      const checksum =
-        ~(
-          motorId +
-          0x05 +
-          0x03 +
-          STS3215_PROTOCOL.HOMING_OFFSET_ADDRESS +
-          (encodedOffset & 0xff) +
-          ((encodedOffset >> 8) & 0xff)
-        ) & 0xff;
-      packet[8] = checksum;
-
-      await port.write(packet);
-
-      try {
-        await port.read(200);
-      } catch (error) {
-        // Silent - response not required
-      }
+        "Homing_Offset",
+        homingOffset
+      );
     } catch (error) {
-      throw new Error(`Failed to write homing offset for ${motorName}`);
+      throw new Error(
+        `Failed to write homing offset for ${motorName}: ${errorReason(error)}`
+      );
     }
   }
 }
@@ -120,26 +72,35 @@ export async function writeHomingOffsetsToMotors(
 export async function setHomingOffsets(
   port: MotorCommunicationPort,
   motorIds: number[],
-  motorNames: string[]
+  motorNames: string[],
+  motorBus: MotorBus = FEETECH_MOTOR_BUS
 ): Promise<{ [motor: string]: number }> {
   // Reset existing homing offsets to 0 first
-  await resetHomingOffsets(port, motorIds);
+  await resetHomingOffsets(port, motorIds, motorBus);
   await new Promise((resolve) => setTimeout(resolve, 100));
 
   // Read positions (which will be true physical positions)
-  const currentPositions = await readAllMotorPositions(port, motorIds);
+  const currentPositions = await motorBus.syncReadRegister(
+    port,
+    motorIds,
+    "Present_Position"
+  );
   const homingOffsets: { [motor: string]: number } = {};
 
-  const halfTurn = Math.floor((STS3215_PROTOCOL.RESOLUTION - 1) / 2);
-
   for (let i = 0; i < motorNames.length; i++) {
     const motorName = motorNames[i];
     const position = currentPositions[i];
-    homingOffsets[motorName] = position - halfTurn;
+    homingOffsets[motorName] = motorBus.homingOffsetFor(position);
   }
 
   // Write homing offsets to motors immediately
-  await writeHomingOffsetsToMotors(port, motorIds, motorNames, homingOffsets);
+  await writeHomingOffsetsToMotors(
+    port,
+    motorIds,
+    motorNames,
+    homingOffsets,
+    motorBus
+  );
 
   return homingOffsets;
 }
@@ -152,7 +113,8 @@ export async function writeHardwarePositionLimits(
   motorIds: number[],
   motorNames: string[],
   rangeMins: { [motor: string]: number },
-  rangeMaxes: { [motor: string]: number }
+  rangeMaxes: { [motor: string]: number },
+  motorBus: MotorBus = FEETECH_MOTOR_BUS
 ): Promise<void> {
   for (let i = 0; i < motorIds.length; i++) {
     const motorId = motorIds[i];
@@ -161,23 +123,22 @@ export async function writeHardwarePositionLimits(
     const maxLimit = rangeMaxes[motorName];
 
     try {
-      // Write Min_Position_Limit register
-      await writeMotorRegister(
+      await motorBus.writeRegister(
         port,
         motorId,
-        STS3215_PROTOCOL.MIN_POSITION_LIMIT_ADDRESS,
+        "Min_Position_Limit",
         minLimit
       );
-
-      // Write Max_Position_Limit register
-      await writeMotorRegister(
+      await motorBus.writeRegister(
         port,
         motorId,
-        STS3215_PROTOCOL.MAX_POSITION_LIMIT_ADDRESS,
+        "Max_Position_Limit",
         maxLimit
       );
     } catch (error) {
-      throw new Error(`Failed to write position limits for ${motorName}`);
+      throw new Error(
+        `Failed to write position limits for ${motorName}: ${errorReason(error)}`
+      );
     }
   }
 }
@@ -4,6 +4,23 @@
  */
 
 import { STS3215_PROTOCOL } from "./sts3215-protocol.js";
+import {
+  createInstructionPacket,
+  StatusPacketParser,
+  type StatusPacket,
+} from "./sts3215-packet.js";
+import {
+  MotorCommunicationError,
+  MotorPacketError,
+  MotorStatusError,
+  MotorTimeoutError,
+} from "./motor-errors.js";
+import {
+  decodeRegisterValue,
+  encodeRegisterValue,
+  getRegister,
+  type STS3215Register,
+} from "./sts3215-control-table.js";
 
 /**
  * Interface for motor communication port
@@ -12,97 +29,421 @@ import { STS3215_PROTOCOL } from "./sts3215-protocol.js";
 export interface MotorCommunicationPort {
   write(data: Uint8Array): Promise<void>;
   read(timeout?: number): Promise<Uint8Array>;
+  setBaudRate?(baudRate: number): Promise<void>; // Needed to scan or change bus speed
+}
+
+/**
+ * Clear any stale bytes waiting in the port before a new request
+ */
+async function flushPort(port: MotorCommunicationPort): Promise<void> {
+  try {
+    await port.read(0); // Non-blocking read to clear buffer
+  } catch (e) {
+    // Expected - buffer was empty
+  }
+}
+
+/**
+ * Read from the port until every expected motor answered or the timeout expires
+ * Passing null for expectedIds collects every answer until the timeout expires
+ * Resolves with the packets received so far, keyed by motor ID
+ */
+async function receiveStatusPackets(
+  port: MotorCommunicationPort,
+  expectedIds: number[] | null,
+  timeout: number
+): Promise<Map<number, StatusPacket>> {
+  const parser = new StatusPacketParser();
+  const packets = new Map<number, StatusPacket>();
+  const deadline = Date.now() + timeout;
+
+  while (
+    expectedIds === null ||
+    !expectedIds.every((id) => packets.has(id))
+  ) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+
+    try {
+      const chunk = await port.read(remaining);
+      for (const packet of parser.push(chunk)) {
+        if (expectedIds === null || expectedIds.includes(packet.id)) {
+          packets.set(packet.id, packet);
+        }
+      }
+    } catch (error) {
+      break;
+    }
+  }
+
+  return packets;
+}
+
+/**
+ * Send an instruction and wait for the status packet of the addressed motor
+ * @throws MotorStatusError if the motor reports an error, MotorTimeoutError
+ * if it does not answer
+ */
+async function transact(
+  port: MotorCommunicationPort,
+  motorId: number,
+  packet: Uint8Array,
+  timeout: number
+): Promise<StatusPacket> {
+  await flushPort(port);
+  await port.write(packet);
+
+  // Wait for motor response
+  await new Promise((resolve) =>
+    setTimeout(resolve, STS3215_PROTOCOL.WRITE_TO_READ_DELAY)
+  );
+
+  const status = (await receiveStatusPackets(port, [motorId], timeout)).get(
+    motorId
+  );
+
+  if (!status) {
+    throw new MotorTimeoutError(`No response from motor ${motorId}`, [
+      motorId,
+    ]);
+  }
+  if (status.error !== 0) {
+    throw new MotorStatusError(motorId, status.error);
+  }
+
+  return status;
+}
+
+/**
+ * Check whether a motor answers on the bus
+ * Single attempt with a short timeout, suitable for scanning many IDs
+ */
+export async function pingMotor(
+  port: MotorCommunicationPort,
+  motorId: number,
+  timeout: number = STS3215_PROTOCOL.PING_TIMEOUT
+): Promise<boolean> {
+  const packet = createInstructionPacket(
+    motorId,
+    STS3215_PROTOCOL.PING_INSTRUCTION
+  );
+
+  try {
+    await transact(port, motorId, packet, timeout);
+    return true;
+  } catch (error) {
+    // A motor reporting error flags is still present on the bus
+    return error instanceof MotorStatusError;
+  }
+}
+
+/**
+ * PING the broadcast ID and collect every motor that answers
+ * Returns the answering motor IDs in ascending order
+ */
+export async function broadcastPing(
+  port: MotorCommunicationPort,
+  timeout: number = STS3215_PROTOCOL.PING_TIMEOUT
+): Promise<number[]> {
+  const packet = createInstructionPacket(
+    STS3215_PROTOCOL.BROADCAST_ID,
+    STS3215_PROTOCOL.PING_INSTRUCTION
+  );
+
+  await flushPort(port);
+  await port.write(packet);
+
+  await new Promise((resolve) =>
+    setTimeout(resolve, STS3215_PROTOCOL.WRITE_TO_READ_DELAY)
+  );
+
+  const packets = await receiveStatusPackets(port, null, timeout);
+
+  return Array.from(packets.keys()).sort((a, b) => a - b);
+}
+
+/**
+ * Read raw register bytes from a single motor with retry logic
+ * @throws MotorStatusError if the motor reports an error, MotorTimeoutError
+ * or MotorPacketError if no valid answer arrived after all retries
+ */
+export async function readMotorData(
+  port: MotorCommunicationPort,
+  motorId: number,
+  address: number,
+  length: number
+): Promise<Uint8Array> {
+  const packet = createInstructionPacket(
+    motorId,
+    STS3215_PROTOCOL.READ_DATA_INSTRUCTION,
+    [address, length]
+  );
+
+  let lastError: MotorCommunicationError | null = null;
+  let attempts = 0;
+
+  while (attempts < STS3215_PROTOCOL.MAX_RETRIES) {
+    attempts++;
+
+    try {
+      const status = await transact(port, motorId, packet, 150);
+      if (status.parameters.length >= length) {
+        return status.parameters.slice(0, length);
+      }
+      lastError = new MotorPacketError(
+        `Motor ${motorId} returned ${status.parameters.length} bytes, expected ${length}`,
+        [motorId]
+      );
+    } catch (error) {
+      if (error instanceof MotorStatusError) throw error;
+      lastError = error as MotorCommunicationError;
+    }
+
+    // Wait between retry attempts
+    if (attempts < STS3215_PROTOCOL.MAX_RETRIES) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, STS3215_PROTOCOL.RETRY_DELAY)
+      );
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Read a named control table register from a single motor
+ * Handles 1/2-byte values and sign-magnitude registers
+ * @throws MotorCommunicationError subclasses describing why the read failed
+ */
+export async function readRegister(
+  port: MotorCommunicationPort,
+  motorId: number,
+  register: STS3215Register
+): Promise<number> {
+  const { address, size } = getRegister(register);
+  const data = await readMotorData(port, motorId, address, size);
+  return decodeRegisterValue(register, data);
+}
+
+/**
+ * Write raw bytes to a single motor and wait for its acknowledgement
+ * @throws MotorStatusError if the motor reports an error, MotorTimeoutError
+ * if it does not answer
+ */
+async function writeMotorData(
+  port: MotorCommunicationPort,
+  motorId: number,
+  address: number,
+  data: number[]
+): Promise<void> {
+  const packet = createInstructionPacket(
+    motorId,
+    STS3215_PROTOCOL.WRITE_DATA_INSTRUCTION,
+    [address, ...data]
+  );
+
+  // Broadcast writes are never answered
+  if (motorId === STS3215_PROTOCOL.BROADCAST_ID) {
+    await port.write(packet);
+    return;
+  }
+
+  await transact(port, motorId, packet, 200);
+}
+
+/**
+ * Write a named control table register on a single motor
+ * Handles 1/2-byte values and sign-magnitude registers
+ * EEPROM registers additionally require Lock=0 to persist
+ * @throws Error for read-only registers, MotorCommunicationError subclasses
+ * if the motor does not acknowledge the write
+ */
+export async function writeRegister(
+  port: MotorCommunicationPort,
+  motorId: number,
+  register: STS3215Register,
+  value: number
+): Promise<void> {
+  const { address, access } = getRegister(register);
+  if (access !== "RW") {
+    throw new Error(`Register ${register} is read-only`);
+  }
+
+  await writeMotorData(
+    port,
+    motorId,
+    address,
+    encodeRegisterValue(register, value)
+  );
 }
 
 /**
  * Read single motor position with retry logic
+ * Returns null if the motor did not answer or reported an error
  */
 export async function readMotorPosition(
   port: MotorCommunicationPort,
   motorId: number
 ): Promise<number | null> {
   try {
-    // Create Read Position packet
-    const packet = new Uint8Array([
-      0xff,
-      0xff, // Header
-      motorId, // Servo ID
-      0x04, // Length
-      0x02, // Instruction: READ_DATA
-      STS3215_PROTOCOL.PRESENT_POSITION_ADDRESS, // Present_Position register address
-      0x02, // Data length (2 bytes)
-      0x00, // Checksum placeholder
-    ]);
+    return await readRegister(port, motorId, "Present_Position");
+  } catch (error) {
+    return null;
+  }
+}
 
-    const checksum =
-      ~(
-        motorId +
-        0x04 +
-        0x02 +
-        STS3215_PROTOCOL.PRESENT_POSITION_ADDRESS +
-        0x02
-      ) & 0xff;
-    packet[7] = checksum;
-
-    // Retry communication with timeouts
-    let attempts = 0;
-
-    while (attempts < STS3215_PROTOCOL.MAX_RETRIES) {
-      attempts++;
-
-      // Clear any remaining data in buffer first
-      try {
-        await port.read(0); // Non-blocking read to clear buffer
-      } catch (e) {
-        // Expected - buffer was empty
-      }
+/**
+ * Read a named register from several motors with a single SYNC_READ transaction
+ * Returns values in the same order as motorIds
+ * @throws MotorStatusError if a motor reports an error, MotorTimeoutError
+ * listing the motors that did not answer
+ */
+export async function syncReadRegister(
+  port: MotorCommunicationPort,
+  motorIds: number[],
+  register: STS3215Register
+): Promise<number[]> {
+  const { address, size: dataLength } = getRegister(register);
+  const values = new Map<number, number>();
+  let attempts = 0;
 
-      // Write command
-      await port.write(packet);
+  while (attempts < STS3215_PROTOCOL.MAX_RETRIES) {
+    attempts++;
 
-      // Wait for motor response
-      await new Promise((resolve) =>
-        setTimeout(resolve, STS3215_PROTOCOL.WRITE_TO_READ_DELAY)
-      );
+    // Only ask again for motors that have not answered yet
+    const pendingIds = motorIds.filter((id) => !values.has(id));
+    if (pendingIds.length === 0) break;
 
-      try {
-        const response = await port.read(150);
+    const packet = createInstructionPacket(
+      STS3215_PROTOCOL.BROADCAST_ID,
+      STS3215_PROTOCOL.SYNC_READ_INSTRUCTION,
+      [address, dataLength, ...pendingIds]
+    );
 
-        if (response.length >= 7) {
-          const id = response[2];
-          const error = response[4];
+    await flushPort(port);
+    await port.write(packet);
 
-          if (id === motorId && error === 0) {
-            const position = response[5] | (response[6] << 8);
-            return position;
-          }
-        }
-      } catch (readError) {
-        // Read timeout, retry
-      }
+    await new Promise((resolve) =>
+      setTimeout(resolve, STS3215_PROTOCOL.WRITE_TO_READ_DELAY)
+    );
+
+    const packets = await receiveStatusPackets(port, pendingIds, 150);
 
-      // Wait between retry attempts
-      if (attempts < STS3215_PROTOCOL.MAX_RETRIES) {
-        await new Promise((resolve) =>
-          setTimeout(resolve, STS3215_PROTOCOL.RETRY_DELAY)
-        );
+    for (const [id, status] of packets) {
+      if (status.error !== 0) {
+        throw new MotorStatusError(id, status.error);
+      }
+      if (status.parameters.length >= dataLength) {
+        values.set(id, decodeRegisterValue(register, status.parameters));
       }
     }
 
-    // If all attempts failed, return null
-    return null;
-  } catch (error) {
-    return null;
+    // Wait between retry attempts
+    if (
+      values.size < motorIds.length &&
+      attempts < STS3215_PROTOCOL.MAX_RETRIES
+    ) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, STS3215_PROTOCOL.RETRY_DELAY)
+      );
+    }
+  }
+
+  const results: number[] = [];
+  const missingIds: number[] = [];
+  for (const id of motorIds) {
+    const value = values.get(id);
+    if (value === undefined) {
+      missingIds.push(id);
+    } else {
+      results.push(value);
+    }
+  }
+  if (missingIds.length > 0) {
+    throw new MotorTimeoutError(
+      `Sync read failed: no response from motor(s) ${missingIds.join(", ")}`,
+      missingIds
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Read the positions of several motors with a single SYNC_READ transaction
+ * Returns positions in the same order as motorIds
+ * @throws MotorStatusError if a motor reports an error, MotorTimeoutError
+ * listing the motors that did not answer
+ */
+export async function syncReadPositions(
+  port: MotorCommunicationPort,
+  motorIds: number[]
+): Promise<number[]> {
+  return syncReadRegister(port, motorIds, "Present_Position");
+}
+
+/**
+ * Write a named register on several motors with a single SYNC_WRITE transaction
+ * Motors do not answer sync writes, so this only sends the packet
+ */
+export async function syncWriteRegister(
+  port: MotorCommunicationPort,
+  motorIds: number[],
+  register: STS3215Register,
+  values: number[]
+): Promise<void> {
+  if (motorIds.length !== values.length) {
+    throw new Error(
+      `Sync write needs one value per motor (got ${values.length} values for ${motorIds.length} motors)`
+    );
+  }
+  if (motorIds.length === 0) return;
+
+  const { address, size, access } = getRegister(register);
+  if (access !== "RW") {
+    throw new Error(`Register ${register} is read-only`);
+  }
+
+  const parameters: number[] = [address, size];
+  for (let i = 0; i < motorIds.length; i++) {
+    parameters.push(motorIds[i], ...encodeRegisterValue(register, values[i]));
   }
+
+  const packet = createInstructionPacket(
+    STS3215_PROTOCOL.BROADCAST_ID,
+    STS3215_PROTOCOL.SYNC_WRITE_INSTRUCTION,
+    parameters
+  );
+
+  await port.write(packet);
+}
+
+/**
+ * Write goal positions to several motors with a single SYNC_WRITE transaction
+ * Motors do not answer sync writes, so this only sends the packet
+ */
+export async function syncWritePositions(
+  port: MotorCommunicationPort,
+  motorIds: number[],
+  positions: number[]
+): Promise<void> {
+  await syncWriteRegister(port, motorIds, "Goal_Position", positions);
 }
 
 /**
  * Read all motor positions
+ * Uses one sync read for the whole bus and falls back to individual reads
  */
 export async function readAllMotorPositions(
   port: MotorCommunicationPort,
   motorIds: number[]
 ): Promise<number[]> {
+  try {
+    return await syncReadPositions(port, motorIds);
+  } catch (error) {
+    // Some motors did not answer the sync read - read them one by one
+  }
+
   const motorPositions: number[] = [];
 
   for (let i = 0; i < motorIds.length; i++) {
@@ -129,42 +470,30 @@ export async function readAllMotorPositions(
 
 /**
  * Write motor goal position
+ * Fire-and-forget for high rate control - the status reply is not awaited
  */
 export async function writeMotorPosition(
   port: MotorCommunicationPort,
   motorId: number,
   position: number
 ): Promise<void> {
-  // STS3215 Write Goal_Position packet
-  const packet = new Uint8Array([
-    0xff,
-    0xff, // Header
-    motorId, // Servo ID
-    0x05, // Length
-    0x03, // Instruction: WRITE_DATA
-    STS3215_PROTOCOL.GOAL_POSITION_ADDRESS, // Goal_Position register address
-    position & 0xff, // Position low byte
-    (position >> 8) & 0xff, // Position high byte
-    0x00, // Checksum placeholder
-  ]);
-
-  // Calculate checksum
-  const checksum =
-    ~(
-      motorId +
-      0x05 +
-      0x03 +
-      STS3215_PROTOCOL.GOAL_POSITION_ADDRESS +
-      (position & 0xff) +
-      ((position >> 8) & 0xff)
-    ) & 0xff;
-  packet[8] = checksum;
+  const packet = createInstructionPacket(
+    motorId,
+    STS3215_PROTOCOL.WRITE_DATA_INSTRUCTION,
+    [
+      STS3215_PROTOCOL.GOAL_POSITION_ADDRESS,
+      ...encodeRegisterValue("Goal_Position", position),
+    ]
+  );
 
   await port.write(packet);
 }
 
 /**
  * Generic function to write a 2-byte value to a motor register
+ * Waits for the status reply so failures surface with their reason
+ * @throws MotorStatusError if the motor reports an error, MotorTimeoutError
+ * if it does not answer
  */
 export async function writeMotorRegister(
   port: MotorCommunicationPort,
@@ -172,40 +501,10 @@ export async function writeMotorRegister(
   registerAddress: number,
   value: number
 ): Promise<void> {
-  // Create Write Register packet
-  const packet = new Uint8Array([
-    0xff,
-    0xff, // Header
-    motorId, // Servo ID
-    0x05, // Length
-    0x03, // Instruction: WRITE_DATA
-    registerAddress, // Register address
+  await writeMotorData(port, motorId, registerAddress, [
     value & 0xff, // Data_L (low byte)
     (value >> 8) & 0xff, // Data_H (high byte)
-    0x00, // Checksum placeholder
   ]);
-
-  // Calculate checksum
-  const checksum =
-    ~(
-      motorId +
-      0x05 +
-      0x03 +
-      registerAddress +
-      (value & 0xff) +
-      ((value >> 8) & 0xff)
-    ) & 0xff;
-  packet[8] = checksum;
-
-  // Write register value
-  await port.write(packet);
-
-  // Wait for response (silent unless error)
-  try {
-    await port.read(200);
-  } catch (error) {
-    // Silent - response not required for successful operation
-  }
 }
 
 /**
@@ -215,12 +514,7 @@ export async function lockMotor(
   port: MotorCommunicationPort,
   motorId: number
 ): Promise<void> {
-  await writeMotorRegister(
-    port,
-    motorId,
-    STS3215_PROTOCOL.TORQUE_ENABLE_ADDRESS,
-    1
-  );
+  await writeRegister(port, motorId, "Torque_Enable", 1);
   // Small delay for command processing
   await new Promise((resolve) =>
     setTimeout(resolve, STS3215_PROTOCOL.WRITE_TO_READ_DELAY)
@@ -234,12 +528,7 @@ export async function releaseMotor(
   port: MotorCommunicationPort,
   motorId: number
 ): Promise<void> {
-  await writeMotorRegister(
-    port,
-    motorId,
-    STS3215_PROTOCOL.TORQUE_ENABLE_ADDRESS,
-    0
-  );
+  await writeRegister(port, motorId, "Torque_Enable", 0);
   // Small delay for command processing
   await new Promise((resolve) =>
     setTimeout(resolve, STS3215_PROTOCOL.WRITE_TO_READ_DELAY)
@@ -0,0 +1,85 @@
+/**
+ * Motor Communication Errors
+ * Typed errors so callers can tell why a motor did not respond as expected
+ */
+
+import {
+  decodeErrorFlags,
+  MOTOR_ERROR_DESCRIPTIONS,
+  type MotorErrorFlag,
+} from "./sts3215-packet.js";
+import { describeDynamixelError } from "./dynamixel-packet.js";
+
+/**
+ * Base class for all motor bus errors
+ */
+export class MotorCommunicationError extends Error {
+  readonly motorIds: number[];
+
+  constructor(message: string, motorIds: number[] = []) {
+    super(message);
+    this.name = "MotorCommunicationError";
+    this.motorIds = motorIds;
+  }
+}
+
+/**
+ * No (complete) status packet arrived before the timeout
+ */
+export class MotorTimeoutError extends MotorCommunicationError {
+  constructor(message: string, motorIds: number[] = []) {
+    super(message, motorIds);
+    this.name = "MotorTimeoutError";
+  }
+}
+
+/**
+ * A status packet arrived but does not match the request
+ */
+export class MotorPacketError extends MotorCommunicationError {
+  constructor(message: string, motorIds: number[] = []) {
+    super(message, motorIds);
+    this.name = "MotorPacketError";
+  }
+}
+
+/**
+ * The motor answered with error bits set in its status packet
+ */
+export class MotorStatusError extends MotorCommunicationError {
+  readonly motorId: number;
+  readonly errorByte: number;
+  readonly flags: MotorErrorFlag[];
+
+  constructor(motorId: number, errorByte: number) {
+    const flags = decodeErrorFlags(errorByte);
+    const reasons =
+      flags.length > 0
+        ? flags.map((flag) => MOTOR_ERROR_DESCRIPTIONS[flag]).join(", ")
+        : `unknown error 0x${errorByte.toString(16).padStart(2, "0")}`;
+
+    super(`Motor ${motorId} reported ${reasons}`, [motorId]);
+    this.name = "MotorStatusError";
+    this.motorId = motorId;
+    this.errorByte = errorByte;
+    this.flags = flags;
+  }
+}
+
+/**
+ * A Dynamixel motor answered with an error in its status packet
+ */
+export class DynamixelStatusError extends MotorCommunicationError {
+  readonly motorId: number;
+  readonly errorByte: number;
+
+  constructor(motorId: number, errorByte: number) {
+    super(
+      `Motor ${motorId} reported ${describeDynamixelError(errorByte)}`,
+      [motorId]
+    );
+    this.name = "DynamixelStatusError";
+    this.motorId = motorId;
+    this.errorByte = errorByte;
+  }
+}
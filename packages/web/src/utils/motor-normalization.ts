@@ -0,0 +1,89 @@
+/**
+ * Motor Normalization
+ * Conversion between raw motor positions and calibration independent values
+ * Follows the Python lerobot MotorsBus normalization
+ */
+
+import type { MotorConfig } from "../types/teleoperation.js";
+
+// Highest raw position of a 4096-step motor, used for degree normalization
+const MAX_POSITION_STEP = 4095;
+
+/**
+ * Normalizes a value from one range to another
+ * @param value The value to normalize
+ * @param minVal The minimum value of the original range
+ * @param maxVal The maximum value of the original range
+ * @param minNorm The minimum value of the normalized range
+ * @param maxNorm The maximum value of the normalized range
+ * @returns The normalized value
+ */
+function normalizeValue(
+  value: number,
+  minVal: number,
+  maxVal: number,
+  minNorm: number,
+  maxNorm: number
+): number {
+  const range = maxVal - minVal;
+  const normRange = maxNorm - minNorm;
+  const normalized = (value - minVal) / range;
+  return normalized * normRange + minNorm;
+}
+
+/**
+ * Normalization range of a motor
+ * Motors without a mode use the SO-100 rule: -100..100, and 0..100 for the gripper
+ */
+function normRange(motorConfig: MotorConfig): [number, number] | null {
+  const normMode =
+    motorConfig.normMode ??
+    (motorConfig.name === "gripper" ? "range_0_100" : "range_m100_100");
+
+  switch (normMode) {
+    case "range_0_100":
+      return [0, 100];
+    case "degrees":
+      return null;
+    default:
+      return [-100, 100];
+  }
+}
+
+/**
+ * Normalize a raw position of a motor according to its normalization mode
+ *
+ * This follows the guide at https://github.com/huggingface/lerobot/blob/cf86b9300dc83fdad408cfe4787b7b09b55f12cf/src/lerobot/robots/so100_follower/so100_follower.py#L49
+ * Degrees are measured from the middle of the motor range
+ */
+export function normalizeMotorValue(
+  value: number,
+  motorConfig: MotorConfig
+): number {
+  const { minPosition, maxPosition } = motorConfig;
+  const range = normRange(motorConfig);
+
+  if (!range) {
+    return (
+      ((value - (minPosition + maxPosition) / 2) * 360) / MAX_POSITION_STEP
+    );
+  }
+  return normalizeValue(value, minPosition, maxPosition, range[0], range[1]);
+}
+
+/**
+ * Convert a normalized value back to a raw position of a motor
+ * Inverse of normalizeMotorValue, the result is not rounded or clamped
+ */
+export function unnormalizeMotorValue(
+  value: number,
+  motorConfig: MotorConfig
+): number {
+  const { minPosition, maxPosition } = motorConfig;
+  const range = normRange(motorConfig);
+
+  if (!range) {
+    return (value * MAX_POSITION_STEP) / 360 + (minPosition + maxPosition) / 2;
+  }
+  return normalizeValue(value, range[0], range[1], minPosition, maxPosition);
+}
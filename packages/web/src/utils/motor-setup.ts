@@ -0,0 +1,149 @@
+/**
+ * Motor Setup Utilities
+ * Assign ID and baud rate to a single STS3215 motor connected on its own
+ */
+
+import { STS3215_BAUD_RATES, STS3215_PROTOCOL } from "./sts3215-protocol.js";
+import { createInstructionPacket } from "./sts3215-packet.js";
+import {
+  encodeRegisterValue,
+  getRegister,
+  type STS3215Register,
+} from "./sts3215-control-table.js";
+import {
+  broadcastPing,
+  pingMotor,
+  readRegister,
+  writeRegister,
+  type MotorCommunicationPort,
+} from "./motor-communication.js";
+import { MotorTimeoutError } from "./motor-errors.js";
+import type { MotorSetupResult } from "../types/setup-motors.js";
+
+/**
+ * Time the motor needs to store an EEPROM value before it answers again
+ */
+const EEPROM_WRITE_DELAY = 50;
+
+/**
+ * Write a register without waiting for the status reply
+ * ID and Baud_Rate change how the motor answers, so their reply is unreliable
+ */
+async function writeRegisterUnacknowledged(
+  port: MotorCommunicationPort,
+  motorId: number,
+  register: STS3215Register,
+  value: number
+): Promise<void> {
+  const packet = createInstructionPacket(
+    motorId,
+    STS3215_PROTOCOL.WRITE_DATA_INSTRUCTION,
+    [getRegister(register).address, ...encodeRegisterValue(register, value)]
+  );
+
+  await port.write(packet);
+  await new Promise((resolve) => setTimeout(resolve, EEPROM_WRITE_DELAY));
+}
+
+/**
+ * Find the only motor connected to the bus by trying every baud rate
+ * @throws Error if several motors answer or the motor is not an STS3215,
+ * MotorTimeoutError if no motor answers at any baud rate
+ */
+export async function findSingleMotor(
+  port: MotorCommunicationPort
+): Promise<{ id: number; baudRate: number }> {
+  if (!port.setBaudRate) {
+    throw new Error("Motor setup requires a port with setBaudRate");
+  }
+
+  // Fastest first, factory motors usually run at 1000000
+  const baudRates = Object.keys(STS3215_BAUD_RATES)
+    .map(Number)
+    .sort((a, b) => b - a);
+
+  for (const baudRate of baudRates) {
+    await port.setBaudRate(baudRate);
+
+    const ids = await broadcastPing(port);
+    if (ids.length === 0) continue;
+
+    if (ids.length > 1) {
+      throw new Error(
+        `Found several motors (${ids.join(", ")}) on the MotorsBus. Connect only one motor.`
+      );
+    }
+
+    const modelNumber = await readRegister(port, ids[0], "Model_Number");
+    if (modelNumber !== STS3215_PROTOCOL.MODEL_NUMBER) {
+      throw new Error(
+        `Motor ${ids[0]} has model number ${modelNumber}, expected ${STS3215_PROTOCOL.MODEL_NUMBER} (STS3215)`
+      );
+    }
+
+    return { id: ids[0], baudRate };
+  }
+
+  throw new MotorTimeoutError(
+    "No motor found on the MotorsBus. Check the cables and power supply."
+  );
+}
+
+/**
+ * Write ID and baud rate of the only motor connected to the bus
+ * Unlocks the EEPROM, writes both values and locks it again
+ * Leaves the port at the target baud rate
+ */
+export async function setupMotor(
+  port: MotorCommunicationPort,
+  targetId: number,
+  targetBaudRate: number = STS3215_PROTOCOL.DEFAULT_BAUD_RATE
+): Promise<MotorSetupResult> {
+  if (!Number.isInteger(targetId) || targetId < 0 || targetId > 252) {
+    throw new Error(`Invalid motor ID ${targetId} (expected 0-252)`);
+  }
+  if (STS3215_BAUD_RATES[targetBaudRate] === undefined) {
+    throw new Error(`Unsupported STS3215 baud rate ${targetBaudRate}`);
+  }
+  if (!port.setBaudRate) {
+    throw new Error("Motor setup requires a port with setBaudRate");
+  }
+
+  const previous = await findSingleMotor(port);
+  let motorId = previous.id;
+
+  await writeRegister(port, motorId, "Torque_Enable", 0);
+  await writeRegister(port, motorId, "Lock", 0);
+
+  if (motorId !== targetId) {
+    await writeRegisterUnacknowledged(port, motorId, "ID", targetId);
+    motorId = targetId;
+
+    if (!(await pingMotor(port, motorId))) {
+      throw new MotorTimeoutError(
+        `Motor ${previous.id} did not answer as motor ${targetId} after writing its ID`,
+        [targetId]
+      );
+    }
+  }
+
+  if (previous.baudRate !== targetBaudRate) {
+    await writeRegisterUnacknowledged(
+      port,
+      motorId,
+      "Baud_Rate",
+      STS3215_BAUD_RATES[targetBaudRate]
+    );
+    await port.setBaudRate(targetBaudRate);
+  }
+
+  // Also confirms the motor answers at its new baud rate
+  await writeRegister(port, motorId, "Lock", 1);
+
+  return {
+    id: motorId,
+    baudRate: targetBaudRate,
+    previousId: previous.id,
+    previousBaudRate: previous.baudRate,
+  };
+}
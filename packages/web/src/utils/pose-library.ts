@@ -0,0 +1,93 @@
+/**
+ * Pose Library
+ * Named poses per robot in normalized units, kept in a pluggable PoseStorage
+ */
+
+import {
+  normalizeMotorValue,
+  unnormalizeMotorValue,
+} from "./motor-normalization.js";
+import type { Pose, PoseStorage } from "../types/pose.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+// localStorage key prefix, apart from the lerobotjs- robot data of the demos
+const POSE_STORAGE_PREFIX = "lerobot-poses";
+
+/**
+ * Keeps the poses of a robot as JSON in localStorage (or any Web Storage)
+ */
+export class LocalStoragePoseStorage implements PoseStorage {
+  readonly key: string;
+  private readonly storage: Storage;
+
+  constructor(
+    robotType: string,
+    robotId: string,
+    storage: Storage = localStorage
+  ) {
+    this.key = `${POSE_STORAGE_PREFIX}/${robotType}/${robotId}`;
+    this.storage = storage;
+  }
+
+  async load(): Promise<Pose[]> {
+    const data = this.storage.getItem(this.key);
+    return data ? (JSON.parse(data) as Pose[]) : [];
+  }
+
+  async save(poses: Pose[]): Promise<void> {
+    this.storage.setItem(this.key, JSON.stringify(poses));
+  }
+}
+
+/**
+ * Keeps poses in memory, e.g. for tests and demos
+ */
+export class MemoryPoseStorage implements PoseStorage {
+  private poses: Pose[] = [];
+
+  async load(): Promise<Pose[]> {
+    return this.poses.map((pose) => structuredClone(pose));
+  }
+
+  async save(poses: Pose[]): Promise<void> {
+    this.poses = poses.map((pose) => structuredClone(pose));
+  }
+}
+
+/**
+ * Pose of the current motor positions
+ */
+export function capturePose(name: string, motorConfigs: MotorConfig[]): Pose {
+  if (!name.trim()) {
+    throw new Error("Pose name must not be empty");
+  }
+
+  const positions: { [motorName: string]: number } = {};
+  for (const motorConfig of motorConfigs) {
+    positions[motorConfig.name] = normalizeMotorValue(
+      motorConfig.currentPosition,
+      motorConfig
+    );
+  }
+  return { name, positions, savedAt: new Date().toISOString() };
+}
+
+/**
+ * Raw target positions of a pose by motor name
+ * Motors of the pose the robot does not have are an error, motors missing
+ * from the pose stay where they are
+ */
+export function poseTargets(
+  pose: Pose,
+  motorConfigs: MotorConfig[]
+): { [motorName: string]: number } {
+  const targets: { [motorName: string]: number } = {};
+  for (const [motorName, value] of Object.entries(pose.positions)) {
+    const motorConfig = motorConfigs.find((m) => m.name === motorName);
+    if (!motorConfig) {
+      throw new Error(`Pose ${pose.name} moves unknown motor ${motorName}`);
+    }
+    targets[motorName] = unnormalizeMotorValue(value, motorConfig);
+  }
+  return targets;
+}
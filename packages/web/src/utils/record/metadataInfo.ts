@@ -19,6 +19,8 @@ interface MetadataParams {
     fps: number;
     splits: { [key: string]: string };
     features: { [key: string]: any };
+    state_names: string[]; // Names of the action and observation.state entries
+    robot_type: string;
     videos_info: VideoInfo[];
     data_files_size_in_mb: number;
     video_files_size_in_mb: number;
@@ -31,7 +33,7 @@ interface MetadataParams {
 function getMetadataInfo(params: MetadataParams) {
     return {
         "codebase_version": "v2.1",
-        "robot_type": "so100",
+        "robot_type": params.robot_type,
         "total_episodes": params.total_episodes,
         "total_frames": params.total_frames,
         "total_tasks": params.total_tasks,
@@ -48,31 +50,17 @@ function getMetadataInfo(params: MetadataParams) {
             "action": {
                 "dtype": "float32",
                 "shape": [
-                    6
-                ],
-                "names": [
-                    "main_shoulder_pan",
-                    "main_shoulder_lift",
-                    "main_elbow_flex",
-                    "main_wrist_flex",
-                    "main_wrist_roll",
-                    "main_gripper"
+                    params.state_names.length
                 ],
+                "names": params.state_names,
                 "fps": params.fps
             },
             "observation.state": {
                 "dtype": "float32",
                 "shape": [
-                    6
-                ],
-                "names": [
-                    "main_shoulder_pan",
-                    "main_shoulder_lift",
-                    "main_elbow_flex",
-                    "main_wrist_flex",
-                    "main_wrist_roll",
-                    "main_gripper"
+                    params.state_names.length
                 ],
+                "names": params.state_names,
                 "fps": params.fps
             },
             "observation.images.front": {
@@ -0,0 +1,304 @@
+/**
+ * Safety Filter
+ * Limits goal positions between teleoperators (or policies) and the bus:
+ * calibrated position range, per-write delta, velocity, acceleration and
+ * the end-effector workspace
+ */
+
+import {
+  forwardKinematics,
+  jointAnglesFromMotorConfigs,
+} from "./arm-kinematics.js";
+import type { ArmKinematicsConfig } from "../types/robot-config.js";
+import type {
+  MotorLimit,
+  SafetyFilterConfig,
+  SafetyRule,
+  WorkspaceBox,
+} from "../types/safety.js";
+import type { MotorConfig } from "../types/teleoperation.js";
+
+/**
+ * Default configuration values for the safety filter
+ */
+export const SAFETY_FILTER_DEFAULTS = {
+  updateRate: 60, // Goal writes per second while catching up with held back goals
+} as const;
+
+/**
+ * Commanded motion of a motor
+ */
+interface MotorMotion {
+  position: number;
+  velocity: number; // Position units per second
+  time: number; // performance.now() of the last write
+}
+
+/**
+ * Distance from a point to the closest workspace box, 0 inside a box
+ */
+function workspaceDistance(
+  point: [number, number, number],
+  boxes: WorkspaceBox[]
+): number {
+  return Math.min(
+    ...boxes.map((box) =>
+      Math.hypot(
+        ...point.map((value, i) =>
+          Math.max(box.min[i] - value, 0, value - box.max[i])
+        )
+      )
+    )
+  );
+}
+
+export class SafetyFilter {
+  readonly updateRate: number;
+  private readonly config: SafetyFilterConfig;
+  private readonly motorConfigs: MotorConfig[];
+  private readonly kinematics?: ArmKinematicsConfig;
+  private motion = new Map<number, MotorMotion>();
+  private desired = new Map<number, number>();
+
+  /**
+   * @param motorConfigs Names and calibrated ranges of the motors, the current
+   * positions are where limiting starts
+   * @param kinematics Kinematic chain, required for workspace boxes
+   * @throws Error for workspace boxes without a kinematic chain, or with a
+   * joint that has no motor config
+   */
+  constructor(
+    config: SafetyFilterConfig,
+    motorConfigs: MotorConfig[],
+    kinematics?: ArmKinematicsConfig
+  ) {
+    if (config.workspace && !kinematics) {
+      throw new Error("Workspace limits need a robot with a kinematic chain");
+    }
+    if (config.workspace && kinematics) {
+      for (const joint of kinematics.joints) {
+        if (!motorConfigs.some((m) => m.name === joint.motor)) {
+          throw new Error(
+            `Motor ${joint.motor} of the kinematic chain has no motor config`
+          );
+        }
+      }
+    }
+
+    this.config = config;
+    this.motorConfigs = motorConfigs;
+    this.kinematics = kinematics;
+    this.updateRate = config.updateRate ?? SAFETY_FILTER_DEFAULTS.updateRate;
+  }
+
+  /**
+   * Requested goals the limits have held back so far, keyed by motor ID
+   * Writing them again continues the motion
+   */
+  get pendingGoals(): Map<number, number> {
+    const pending = new Map<number, number>();
+    this.desired.forEach((goal, id) => {
+      const position = this.motion.get(id)?.position;
+      if (position !== undefined && Math.abs(goal - position) >= 0.5) {
+        pending.set(id, goal);
+      }
+    });
+    return pending;
+  }
+
+  /**
+   * Limit the goal positions of one write
+   * @returns Rounded goal positions to write, in the order of motorIds
+   * @throws Error for motors without a motor config, they have no limits
+   */
+  filter(
+    motorIds: number[],
+    positions: number[],
+    now: number = performance.now()
+  ): number[] {
+    const maxDt = 1 / this.updateRate;
+    const rules = new Set<SafetyRule>();
+    const next = new Map<number, MotorMotion>();
+
+    motorIds.forEach((id, i) => {
+      const motorConfig = this.motorConfigs.find((m) => m.id === id);
+      if (!motorConfig) {
+        throw new Error(`Motor ${id} has no safety limits (no motor config)`);
+      }
+
+      const goal = Math.max(
+        motorConfig.minPosition,
+        Math.min(motorConfig.maxPosition, positions[i])
+      );
+      if (goal !== positions[i]) rules.add("position_limit");
+      this.desired.set(id, goal);
+
+      // The first write starts from rest, one cycle after the last one
+      const previous = this.motion.get(id) ?? {
+        position: motorConfig.currentPosition,
+        velocity: 0,
+        time: now - maxDt * 1000,
+      };
+
+      // Long gaps between writes count as one cycle, so a single far goal
+      // is spread over several writes instead of being sent at once
+      const elapsed = (now - previous.time) / 1000;
+      const dt = Math.min(Math.max(elapsed, 0.001), maxDt);
+      const velocity = elapsed > 4 * maxDt ? 0 : previous.velocity;
+      const remaining = goal - previous.position;
+      let step = remaining;
+
+      const maxRelativeTarget = this.motorLimit(
+        this.config.maxRelativeTarget,
+        motorConfig.name
+      );
+      if (
+        maxRelativeTarget !== undefined &&
+        Math.abs(step) > maxRelativeTarget
+      ) {
+        step = Math.sign(step) * maxRelativeTarget;
+        rules.add("max_relative_target");
+      }
+
+      const maxVelocity = this.motorLimit(
+        this.config.maxVelocity,
+        motorConfig.name
+      );
+      if (maxVelocity !== undefined && Math.abs(step) > maxVelocity * dt) {
+        step = Math.sign(step) * maxVelocity * dt;
+        rules.add("max_velocity");
+      }
+
+      const maxAcceleration = this.motorLimit(
+        this.config.maxAcceleration,
+        motorConfig.name
+      );
+      if (maxAcceleration !== undefined) {
+        // Brake in time to stop at the goal
+        const brakingSpeed = Math.sqrt(
+          2 * maxAcceleration * Math.abs(remaining)
+        );
+        let speed = step / dt;
+        if (Math.abs(speed) > brakingSpeed) {
+          speed = Math.sign(speed) * brakingSpeed;
+        }
+        speed = Math.max(
+          velocity - maxAcceleration * dt,
+          Math.min(velocity + maxAcceleration * dt, speed)
+        );
+
+        let limitedStep = speed * dt;
+        if (
+          Math.sign(limitedStep) === Math.sign(remaining) &&
+          Math.abs(limitedStep) > Math.abs(remaining)
+        ) {
+          limitedStep = remaining;
+        }
+        if (Math.abs(limitedStep - step) > 1e-9) {
+          step = limitedStep;
+          rules.add("max_acceleration");
+        }
+      }
+
+      next.set(id, {
+        position: previous.position + step,
+        velocity: step / dt,
+        time: now,
+      });
+    });
+
+    if (this.kinematics && this.leavesWorkspace(this.kinematics, next)) {
+      // Hold the arm where it is and drop the goals that led outside
+      this.kinematics.joints.forEach((joint) => {
+        const motorConfig = this.motorConfigs.find(
+          (m) => m.name === joint.motor
+        );
+        if (!motorConfig || !next.has(motorConfig.id)) return;
+
+        const previous = this.motion.get(motorConfig.id);
+        const position = previous?.position ?? motorConfig.currentPosition;
+        next.set(motorConfig.id, { position, velocity: 0, time: now });
+        this.desired.set(motorConfig.id, position);
+      });
+      rules.add("workspace");
+    }
+
+    next.forEach((motion, id) => this.motion.set(id, motion));
+
+    const commanded = motorIds.map((id) => {
+      const motion = next.get(id);
+      if (!motion) throw new Error(`Motor ${id} has no commanded motion`);
+      return Math.round(motion.position);
+    });
+
+    if (rules.size > 0 && this.config.onIntervention) {
+      const requested: { [motorName: string]: number } = {};
+      const commandedByName: { [motorName: string]: number } = {};
+      motorIds.forEach((id, i) => {
+        const motorConfig = this.motorConfigs.find((m) => m.id === id);
+        if (!motorConfig) return;
+        requested[motorConfig.name] = positions[i];
+        commandedByName[motorConfig.name] = commanded[i];
+      });
+
+      this.config.onIntervention({
+        timestamp: Date.now(),
+        rules: Array.from(rules),
+        requested,
+        commanded: commandedByName,
+      });
+    }
+
+    return commanded;
+  }
+
+  /**
+   * Forget the commanded motion, e.g. after torque was disabled
+   * The next write starts from the current positions of the motor configs
+   */
+  reset(): void {
+    this.motion.clear();
+    this.desired.clear();
+  }
+
+  private motorLimit(
+    limit: MotorLimit | undefined,
+    motorName: string
+  ): number | undefined {
+    return typeof limit === "number" ? limit : limit?.[motorName];
+  }
+
+  /**
+   * True if the next motion moves the end-effector out of the workspace, or
+   * further away from it when it already is outside
+   */
+  private leavesWorkspace(
+    kinematics: ArmKinematicsConfig,
+    next: Map<number, MotorMotion>
+  ): boolean {
+    const boxes = this.config.workspace;
+    if (!boxes) return false;
+
+    const tip = (motions: Map<number, MotorMotion>) => {
+      const pose = forwardKinematics(
+        kinematics,
+        jointAnglesFromMotorConfigs(
+          kinematics,
+          this.motorConfigs.map((config) => ({
+            ...config,
+            currentPosition:
+              motions.get(config.id)?.position ??
+              this.motion.get(config.id)?.position ??
+              config.currentPosition,
+          }))
+        )
+      );
+      return [pose.x, pose.y, pose.z] as [number, number, number];
+    };
+
+    const distance = workspaceDistance(tip(next), boxes);
+    return (
+      distance > 0 && distance > workspaceDistance(tip(this.motion), boxes)
+    );
+  }
+}
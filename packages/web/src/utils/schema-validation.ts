@@ -0,0 +1,127 @@
+/**
+ * Minimal JSON Schema validation
+ * Supports the subset of JSON Schema used by lerobot.js configuration files
+ */
+
+/**
+ * JSON Schema subset
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: { [property: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: readonly (string | number | boolean)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchema["type"]): boolean {
+  switch (type) {
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validate a value against a schema
+ * @returns One message per violation, prefixed with the path of the value
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = "$"
+): string[] {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path}: expected ${schema.type}, got ${describeType(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must not be shorter than ${schema.minLength}`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.items) {
+      for (let i = 0; i < value.length; i++) {
+        errors.push(...validateSchema(value[i], schema.items, `${path}[${i}]`));
+      }
+    }
+  }
+
+  if (matchesType(value, "object")) {
+    const record = value as { [key: string]: unknown };
+
+    for (const property of schema.required ?? []) {
+      if (record[property] === undefined) {
+        errors.push(`${path}: missing required property "${property}"`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      const propertyPath = `${path}.${key}`;
+
+      if (propertySchema) {
+        errors.push(
+          ...validateSchema(propertyValue, propertySchema, propertyPath)
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propertyPath}: unknown property`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateSchema(
+            propertyValue,
+            schema.additionalProperties,
+            propertyPath
+          )
+        );
+      }
+    }
+  }
+
+  return errors;
+}
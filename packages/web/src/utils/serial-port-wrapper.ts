@@ -1,12 +1,66 @@
 /**
  * Web Serial Port Wrapper
- * Standardized Web Serial API interface with immediate lock release
+ * Standardized Web Serial API interface with a persistent buffered reader
  */
 
 import type { SerialPort } from "../types/robot-connection.js";
+import type { StatusPacket } from "./sts3215-packet.js";
+import { SerialReadBuffer } from "./serial-read-buffer.js";
 
 /**
- * Web Serial Port wrapper - direct write/read with immediate lock release
+ * Long-lived read loop of one port
+ * Holds the readable stream lock and moves every chunk into the buffer
+ */
+class PortReadLoop {
+  readonly buffer = new SerialReadBuffer();
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private loop: Promise<void> | null = null;
+
+  start(port: SerialPort): void {
+    if (this.loop || !port.readable) return;
+
+    this.buffer.clear();
+    this.reader = port.readable.getReader();
+    this.loop = this.run(this.reader);
+  }
+
+  /**
+   * Cancel the pending read and release the stream lock
+   */
+  async stop(): Promise<void> {
+    if (!this.loop) return;
+
+    await this.reader?.cancel().catch(() => {});
+    await this.loop;
+  }
+
+  private async run(
+    reader: ReadableStreamDefaultReader<Uint8Array>
+  ): Promise<void> {
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (value) this.buffer.push(value);
+      }
+    } catch (error) {
+      // Port lost or read cancelled - waiting reads fail below
+    } finally {
+      reader.releaseLock();
+      this.reader = null;
+      this.loop = null;
+      this.buffer.fail(new Error("Read failed - port closed or no data"));
+    }
+  }
+}
+
+// Wrappers of the same port share its reader, only one can hold the lock
+const readLoops = new WeakMap<SerialPort, PortReadLoop>();
+
+/**
+ * Web Serial Port wrapper - direct writes and buffered reads
+ * The first read or write starts a read loop that keeps the port's
+ * readable stream locked until close() or setBaudRate()
  */
 export class WebSerialPortWrapper {
   private port: SerialPort;
@@ -34,6 +88,9 @@ export class WebSerialPortWrapper {
       throw new Error("Port not open for writing");
     }
 
+    // Listen before the request goes out so no answer is missed
+    this.readLoop.start(this.port);
+
     const writer = this.port.writable.getWriter();
     try {
       await writer.write(data);
@@ -42,34 +99,40 @@ export class WebSerialPortWrapper {
     }
   }
 
+  /**
+   * Return all buffered bytes, waiting up to timeout for the first one
+   */
   async read(timeout: number = 1000): Promise<Uint8Array> {
-    if (!this.port.readable) {
-      throw new Error("Port not open for reading");
-    }
-
-    const reader = this.port.readable.getReader();
-
-    try {
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error("Read timeout")), timeout);
-      });
+    return (await this.startReading()).read(timeout);
+  }
 
-      const result = await Promise.race([reader.read(), timeoutPromise]);
-      const { value, done } = result;
+  /**
+   * Return exactly n bytes, waiting up to timeout for all of them
+   */
+  async readExact(n: number, timeout: number = 1000): Promise<Uint8Array> {
+    return (await this.startReading()).readExact(n, timeout);
+  }
 
-      if (done || !value) {
-        throw new Error("Read failed - port closed or no data");
-      }
+  /**
+   * Return the next complete status packet, waiting up to timeout
+   */
+  async readPacket(timeout: number = 1000): Promise<StatusPacket> {
+    return (await this.startReading()).readPacket(timeout);
+  }
 
-      return new Uint8Array(value);
-    } finally {
-      reader.releaseLock();
-    }
+  /**
+   * Reopen the port at a different baud rate
+   */
+  async setBaudRate(baudRate: number): Promise<void> {
+    await this.readLoop.stop();
+    await this.port.close();
+    await this.port.open({ baudRate });
   }
 
   async close(): Promise<void> {
     try {
       if (this.port && this.port.readable) {
+        await this.readLoop.stop();
         await this.port.close();
         console.log("🔌 Serial port closed successfully");
       }
@@ -77,4 +140,23 @@ export class WebSerialPortWrapper {
       console.warn("Error closing serial port:", error);
     }
   }
+
+  private get readLoop(): PortReadLoop {
+    let loop = readLoops.get(this.port);
+    if (!loop) {
+      loop = new PortReadLoop();
+      readLoops.set(this.port, loop);
+    }
+    return loop;
+  }
+
+  private async startReading(): Promise<SerialReadBuffer> {
+    if (!this.port.readable) {
+      throw new Error("Port not open for reading");
+    }
+
+    const loop = this.readLoop;
+    loop.start(this.port);
+    return loop.buffer;
+  }
 }
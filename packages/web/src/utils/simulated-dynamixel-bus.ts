@@ -0,0 +1,547 @@
+/**
+ * Simulated Dynamixel Bus
+ * In-memory Dynamixel X-series servos behind the MotorCommunicationPort interface
+ */
+
+import {
+  DYNAMIXEL_BAUD_RATES,
+  DYNAMIXEL_PROTOCOL,
+} from "./dynamixel-protocol.js";
+import {
+  DYNAMIXEL_CONTROL_TABLE,
+  decodeDynamixelValue,
+  encodeDynamixelValue,
+  getDynamixelRegister,
+  type DynamixelRegister,
+} from "./dynamixel-control-table.js";
+import {
+  DynamixelPacketParser,
+  createDynamixelPacket,
+} from "./dynamixel-packet.js";
+import type { MotorCommunicationPort } from "./motor-communication.js";
+import type {
+  SerialPort,
+  SerialPortInfo,
+  SerialOptions,
+} from "../types/robot-connection.js";
+import type {
+  SimulatedMotorConfig,
+  SimulatedMotorBusOptions,
+} from "../types/simulated-motor-bus.js";
+
+/**
+ * Size of the simulated control table memory
+ */
+const CONTROL_TABLE_SIZE = 256;
+
+/**
+ * Status packet error number for writes the motor refuses
+ */
+const ACCESS_ERROR = 0x07;
+
+/**
+ * State of one simulated motor
+ */
+interface SimulatedMotor {
+  memory: Uint8Array;
+  position: number; // Exact Present_Position, kept fractional between updates
+  statusError: number;
+}
+
+/**
+ * Simulated Dynamixel bus for tests and demos without hardware
+ * Parses Protocol 2.0 instruction packets, answers from an in-memory control
+ * table and moves torque-enabled motors toward their Goal_Position
+ * Also a Web Serial SerialPort, so it can be used as RobotConnection.port
+ */
+export class SimulatedDynamixelBus
+  implements MotorCommunicationPort, SerialPort
+{
+  private readableStream: ReadableStream<Uint8Array> | null = null;
+  private writableStream: WritableStream<Uint8Array> | null = null;
+  private motors: SimulatedMotor[] = [];
+  private parser = new DynamixelPacketParser();
+  private rxBuffer: number[] = [];
+  private dataListeners: (() => void)[] = [];
+  private baudRate: number;
+  private opened = true;
+  private lastUpdate = Date.now();
+  private readonly latency: number;
+  private readonly dropRate: number;
+  private readonly maxSpeed: number;
+  private readonly random: () => number;
+
+  constructor(options: SimulatedMotorBusOptions = {}) {
+    this.baudRate = options.baudRate ?? DYNAMIXEL_PROTOCOL.DEFAULT_BAUD_RATE;
+    this.latency = options.latency ?? 0;
+    this.dropRate = options.dropRate ?? 0;
+    this.maxSpeed = options.maxSpeed ?? 3000;
+    this.random = options.random ?? Math.random;
+
+    for (const motor of options.motors ?? [1, 2, 3, 4, 5, 6]) {
+      this.addMotor(typeof motor === "number" ? { id: motor } : motor);
+    }
+  }
+
+  get isOpen(): boolean {
+    return this.opened;
+  }
+
+  /**
+   * Connect a motor to the bus with factory defaults
+   */
+  addMotor(config: SimulatedMotorConfig): void {
+    const motor: SimulatedMotor = {
+      memory: new Uint8Array(CONTROL_TABLE_SIZE),
+      position: config.position ?? 2047,
+      statusError: 0,
+    };
+    this.motors.push(motor);
+
+    const baudRate = config.baudRate ?? DYNAMIXEL_PROTOCOL.DEFAULT_BAUD_RATE;
+    if (DYNAMIXEL_BAUD_RATES[baudRate] === undefined) {
+      throw new Error(`Unsupported Dynamixel baud rate ${baudRate}`);
+    }
+
+    const defaults: [DynamixelRegister, number][] = [
+      [
+        "Model_Number",
+        config.modelNumber ?? DYNAMIXEL_PROTOCOL.XL330_M288_MODEL_NUMBER,
+      ],
+      ["Firmware_Version", 52],
+      ["ID", config.id],
+      ["Baud_Rate", DYNAMIXEL_BAUD_RATES[baudRate]],
+      ["Operating_Mode", DYNAMIXEL_PROTOCOL.POSITION_MODE],
+      ["Temperature_Limit", 70],
+      ["Min_Position_Limit", 0],
+      ["Max_Position_Limit", DYNAMIXEL_PROTOCOL.RESOLUTION - 1],
+      ["Goal_Position", Math.round(motor.position)],
+      ["Present_Position", Math.round(motor.position)],
+      ["Present_Input_Voltage", 50],
+      ["Present_Temperature", 25],
+    ];
+    for (const [register, value] of defaults) {
+      this.storeRegister(motor, register, value);
+    }
+  }
+
+  /**
+   * Disconnect a motor from the bus
+   */
+  removeMotor(motorId: number): void {
+    const motor = this.getMotor(motorId);
+    this.motors = this.motors.filter((m) => m !== motor);
+  }
+
+  /**
+   * Read a register of a simulated motor without bus traffic
+   */
+  getRegisterValue(motorId: number, register: DynamixelRegister): number {
+    const motor = this.getMotor(motorId);
+    this.update();
+    return this.readMemory(motor, register);
+  }
+
+  /**
+   * Write a register of a simulated motor without bus traffic
+   * Useful to inject temperatures, loads or voltages
+   */
+  setRegisterValue(
+    motorId: number,
+    register: DynamixelRegister,
+    value: number
+  ): void {
+    const motor = this.getMotor(motorId);
+    this.update();
+    const { address } = getDynamixelRegister(register);
+    this.writeMemory(motor, address, encodeDynamixelValue(register, value));
+  }
+
+  /**
+   * Move a motor by hand, as a user does during calibration
+   * Torque-enabled motors drive back toward their goal
+   */
+  setPresentPosition(motorId: number, position: number): void {
+    const motor = this.getMotor(motorId);
+    this.update();
+    motor.position = position;
+    this.storeRegister(motor, "Present_Position", Math.round(position));
+  }
+
+  /**
+   * Error field the motor reports in every status packet (0 for none)
+   */
+  setStatusError(motorId: number, error: number): void {
+    this.getMotor(motorId).statusError = error;
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    if (!this.opened) {
+      throw new Error("Port not open for writing");
+    }
+
+    for (const packet of this.parser.push(data)) {
+      if (this.random() < this.dropRate) continue;
+      this.handleInstruction(packet.id, packet.instruction, packet.parameters);
+    }
+  }
+
+  async read(timeout: number = 1000): Promise<Uint8Array> {
+    if (!this.opened) {
+      throw new Error("Port not open for reading");
+    }
+
+    if (!(await this.waitForData(timeout))) {
+      throw new Error("Read timeout");
+    }
+    return this.takeData();
+  }
+
+  async setBaudRate(baudRate: number): Promise<void> {
+    this.baudRate = baudRate;
+    this.rxBuffer = [];
+  }
+
+  /**
+   * Web Serial readable stream, used through WebSerialPortWrapper
+   */
+  get readable(): ReadableStream<Uint8Array> {
+    if (!this.readableStream) {
+      let cancelled = false;
+      this.readableStream = new ReadableStream<Uint8Array>(
+        {
+          pull: async (controller) => {
+            await this.waitForData();
+            // Leave the bytes to the next stream once the reader cancelled
+            if (cancelled) return;
+            controller.enqueue(this.takeData());
+          },
+          cancel: () => {
+            cancelled = true;
+          },
+        },
+        { highWaterMark: 0 } // Only pull while a reader is waiting
+      );
+    }
+    return this.readableStream;
+  }
+
+  /**
+   * Web Serial writable stream, used through WebSerialPortWrapper
+   */
+  get writable(): WritableStream<Uint8Array> {
+    if (!this.writableStream) {
+      this.writableStream = new WritableStream<Uint8Array>({
+        write: (chunk) => this.write(chunk),
+      });
+    }
+    return this.writableStream;
+  }
+
+  getInfo(): SerialPortInfo {
+    return {};
+  }
+
+  async open(options: SerialOptions): Promise<void> {
+    this.baudRate = options.baudRate;
+    this.opened = true;
+  }
+
+  async close(): Promise<void> {
+    this.opened = false;
+    this.rxBuffer = [];
+    // Like a real port, reopening creates new streams
+    this.readableStream = null;
+    this.writableStream = null;
+  }
+
+  /**
+   * Resolve true once bytes are waiting, false when the timeout expires
+   */
+  private waitForData(timeout?: number): Promise<boolean> {
+    if (this.rxBuffer.length > 0) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const listener = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          this.dataListeners = this.dataListeners.filter((l) => l !== listener);
+          resolve(false);
+        }, timeout);
+      }
+      this.dataListeners.push(listener);
+    });
+  }
+
+  /**
+   * Hand all waiting bytes to the caller
+   */
+  private takeData(): Uint8Array {
+    const bytes = new Uint8Array(this.rxBuffer);
+    this.rxBuffer = [];
+    return bytes;
+  }
+
+  private getMotor(motorId: number): SimulatedMotor {
+    // Motors are addressed by their ID register, which setup can change
+    const motor = this.motors.find((m) => this.readMemory(m, "ID") === motorId);
+    if (!motor) {
+      throw new Error(`No simulated motor with ID ${motorId}`);
+    }
+    return motor;
+  }
+
+  /**
+   * Motors that listen at the current baud rate, keyed by their ID register
+   */
+  private reachableMotors(): Map<number, SimulatedMotor> {
+    const reachable = new Map<number, SimulatedMotor>();
+    const baudIndex = DYNAMIXEL_BAUD_RATES[this.baudRate];
+
+    for (const motor of this.motors) {
+      if (this.readMemory(motor, "Baud_Rate") === baudIndex) {
+        reachable.set(this.readMemory(motor, "ID"), motor);
+      }
+    }
+    return reachable;
+  }
+
+  private handleInstruction(
+    id: number,
+    instruction: number,
+    parameters: Uint8Array
+  ): void {
+    this.update();
+    const motors = this.reachableMotors();
+    const params = Array.from(parameters);
+    const word = (offset: number) => params[offset] | (params[offset + 1] << 8);
+
+    switch (instruction) {
+      case DYNAMIXEL_PROTOCOL.PING_INSTRUCTION: {
+        for (const [motorId, motor] of motors) {
+          if (id === DYNAMIXEL_PROTOCOL.BROADCAST_ID || motorId === id) {
+            this.respond(motorId, motor, [
+              ...this.readBytes(motor, 0, 2), // Model_Number
+              this.readMemory(motor, "Firmware_Version"),
+            ]);
+          }
+        }
+        break;
+      }
+
+      case DYNAMIXEL_PROTOCOL.READ_INSTRUCTION: {
+        const motor = motors.get(id);
+        if (!motor) break;
+        this.respond(id, motor, this.readBytes(motor, word(0), word(2)));
+        break;
+      }
+
+      case DYNAMIXEL_PROTOCOL.WRITE_INSTRUCTION: {
+        const address = word(0);
+        const data = params.slice(2);
+        const addressed = motors.get(id);
+        const targets =
+          id === DYNAMIXEL_PROTOCOL.BROADCAST_ID
+            ? Array.from(motors.values())
+            : addressed
+              ? [addressed]
+              : [];
+
+        for (const motor of targets) {
+          const accepted = this.canWrite(motor, address);
+          if (accepted) {
+            this.writeMemory(motor, address, data);
+          }
+          // Broadcast writes are never answered
+          if (id !== DYNAMIXEL_PROTOCOL.BROADCAST_ID) {
+            this.respond(id, motor, [], accepted ? undefined : ACCESS_ERROR);
+          }
+        }
+        break;
+      }
+
+      case DYNAMIXEL_PROTOCOL.SYNC_READ_INSTRUCTION: {
+        const address = word(0);
+        const length = word(2);
+        for (const motorId of params.slice(4)) {
+          const motor = motors.get(motorId);
+          if (!motor) continue;
+          this.respond(motorId, motor, this.readBytes(motor, address, length));
+        }
+        break;
+      }
+
+      case DYNAMIXEL_PROTOCOL.SYNC_WRITE_INSTRUCTION: {
+        const address = word(0);
+        const length = word(2);
+        const entries = params.slice(4);
+        for (let i = 0; i + length < entries.length; i += length + 1) {
+          const motor = motors.get(entries[i]);
+          if (motor && this.canWrite(motor, address)) {
+            this.writeMemory(
+              motor,
+              address,
+              entries.slice(i + 1, i + 1 + length)
+            );
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * EEPROM registers only accept writes while torque is disabled
+   */
+  private canWrite(motor: SimulatedMotor, address: number): boolean {
+    return (
+      address >= DYNAMIXEL_CONTROL_TABLE.Torque_Enable.address ||
+      this.readMemory(motor, "Torque_Enable") === 0
+    );
+  }
+
+  /**
+   * Queue a status packet, delivered after the configured latency
+   */
+  private respond(
+    motorId: number,
+    motor: SimulatedMotor,
+    parameters: number[],
+    error: number = motor.statusError
+  ): void {
+    if (this.random() < this.dropRate) return;
+
+    const packet = createDynamixelPacket(
+      motorId,
+      DYNAMIXEL_PROTOCOL.STATUS_INSTRUCTION,
+      [error, ...parameters]
+    );
+    const baudRate = this.baudRate;
+
+    const deliver = () => {
+      // Answers sent at another baud rate never arrive
+      if (baudRate !== this.baudRate) return;
+      this.rxBuffer.push(...packet);
+      const listeners = this.dataListeners;
+      this.dataListeners = [];
+      listeners.forEach((listener) => listener());
+    };
+
+    if (this.latency > 0) {
+      setTimeout(deliver, this.latency);
+    } else {
+      deliver();
+    }
+  }
+
+  /**
+   * Store bytes written over the bus and apply their side effects
+   */
+  private writeMemory(
+    motor: SimulatedMotor,
+    address: number,
+    data: number[]
+  ): void {
+    const homingOffset = this.readMemory(motor, "Homing_Offset");
+    const torqueEnabled = this.readMemory(motor, "Torque_Enable");
+
+    motor.memory.set(
+      data.slice(0, Math.max(0, CONTROL_TABLE_SIZE - address)),
+      address
+    );
+
+    // Present_Position is reported as actual position plus Homing_Offset
+    const newOffset = this.readMemory(motor, "Homing_Offset");
+    if (newOffset !== homingOffset) {
+      motor.position += newOffset - homingOffset;
+      this.storeRegister(motor, "Goal_Position", Math.round(motor.position));
+    }
+
+    // Enabling torque holds the current position
+    if (torqueEnabled === 0 && this.readMemory(motor, "Torque_Enable") === 1) {
+      this.storeRegister(motor, "Goal_Position", Math.round(motor.position));
+    }
+
+    this.storeRegister(motor, "Present_Position", Math.round(motor.position));
+  }
+
+  /**
+   * Move torque-enabled motors toward their goal since the last update
+   * Position limits only apply in position mode, extended position mode
+   * follows goals over several turns
+   */
+  private update(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+
+    for (const motor of this.motors) {
+      let speed = 0;
+      let moving = false;
+
+      if (this.readMemory(motor, "Torque_Enable") === 1) {
+        let goal = this.readMemory(motor, "Goal_Position");
+        if (
+          this.readMemory(motor, "Operating_Mode") ===
+          DYNAMIXEL_PROTOCOL.POSITION_MODE
+        ) {
+          goal = Math.min(
+            Math.max(goal, this.readMemory(motor, "Min_Position_Limit")),
+            this.readMemory(motor, "Max_Position_Limit")
+          );
+        }
+        const step = Math.min(
+          Math.abs(goal - motor.position),
+          this.maxSpeed * elapsed
+        );
+        const direction = Math.sign(goal - motor.position);
+
+        motor.position += direction * step;
+        speed = elapsed > 0 ? (direction * step) / elapsed : 0;
+        if (Math.abs(goal - motor.position) < 0.5) {
+          motor.position = goal;
+        }
+        moving = motor.position !== goal;
+      }
+
+      this.storeRegister(motor, "Present_Position", Math.round(motor.position));
+      this.storeRegister(motor, "Present_Velocity", Math.round(speed));
+      this.storeRegister(motor, "Moving", moving ? 1 : 0);
+    }
+  }
+
+  private readBytes(
+    motor: SimulatedMotor,
+    address: number,
+    length: number
+  ): number[] {
+    return Array.from(motor.memory.subarray(address, address + length));
+  }
+
+  private readMemory(
+    motor: SimulatedMotor,
+    register: DynamixelRegister
+  ): number {
+    const { address, size } = DYNAMIXEL_CONTROL_TABLE[register];
+    return decodeDynamixelValue(
+      register,
+      motor.memory.subarray(address, address + size)
+    );
+  }
+
+  private storeRegister(
+    motor: SimulatedMotor,
+    register: DynamixelRegister,
+    value: number
+  ): void {
+    motor.memory.set(
+      encodeDynamixelValue(register, value),
+      DYNAMIXEL_CONTROL_TABLE[register].address
+    );
+  }
+}
@@ -0,0 +1,538 @@
+/**
+ * Simulated Motor Bus
+ * In-memory STS3215 servos behind the MotorCommunicationPort interface
+ */
+
+import { STS3215_BAUD_RATES, STS3215_PROTOCOL } from "./sts3215-protocol.js";
+import {
+  STS3215_CONTROL_TABLE,
+  decodeRegisterValue,
+  encodeRegisterValue,
+  getRegister,
+  type STS3215Register,
+} from "./sts3215-control-table.js";
+import { StatusPacketParser, calculateChecksum } from "./sts3215-packet.js";
+import type { MotorCommunicationPort } from "./motor-communication.js";
+import type {
+  SerialPort,
+  SerialPortInfo,
+  SerialOptions,
+} from "../types/robot-connection.js";
+import type {
+  SimulatedMotorConfig,
+  SimulatedMotorBusOptions,
+} from "../types/simulated-motor-bus.js";
+
+/**
+ * Size of the simulated control table memory
+ */
+const CONTROL_TABLE_SIZE = 128;
+
+/**
+ * State of one simulated motor
+ */
+interface SimulatedMotor {
+  memory: Uint8Array;
+  position: number; // Exact Present_Position, kept fractional between updates
+  statusError: number;
+}
+
+/**
+ * Simulated STS3215 bus for tests and demos without hardware
+ * Parses instruction packets, answers from an in-memory control table and
+ * moves torque-enabled motors toward their Goal_Position, or at their
+ * Goal_Speed in velocity mode
+ * Also a Web Serial SerialPort, so it can be used as RobotConnection.port
+ */
+export class SimulatedMotorBus implements MotorCommunicationPort, SerialPort {
+  private readableStream: ReadableStream<Uint8Array> | null = null;
+  private writableStream: WritableStream<Uint8Array> | null = null;
+  private motors: SimulatedMotor[] = [];
+  private parser = new StatusPacketParser();
+  private rxBuffer: number[] = [];
+  private dataListeners: (() => void)[] = [];
+  private baudRate: number;
+  private opened = true;
+  private lastUpdate = Date.now();
+  private readonly latency: number;
+  private readonly dropRate: number;
+  private readonly maxSpeed: number;
+  private readonly random: () => number;
+
+  constructor(options: SimulatedMotorBusOptions = {}) {
+    this.baudRate = options.baudRate ?? STS3215_PROTOCOL.DEFAULT_BAUD_RATE;
+    this.latency = options.latency ?? 0;
+    this.dropRate = options.dropRate ?? 0;
+    this.maxSpeed = options.maxSpeed ?? 3000;
+    this.random = options.random ?? Math.random;
+
+    for (const motor of options.motors ?? [1, 2, 3, 4, 5, 6]) {
+      this.addMotor(typeof motor === "number" ? { id: motor } : motor);
+    }
+  }
+
+  get isOpen(): boolean {
+    return this.opened;
+  }
+
+  /**
+   * Connect a motor to the bus with factory defaults
+   */
+  addMotor(config: SimulatedMotorConfig): void {
+    const motor: SimulatedMotor = {
+      memory: new Uint8Array(CONTROL_TABLE_SIZE),
+      position: config.position ?? 2047,
+      statusError: 0,
+    };
+    this.motors.push(motor);
+
+    const baudRate = config.baudRate ?? STS3215_PROTOCOL.DEFAULT_BAUD_RATE;
+    if (STS3215_BAUD_RATES[baudRate] === undefined) {
+      throw new Error(`Unsupported STS3215 baud rate ${baudRate}`);
+    }
+
+    const defaults: [STS3215Register, number][] = [
+      ["Firmware_Major_Version", 3],
+      ["Firmware_Minor_Version", 10],
+      ["Model_Number", config.modelNumber ?? STS3215_PROTOCOL.MODEL_NUMBER],
+      ["ID", config.id],
+      ["Baud_Rate", STS3215_BAUD_RATES[baudRate]],
+      ["Min_Position_Limit", 0],
+      ["Max_Position_Limit", STS3215_PROTOCOL.RESOLUTION - 1],
+      ["Max_Temperature_Limit", 70],
+      ["Max_Torque_Limit", 1000],
+      ["Torque_Limit", 1000],
+      ["Goal_Position", Math.round(motor.position)],
+      ["Present_Position", Math.round(motor.position)],
+      ["Present_Voltage", 120],
+      ["Present_Temperature", 25],
+    ];
+    for (const [register, value] of defaults) {
+      this.storeRegister(motor, register, value);
+    }
+  }
+
+  /**
+   * Disconnect a motor from the bus
+   */
+  removeMotor(motorId: number): void {
+    const motor = this.getMotor(motorId);
+    this.motors = this.motors.filter((m) => m !== motor);
+  }
+
+  /**
+   * Read a register of a simulated motor without bus traffic
+   */
+  getRegisterValue(motorId: number, register: STS3215Register): number {
+    const motor = this.getMotor(motorId);
+    this.update();
+    const { address, size } = getRegister(register);
+    return decodeRegisterValue(
+      register,
+      motor.memory.subarray(address, address + size)
+    );
+  }
+
+  /**
+   * Write a register of a simulated motor without bus traffic
+   * Useful to inject temperatures, loads or voltages
+   */
+  setRegisterValue(
+    motorId: number,
+    register: STS3215Register,
+    value: number
+  ): void {
+    const motor = this.getMotor(motorId);
+    this.update();
+    const { address } = getRegister(register);
+    this.writeMemory(motor, address, encodeRegisterValue(register, value));
+  }
+
+  /**
+   * Move a motor by hand, as a user does during calibration
+   * Torque-enabled motors drive back toward their goal
+   */
+  setPresentPosition(motorId: number, position: number): void {
+    const motor = this.getMotor(motorId);
+    this.update();
+    motor.position = position;
+    this.storeRegister(motor, "Present_Position", Math.round(position));
+  }
+
+  /**
+   * Error byte the motor reports in every status packet (0 for none)
+   */
+  setStatusError(motorId: number, error: number): void {
+    this.getMotor(motorId).statusError = error;
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    if (!this.opened) {
+      throw new Error("Port not open for writing");
+    }
+
+    // Instruction packets share the status packet framing,
+    // the error field holds the instruction
+    for (const packet of this.parser.push(data)) {
+      if (this.random() < this.dropRate) continue;
+      this.handleInstruction(packet.id, packet.error, packet.parameters);
+    }
+  }
+
+  async read(timeout: number = 1000): Promise<Uint8Array> {
+    if (!this.opened) {
+      throw new Error("Port not open for reading");
+    }
+
+    if (!(await this.waitForData(timeout))) {
+      throw new Error("Read timeout");
+    }
+    return this.takeData();
+  }
+
+  async setBaudRate(baudRate: number): Promise<void> {
+    this.baudRate = baudRate;
+    this.rxBuffer = [];
+  }
+
+  /**
+   * Web Serial readable stream, used through WebSerialPortWrapper
+   */
+  get readable(): ReadableStream<Uint8Array> {
+    if (!this.readableStream) {
+      let cancelled = false;
+      this.readableStream = new ReadableStream<Uint8Array>(
+        {
+          pull: async (controller) => {
+            await this.waitForData();
+            // Leave the bytes to the next stream once the reader cancelled
+            if (cancelled) return;
+            controller.enqueue(this.takeData());
+          },
+          cancel: () => {
+            cancelled = true;
+          },
+        },
+        { highWaterMark: 0 } // Only pull while a reader is waiting
+      );
+    }
+    return this.readableStream;
+  }
+
+  /**
+   * Web Serial writable stream, used through WebSerialPortWrapper
+   */
+  get writable(): WritableStream<Uint8Array> {
+    if (!this.writableStream) {
+      this.writableStream = new WritableStream<Uint8Array>({
+        write: (chunk) => this.write(chunk),
+      });
+    }
+    return this.writableStream;
+  }
+
+  getInfo(): SerialPortInfo {
+    return {};
+  }
+
+  async open(options: SerialOptions): Promise<void> {
+    this.baudRate = options.baudRate;
+    this.opened = true;
+  }
+
+  async close(): Promise<void> {
+    this.opened = false;
+    this.rxBuffer = [];
+    // Like a real port, reopening creates new streams
+    this.readableStream = null;
+    this.writableStream = null;
+  }
+
+  /**
+   * Resolve true once bytes are waiting, false when the timeout expires
+   */
+  private waitForData(timeout?: number): Promise<boolean> {
+    if (this.rxBuffer.length > 0) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const listener = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          this.dataListeners = this.dataListeners.filter((l) => l !== listener);
+          resolve(false);
+        }, timeout);
+      }
+      this.dataListeners.push(listener);
+    });
+  }
+
+  /**
+   * Hand all waiting bytes to the caller
+   */
+  private takeData(): Uint8Array {
+    const bytes = new Uint8Array(this.rxBuffer);
+    this.rxBuffer = [];
+    return bytes;
+  }
+
+  private getMotor(motorId: number): SimulatedMotor {
+    // Motors are addressed by their ID register, which setup can change
+    const motor = this.motors.find((m) => this.readMemory(m, "ID") === motorId);
+    if (!motor) {
+      throw new Error(`No simulated motor with ID ${motorId}`);
+    }
+    return motor;
+  }
+
+  /**
+   * Motors that listen at the current baud rate, keyed by their ID register
+   */
+  private reachableMotors(): Map<number, SimulatedMotor> {
+    const reachable = new Map<number, SimulatedMotor>();
+    const baudIndex = STS3215_BAUD_RATES[this.baudRate];
+
+    for (const motor of this.motors) {
+      if (this.readMemory(motor, "Baud_Rate") === baudIndex) {
+        reachable.set(this.readMemory(motor, "ID"), motor);
+      }
+    }
+    return reachable;
+  }
+
+  private handleInstruction(
+    id: number,
+    instruction: number,
+    parameters: Uint8Array
+  ): void {
+    this.update();
+    const motors = this.reachableMotors();
+
+    switch (instruction) {
+      case STS3215_PROTOCOL.PING_INSTRUCTION: {
+        for (const [motorId, motor] of motors) {
+          if (id === STS3215_PROTOCOL.BROADCAST_ID || motorId === id) {
+            this.respond(motorId, motor, []);
+          }
+        }
+        break;
+      }
+
+      case STS3215_PROTOCOL.READ_DATA_INSTRUCTION: {
+        const motor = motors.get(id);
+        if (!motor) break;
+        const [address, length] = parameters;
+        this.respond(
+          id,
+          motor,
+          Array.from(motor.memory.subarray(address, address + length))
+        );
+        break;
+      }
+
+      case STS3215_PROTOCOL.WRITE_DATA_INSTRUCTION: {
+        const [address, ...data] = Array.from(parameters);
+        const addressed = motors.get(id);
+        const targets =
+          id === STS3215_PROTOCOL.BROADCAST_ID
+            ? Array.from(motors.values())
+            : addressed
+              ? [addressed]
+              : [];
+        for (const motor of targets) {
+          this.writeMemory(motor, address, data);
+        }
+        // Broadcast writes are never answered
+        if (targets.length === 1 && id !== STS3215_PROTOCOL.BROADCAST_ID) {
+          this.respond(this.readMemory(targets[0], "ID"), targets[0], []);
+        }
+        break;
+      }
+
+      case STS3215_PROTOCOL.SYNC_READ_INSTRUCTION: {
+        const [address, length, ...ids] = Array.from(parameters);
+        for (const motorId of ids) {
+          const motor = motors.get(motorId);
+          if (!motor) continue;
+          this.respond(
+            motorId,
+            motor,
+            Array.from(motor.memory.subarray(address, address + length))
+          );
+        }
+        break;
+      }
+
+      case STS3215_PROTOCOL.SYNC_WRITE_INSTRUCTION: {
+        const [address, length, ...entries] = Array.from(parameters);
+        for (let i = 0; i + length < entries.length; i += length + 1) {
+          const motor = motors.get(entries[i]);
+          if (motor) {
+            this.writeMemory(
+              motor,
+              address,
+              entries.slice(i + 1, i + 1 + length)
+            );
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Queue a status packet, delivered after the configured latency
+   */
+  private respond(
+    motorId: number,
+    motor: SimulatedMotor,
+    parameters: number[]
+  ): void {
+    if (this.random() < this.dropRate) return;
+
+    const body = [
+      motorId,
+      parameters.length + 2,
+      motor.statusError,
+      ...parameters,
+    ];
+    const packet = [0xff, 0xff, ...body, calculateChecksum(body)];
+    const baudRate = this.baudRate;
+
+    const deliver = () => {
+      // Answers sent at another baud rate never arrive
+      if (baudRate !== this.baudRate) return;
+      this.rxBuffer.push(...packet);
+      const listeners = this.dataListeners;
+      this.dataListeners = [];
+      listeners.forEach((listener) => listener());
+    };
+
+    if (this.latency > 0) {
+      setTimeout(deliver, this.latency);
+    } else {
+      deliver();
+    }
+  }
+
+  /**
+   * Store bytes written over the bus and apply their side effects
+   */
+  private writeMemory(
+    motor: SimulatedMotor,
+    address: number,
+    data: number[]
+  ): void {
+    const homingOffset = this.readMemory(motor, "Homing_Offset");
+    const torqueEnabled = this.readMemory(motor, "Torque_Enable");
+
+    motor.memory.set(
+      data.slice(0, Math.max(0, CONTROL_TABLE_SIZE - address)),
+      address
+    );
+
+    // Present_Position is reported relative to Homing_Offset
+    const newOffset = this.readMemory(motor, "Homing_Offset");
+    if (newOffset !== homingOffset) {
+      motor.position = this.wrapPosition(
+        motor.position + homingOffset - newOffset
+      );
+      this.storeRegister(motor, "Goal_Position", Math.round(motor.position));
+    }
+
+    // Enabling torque holds the current position
+    if (torqueEnabled === 0 && this.readMemory(motor, "Torque_Enable") === 1) {
+      this.storeRegister(motor, "Goal_Position", Math.round(motor.position));
+    }
+
+    this.storeRegister(motor, "Present_Position", Math.round(motor.position));
+  }
+
+  /**
+   * Move torque-enabled motors toward their goal since the last update
+   * Motors in velocity mode turn at their Goal_Speed instead
+   */
+  private update(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+
+    for (const motor of this.motors) {
+      let speed = 0;
+      let moving = false;
+
+      const torqueEnabled = this.readMemory(motor, "Torque_Enable") === 1;
+      const velocityMode =
+        this.readMemory(motor, "Operating_Mode") ===
+        STS3215_PROTOCOL.VELOCITY_MODE;
+
+      if (torqueEnabled && velocityMode) {
+        // Wheels turn at Goal_Speed without a target position
+        const goalSpeed = this.readMemory(motor, "Goal_Speed");
+        speed =
+          Math.sign(goalSpeed) * Math.min(Math.abs(goalSpeed), this.maxSpeed);
+        motor.position = this.wrapPosition(motor.position + speed * elapsed);
+        moving = speed !== 0;
+      } else if (torqueEnabled) {
+        const goal = Math.min(
+          Math.max(
+            this.readMemory(motor, "Goal_Position"),
+            this.readMemory(motor, "Min_Position_Limit")
+          ),
+          this.readMemory(motor, "Max_Position_Limit")
+        );
+        const goalSpeed = Math.abs(this.readMemory(motor, "Goal_Speed"));
+        const maxSpeed =
+          goalSpeed > 0 ? Math.min(goalSpeed, this.maxSpeed) : this.maxSpeed;
+        const step = Math.min(
+          Math.abs(goal - motor.position),
+          maxSpeed * elapsed
+        );
+        const direction = Math.sign(goal - motor.position);
+
+        motor.position += direction * step;
+        speed = elapsed > 0 ? (direction * step) / elapsed : 0;
+        if (Math.abs(goal - motor.position) < 0.5) {
+          motor.position = goal;
+        }
+        moving = motor.position !== goal;
+      }
+
+      this.storeRegister(motor, "Present_Position", Math.round(motor.position));
+      this.storeRegister(
+        motor,
+        "Present_Speed",
+        Math.max(-0x7fff, Math.min(0x7fff, Math.round(speed)))
+      );
+      this.storeRegister(motor, "Moving", moving ? 1 : 0);
+    }
+  }
+
+  private wrapPosition(position: number): number {
+    const resolution = STS3215_PROTOCOL.RESOLUTION;
+    return ((position % resolution) + resolution) % resolution;
+  }
+
+  private readMemory(motor: SimulatedMotor, register: STS3215Register): number {
+    const { address, size } = STS3215_CONTROL_TABLE[register];
+    return decodeRegisterValue(
+      register,
+      motor.memory.subarray(address, address + size)
+    );
+  }
+
+  private storeRegister(
+    motor: SimulatedMotor,
+    register: STS3215Register,
+    value: number
+  ): void {
+    motor.memory.set(
+      encodeRegisterValue(register, value),
+      STS3215_CONTROL_TABLE[register].address
+    );
+  }
+}
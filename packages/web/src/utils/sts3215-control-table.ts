@@ -0,0 +1,141 @@
+/**
+ * STS3215 Control Table
+ * Register map of Feetech STS3215 servos with typed value encoding
+ */
+
+import { encodeSignMagnitude, decodeSignMagnitude } from "./sign-magnitude.js";
+
+/**
+ * Register access mode
+ */
+export type RegisterAccess = "R" | "RW";
+
+/**
+ * Memory area of a register
+ * EEPROM values persist across power cycles and require Lock=0 to write
+ */
+export type RegisterMemory = "EEPROM" | "RAM";
+
+/**
+ * Definition of a single control table register
+ */
+export interface RegisterDefinition {
+  address: number;
+  size: 1 | 2;
+  access: RegisterAccess;
+  memory: RegisterMemory;
+  signBit?: number; // Sign-magnitude encoded when set
+}
+
+function defineControlTable<T extends Record<string, RegisterDefinition>>(
+  table: T
+): T {
+  return table;
+}
+
+/**
+ * STS3215 control table
+ * Register names follow the Python lerobot Feetech control table
+ */
+export const STS3215_CONTROL_TABLE = defineControlTable({
+  // EEPROM area
+  Firmware_Major_Version: { address: 0, size: 1, access: "R", memory: "EEPROM" },
+  Firmware_Minor_Version: { address: 1, size: 1, access: "R", memory: "EEPROM" },
+  Model_Number: { address: 3, size: 2, access: "R", memory: "EEPROM" },
+  ID: { address: 5, size: 1, access: "RW", memory: "EEPROM" },
+  Baud_Rate: { address: 6, size: 1, access: "RW", memory: "EEPROM" },
+  Return_Delay_Time: { address: 7, size: 1, access: "RW", memory: "EEPROM" },
+  Response_Status_Level: { address: 8, size: 1, access: "RW", memory: "EEPROM" },
+  Min_Position_Limit: { address: 9, size: 2, access: "RW", memory: "EEPROM" },
+  Max_Position_Limit: { address: 11, size: 2, access: "RW", memory: "EEPROM" },
+  Max_Temperature_Limit: { address: 13, size: 1, access: "RW", memory: "EEPROM" },
+  Max_Voltage_Limit: { address: 14, size: 1, access: "RW", memory: "EEPROM" },
+  Min_Voltage_Limit: { address: 15, size: 1, access: "RW", memory: "EEPROM" },
+  Max_Torque_Limit: { address: 16, size: 2, access: "RW", memory: "EEPROM" },
+  Phase: { address: 18, size: 1, access: "RW", memory: "EEPROM" },
+  Unloading_Condition: { address: 19, size: 1, access: "RW", memory: "EEPROM" },
+  LED_Alarm_Condition: { address: 20, size: 1, access: "RW", memory: "EEPROM" },
+  P_Coefficient: { address: 21, size: 1, access: "RW", memory: "EEPROM" },
+  D_Coefficient: { address: 22, size: 1, access: "RW", memory: "EEPROM" },
+  I_Coefficient: { address: 23, size: 1, access: "RW", memory: "EEPROM" },
+  Minimum_Startup_Force: { address: 24, size: 2, access: "RW", memory: "EEPROM" },
+  CW_Dead_Zone: { address: 26, size: 1, access: "RW", memory: "EEPROM" },
+  CCW_Dead_Zone: { address: 27, size: 1, access: "RW", memory: "EEPROM" },
+  Protection_Current: { address: 28, size: 2, access: "RW", memory: "EEPROM" },
+  Angular_Resolution: { address: 30, size: 1, access: "RW", memory: "EEPROM" },
+  Homing_Offset: { address: 31, size: 2, access: "RW", memory: "EEPROM", signBit: 11 },
+  Operating_Mode: { address: 33, size: 1, access: "RW", memory: "EEPROM" },
+  Protective_Torque: { address: 34, size: 1, access: "RW", memory: "EEPROM" },
+  Protection_Time: { address: 35, size: 1, access: "RW", memory: "EEPROM" },
+  Overload_Torque: { address: 36, size: 1, access: "RW", memory: "EEPROM" },
+  Velocity_P_Coefficient: { address: 37, size: 1, access: "RW", memory: "EEPROM" },
+  Over_Current_Protection_Time: { address: 38, size: 1, access: "RW", memory: "EEPROM" },
+  Velocity_I_Coefficient: { address: 39, size: 1, access: "RW", memory: "EEPROM" },
+
+  // RAM area
+  Torque_Enable: { address: 40, size: 1, access: "RW", memory: "RAM" },
+  Acceleration: { address: 41, size: 1, access: "RW", memory: "RAM" },
+  Goal_Position: { address: 42, size: 2, access: "RW", memory: "RAM" },
+  Goal_Time: { address: 44, size: 2, access: "RW", memory: "RAM" },
+  Goal_Speed: { address: 46, size: 2, access: "RW", memory: "RAM", signBit: 15 },
+  Torque_Limit: { address: 48, size: 2, access: "RW", memory: "RAM" },
+  Lock: { address: 55, size: 1, access: "RW", memory: "RAM" },
+  Present_Position: { address: 56, size: 2, access: "R", memory: "RAM" },
+  Present_Speed: { address: 58, size: 2, access: "R", memory: "RAM", signBit: 15 },
+  Present_Load: { address: 60, size: 2, access: "R", memory: "RAM", signBit: 10 },
+  Present_Voltage: { address: 62, size: 1, access: "R", memory: "RAM" },
+  Present_Temperature: { address: 63, size: 1, access: "R", memory: "RAM" },
+  Status: { address: 65, size: 1, access: "R", memory: "RAM" },
+  Moving: { address: 66, size: 1, access: "R", memory: "RAM" },
+  Present_Current: { address: 69, size: 2, access: "R", memory: "RAM" },
+});
+
+export type STS3215Register = keyof typeof STS3215_CONTROL_TABLE;
+
+/**
+ * Look up a register definition by name
+ */
+export function getRegister(register: STS3215Register): RegisterDefinition {
+  const definition: RegisterDefinition | undefined =
+    STS3215_CONTROL_TABLE[register];
+  if (!definition) {
+    throw new Error(`Unknown STS3215 register: ${register}`);
+  }
+  return definition;
+}
+
+/**
+ * Encode a register value into little-endian bytes
+ * Applies sign-magnitude encoding for signed registers
+ */
+export function encodeRegisterValue(
+  register: STS3215Register,
+  value: number
+): number[] {
+  const { size, signBit } = getRegister(register);
+  const rounded = Math.round(value);
+  const raw =
+    signBit !== undefined ? encodeSignMagnitude(rounded, signBit) : rounded;
+
+  const maxValue = size === 1 ? 0xff : 0xffff;
+  if (raw < 0 || raw > maxValue) {
+    throw new Error(
+      `Value ${value} does not fit in ${size}-byte register ${register}`
+    );
+  }
+
+  return size === 1 ? [raw] : [raw & 0xff, (raw >> 8) & 0xff];
+}
+
+/**
+ * Decode little-endian register bytes into a value
+ * Applies sign-magnitude decoding for signed registers
+ */
+export function decodeRegisterValue(
+  register: STS3215Register,
+  bytes: ArrayLike<number>
+): number {
+  const { size, signBit } = getRegister(register);
+  const raw = size === 1 ? bytes[0] : bytes[0] | (bytes[1] << 8);
+  return signBit !== undefined ? decodeSignMagnitude(raw, signBit) : raw;
+}
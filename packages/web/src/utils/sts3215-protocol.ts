@@ -3,9 +3,12 @@
  * Single source of truth for all STS3215 motor communication
  */
 
+import type { RobotHardwareConfig } from "../types/robot-config.js";
+
 /**
  * STS3215 Protocol Configuration
  * Register addresses, timing, and communication constants
+ * See STS3215_CONTROL_TABLE for the complete register map
  */
 export const STS3215_PROTOCOL = {
   // Register addresses
@@ -16,19 +19,64 @@ export const STS3215_PROTOCOL = {
   MAX_POSITION_LIMIT_ADDRESS: 11,
   TORQUE_ENABLE_ADDRESS: 40, // Torque Enable register (0=disable, 1=enable)
 
+  // Instructions
+  PING_INSTRUCTION: 0x01,
+  READ_DATA_INSTRUCTION: 0x02,
+  WRITE_DATA_INSTRUCTION: 0x03,
+  SYNC_READ_INSTRUCTION: 0x82, // Read the same register from several motors
+  SYNC_WRITE_INSTRUCTION: 0x83, // Write the same register on several motors
+  BROADCAST_ID: 0xfe, // Addresses every motor on the bus
+
   // Protocol constants
+  MODEL_NUMBER: 777, // Model_Number reported by STS3215 servos
+  DEFAULT_BAUD_RATE: 1000000,
   RESOLUTION: 4096, // 12-bit resolution (0-4095)
   SIGN_MAGNITUDE_BIT: 11, // Bit 11 is sign bit for Homing_Offset encoding
+  POSITION_MODE: 0, // Operating_Mode following Goal_Position
+  VELOCITY_MODE: 1, // Operating_Mode following Goal_Speed (wheels)
 
   // Data lengths
   HOMING_OFFSET_LENGTH: 2,
   PRESENT_POSITION_LENGTH: 2,
   MIN_POSITION_LIMIT_LENGTH: 2,
   MAX_POSITION_LIMIT_LENGTH: 2,
+  GOAL_POSITION_LENGTH: 2,
+  STATUS_PACKET_OVERHEAD: 6, // Header (2) + ID + Length + Error + Checksum
 
   // Communication timing
   WRITE_TO_READ_DELAY: 10,
   RETRY_DELAY: 20,
   INTER_MOTOR_DELAY: 10,
   MAX_RETRIES: 3,
+  PING_TIMEOUT: 50, // Single attempt per ID when scanning the bus
 } as const;
+
+/**
+ * Supported bus baud rates and their Baud_Rate register values
+ */
+export const STS3215_BAUD_RATES: { [baudRate: number]: number } = {
+  1000000: 0,
+  500000: 1,
+  250000: 2,
+  128000: 3,
+  115200: 4,
+  57600: 5,
+  38400: 6,
+  19200: 7,
+};
+
+/**
+ * Register layout shared by all STS3215 based robot configurations
+ */
+export const STS3215_HARDWARE_PROTOCOL: RobotHardwareConfig["protocol"] = {
+  resolution: STS3215_PROTOCOL.RESOLUTION,
+  homingOffsetAddress: STS3215_PROTOCOL.HOMING_OFFSET_ADDRESS,
+  homingOffsetLength: STS3215_PROTOCOL.HOMING_OFFSET_LENGTH,
+  presentPositionAddress: STS3215_PROTOCOL.PRESENT_POSITION_ADDRESS,
+  presentPositionLength: STS3215_PROTOCOL.PRESENT_POSITION_LENGTH,
+  minPositionLimitAddress: STS3215_PROTOCOL.MIN_POSITION_LIMIT_ADDRESS,
+  minPositionLimitLength: STS3215_PROTOCOL.MIN_POSITION_LIMIT_LENGTH,
+  maxPositionLimitAddress: STS3215_PROTOCOL.MAX_POSITION_LIMIT_ADDRESS,
+  maxPositionLimitLength: STS3215_PROTOCOL.MAX_POSITION_LIMIT_LENGTH,
+  signMagnitudeBit: STS3215_PROTOCOL.SIGN_MAGNITUDE_BIT,
+};
@@ -0,0 +1,238 @@
+/**
+ * WebSocket Port Wrapper
+ * MotorsBus of a remote machine, served by `lerobot serve-bus`
+ */
+
+import type { MotorCommunicationPort } from "./motor-communication.js";
+import type { StatusPacket } from "./sts3215-packet.js";
+import { SerialReadBuffer } from "./serial-read-buffer.js";
+import type {
+  SerialPort,
+  SerialPortInfo,
+  SerialOptions,
+} from "../types/robot-connection.js";
+import type {
+  BusBridgeMessage,
+  WebSocketPortOptions,
+} from "../types/websocket-port.js";
+
+const DEFAULT_TIMEOUT = 5000;
+const WEBSOCKET_OPEN = 1; // WebSocket.OPEN
+
+/**
+ * Remote serial port over WebSocket
+ * Works without Web Serial support, e.g. on Firefox, Safari or tablets
+ * Also a Web Serial SerialPort, so it can be used as RobotConnection.port
+ * for calibrate(), teleoperate() and recording
+ */
+export class WebSocketPortWrapper
+  implements MotorCommunicationPort, SerialPort
+{
+  readonly url: string;
+  private socket: WebSocket | null = null;
+  private socketClosed: Promise<void> = Promise.resolve();
+  private buffer = new SerialReadBuffer();
+  private messageListeners: ((message: BusBridgeMessage) => void)[] = [];
+  private readableStream: ReadableStream<Uint8Array> | null = null;
+  private writableStream: WritableStream<Uint8Array> | null = null;
+  private readonly timeout: number;
+  private readonly createWebSocket: (url: string) => WebSocket;
+
+  constructor(url: string, options: WebSocketPortOptions = {}) {
+    this.url = url;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.createWebSocket =
+      options.createWebSocket ?? ((socketUrl) => new WebSocket(socketUrl));
+  }
+
+  get isOpen(): boolean {
+    return this.socket !== null && this.socket.readyState === WEBSOCKET_OPEN;
+  }
+
+  /**
+   * Connect to the bridge, optionally switching the bus baud rate
+   */
+  async open(options?: SerialOptions): Promise<void> {
+    if (!this.isOpen) {
+      await this.connect();
+    }
+    if (options?.baudRate) {
+      await this.setBaudRate(options.baudRate);
+    }
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    if (!this.socket || !this.isOpen) {
+      throw new Error("Port not open for writing");
+    }
+    this.socket.send(data);
+  }
+
+  /**
+   * Return all buffered bytes, waiting up to timeout for the first one
+   */
+  async read(timeout: number = 1000): Promise<Uint8Array> {
+    return this.buffer.read(timeout);
+  }
+
+  /**
+   * Return exactly n bytes, waiting up to timeout for all of them
+   */
+  async readExact(n: number, timeout: number = 1000): Promise<Uint8Array> {
+    return this.buffer.readExact(n, timeout);
+  }
+
+  /**
+   * Return the next complete status packet, waiting up to timeout
+   */
+  async readPacket(timeout: number = 1000): Promise<StatusPacket> {
+    return this.buffer.readPacket(timeout);
+  }
+
+  /**
+   * Change the baud rate of the remote bus
+   */
+  async setBaudRate(baudRate: number): Promise<void> {
+    if (!this.socket || !this.isOpen) {
+      throw new Error("Port not open");
+    }
+
+    const reply = this.nextMessage();
+    this.socket.send(JSON.stringify({ type: "setBaudRate", baudRate }));
+    const message = await reply;
+
+    if (message.type === "error") {
+      throw new Error(`Failed to set baud rate: ${message.message}`);
+    }
+    // Bytes received at the old rate are garbage now
+    this.buffer.clear();
+  }
+
+  /**
+   * Web Serial readable stream, used through WebSerialPortWrapper
+   */
+  get readable(): ReadableStream<Uint8Array> {
+    if (!this.readableStream) {
+      this.readableStream = new ReadableStream<Uint8Array>(
+        {
+          pull: async (controller) => {
+            for (;;) {
+              try {
+                controller.enqueue(await this.buffer.read(this.timeout));
+                return;
+              } catch (error) {
+                if (!this.isOpen) {
+                  controller.close();
+                  return;
+                }
+                // Read timeout - keep waiting while connected
+              }
+            }
+          },
+        },
+        { highWaterMark: 0 } // Only pull while a reader is waiting
+      );
+    }
+    return this.readableStream;
+  }
+
+  /**
+   * Web Serial writable stream, used through WebSerialPortWrapper
+   */
+  get writable(): WritableStream<Uint8Array> {
+    if (!this.writableStream) {
+      this.writableStream = new WritableStream<Uint8Array>({
+        write: (chunk) => this.write(chunk),
+      });
+    }
+    return this.writableStream;
+  }
+
+  getInfo(): SerialPortInfo {
+    return {};
+  }
+
+  /**
+   * Close the connection and wait until the bridge released the bus
+   */
+  async close(): Promise<void> {
+    if (this.socket) {
+      this.socket.close();
+      await Promise.race([
+        this.socketClosed,
+        new Promise((resolve) => setTimeout(resolve, this.timeout)),
+      ]);
+    }
+    this.socket = null;
+    this.buffer.fail(new Error("Read failed - port closed or no data"));
+    // Like a serial port, reopening creates new streams
+    this.readableStream = null;
+    this.writableStream = null;
+  }
+
+  private connect(): Promise<void> {
+    const socket = this.createWebSocket(this.url);
+    socket.binaryType = "arraybuffer";
+    this.socket = socket;
+    this.buffer.clear();
+
+    let markClosed: () => void;
+    this.socketClosed = new Promise((resolve) => {
+      markClosed = resolve;
+    });
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data === "string") {
+        const message = JSON.parse(event.data) as BusBridgeMessage;
+        const listeners = this.messageListeners;
+        this.messageListeners = [];
+        listeners.forEach((listener) => listener(message));
+      } else {
+        this.buffer.push(new Uint8Array(event.data as ArrayBuffer));
+      }
+    };
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.close();
+        reject(new Error(`Timed out connecting to ${this.url}`));
+      }, this.timeout);
+
+      socket.onopen = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      socket.onerror = () => {
+        clearTimeout(timer);
+        reject(new Error(`Could not connect to ${this.url}`));
+      };
+      socket.onclose = (event: CloseEvent) => {
+        clearTimeout(timer);
+        markClosed();
+        if (this.socket === socket) {
+          this.socket = null;
+          this.buffer.fail(
+            new Error(`Connection to ${this.url} closed: ${event.reason}`)
+          );
+        }
+        reject(new Error(`Connection to ${this.url} closed: ${event.reason}`));
+      };
+    });
+  }
+
+  private nextMessage(): Promise<BusBridgeMessage> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.messageListeners = this.messageListeners.filter(
+          (l) => l !== listener
+        );
+        reject(new Error(`No answer from ${this.url}`));
+      }, this.timeout);
+      const listener = (message: BusBridgeMessage) => {
+        clearTimeout(timer);
+        resolve(message);
+      };
+      this.messageListeners.push(listener);
+    });
+  }
+}
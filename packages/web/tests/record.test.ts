@@ -4,8 +4,9 @@ import { LeRobotDatasetRecorder } from "../src/record";
 import { WebTeleoperator } from "../../web/src/teleoperators/base-teleoperator";
 
 // Mock the WebTeleoperator class
-vi.mock("../../web/src/teleoperators/base-teleoperator", () => {
+vi.mock("../../web/src/teleoperators/base-teleoperator", async (importOriginal) => {
   return {
+    ...(await importOriginal<object>()),
     WebTeleoperator: vi.fn().mockImplementation(() => {
       return {
         startRecording: vi.fn(),
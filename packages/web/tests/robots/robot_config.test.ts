@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  getRobotConfig,
+  listRobotTypes,
+  registerRobot,
+} from "../../src/robots/robot_config.js";
+import { fullTurnMotors } from "../../src/robots/calibration_hooks.js";
+import { STS3215_HARDWARE_PROTOCOL } from "../../src/utils/sts3215-protocol.js";
+
+describe("getRobotConfig", () => {
+  it("should create SO-101 configurations", () => {
+    const follower = getRobotConfig("so101_follower");
+    const leader = getRobotConfig("so101_leader");
+
+    expect(follower.deviceType).toBe("so101_follower");
+    expect(leader.deviceType).toBe("so101_leader");
+    expect(follower.motorIds).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(follower.normModes[5]).toBe("range_0_100");
+    expect(follower.keyboardControls.o.motor).toBe("gripper");
+  });
+
+  it("should give every motor a drive mode and normalization mode", () => {
+    for (const robotType of ["so100_follower", "so101_leader"]) {
+      const config = getRobotConfig(robotType);
+      expect(config.driveModes).toHaveLength(config.motorNames.length);
+      expect(config.normModes).toHaveLength(config.motorNames.length);
+    }
+  });
+
+  it("should reject unknown robot types", () => {
+    expect(() => getRobotConfig("aloha_follower")).toThrow(
+      "Unsupported robot type: aloha_follower"
+    );
+  });
+
+  it("should give the SO-100 wrist_roll the full range", () => {
+    const config = getRobotConfig("so100_follower");
+    const rangeMins = { wrist_roll: 1200, gripper: 2000 };
+    const rangeMaxes = { wrist_roll: 2900, gripper: 3300 };
+
+    config.calibration?.adjustRanges?.(rangeMins, rangeMaxes, config.protocol);
+
+    expect(rangeMins).toEqual({ wrist_roll: 0, gripper: 2000 });
+    expect(rangeMaxes).toEqual({ wrist_roll: 4095, gripper: 3300 });
+  });
+
+  it("should keep the recorded SO-101 wrist_roll range", () => {
+    const config = getRobotConfig("so101_follower");
+    const rangeMins = { wrist_roll: 1200, gripper: 2000 };
+    const rangeMaxes = { wrist_roll: 2900, gripper: 3300 };
+
+    config.calibration?.adjustRanges?.(rangeMins, rangeMaxes, config.protocol);
+
+    expect(rangeMins).toEqual({ wrist_roll: 1200, gripper: 2000 });
+    expect(rangeMaxes).toEqual({ wrist_roll: 2900, gripper: 3300 });
+  });
+});
+
+describe("registerRobot", () => {
+  const createArmConfig = (robotType: string) => ({
+    deviceType: robotType,
+    motorNames: ["base", "elbow", "gripper"],
+    motorIds: [1, 2, 3],
+    driveModes: [0, 0, 0],
+    normModes: [
+      "range_m100_100" as const,
+      "range_m100_100" as const,
+      "range_0_100" as const,
+    ],
+    keyboardControls: {},
+    protocol: STS3215_HARDWARE_PROTOCOL,
+    calibration: fullTurnMotors(["base"]),
+  });
+
+  it("should add third-party robot types", () => {
+    registerRobot("test_arm", createArmConfig);
+
+    expect(listRobotTypes()).toContain("test_arm");
+    expect(getRobotConfig("test_arm").motorNames).toEqual([
+      "base",
+      "elbow",
+      "gripper",
+    ]);
+  });
+
+  it("should refuse to register a type twice", () => {
+    expect(() => registerRobot("so100_follower", createArmConfig)).toThrow(
+      "Robot type already registered: so100_follower"
+    );
+  });
+
+  it("should reject configurations with mismatched motor lists", () => {
+    registerRobot("broken_arm", (robotType) => ({
+      ...createArmConfig(robotType),
+      motorIds: [1, 2],
+    }));
+
+    expect(() => getRobotConfig("broken_arm")).toThrow(
+      "Invalid configuration for broken_arm"
+    );
+  });
+});
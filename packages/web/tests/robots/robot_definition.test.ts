@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRobotConfigFromDefinition,
+  registerRobotDefinition,
+  RobotDefinitionError,
+} from "../../src/robots/robot_definition.js";
+import { getRobotConfig } from "../../src/robots/robot_config.js";
+
+const FIVE_DOF_ARM = {
+  type: "lab_arm_5dof",
+  motors: [
+    { name: "base", id: 1, model: "sts3215", full_turn: true },
+    { name: "shoulder", id: 2, model: "sts3215" },
+    { name: "elbow", id: 3, model: "sts3215", drive_mode: 1 },
+    { name: "wrist", id: 4, model: "sts3215", norm_mode: "degrees" },
+    { name: "gripper", id: 5, model: "sts3215", norm_mode: "range_0_100" },
+  ],
+  keyboard: {
+    ArrowUp: { motor: "shoulder", direction: 1, description: "Shoulder up" },
+  },
+};
+
+function collectIssues(value: unknown): string[] {
+  try {
+    createRobotConfigFromDefinition(value);
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(RobotDefinitionError);
+    return (error as RobotDefinitionError).issues;
+  }
+}
+
+describe("robot definitions", () => {
+  it("should register a 5-DOF arm from an object", () => {
+    const robotType = registerRobotDefinition(FIVE_DOF_ARM);
+    const config = getRobotConfig(robotType);
+
+    expect(config.motorNames).toEqual([
+      "base",
+      "shoulder",
+      "elbow",
+      "wrist",
+      "gripper",
+    ]);
+    expect(config.driveModes).toEqual([0, 0, 1, 0, 0]);
+    expect(config.normModes).toEqual([
+      "range_m100_100",
+      "range_m100_100",
+      "range_m100_100",
+      "degrees",
+      "range_0_100",
+    ]);
+    expect(config.defaultLimits).toBeUndefined();
+    expect(config.protocol.resolution).toBe(4096);
+    expect(config.keyboardControls.ArrowUp.motor).toBe("shoulder");
+  });
+
+  it("should report schema violations with their path", () => {
+    expect(collectIssues({ type: "arm", motors: [] })).toEqual([
+      "$.motors: must have at least 1 items",
+    ]);
+
+    expect(
+      collectIssues({
+        type: "arm",
+        motors: [{ name: "base", id: 300, model: "sts3215", speed: 1 }],
+      })
+    ).toEqual([
+      "$.motors[0].id: must be <= 252",
+      "$.motors[0].speed: unknown property",
+    ]);
+  });
+
+  it("should reject inconsistent definitions", () => {
+    const issues = collectIssues({
+      type: "arm",
+      motors: [
+        { name: "base", id: 1, model: "sts3215" },
+        { name: "base", id: 1, model: "sts3250" },
+        {
+          name: "wrist",
+          id: 3,
+          model: "sts3215",
+          limits: { min: 3000, max: 5000 },
+        },
+      ],
+      keyboard: { w: { motor: "elbow", direction: 1 } },
+    });
+
+    expect(issues).toEqual([
+      '$.motors[1].name: duplicate motor name "base"',
+      "$.motors[1].id: duplicate motor id 1",
+      "$.motors[1].model: all motors must share one model (found sts3250 and sts3215)",
+      "$.motors[2].limits.max: must be <= 4095",
+      '$.keyboard.w.motor: unknown motor "elbow"',
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import { DirectTeleoperator } from "../../src/teleoperators/direct-teleoperator.js";
+import { BimanualTeleoperator } from "../../src/teleoperators/bimanual-teleoperator.js";
+import { SO100_CONFIG } from "../../src/robots/so100_config.js";
+import type { StateUpdateCallbackParams } from "../../src/teleoperators/base-teleoperator.js";
+import type { MotorConfig } from "../../src/types/teleoperation.js";
+
+function so100MotorConfigs(): MotorConfig[] {
+  return SO100_CONFIG.motorNames.map((name, i) => ({
+    id: SO100_CONFIG.motorIds[i],
+    name,
+    currentPosition: 2048,
+    minPosition: 0,
+    maxPosition: 4095,
+  }));
+}
+
+function createArms() {
+  const leftBus = new SimulatedMotorBus();
+  const rightBus = new SimulatedMotorBus();
+  const left = new DirectTeleoperator(
+    { type: "direct" },
+    leftBus,
+    so100MotorConfigs()
+  );
+  const right = new DirectTeleoperator(
+    { type: "direct" },
+    rightBus,
+    so100MotorConfigs()
+  );
+  return { leftBus, rightBus, left, right };
+}
+
+describe("BimanualTeleoperator", () => {
+  it("should prefix joint names, left arm first", () => {
+    const { left, right } = createArms();
+    const teleoperator = new BimanualTeleoperator(left, right);
+
+    const names = teleoperator.motorConfigs.map((m) => m.name);
+    expect(names).toHaveLength(12);
+    expect(names.slice(0, 6)).toEqual(
+      SO100_CONFIG.motorNames.map((name) => `left_${name}`)
+    );
+    expect(names.slice(6)).toEqual(
+      SO100_CONFIG.motorNames.map((name) => `right_${name}`)
+    );
+  });
+
+  it("should route prefixed motors to their arm", async () => {
+    const { leftBus, rightBus, left, right } = createArms();
+    const teleoperator = new BimanualTeleoperator(left, right);
+    teleoperator.start();
+
+    expect(
+      await teleoperator.setMotorPositions({
+        left_gripper: 1500,
+        right_shoulder_pan: 2500,
+      })
+    ).toBe(true);
+    expect(leftBus.getRegisterValue(6, "Goal_Position")).toBe(1500);
+    expect(rightBus.getRegisterValue(1, "Goal_Position")).toBe(2500);
+
+    expect(await teleoperator.setMotorPositions({ gripper: 1000 })).toBe(false);
+  });
+
+  it("should report the joints of both arms on every state update", async () => {
+    const { left, right } = createArms();
+    const teleoperator = new BimanualTeleoperator(left, right);
+    const updates: StateUpdateCallbackParams[] = [];
+    teleoperator.addOnStateUpdateCallback((params) => updates.push(params));
+    teleoperator.addOnStateUpdateCallback(() => {});
+    teleoperator.start();
+
+    await teleoperator.setMotorPositions({ right_gripper: 1000 });
+
+    expect(updates).toHaveLength(1);
+    const { newMotorConfigs } = updates[0];
+    expect(newMotorConfigs.map((m) => m.name)).toEqual(
+      teleoperator.motorConfigs.map((m) => m.name)
+    );
+    expect(newMotorConfigs[0].currentPosition).toBe(2048);
+    expect(newMotorConfigs[11].currentPosition).toBe(1000);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import { GamepadTeleoperator } from "../../src/teleoperators/gamepad-teleoperator.js";
+import {
+  SO100_CONFIG,
+  SO100_KINEMATICS,
+} from "../../src/robots/so100_config.js";
+import type {
+  GamepadSnapshot,
+  MotorConfig,
+} from "../../src/types/teleoperation.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function so100MotorConfigs(): MotorConfig[] {
+  return SO100_CONFIG.motorNames.map((name, i) => ({
+    id: SO100_CONFIG.motorIds[i],
+    name,
+    currentPosition: 2048,
+    minPosition: 0,
+    maxPosition: 4095,
+  }));
+}
+
+function fakeGamepad(): GamepadSnapshot & {
+  axes: number[];
+  buttons: { pressed: boolean; value: number }[];
+} {
+  return {
+    connected: true,
+    axes: [0, 0, 0, 0],
+    buttons: Array.from({ length: 17 }, () => ({ pressed: false, value: 0 })),
+  };
+}
+
+describe("GamepadTeleoperator", () => {
+  it("should move joints with the sticks and report gamepadState", async () => {
+    const bus = new SimulatedMotorBus();
+    const gamepad = fakeGamepad();
+    const teleoperator = new GamepadTeleoperator(
+      {
+        type: "gamepad",
+        expo: 0,
+        maxSpeed: 1000,
+        updateRate: 100,
+        getGamepads: () => [gamepad],
+      },
+      bus,
+      so100MotorConfigs()
+    );
+    await teleoperator.initialize();
+    const [startPan, , , , startRoll] = teleoperator.motorConfigs.map(
+      (m) => m.currentPosition
+    );
+
+    gamepad.axes[0] = 1;
+    gamepad.axes[2] = 0.05; // inside the deadzone
+    teleoperator.start();
+    await sleep(60);
+    teleoperator.stop();
+
+    const [shoulderPan, , , , wristRoll] = teleoperator.motorConfigs;
+    expect(shoulderPan.currentPosition).toBeGreaterThan(startPan);
+    expect(bus.getRegisterValue(1, "Goal_Position")).toBe(
+      Math.round(shoulderPan.currentPosition)
+    );
+    expect(wristRoll.currentPosition).toBe(startRoll);
+    expect(teleoperator.getState().gamepadState?.axes).toEqual([1, 0, 0.05, 0]);
+  });
+
+  it("should stop on the emergency stop button", async () => {
+    const gamepad = fakeGamepad();
+    const teleoperator = new GamepadTeleoperator(
+      {
+        type: "gamepad",
+        updateRate: 100,
+        emergencyStopButton: 9,
+        getGamepads: () => [gamepad],
+      },
+      new SimulatedMotorBus(),
+      so100MotorConfigs()
+    );
+
+    teleoperator.start();
+    gamepad.axes[0] = 1;
+    gamepad.buttons[9] = { pressed: true, value: 1 };
+    await sleep(30);
+
+    expect(teleoperator.isActiveTeleoperator).toBe(false);
+    expect(teleoperator.estopped).toBe(true);
+    expect(teleoperator.motorConfigs[0].currentPosition).toBe(2048);
+    expect(teleoperator.getState().gamepadState?.buttons[9]).toBe(true);
+
+    await teleoperator.resetEmergencyStop();
+    expect(teleoperator.estopped).toBe(false);
+  });
+
+  it("should move the end-effector in cartesian mode", async () => {
+    const gamepad = fakeGamepad();
+    const teleoperator = new GamepadTeleoperator(
+      {
+        type: "gamepad",
+        mode: "cartesian",
+        expo: 0,
+        updateRate: 100,
+        getGamepads: () => [gamepad],
+      },
+      new SimulatedMotorBus(),
+      so100MotorConfigs(),
+      undefined,
+      undefined,
+      SO100_KINEMATICS
+    );
+    await teleoperator.initialize();
+    const start = teleoperator.getState().endEffectorPose!;
+
+    gamepad.buttons[12] = { pressed: true, value: 1 }; // D-pad up
+    teleoperator.start();
+    await sleep(60);
+    teleoperator.stop();
+
+    const pose = teleoperator.getState().endEffectorPose!;
+    expect(pose.z).toBeGreaterThan(start.z);
+    expect(pose.x).toBeCloseTo(start.x, 2);
+    expect(pose.y).toBeCloseTo(start.y, 2);
+  });
+
+  it("should require a kinematic chain for cartesian mode", () => {
+    expect(
+      () =>
+        new GamepadTeleoperator(
+          { type: "gamepad", mode: "cartesian" },
+          new SimulatedMotorBus(),
+          so100MotorConfigs()
+        )
+    ).toThrow("Cartesian teleoperation needs a robot with a kinematic chain");
+  });
+
+  it("should idle while no gamepad is connected", async () => {
+    const teleoperator = new GamepadTeleoperator(
+      { type: "gamepad", updateRate: 100, getGamepads: () => [null] },
+      new SimulatedMotorBus(),
+      so100MotorConfigs()
+    );
+
+    teleoperator.start();
+    await sleep(30);
+    teleoperator.stop();
+
+    expect(teleoperator.getState().gamepadState).toEqual({
+      axes: [],
+      buttons: [],
+    });
+  });
+});
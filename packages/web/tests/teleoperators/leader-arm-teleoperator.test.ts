@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import { LeaderArmTeleoperator } from "../../src/teleoperators/leader-arm-teleoperator.js";
+import { SO100_CONFIG } from "../../src/robots/so100_config.js";
+import type { StateUpdateCallbackParams } from "../../src/teleoperators/base-teleoperator.js";
+import type { MotorConfig } from "../../src/types/teleoperation.js";
+import type { RobotConnection } from "../../src/types/robot-connection.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function so100MotorConfigs(
+  minPosition: number,
+  maxPosition: number
+): MotorConfig[] {
+  return SO100_CONFIG.motorNames.map((name, i) => ({
+    id: SO100_CONFIG.motorIds[i],
+    name,
+    currentPosition: 2048,
+    minPosition,
+    maxPosition,
+    normMode: SO100_CONFIG.normModes[i],
+  }));
+}
+
+describe("LeaderArmTeleoperator", () => {
+  it("should record the leader as action and the follower as observation", async () => {
+    const followerBus = new SimulatedMotorBus({ maxSpeed: 100000 });
+    const leaderBus = new SimulatedMotorBus();
+
+    const teleoperator = new LeaderArmTeleoperator(
+      {
+        type: "so100_leader",
+        leader: {} as RobotConnection,
+        updateRate: 200,
+      },
+      followerBus,
+      so100MotorConfigs(0, 4000),
+      leaderBus,
+      so100MotorConfigs(1000, 3000)
+    );
+    await teleoperator.initialize();
+
+    const updates: StateUpdateCallbackParams[] = [];
+    teleoperator.addOnStateUpdateCallback((params) => updates.push(params));
+
+    leaderBus.setPresentPosition(1, 2500);
+    teleoperator.start();
+    await sleep(50);
+    teleoperator.stop();
+
+    expect(updates.length).toBeGreaterThan(0);
+    const { previousMotorConfigsNormalized, newMotorConfigs } = updates[0];
+
+    // Action: leader shoulder_pan at 50, written to the follower as 3000
+    expect(previousMotorConfigsNormalized[0].currentPosition).toBe(50);
+    expect(followerBus.getRegisterValue(1, "Goal_Position")).toBe(3000);
+
+    // Observation: follower Present_Position
+    expect(newMotorConfigs[0].currentPosition).toBe(
+      followerBus.getRegisterValue(1, "Present_Position")
+    );
+  });
+
+  it("should scale and smooth leader positions", async () => {
+    const leaderBus = new SimulatedMotorBus();
+    const teleoperator = new LeaderArmTeleoperator(
+      {
+        type: "so100_leader",
+        leader: {} as RobotConnection,
+        positionSmoothing: true,
+        scaleFactor: 0.5,
+      },
+      new SimulatedMotorBus(),
+      so100MotorConfigs(0, 4000),
+      leaderBus,
+      so100MotorConfigs(1000, 3000)
+    );
+
+    leaderBus.setPresentPosition(1, 2000);
+    await teleoperator.initialize();
+    expect(teleoperator.getState().leaderPositions?.shoulder_pan).toBe(0);
+
+    // Half way from 0 toward 0.5 * 100
+    leaderBus.setPresentPosition(1, 3000);
+    await teleoperator.initialize();
+    expect(teleoperator.getState().leaderPositions?.shoulder_pan).toBe(25);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  BusCapture,
+  CapturingPort,
+  CapturingSerialPort,
+} from "../../src/utils/bus-capture.js";
+import { ReplayPort } from "../../src/utils/replay-port.js";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import { WebSerialPortWrapper } from "../../src/utils/serial-port-wrapper.js";
+import {
+  readRegister,
+  syncReadPositions,
+} from "../../src/utils/motor-communication.js";
+
+function createCapture(): BusCapture {
+  const capture = new BusCapture([], 1700000000000);
+  capture.record("tx", [0xff, 0xff, 0x01, 0x02, 0x01, 0xfb]);
+  capture.record("rx", [0xff, 0xff, 0x01, 0x02, 0x00, 0xfc]);
+  capture.record("rx", []);
+  return capture;
+}
+
+describe("BusCapture", () => {
+  it("should skip empty chunks and keep timestamps ordered", () => {
+    const capture = createCapture();
+
+    expect(capture.entries.map((entry) => entry.direction)).toEqual([
+      "tx",
+      "rx",
+    ]);
+    expect(capture.entries[1].time).toBeGreaterThanOrEqual(
+      capture.entries[0].time
+    );
+  });
+
+  it("should round-trip through JSONL", () => {
+    const capture = createCapture();
+    const text = capture.toJSONL();
+
+    expect(text.split("\n")[1]).toContain('"data":"ffff010201fb"');
+
+    const parsed = BusCapture.fromJSONL(text);
+    expect(parsed.startTime).toBe(1700000000000);
+    expect(Array.from(parsed.entries[1].data)).toEqual([
+      0xff, 0xff, 0x01, 0x02, 0x00, 0xfc,
+    ]);
+  });
+
+  it("should round-trip through the binary format", () => {
+    const capture = createCapture();
+    const parsed = BusCapture.fromBinary(capture.toBinary());
+
+    expect(parsed.startTime).toBe(capture.startTime);
+    expect(parsed.entries).toEqual(capture.entries);
+    expect(() => BusCapture.fromBinary(new Uint8Array([1, 2, 3]))).toThrow();
+  });
+});
+
+describe("capture and replay", () => {
+  it("should replay a captured sync read without hardware", async () => {
+    const bus = new SimulatedMotorBus({
+      motors: [
+        { id: 1, position: 1000 },
+        { id: 2, position: 2000 },
+      ],
+    });
+    const port = new CapturingPort(bus);
+
+    expect(await syncReadPositions(port, [1, 2])).toEqual([1000, 2000]);
+    expect(port.capture.entries[0].direction).toBe("tx");
+
+    const replay = new ReplayPort(
+      BusCapture.fromBinary(port.capture.toBinary()),
+      { strict: true }
+    );
+    expect(await syncReadPositions(replay, [1, 2])).toEqual([1000, 2000]);
+    expect(replay.finished).toBe(true);
+  });
+
+  it("should report diverging writes in strict mode", async () => {
+    const replay = new ReplayPort(createCapture(), { strict: true });
+
+    await expect(
+      replay.write(new Uint8Array([0xff, 0xff, 0x02, 0x02, 0x01, 0xfa]))
+    ).rejects.toThrow("Replay diverged at entry 0");
+  });
+
+  it("should capture a Web Serial port used through the wrapper", async () => {
+    const serialPort = new CapturingSerialPort(
+      new SimulatedMotorBus({ motors: [{ id: 3, position: 1234 }] })
+    );
+    const port = new WebSerialPortWrapper(serialPort);
+    await port.initialize();
+
+    expect(await readRegister(port, 3, "Present_Position")).toBe(1234);
+    expect(serialPort.capture.entries.map((entry) => entry.direction)).toEqual([
+      "tx",
+      "rx",
+    ]);
+
+    await serialPort.close();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { BusScheduler } from "../../src/utils/bus-scheduler.js";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import type { MotorCommunicationPort } from "../../src/utils/motor-communication.js";
+
+function createRecordingPort() {
+  const written: Uint8Array[] = [];
+  const port: MotorCommunicationPort = {
+    async write(data: Uint8Array) {
+      written.push(data);
+    },
+    async read() {
+      return new Uint8Array(0);
+    },
+  };
+  return { port, written };
+}
+
+describe("BusScheduler", () => {
+  it("should run one transaction at a time", async () => {
+    const { port } = createRecordingPort();
+    const bus = new BusScheduler(port);
+    let active = 0;
+    let maxActive = 0;
+
+    const transaction = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    };
+
+    await Promise.all([
+      bus.run("read", transaction),
+      bus.run("write", transaction),
+      bus.run("read", transaction),
+    ]);
+
+    expect(maxActive).toBe(1);
+    expect(bus.pendingTransactions).toBe(0);
+  });
+
+  it("should run higher priorities first", async () => {
+    const { port } = createRecordingPort();
+    const bus = new BusScheduler(port);
+    const order: string[] = [];
+    const record = (name: string) => async () => {
+      order.push(name);
+    };
+
+    // Occupy the bus so the others queue up
+    const blocker = bus.run("read", () => new Promise((r) => setTimeout(r, 5)));
+    const queued = [
+      bus.run("read", record("read 1")),
+      bus.run("write", record("write")),
+      bus.run("read", record("read 2")),
+      bus.run("emergency", record("emergency")),
+    ];
+    expect(bus.pendingTransactions).toBe(4);
+
+    await Promise.all([blocker, ...queued]);
+    expect(order).toEqual(["emergency", "write", "read 1", "read 2"]);
+  });
+
+  it("should pass transaction errors to the caller only", async () => {
+    const { port } = createRecordingPort();
+    const bus = new BusScheduler(port);
+
+    const failing = bus.run("write", async () => {
+      throw new Error("no answer");
+    });
+    const following = bus.run("read", async () => "ok");
+
+    await expect(failing).rejects.toThrow("no answer");
+    await expect(following).resolves.toBe("ok");
+  });
+
+  it("should keep draining after a transaction throws synchronously", async () => {
+    const { port } = createRecordingPort();
+    const bus = new BusScheduler(port);
+
+    const failing = bus.run("write", () => {
+      throw new Error("bad request");
+    });
+    const following = bus.run("read", async () => "ok");
+
+    await expect(failing).rejects.toThrow("bad request");
+    await expect(following).resolves.toBe("ok");
+    expect(bus.pendingTransactions).toBe(0);
+  });
+
+  it("should coalesce goal writes that were not sent yet", async () => {
+    const { port, written } = createRecordingPort();
+    const bus = new BusScheduler(port);
+
+    const blocker = bus.run("read", () => new Promise((r) => setTimeout(r, 5)));
+    const writes = [
+      bus.writeGoalPositions([1, 2], [100, 200]),
+      bus.writeGoalPositions([1], [150]),
+      bus.writeGoalPositions([3], [300]),
+    ];
+    expect(bus.pendingTransactions).toBe(1);
+
+    await Promise.all([blocker, ...writes]);
+
+    // One SYNC_WRITE with the latest goal of each motor
+    expect(written).toHaveLength(1);
+    const packet = Array.from(written[0]);
+    expect(packet[4]).toBe(0x83);
+    expect(packet.slice(7, -1)).toEqual([1, 150, 0, 2, 200, 0, 3, 44, 1]);
+  });
+
+  it("should drive a simulated arm through the scheduler", async () => {
+    const sim = new SimulatedMotorBus({ motors: [1, 2], maxSpeed: 100000 });
+    const bus = new BusScheduler(sim);
+
+    await bus.writeGoalPositions([1, 2], [1000, 3000]);
+    expect(sim.getRegisterValue(1, "Goal_Position")).toBe(1000);
+    expect(sim.getRegisterValue(2, "Goal_Position")).toBe(3000);
+
+    await bus.releaseMotors([1, 2]);
+    expect(sim.getRegisterValue(1, "Torque_Enable")).toBe(0);
+  });
+
+  it("should flush queued writes on emergency stop", async () => {
+    const { port, written } = createRecordingPort();
+    const bus = new BusScheduler(port);
+
+    const blocker = bus.run("read", () => new Promise((r) => setTimeout(r, 5)));
+    const goals = bus.writeGoalPositions([1], [100]);
+    const write = bus.run("write", async () => "written");
+    const read = bus.run("read", async () => "read");
+
+    bus.emergencyStop();
+
+    await expect(goals).rejects.toThrow("Emergency stop");
+    await expect(write).rejects.toThrow("Emergency stop");
+    await expect(read).resolves.toBe("read");
+    await blocker;
+    expect(written).toHaveLength(0);
+    expect(bus.pendingTransactions).toBe(0);
+  });
+
+  it("should block writes until the emergency stop is reset", async () => {
+    const sim = new SimulatedMotorBus({ motors: [1], maxSpeed: 100000 });
+    const bus = new BusScheduler(sim);
+    const goal = sim.getRegisterValue(1, "Goal_Position");
+
+    bus.emergencyStop();
+    expect(bus.estopped).toBe(true);
+    await expect(bus.writeGoalPositions([1], [1000])).rejects.toThrow(
+      "resetEmergencyStop()"
+    );
+    expect(sim.getRegisterValue(1, "Goal_Position")).toBe(goal);
+
+    // Torque can still be released while latched
+    await bus.releaseMotors([1]);
+    expect(sim.getRegisterValue(1, "Torque_Enable")).toBe(0);
+
+    bus.resetEmergencyStop();
+    await bus.writeGoalPositions([1], [1000]);
+    expect(sim.getRegisterValue(1, "Goal_Position")).toBe(1000);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { CartesianController } from "../../src/utils/cartesian-control.js";
+import {
+  SO100_CONFIG,
+  SO100_KINEMATICS,
+} from "../../src/robots/so100_config.js";
+import type { MotorConfig } from "../../src/types/teleoperation.js";
+
+function so100MotorConfigs(): MotorConfig[] {
+  return SO100_CONFIG.motorNames.map((name, i) => ({
+    id: SO100_CONFIG.motorIds[i],
+    name,
+    currentPosition: 2048,
+    minPosition: 1024,
+    maxPosition: 3072,
+  }));
+}
+
+/**
+ * Run control cycles, writing the targets back like a teleoperator does
+ */
+function run(
+  controller: CartesianController,
+  motorConfigs: MotorConfig[],
+  velocities: { [name: string]: number },
+  cycles: number
+): void {
+  for (let i = 0; i < cycles; i++) {
+    const targets = controller.targetPositions(velocities, 100, 0.1);
+    motorConfigs.forEach((config) => {
+      config.currentPosition = targets[config.name] ?? config.currentPosition;
+    });
+  }
+}
+
+describe("CartesianController", () => {
+  it("should move the end-effector in a straight line", () => {
+    const motorConfigs = so100MotorConfigs();
+    const controller = new CartesianController(
+      SO100_KINEMATICS,
+      motorConfigs,
+      0.1,
+      90
+    );
+    const start = controller.getPose();
+
+    run(controller, motorConfigs, { x: 1 }, 5);
+
+    const pose = controller.getPose();
+    expect(pose.x - start.x).toBeCloseTo(0.05, 2);
+    expect(pose.y).toBeCloseTo(start.y, 2);
+    expect(pose.z).toBeCloseTo(start.z, 2);
+    expect(Math.abs(pose.pitch - start.pitch)).toBeLessThan(0.5);
+  });
+
+  it("should stop at the edge of the workspace", () => {
+    const motorConfigs = so100MotorConfigs();
+    const controller = new CartesianController(
+      SO100_KINEMATICS,
+      motorConfigs,
+      0.1,
+      90
+    );
+
+    run(controller, motorConfigs, { z: -1 }, 30);
+
+    const pose = controller.getPose();
+    expect(pose.z).toBeGreaterThan(-0.1);
+    motorConfigs.forEach((config) => {
+      expect(config.currentPosition).toBeGreaterThanOrEqual(config.minPosition);
+      expect(config.currentPosition).toBeLessThanOrEqual(config.maxPosition);
+    });
+    expect(controller.targetPositions({ z: -1 }, 100, 0.1)).toEqual({});
+  });
+
+  it("should move other motors directly", () => {
+    const motorConfigs = so100MotorConfigs();
+    const controller = new CartesianController(
+      SO100_KINEMATICS,
+      motorConfigs,
+      0.1,
+      90
+    );
+
+    expect(controller.targetPositions({ gripper: 1 }, 100, 0.1)).toEqual({
+      gripper: 2058,
+    });
+  });
+
+  it("should reject robots without the motors of the chain", () => {
+    expect(
+      () =>
+        new CartesianController(
+          SO100_KINEMATICS,
+          so100MotorConfigs().slice(1),
+          0.1,
+          90
+        )
+    ).toThrow("Motor shoulder_pan of the kinematic chain not found");
+  });
+});
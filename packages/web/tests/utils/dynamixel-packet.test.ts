@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  DynamixelPacketParser,
+  calculateCrc16,
+  createDynamixelPacket,
+  describeDynamixelError,
+  stuffBytes,
+  toStatusPacket,
+  unstuffBytes,
+} from "../../src/utils/dynamixel-packet.js";
+import { DynamixelStatusError } from "../../src/utils/motor-errors.js";
+
+describe("Dynamixel packets", () => {
+  it("should build instruction packets with CRC", () => {
+    // PING motor 1
+    expect(Array.from(createDynamixelPacket(1, 0x01))).toEqual([
+      0xff, 0xff, 0xfd, 0x00, 0x01, 0x03, 0x00, 0x01, 0x19, 0x4e,
+    ]);
+
+    // READ Present_Position (132, 4 bytes) of motor 1
+    expect(
+      Array.from(createDynamixelPacket(1, 0x02, [0x84, 0x00, 0x04, 0x00]))
+    ).toEqual([
+      0xff, 0xff, 0xfd, 0x00, 0x01, 0x07, 0x00, 0x02, 0x84, 0x00, 0x04, 0x00,
+      0x1d, 0x15,
+    ]);
+  });
+
+  it("should compute the CRC over header and body", () => {
+    expect(
+      calculateCrc16([0xff, 0xff, 0xfd, 0x00, 0x01, 0x03, 0x00, 0x01])
+    ).toBe(0x4e19);
+  });
+
+  it("should stuff and unstuff header-like byte sequences", () => {
+    const bytes = [0x03, 0xff, 0xff, 0xfd, 0x10];
+
+    expect(stuffBytes(bytes)).toEqual([0x03, 0xff, 0xff, 0xfd, 0xfd, 0x10]);
+    expect(unstuffBytes(stuffBytes(bytes))).toEqual(bytes);
+  });
+
+  it("should parse status packets split across reads", () => {
+    const parser = new DynamixelPacketParser();
+    const bytes = Array.from(
+      createDynamixelPacket(3, 0x55, [0x00, 0xff, 0x07, 0x00, 0x00])
+    );
+
+    expect(parser.push(bytes.slice(0, 6))).toEqual([]);
+    const packets = parser.push(bytes.slice(6));
+
+    expect(packets).toHaveLength(1);
+    const status = toStatusPacket(packets[0])!;
+    expect(status.id).toBe(3);
+    expect(status.error).toBe(0);
+    expect(Array.from(status.parameters)).toEqual([0xff, 0x07, 0x00, 0x00]);
+    expect(parser.pendingBytes).toBe(0);
+  });
+
+  it("should resync after garbage and bad CRCs", () => {
+    const parser = new DynamixelPacketParser();
+    const corrupted = Array.from(createDynamixelPacket(1, 0x55, [0x00]));
+    corrupted[corrupted.length - 1] ^= 0xff;
+
+    const packets = parser.push([
+      0x12,
+      0xff,
+      ...corrupted,
+      ...createDynamixelPacket(2, 0x55, [0x00]),
+    ]);
+
+    expect(packets.map((packet) => packet.id)).toEqual([2]);
+  });
+
+  it("should describe status errors", () => {
+    expect(describeDynamixelError(0x07)).toBe("access error");
+    expect(describeDynamixelError(0x80)).toBe("hardware error alert");
+
+    const error = new DynamixelStatusError(4, 0x84);
+    expect(error.errorByte).toBe(0x84);
+    expect(error.message).toBe(
+      "Motor 4 reported data range error, hardware error alert"
+    );
+  });
+});
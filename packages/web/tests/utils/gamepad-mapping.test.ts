@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyDeadzone,
+  applyExpo,
+  gamepadVelocities,
+  GAMEPAD_AXIS_MAPPING,
+  GAMEPAD_BUTTON_MAPPING,
+} from "../../src/utils/gamepad-mapping.js";
+
+function snapshot(axes: number[], pressed: number[] = []) {
+  return {
+    axes,
+    buttons: Array.from({ length: 17 }, (_, i) => ({
+      pressed: pressed.includes(i),
+      value: pressed.includes(i) ? 1 : 0,
+    })),
+  };
+}
+
+describe("gamepad mapping", () => {
+  it("should ignore the deadzone and still reach full deflection", () => {
+    expect(applyDeadzone(0.05, 0.1)).toBe(0);
+    expect(applyDeadzone(-0.1, 0.1)).toBe(0);
+    expect(applyDeadzone(0.55, 0.1)).toBeCloseTo(0.5);
+    expect(applyDeadzone(-1, 0.1)).toBe(-1);
+  });
+
+  it("should soften small inputs with expo", () => {
+    expect(applyExpo(0.5, 0)).toBe(0.5);
+    expect(applyExpo(0.5, 1)).toBe(0.125);
+    expect(applyExpo(-1, 0.5)).toBe(-1);
+  });
+
+  it("should map sticks and buttons to joint velocities", () => {
+    const velocities = gamepadVelocities(
+      snapshot([1, -1, 0.05, 0], [5, 12]),
+      GAMEPAD_AXIS_MAPPING,
+      GAMEPAD_BUTTON_MAPPING,
+      0.1,
+      0
+    );
+
+    expect(velocities).toEqual({
+      shoulder_pan: 1,
+      shoulder_lift: 1, // inverted axis
+      gripper: 1,
+      wrist_flex: 1,
+    });
+  });
+
+  it("should add up controls of the same joint", () => {
+    const velocities = gamepadVelocities(
+      snapshot([], [4, 5]),
+      {},
+      GAMEPAD_BUTTON_MAPPING,
+      0.1,
+      0
+    );
+
+    expect(velocities).toEqual({ gripper: 0 });
+  });
+});
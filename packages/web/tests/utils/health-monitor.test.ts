@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  HealthMonitor,
+  formatHealthWarning,
+} from "../../src/utils/health-monitor.js";
+import { BusScheduler } from "../../src/utils/bus-scheduler.js";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import type { HealthWarning } from "../../src/types/health.js";
+import type { MotorConfig } from "../../src/types/teleoperation.js";
+
+function createArm() {
+  const sim = new SimulatedMotorBus({ motors: [1, 2], maxSpeed: 100000 });
+  const bus = new BusScheduler(sim);
+  const motorConfigs: MotorConfig[] = ["shoulder_pan", "gripper"].map(
+    (name, i) => ({
+      id: i + 1,
+      name,
+      currentPosition: 2048,
+      minPosition: 1024,
+      maxPosition: 3072,
+    })
+  );
+  const warnings: HealthWarning[] = [];
+  const monitor = new HealthMonitor(bus, motorConfigs, {
+    onWarning: (warning) => warnings.push(warning),
+  });
+  return { sim, bus, monitor, warnings };
+}
+
+describe("HealthMonitor", () => {
+  it("should read the health of every motor", async () => {
+    const { sim, monitor, warnings } = createArm();
+    sim.setRegisterValue(2, "Present_Load", -250);
+    sim.setRegisterValue(2, "Present_Current", 40);
+
+    await monitor.poll(0);
+
+    expect(monitor.getHealth()).toEqual({
+      shoulder_pan: {
+        temperature: 25,
+        voltage: 12,
+        load: 0,
+        current: 0,
+        torqueReleased: false,
+      },
+      gripper: {
+        temperature: 25,
+        voltage: 12,
+        load: -25,
+        current: 260,
+        torqueReleased: false,
+      },
+    });
+    expect(warnings).toHaveLength(0);
+  });
+
+  it("should warn once per threshold crossing", async () => {
+    const { sim, monitor, warnings } = createArm();
+    sim.setRegisterValue(1, "Present_Temperature", 58);
+    sim.setRegisterValue(2, "Present_Voltage", 40);
+
+    await monitor.poll(0);
+    await monitor.poll(500);
+
+    expect(warnings.map((w) => [w.motorName, w.metric, w.value])).toEqual([
+      ["shoulder_pan", "temperature", 58],
+      ["gripper", "voltage", 4],
+    ]);
+    expect(formatHealthWarning(warnings[0])).toBe(
+      "Motor shoulder_pan temperature 58°C (limit 55°C)"
+    );
+
+    // Warns again after the value recovered
+    sim.setRegisterValue(1, "Present_Temperature", 40);
+    await monitor.poll(1000);
+    sim.setRegisterValue(1, "Present_Temperature", 56);
+    await monitor.poll(1500);
+    expect(warnings).toHaveLength(3);
+  });
+
+  it("should release an overheating motor and drop its goals", async () => {
+    const { sim, bus, monitor, warnings } = createArm();
+    const goal = sim.getRegisterValue(1, "Goal_Position");
+    sim.setRegisterValue(1, "Torque_Enable", 1);
+    sim.setRegisterValue(2, "Torque_Enable", 1);
+    sim.setRegisterValue(1, "Present_Temperature", 66);
+
+    await monitor.poll(0);
+
+    expect(sim.getRegisterValue(1, "Torque_Enable")).toBe(0);
+    expect(sim.getRegisterValue(2, "Torque_Enable")).toBe(1);
+    expect(monitor.getHealth().shoulder_pan.torqueReleased).toBe(true);
+    expect(warnings[0]).toMatchObject({
+      metric: "temperature",
+      threshold: 65,
+      torqueReleased: true,
+    });
+
+    await bus.writeGoalPositions([1, 2], [1500, 2500]);
+    expect(sim.getRegisterValue(1, "Goal_Position")).toBe(goal);
+    expect(sim.getRegisterValue(2, "Goal_Position")).toBe(2500);
+
+    monitor.clearFaults();
+    await bus.writeGoalPositions([1], [1500]);
+    expect(sim.getRegisterValue(1, "Goal_Position")).toBe(1500);
+  });
+
+  it("should release a motor only after a sustained overload", async () => {
+    const { sim, monitor, warnings } = createArm();
+    sim.setRegisterValue(2, "Present_Load", 950);
+
+    await monitor.poll(0);
+    await monitor.poll(2500);
+    expect(monitor.getHealth().gripper.torqueReleased).toBe(false);
+    expect(warnings.map((w) => w.metric)).toEqual(["load"]);
+
+    await monitor.poll(3000);
+    expect(monitor.getHealth().gripper.torqueReleased).toBe(true);
+    expect(warnings[1]).toMatchObject({
+      motorName: "gripper",
+      metric: "load",
+      torqueReleased: true,
+    });
+  });
+
+  it("should restart the overload time when the load drops", async () => {
+    const { sim, monitor } = createArm();
+    sim.setRegisterValue(2, "Present_Load", 950);
+    await monitor.poll(0);
+
+    sim.setRegisterValue(2, "Present_Load", 100);
+    await monitor.poll(2000);
+
+    sim.setRegisterValue(2, "Present_Load", 950);
+    await monitor.poll(4000);
+    expect(monitor.getHealth().gripper.torqueReleased).toBe(false);
+  });
+});
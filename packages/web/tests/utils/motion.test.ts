@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { profileProgress, streamTrajectory } from "../../src/utils/motion.js";
+import { BusScheduler } from "../../src/utils/bus-scheduler.js";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import type { MotionProfile } from "../../src/types/motion.js";
+import type { MotorConfig } from "../../src/types/teleoperation.js";
+
+function createArm(maxSpeed = 100000) {
+  const sim = new SimulatedMotorBus({ motors: [1, 2], maxSpeed });
+  [1, 2].forEach((id) => sim.setRegisterValue(id, "Torque_Enable", 1));
+  const bus = new BusScheduler(sim);
+  const motorConfigs: MotorConfig[] = ["shoulder_pan", "gripper"].map(
+    (name, i) => ({
+      id: i + 1,
+      name,
+      currentPosition: sim.getRegisterValue(i + 1, "Present_Position"),
+      minPosition: 1024,
+      maxPosition: 3072,
+    })
+  );
+  return { sim, bus, motorConfigs };
+}
+
+describe("profileProgress", () => {
+  it.each<MotionProfile>(["linear", "minjerk", "trapezoid"])(
+    "should run %s from start to end without going back",
+    (profile) => {
+      expect(profileProgress(profile, 0)).toBe(0);
+      expect(profileProgress(profile, 1)).toBeCloseTo(1);
+      expect(profileProgress(profile, 0.5)).toBeCloseTo(0.5);
+
+      let previous = 0;
+      for (let t = 0.05; t <= 1; t += 0.05) {
+        const progress = profileProgress(profile, t);
+        expect(progress).toBeGreaterThanOrEqual(previous);
+        previous = progress;
+      }
+    }
+  );
+
+  it("should start and stop smoothly with minjerk and trapezoid", () => {
+    expect(profileProgress("linear", 0.1)).toBeCloseTo(0.1);
+    expect(profileProgress("minjerk", 0.1)).toBeLessThan(0.01);
+    expect(profileProgress("trapezoid", 0.1)).toBeCloseTo(4 / 150);
+    expect(profileProgress("trapezoid", 0.9)).toBeCloseTo(1 - 4 / 150);
+  });
+});
+
+describe("streamTrajectory", () => {
+  it("should stream intermediate goals and resolve at the target", async () => {
+    const { sim, bus, motorConfigs } = createArm();
+    const goals: number[] = [];
+
+    await streamTrajectory(
+      bus,
+      motorConfigs,
+      [2800, 1500],
+      { duration: 100, profile: "linear", controlRate: 100 },
+      () => goals.push(sim.getRegisterValue(1, "Goal_Position"))
+    );
+
+    expect(goals.length).toBeGreaterThan(3);
+    expect(goals.some((goal) => goal > 2100 && goal < 2750)).toBe(true);
+    expect(goals[goals.length - 1]).toBe(2800);
+    expect(sim.getRegisterValue(1, "Present_Position")).toBe(2800);
+    expect(sim.getRegisterValue(2, "Present_Position")).toBe(1500);
+    expect(motorConfigs.map((config) => config.currentPosition)).toEqual([
+      2800, 1500,
+    ]);
+  });
+
+  it("should stop at the last goal when cancelled", async () => {
+    const { sim, bus, motorConfigs } = createArm();
+    const motion = streamTrajectory(bus, motorConfigs, [3000, 2047], {
+      duration: 1000,
+    });
+
+    setTimeout(() => motion.cancel(), 100);
+    await expect(motion).rejects.toThrow("Motion cancelled");
+
+    const goal = sim.getRegisterValue(1, "Goal_Position");
+    expect(goal).toBeGreaterThan(2047);
+    expect(goal).toBeLessThan(3000);
+  });
+
+  it("should reject when the motors do not arrive in time", async () => {
+    // Too slow to follow a 50 ms move over 1000 units
+    const { bus, motorConfigs } = createArm(500);
+
+    await expect(
+      streamTrajectory(bus, motorConfigs, [3047, 2047], {
+        duration: 50,
+        settleTimeout: 100,
+      })
+    ).rejects.toThrow(
+      "did not reach their target within 20 units: shoulder_pan"
+    );
+  });
+
+  it.each([0, -500, NaN, Infinity])(
+    "should reject a duration of %s without moving",
+    async (duration) => {
+      const { sim, bus, motorConfigs } = createArm();
+      const goal = sim.getRegisterValue(1, "Goal_Position");
+
+      await expect(
+        streamTrajectory(bus, motorConfigs, [3047, 2047], { duration })
+      ).rejects.toThrow("Move duration must be a positive number");
+      expect(sim.getRegisterValue(1, "Goal_Position")).toBe(goal);
+    }
+  );
+
+  it.each([
+    ["controlRate", 0],
+    ["controlRate", NaN],
+    ["tolerance", -5],
+    ["tolerance", Infinity],
+    ["settleTimeout", 0],
+    ["settleTimeout", -100],
+  ] as const)(
+    "should reject a %s of %s without moving",
+    async (option, value) => {
+      const { sim, bus, motorConfigs } = createArm();
+      const goal = sim.getRegisterValue(1, "Goal_Position");
+
+      await expect(
+        streamTrajectory(bus, motorConfigs, [3047, 2047], { [option]: value })
+      ).rejects.toThrow(`Move ${option} must be a positive number`);
+      expect(sim.getRegisterValue(1, "Goal_Position")).toBe(goal);
+    }
+  );
+});
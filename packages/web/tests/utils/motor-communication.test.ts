@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  syncReadPositions,
+  syncWritePositions,
+  writeMotorRegister,
+  type MotorCommunicationPort,
+} from "../../src/utils/motor-communication.js";
+import {
+  MotorStatusError,
+  MotorTimeoutError,
+} from "../../src/utils/motor-errors.js";
+
+function checksum(bytes: number[]): number {
+  return ~bytes.reduce((sum, byte) => sum + byte, 0) & 0xff;
+}
+
+function statusPacket(id: number, params: number[], error = 0): number[] {
+  const body = [id, params.length + 2, error, ...params];
+  return [0xff, 0xff, ...body, checksum(body)];
+}
+
+/**
+ * Fake port that answers sync reads with the given positions
+ * and register writes with the given error byte
+ */
+function createFakePort(positions: { [id: number]: number }, writeError = 0) {
+  const written: Uint8Array[] = [];
+  let pending: number[] = [];
+
+  const port: MotorCommunicationPort = {
+    async write(data: Uint8Array) {
+      written.push(data);
+      if (data[4] === 0x03 && data[2] in positions) {
+        pending.push(...statusPacket(data[2], [], writeError));
+      }
+      if (data[4] !== 0x82) return;
+
+      const count = data[3] - 4;
+      const ids = Array.from(data.slice(7, 7 + count));
+      for (const id of ids) {
+        if (id in positions) {
+          const value = positions[id];
+          pending.push(...statusPacket(id, [value & 0xff, (value >> 8) & 0xff]));
+        }
+      }
+    },
+    async read() {
+      const bytes = new Uint8Array(pending);
+      pending = [];
+      return bytes;
+    },
+  };
+
+  return { port, written };
+}
+
+describe("sync read/write", () => {
+  it("should build a SYNC_WRITE packet for several motors", async () => {
+    const { port, written } = createFakePort({});
+
+    await syncWritePositions(port, [1, 2], [2048, 100]);
+
+    const body = [0xfe, 10, 0x83, 42, 2, 1, 0x00, 0x08, 2, 100, 0x00];
+    expect(Array.from(written[0])).toEqual([0xff, 0xff, ...body, checksum(body)]);
+  });
+
+  it("should reject mismatched ids and positions", async () => {
+    const { port } = createFakePort({});
+
+    await expect(syncWritePositions(port, [1, 2], [2048])).rejects.toThrow();
+  });
+
+  it("should return positions in the requested order", async () => {
+    const { port, written } = createFakePort({ 1: 1000, 2: 2000, 3: 3000 });
+
+    const positions = await syncReadPositions(port, [3, 1, 2]);
+
+    expect(positions).toEqual([3000, 1000, 2000]);
+    expect(written).toHaveLength(1);
+  });
+
+  it("should list motors that never answer", async () => {
+    const { port } = createFakePort({ 1: 1000 });
+
+    const error = await syncReadPositions(port, [1, 5]).catch((e) => e);
+    expect(error).toBeInstanceOf(MotorTimeoutError);
+    expect(error.motorIds).toEqual([5]);
+    expect(error.message).toContain("no response from motor(s) 5");
+  });
+});
+
+describe("writeMotorRegister", () => {
+  it("should resolve when the motor acknowledges", async () => {
+    const { port } = createFakePort({ 1: 0 });
+
+    await expect(writeMotorRegister(port, 1, 40, 0)).resolves.toBeUndefined();
+  });
+
+  it("should report the motor error flags", async () => {
+    const { port } = createFakePort({ 1: 0 }, 0x20);
+
+    const error = await writeMotorRegister(port, 1, 40, 0).catch((e) => e);
+    expect(error).toBeInstanceOf(MotorStatusError);
+    expect(error.flags).toEqual(["overload"]);
+  });
+
+  it("should time out when the motor is missing", async () => {
+    const { port } = createFakePort({});
+
+    await expect(writeMotorRegister(port, 9, 40, 0)).rejects.toBeInstanceOf(
+      MotorTimeoutError
+    );
+  });
+});
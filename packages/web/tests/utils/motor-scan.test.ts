@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { scanMotors, verifyMotors } from "../../src/utils/motor-scan.js";
+import { MotorTimeoutError } from "../../src/utils/motor-errors.js";
+import type { MotorCommunicationPort } from "../../src/utils/motor-communication.js";
+
+function statusPacket(id: number, params: number[]): number[] {
+  const body = [id, params.length + 2, 0, ...params];
+  const checksum = ~body.reduce((sum, byte) => sum + byte, 0) & 0xff;
+  return [0xff, 0xff, ...body, checksum];
+}
+
+/**
+ * Fake bus with STS3215 motors answering PING and info reads,
+ * each motor only reachable at its own baud rate
+ */
+function createFakeBus(motors: { id: number; baudRate: number }[]) {
+  let pending: number[] = [];
+  let baudRate = 1000000;
+
+  const port: MotorCommunicationPort = {
+    async write(data: Uint8Array) {
+      const motor = motors.find(
+        (m) => m.id === data[2] && m.baudRate === baudRate
+      );
+      if (!motor) return;
+
+      if (data[4] === 0x01) {
+        pending.push(...statusPacket(motor.id, []));
+      } else if (data[4] === 0x02 && data[5] === 0) {
+        // Firmware 3.10, model number 777
+        pending.push(...statusPacket(motor.id, [3, 10, 0, 0x09, 0x03]));
+      }
+    },
+    async read() {
+      const bytes = new Uint8Array(pending);
+      pending = [];
+      return bytes;
+    },
+    async setBaudRate(rate: number) {
+      baudRate = rate;
+    },
+  };
+
+  return port;
+}
+
+describe("scanMotors", () => {
+  it("should find motors with model number and firmware", async () => {
+    const port = createFakeBus([
+      { id: 1, baudRate: 1000000 },
+      { id: 3, baudRate: 1000000 },
+    ]);
+
+    const found = await scanMotors(port, { ids: [1, 2, 3], timeout: 5 });
+
+    expect(found).toEqual([
+      { id: 1, baudRate: null, modelNumber: 777, firmwareVersion: "3.10" },
+      { id: 3, baudRate: null, modelNumber: 777, firmwareVersion: "3.10" },
+    ]);
+  });
+
+  it("should scan across baud rates", async () => {
+    const port = createFakeBus([
+      { id: 1, baudRate: 1000000 },
+      { id: 2, baudRate: 57600 },
+    ]);
+
+    const found = await scanMotors(port, {
+      ids: [1, 2],
+      baudRates: [1000000, 57600],
+      timeout: 5,
+    });
+
+    expect(found.map((m) => [m.id, m.baudRate])).toEqual([
+      [1, 1000000],
+      [2, 57600],
+    ]);
+  });
+
+  it("should report missing motors when verifying an arm", async () => {
+    const port = createFakeBus([{ id: 1, baudRate: 1000000 }]);
+
+    const error = await verifyMotors(port, [1, 2]).catch((e) => e);
+    expect(error).toBeInstanceOf(MotorTimeoutError);
+    expect(error.motorIds).toEqual([2]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { setupMotor } from "../../src/utils/motor-setup.js";
+import { STS3215_BAUD_RATES } from "../../src/utils/sts3215-protocol.js";
+import type { MotorCommunicationPort } from "../../src/utils/motor-communication.js";
+
+function statusPacket(id: number, params: number[] = []): number[] {
+  const body = [id, params.length + 2, 0, ...params];
+  const checksum = ~body.reduce((sum, byte) => sum + byte, 0) & 0xff;
+  return [0xff, 0xff, ...body, checksum];
+}
+
+/**
+ * Fake bus with motors that only answer at their own baud rate
+ * ID and Baud_Rate writes only persist while Lock is 0
+ */
+function createFakeBus(motors: { id: number; baudRate: number }[]) {
+  const state = motors.map((motor) => ({ ...motor, lock: 1 }));
+  let portBaudRate = 1000000;
+  let pending: number[] = [];
+
+  const port: MotorCommunicationPort = {
+    async write(data: Uint8Array) {
+      const [, , id, , instruction, ...rest] = Array.from(data);
+      const params = rest.slice(0, -1);
+
+      for (const motor of state) {
+        if (motor.baudRate !== portBaudRate) continue;
+        if (id !== motor.id && id !== 0xfe) continue;
+
+        if (instruction === 0x01) {
+          pending.push(...statusPacket(motor.id));
+        } else if (instruction === 0x02 && params[0] === 3) {
+          pending.push(...statusPacket(motor.id, [777 & 0xff, 777 >> 8]));
+        } else if (instruction === 0x03) {
+          const [address, value] = params;
+          if (address === 55) motor.lock = value;
+          if (address === 5 && motor.lock === 0) motor.id = value;
+          if (address === 6 && motor.lock === 0) {
+            motor.baudRate = Number(
+              Object.keys(STS3215_BAUD_RATES).find(
+                (rate) => STS3215_BAUD_RATES[Number(rate)] === value
+              )
+            );
+          }
+          pending.push(...statusPacket(motor.id));
+        }
+      }
+    },
+    async read() {
+      const bytes = new Uint8Array(pending);
+      pending = [];
+      return bytes;
+    },
+    async setBaudRate(baudRate: number) {
+      portBaudRate = baudRate;
+      pending = [];
+    },
+  };
+
+  return { port, state };
+}
+
+describe("setupMotor", () => {
+  it("should write ID and baud rate of a factory motor", async () => {
+    const { port, state } = createFakeBus([{ id: 1, baudRate: 115200 }]);
+
+    const result = await setupMotor(port, 6, 1000000);
+
+    expect(result).toEqual({
+      id: 6,
+      baudRate: 1000000,
+      previousId: 1,
+      previousBaudRate: 115200,
+    });
+    expect(state[0]).toEqual({ id: 6, baudRate: 1000000, lock: 1 });
+  });
+
+  it("should refuse to set up several motors at once", async () => {
+    const { port } = createFakeBus([
+      { id: 1, baudRate: 1000000 },
+      { id: 2, baudRate: 1000000 },
+    ]);
+
+    await expect(setupMotor(port, 3)).rejects.toThrow("Connect only one motor");
+  });
+
+  it("should fail when no motor answers", async () => {
+    const { port } = createFakeBus([]);
+
+    await expect(setupMotor(port, 3)).rejects.toThrow("No motor found");
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  bodyToWheelSpeeds,
+  wheelSpeedsToBody,
+} from "../../src/utils/omniwheel-kinematics.js";
+import { LEKIWI_BASE_CONFIG } from "../../src/robots/lekiwi_config.js";
+
+describe("omniwheel kinematics", () => {
+  it("should drive forward with the side wheels only", () => {
+    const [left, back, right] = bodyToWheelSpeeds(
+      { x: 0.1, y: 0, theta: 0 },
+      LEKIWI_BASE_CONFIG
+    );
+
+    expect(back).toBe(0);
+    expect(left).toBe(-right);
+    expect(Math.abs(left)).toBe(1129);
+  });
+
+  it("should turn every wheel the same way to rotate", () => {
+    const speeds = bodyToWheelSpeeds(
+      { x: 0, y: 0, theta: 90 },
+      LEKIWI_BASE_CONFIG
+    );
+
+    expect(new Set(speeds).size).toBe(1);
+    expect(speeds[0]).toBeGreaterThan(0);
+  });
+
+  it("should recover the body velocity from wheel speeds", () => {
+    const velocity = { x: 0.12, y: -0.05, theta: 20 };
+    const body = wheelSpeedsToBody(
+      bodyToWheelSpeeds(velocity, LEKIWI_BASE_CONFIG),
+      LEKIWI_BASE_CONFIG
+    );
+
+    expect(body.x).toBeCloseTo(velocity.x, 3);
+    expect(body.y).toBeCloseTo(velocity.y, 3);
+    expect(body.theta).toBeCloseTo(velocity.theta, 1);
+  });
+
+  it("should scale all wheels down together past maxWheelSpeed", () => {
+    const velocity = { x: 1, y: 0.5, theta: 0 };
+    const speeds = bodyToWheelSpeeds(velocity, LEKIWI_BASE_CONFIG);
+
+    expect(Math.max(...speeds.map(Math.abs))).toBe(3000);
+
+    // Direction is kept, only the magnitude shrinks
+    const body = wheelSpeedsToBody(speeds, LEKIWI_BASE_CONFIG);
+    expect(body.y / body.x).toBeCloseTo(0.5, 2);
+    expect(body.x).toBeLessThan(velocity.x);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  LocalStoragePoseStorage,
+  MemoryPoseStorage,
+  capturePose,
+  poseTargets,
+} from "../../src/utils/pose-library.js";
+import { DirectTeleoperator } from "../../src/teleoperators/direct-teleoperator.js";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import type { MotorConfig } from "../../src/types/teleoperation.js";
+
+function armMotorConfigs(): MotorConfig[] {
+  return ["shoulder_pan", "gripper"].map((name, i) => ({
+    id: i + 1,
+    name,
+    currentPosition: 2048,
+    minPosition: 1024,
+    maxPosition: 3072,
+  }));
+}
+
+describe("pose library", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("should store poses in normalized units", () => {
+    const motorConfigs = armMotorConfigs();
+    motorConfigs[0].currentPosition = 3072;
+    motorConfigs[1].currentPosition = 1024;
+
+    const pose = capturePose("home", motorConfigs);
+    expect(pose.positions).toEqual({ shoulder_pan: 100, gripper: 0 });
+
+    // A recalibrated arm reaches the same pose at other raw positions
+    const recalibrated = armMotorConfigs().map((config) => ({
+      ...config,
+      minPosition: 1000,
+      maxPosition: 3000,
+    }));
+    expect(poseTargets(pose, recalibrated)).toEqual({
+      shoulder_pan: 3000,
+      gripper: 1000,
+    });
+    expect(() => poseTargets(pose, [recalibrated[1]])).toThrow(
+      "unknown motor shoulder_pan"
+    );
+  });
+
+  it("should keep the poses of each robot apart in localStorage", async () => {
+    const arm = new LocalStoragePoseStorage("so100_follower", "left");
+    const other = new LocalStoragePoseStorage("so100_follower", "right");
+
+    await arm.save([capturePose("rest", armMotorConfigs())]);
+
+    expect((await arm.load()).map((pose) => pose.name)).toEqual(["rest"]);
+    expect(await other.load()).toEqual([]);
+    expect(localStorage.getItem("lerobot-poses/so100_follower/left")).not.toBe(
+      null
+    );
+  });
+
+  it("should save, list and go to poses with a direct teleoperator", async () => {
+    const sim = new SimulatedMotorBus({ motors: [1, 2], maxSpeed: 100000 });
+    [1, 2].forEach((id) => sim.setRegisterValue(id, "Torque_Enable", 1));
+    const teleoperator = new DirectTeleoperator(
+      { type: "direct", poseStorage: new MemoryPoseStorage() },
+      sim,
+      armMotorConfigs()
+    );
+    await teleoperator.initialize();
+
+    await teleoperator.savePose("rest");
+    await teleoperator.moveTo({ shoulder_pan: 2800 }, { duration: 20 });
+    await teleoperator.savePose("reach");
+    const reach = await teleoperator.savePose("reach");
+
+    // Saving under a taken name replaces the pose
+    const poses = await teleoperator.listPoses();
+    expect(poses.map((pose) => pose.name)).toEqual(["rest", "reach"]);
+    expect(poses[1].positions).toEqual(reach.positions);
+
+    await teleoperator.goToPose("rest", { duration: 20 });
+    expect(sim.getRegisterValue(1, "Present_Position")).toBe(2047);
+    await expect(teleoperator.goToPose("home")).rejects.toThrow(
+      "Unknown pose: home"
+    );
+
+    expect(await teleoperator.deletePose("reach")).toBe(true);
+    expect(await teleoperator.deletePose("reach")).toBe(false);
+  });
+});
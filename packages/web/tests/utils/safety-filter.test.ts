@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from "vitest";
+import { SafetyFilter } from "../../src/utils/safety-filter.js";
+import { BusScheduler } from "../../src/utils/bus-scheduler.js";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import {
+  SO100_CONFIG,
+  SO100_KINEMATICS,
+} from "../../src/robots/so100_config.js";
+import type { SafetyIntervention } from "../../src/types/safety.js";
+import type { MotorConfig } from "../../src/types/teleoperation.js";
+
+// One cycle of the default update rate in milliseconds
+const CYCLE = 1000 / 60;
+
+function so100MotorConfigs(): MotorConfig[] {
+  return SO100_CONFIG.motorNames.map((name, i) => ({
+    id: SO100_CONFIG.motorIds[i],
+    name,
+    currentPosition: 2048,
+    minPosition: 1024,
+    maxPosition: 3072,
+  }));
+}
+
+describe("SafetyFilter", () => {
+  it("should pass goals unchanged without limits", () => {
+    const filter = new SafetyFilter({}, so100MotorConfigs());
+
+    expect(filter.filter([1, 2], [3000, 1100], 0)).toEqual([3000, 1100]);
+    expect(filter.pendingGoals.size).toBe(0);
+  });
+
+  it("should clamp goals to the calibrated range", () => {
+    const interventions: SafetyIntervention[] = [];
+    const filter = new SafetyFilter(
+      { onIntervention: (intervention) => interventions.push(intervention) },
+      so100MotorConfigs()
+    );
+
+    expect(filter.filter([1], [4000], 0)).toEqual([3072]);
+    expect(interventions).toHaveLength(1);
+    expect(interventions[0].rules).toEqual(["position_limit"]);
+    expect(interventions[0].requested).toEqual({ shoulder_pan: 4000 });
+    expect(interventions[0].commanded).toEqual({ shoulder_pan: 3072 });
+  });
+
+  it("should limit the goal change of a write", () => {
+    const filter = new SafetyFilter(
+      { maxRelativeTarget: { shoulder_pan: 50 } },
+      so100MotorConfigs()
+    );
+
+    expect(filter.filter([1, 2], [3000, 2500], 0)).toEqual([2098, 2500]);
+    expect(filter.filter([1], [3000], CYCLE)).toEqual([2148]);
+    expect(filter.pendingGoals).toEqual(new Map([[1, 3000]]));
+  });
+
+  it("should limit joint speed over the cycle time", () => {
+    const filter = new SafetyFilter({ maxVelocity: 600 }, so100MotorConfigs());
+
+    expect(filter.filter([1], [3000], 0)).toEqual([2058]);
+    expect(filter.filter([1], [3000], CYCLE)).toEqual([2068]);
+
+    // A long pause still counts as one cycle
+    expect(filter.filter([1], [3000], 5000)).toEqual([2078]);
+  });
+
+  it("should ramp up and brake to stop at the goal", () => {
+    const interventions: SafetyIntervention[] = [];
+    const filter = new SafetyFilter(
+      {
+        maxAcceleration: 6000,
+        onIntervention: (intervention) => interventions.push(intervention),
+      },
+      so100MotorConfigs()
+    );
+
+    const positions: number[] = [];
+    for (let cycle = 0; cycle < 120; cycle++) {
+      positions.push(filter.filter([1], [2300], cycle * CYCLE)[0]);
+    }
+
+    expect(positions.slice(0, 2)).toEqual([2050, 2053]);
+    expect(interventions[0].rules).toEqual(["max_acceleration"]);
+    positions.forEach((position, i) => {
+      expect(position).toBeLessThanOrEqual(2300);
+      if (i > 0) expect(position).toBeGreaterThanOrEqual(positions[i - 1]);
+    });
+    expect(positions[positions.length - 1]).toBe(2300);
+    expect(filter.pendingGoals.size).toBe(0);
+  });
+
+  it("should hold the arm at the edge of the workspace", () => {
+    const interventions: SafetyIntervention[] = [];
+    const filter = new SafetyFilter(
+      {
+        workspace: [{ min: [0, -0.3, 0], max: [0.4, 0.3, 0.25] }],
+        onIntervention: (intervention) => interventions.push(intervention),
+      },
+      so100MotorConfigs(),
+      SO100_KINEMATICS
+    );
+
+    // Lifting the shoulder raises the gripper above the box
+    expect(filter.filter([2], [1820], 0)).toEqual([2048]);
+    expect(interventions[0].rules).toEqual(["workspace"]);
+    expect(filter.pendingGoals.size).toBe(0);
+
+    // Lowering it stays inside
+    expect(filter.filter([2], [2276], CYCLE)).toEqual([2276]);
+    expect(interventions).toHaveLength(1);
+  });
+
+  it("should let an arm outside the workspace move back", () => {
+    const filter = new SafetyFilter(
+      { workspace: [{ min: [0, -0.3, 0], max: [0.4, 0.3, 0.15] }] },
+      so100MotorConfigs(),
+      SO100_KINEMATICS
+    );
+
+    expect(filter.filter([2], [2100], 0)).toEqual([2100]);
+    expect(filter.filter([2], [2000], CYCLE)).toEqual([2100]);
+  });
+
+  it("should need a kinematic chain for workspace limits", () => {
+    expect(
+      () =>
+        new SafetyFilter(
+          { workspace: [{ min: [0, 0, 0], max: [1, 1, 1] }] },
+          so100MotorConfigs()
+        )
+    ).toThrow("Workspace limits need a robot with a kinematic chain");
+  });
+
+  it("should reject motors without a motor config", () => {
+    const filter = new SafetyFilter({ maxVelocity: 600 }, so100MotorConfigs());
+
+    expect(() => filter.filter([1, 9], [2048, 2048], 0)).toThrow(
+      "Motor 9 has no safety limits"
+    );
+    expect(
+      () =>
+        new SafetyFilter(
+          { workspace: [{ min: [0, 0, 0], max: [1, 1, 1] }] },
+          so100MotorConfigs().filter((m) => m.name !== "elbow_flex"),
+          SO100_KINEMATICS
+        )
+    ).toThrow("Motor elbow_flex of the kinematic chain has no motor config");
+  });
+
+  it("should start from the motor configs again after a reset", () => {
+    const motorConfigs = so100MotorConfigs();
+    const filter = new SafetyFilter({ maxRelativeTarget: 50 }, motorConfigs);
+
+    filter.filter([1], [3000], 0);
+    motorConfigs[0].currentPosition = 1500;
+    filter.reset();
+
+    expect(filter.filter([1], [1000], CYCLE)).toEqual([1450]);
+  });
+
+  it("should keep writing held back goals through the bus scheduler", async () => {
+    const sim = new SimulatedMotorBus({ motors: [1], maxSpeed: 100000 });
+    const bus = new BusScheduler(sim);
+    bus.setSafetyFilter(
+      new SafetyFilter({ maxRelativeTarget: 400 }, so100MotorConfigs())
+    );
+
+    const written = await bus.writeGoalPositions([1], [3000]);
+    expect(written).toEqual(new Map([[1, 2448]]));
+    expect(sim.getRegisterValue(1, "Goal_Position")).toBe(2448);
+
+    await vi.waitFor(() => {
+      expect(sim.getRegisterValue(1, "Goal_Position")).toBe(3000);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { SerialReadBuffer } from "../../src/utils/serial-read-buffer.js";
+import { WebSerialPortWrapper } from "../../src/utils/serial-port-wrapper.js";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import { createInstructionPacket } from "../../src/utils/sts3215-packet.js";
+
+function statusPacket(id: number, params: number[], error = 0): number[] {
+  const body = [id, params.length + 2, error, ...params];
+  const checksum = ~body.reduce((sum, byte) => sum + byte, 0) & 0xff;
+  return [0xff, 0xff, ...body, checksum];
+}
+
+describe("SerialReadBuffer", () => {
+  it("should keep bytes pushed between reads", async () => {
+    const buffer = new SerialReadBuffer();
+    buffer.push([1, 2]);
+    buffer.push([3]);
+
+    expect(Array.from(await buffer.read(0))).toEqual([1, 2, 3]);
+    await expect(buffer.read(0)).rejects.toThrow("Read timeout");
+  });
+
+  it("should wait for exactly n bytes", async () => {
+    const buffer = new SerialReadBuffer();
+    buffer.push([1, 2]);
+    setTimeout(() => buffer.push([3, 4]), 5);
+
+    expect(Array.from(await buffer.readExact(3, 100))).toEqual([1, 2, 3]);
+    expect(buffer.available).toBe(1);
+    await expect(buffer.readExact(2, 10)).rejects.toThrow("Read timeout");
+    expect(buffer.available).toBe(1);
+  });
+
+  it("should overwrite the oldest bytes when full", async () => {
+    const buffer = new SerialReadBuffer(4);
+    buffer.push([1, 2, 3]);
+    buffer.push([4, 5, 6]);
+
+    expect(Array.from(await buffer.read(0))).toEqual([3, 4, 5, 6]);
+  });
+
+  it("should read one packet at a time across chunks", async () => {
+    const buffer = new SerialReadBuffer();
+    const first = statusPacket(1, [0x00, 0x08]);
+    const second = statusPacket(2, [0x10, 0x00]);
+
+    buffer.push([0x42, ...first.slice(0, 3)]);
+    setTimeout(() => buffer.push([...first.slice(3), ...second]), 5);
+
+    const packet = await buffer.readPacket(100);
+    expect(packet.id).toBe(1);
+    expect(Array.from(packet.parameters)).toEqual([0x00, 0x08]);
+    expect(buffer.available).toBe(second.length);
+    expect((await buffer.readPacket(0)).id).toBe(2);
+  });
+
+  it("should fail waiting reads when the read loop ends", async () => {
+    const buffer = new SerialReadBuffer();
+    const pending = buffer.read(1000);
+    buffer.fail(new Error("Read failed - port closed or no data"));
+
+    await expect(pending).rejects.toThrow("port closed");
+  });
+});
+
+describe("WebSerialPortWrapper", () => {
+  it("should read answers through one persistent reader", async () => {
+    const sim = new SimulatedMotorBus({ motors: [1, 2] });
+    const port = new WebSerialPortWrapper(sim);
+
+    for (const id of [1, 2, 1]) {
+      await port.write(createInstructionPacket(id, 0x01));
+      expect((await port.readPacket(100)).id).toBe(id);
+    }
+    expect(sim.readable.locked).toBe(true);
+  });
+
+  it("should share the reader between wrappers of the same port", async () => {
+    const sim = new SimulatedMotorBus({ motors: [1] });
+    const first = new WebSerialPortWrapper(sim);
+    const second = new WebSerialPortWrapper(sim);
+
+    await first.write(createInstructionPacket(1, 0x01));
+    expect((await second.readPacket(100)).id).toBe(1);
+  });
+
+  it("should release the stream to change the baud rate", async () => {
+    const sim = new SimulatedMotorBus({ motors: [1] });
+    const port = new WebSerialPortWrapper(sim);
+
+    await port.write(createInstructionPacket(1, 0x01));
+    await port.readPacket(100);
+
+    await port.setBaudRate(500000);
+    await port.write(createInstructionPacket(1, 0x01));
+    await expect(port.read(20)).rejects.toThrow("Read timeout");
+
+    await port.setBaudRate(1000000);
+    await port.write(createInstructionPacket(1, 0x01));
+    expect((await port.readPacket(100)).id).toBe(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { SimulatedDynamixelBus } from "../../src/utils/simulated-dynamixel-bus.js";
+import {
+  DYNAMIXEL_MOTOR_BUS,
+  readDynamixelRegister,
+  syncReadDynamixelRegister,
+  syncWriteDynamixelRegister,
+  writeDynamixelRegister,
+} from "../../src/utils/dynamixel-communication.js";
+import { scanMotors } from "../../src/utils/motor-scan.js";
+import { DynamixelStatusError } from "../../src/utils/motor-errors.js";
+import { BusScheduler } from "../../src/utils/bus-scheduler.js";
+import { calibrate } from "../../src/calibrate.js";
+import type { RobotConnection } from "../../src/types/robot-connection.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("SimulatedDynamixelBus", () => {
+  it("should answer scans and sync reads", async () => {
+    const bus = new SimulatedDynamixelBus({
+      motors: [{ id: 1, position: 1000 }, { id: 2, position: 3000 }, 3],
+    });
+
+    const motors = await scanMotors(bus, {
+      ids: [1, 2, 3, 4],
+      motorBus: DYNAMIXEL_MOTOR_BUS,
+    });
+    expect(motors.map((motor) => motor.id)).toEqual([1, 2, 3]);
+    expect(motors[0].modelNumber).toBe(1200);
+
+    expect(
+      await syncReadDynamixelRegister(bus, [2, 1], "Present_Position")
+    ).toEqual([3000, 1000]);
+  });
+
+  it("should follow sync written goals through the scheduler", async () => {
+    const bus = new SimulatedDynamixelBus({ motors: [1, 2], maxSpeed: 100000 });
+    const scheduler = new BusScheduler(bus, DYNAMIXEL_MOTOR_BUS);
+
+    await syncWriteDynamixelRegister(bus, [1, 2], "Torque_Enable", [1, 1]);
+    await scheduler.writeGoalPositions([1, 2], [1000, 3000]);
+    await sleep(20);
+
+    expect(await readDynamixelRegister(bus, 1, "Present_Position")).toBe(1000);
+    expect(await readDynamixelRegister(bus, 2, "Present_Position")).toBe(3000);
+
+    await scheduler.releaseMotors([1, 2]);
+    expect(bus.getRegisterValue(2, "Torque_Enable")).toBe(0);
+  });
+
+  it("should add the homing offset to the present position", async () => {
+    const bus = new SimulatedDynamixelBus({
+      motors: [{ id: 1, position: 2500 }],
+    });
+
+    await writeDynamixelRegister(
+      bus,
+      1,
+      "Homing_Offset",
+      DYNAMIXEL_MOTOR_BUS.homingOffsetFor(2500)
+    );
+
+    expect(bus.getRegisterValue(1, "Homing_Offset")).toBe(-453);
+    expect(await readDynamixelRegister(bus, 1, "Present_Position")).toBe(2047);
+  });
+
+  it("should refuse EEPROM writes while torque is enabled", async () => {
+    const bus = new SimulatedDynamixelBus({ motors: [1] });
+    await writeDynamixelRegister(bus, 1, "Torque_Enable", 1);
+
+    const error = await writeDynamixelRegister(
+      bus,
+      1,
+      "Operating_Mode",
+      4
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DynamixelStatusError);
+    expect(error.message).toBe("Motor 1 reported access error");
+    expect(bus.getRegisterValue(1, "Operating_Mode")).toBe(3);
+  });
+
+  it("should calibrate a Koch arm end to end", async () => {
+    const bus = new SimulatedDynamixelBus({
+      motors: [1, { id: 2, position: 2500 }, 3, 4, 5, 6],
+    });
+    await syncWriteDynamixelRegister(
+      bus,
+      [1, 2, 3, 4, 5, 6],
+      "Torque_Enable",
+      [1, 1, 1, 1, 1, 1]
+    );
+    const robot: RobotConnection = {
+      port: bus,
+      name: "Simulated Koch",
+      isConnected: true,
+      robotType: "koch_follower",
+      serialNumber: "simulated",
+    };
+
+    let recording: () => void;
+    const recordingStarted = new Promise<void>((resolve) => {
+      recording = resolve;
+    });
+
+    const calibration = await calibrate({
+      robot,
+      onLiveUpdate: () => recording(),
+    });
+    await recordingStarted;
+
+    // Move the shoulder by hand through its range
+    bus.setPresentPosition(2, 1500);
+    await sleep(120);
+    bus.setPresentPosition(2, 2600);
+    await sleep(120);
+    calibration.stop();
+
+    const results = await calibration.result;
+    expect(results.shoulder_lift).toMatchObject({
+      id: 2,
+      drive_mode: 0,
+      homing_offset: -453,
+      range_min: 1500,
+      range_max: 2600,
+    });
+    expect(results.shoulder_pan).toMatchObject({
+      range_min: 0,
+      range_max: 4095,
+    });
+    expect(bus.getRegisterValue(2, "Operating_Mode")).toBe(4);
+    expect(bus.getRegisterValue(2, "Min_Position_Limit")).toBe(1500);
+  });
+});
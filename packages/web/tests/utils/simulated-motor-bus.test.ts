@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import { WebSerialPortWrapper } from "../../src/utils/serial-port-wrapper.js";
+import {
+  readRegister,
+  syncReadPositions,
+  syncWritePositions,
+  writeRegister,
+} from "../../src/utils/motor-communication.js";
+import { scanMotors } from "../../src/utils/motor-scan.js";
+import { setupMotor } from "../../src/utils/motor-setup.js";
+import { MotorTimeoutError } from "../../src/utils/motor-errors.js";
+import { calibrate } from "../../src/calibrate.js";
+import type { RobotConnection } from "../../src/types/robot-connection.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("SimulatedMotorBus", () => {
+  it("should answer scans and sync reads", async () => {
+    const bus = new SimulatedMotorBus({
+      motors: [{ id: 1, position: 1000 }, { id: 2, position: 3000 }, 3],
+    });
+
+    const motors = await scanMotors(bus, { ids: [1, 2, 3, 4] });
+    expect(motors.map((motor) => motor.id)).toEqual([1, 2, 3]);
+    expect(motors[0].modelNumber).toBe(777);
+
+    expect(await syncReadPositions(bus, [2, 1])).toEqual([3000, 1000]);
+  });
+
+  it("should move torque-enabled motors toward the goal", async () => {
+    const bus = new SimulatedMotorBus({
+      motors: [{ id: 1, position: 1000 }],
+      maxSpeed: 10000,
+    });
+
+    await writeRegister(bus, 1, "Torque_Enable", 1);
+    await syncWritePositions(bus, [1], [1500]);
+
+    await sleep(20);
+    expect(await readRegister(bus, 1, "Moving")).toBe(1);
+    const moving = await readRegister(bus, 1, "Present_Position");
+    expect(moving).toBeGreaterThan(1000);
+    expect(moving).toBeLessThanOrEqual(1500);
+
+    await sleep(60);
+    expect(await readRegister(bus, 1, "Present_Position")).toBe(1500);
+    expect(await readRegister(bus, 1, "Moving")).toBe(0);
+  });
+
+  it("should report positions relative to the homing offset", async () => {
+    const bus = new SimulatedMotorBus({ motors: [{ id: 1, position: 2500 }] });
+
+    await writeRegister(bus, 1, "Homing_Offset", 453);
+
+    expect(await readRegister(bus, 1, "Present_Position")).toBe(2047);
+  });
+
+  it("should work behind WebSerialPortWrapper with latency", async () => {
+    const bus = new SimulatedMotorBus({
+      motors: [{ id: 1, position: 1234 }],
+      latency: 5,
+    });
+    const port = new WebSerialPortWrapper(bus);
+    await port.initialize();
+
+    expect(await readRegister(port, 1, "Present_Position")).toBe(1234);
+  });
+
+  it("should time out when every packet is dropped", async () => {
+    const bus = new SimulatedMotorBus({ motors: [1], dropRate: 1 });
+
+    await expect(syncReadPositions(bus, [1])).rejects.toBeInstanceOf(
+      MotorTimeoutError
+    );
+  });
+
+  it("should set up a motor found at another baud rate", async () => {
+    const bus = new SimulatedMotorBus({
+      motors: [{ id: 1, baudRate: 115200 }],
+    });
+
+    const result = await setupMotor(bus, 4);
+
+    expect(result.previousBaudRate).toBe(115200);
+    expect(bus.getRegisterValue(4, "Baud_Rate")).toBe(0);
+    expect(bus.getRegisterValue(4, "Lock")).toBe(1);
+  });
+
+  it("should run calibration end to end", async () => {
+    const bus = new SimulatedMotorBus();
+    const robot: RobotConnection = {
+      port: bus,
+      name: "Simulated SO-100",
+      isConnected: true,
+      robotType: "so100_follower",
+      serialNumber: "simulated",
+    };
+
+    let recording: () => void;
+    const recordingStarted = new Promise<void>((resolve) => {
+      recording = resolve;
+    });
+
+    const calibration = await calibrate({
+      robot,
+      onLiveUpdate: () => recording(),
+    });
+    await recordingStarted;
+
+    // Move the shoulder by hand through its range
+    bus.setPresentPosition(2, 1500);
+    await sleep(120);
+    bus.setPresentPosition(2, 2600);
+    await sleep(120);
+    calibration.stop();
+
+    const results = await calibration.result;
+    expect(results.shoulder_lift).toMatchObject({
+      id: 2,
+      homing_offset: 0,
+      range_min: 1500,
+      range_max: 2600,
+    });
+    expect(bus.getRegisterValue(2, "Min_Position_Limit")).toBe(1500);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  STS3215_CONTROL_TABLE,
+  encodeRegisterValue,
+  decodeRegisterValue,
+} from "../../src/utils/sts3215-control-table.js";
+import {
+  readRegister,
+  writeRegister,
+  type MotorCommunicationPort,
+} from "../../src/utils/motor-communication.js";
+
+function statusPacket(id: number, params: number[]): number[] {
+  const body = [id, params.length + 2, 0, ...params];
+  const checksum = ~body.reduce((sum, byte) => sum + byte, 0) & 0xff;
+  return [0xff, 0xff, ...body, checksum];
+}
+
+/**
+ * Fake port backed by a flat register memory for a single motor
+ */
+function createFakeMotor(id: number, memory: number[]) {
+  let pending: number[] = [];
+
+  const port: MotorCommunicationPort = {
+    async write(data: Uint8Array) {
+      if (data[2] !== id) return;
+      const instruction = data[4];
+      const address = data[5];
+
+      if (instruction === 0x02) {
+        pending.push(
+          ...statusPacket(id, memory.slice(address, address + data[6]))
+        );
+      } else if (instruction === 0x03) {
+        const values = Array.from(data.slice(6, data.length - 1));
+        memory.splice(address, values.length, ...values);
+        pending.push(...statusPacket(id, []));
+      }
+    },
+    async read() {
+      const bytes = new Uint8Array(pending);
+      pending = [];
+      return bytes;
+    },
+  };
+
+  return port;
+}
+
+describe("STS3215 control table", () => {
+  it("should describe register layout", () => {
+    expect(STS3215_CONTROL_TABLE.Present_Temperature).toEqual({
+      address: 63,
+      size: 1,
+      access: "R",
+      memory: "RAM",
+    });
+    expect(STS3215_CONTROL_TABLE.ID.memory).toBe("EEPROM");
+  });
+
+  it("should encode and decode sign-magnitude registers", () => {
+    expect(encodeRegisterValue("Homing_Offset", -100)).toEqual([
+      100,
+      0x08,
+    ]);
+    expect(decodeRegisterValue("Homing_Offset", [100, 0x08])).toBe(-100);
+    expect(decodeRegisterValue("Present_Speed", [10, 0x80])).toBe(-10);
+  });
+
+  it("should reject values that do not fit", () => {
+    expect(() => encodeRegisterValue("Acceleration", 300)).toThrow();
+  });
+
+  it("should read and write registers through the port", async () => {
+    const memory = new Array(70).fill(0);
+    memory[63] = 42;
+    const port = createFakeMotor(1, memory);
+
+    expect(await readRegister(port, 1, "Present_Temperature")).toBe(42);
+
+    await writeRegister(port, 1, "Homing_Offset", -5);
+    expect(memory.slice(31, 33)).toEqual([5, 0x08]);
+    expect(await readRegister(port, 1, "Homing_Offset")).toBe(-5);
+  });
+
+  it("should refuse to write read-only registers", async () => {
+    const port = createFakeMotor(1, new Array(70).fill(0));
+
+    await expect(
+      writeRegister(port, 1, "Present_Position" as any, 0)
+    ).rejects.toThrow("read-only");
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  StatusPacketParser,
+  createInstructionPacket,
+  decodeErrorFlags,
+} from "../../src/utils/sts3215-packet.js";
+import { MotorStatusError } from "../../src/utils/motor-errors.js";
+
+function statusPacket(id: number, error: number, params: number[]): number[] {
+  const body = [id, params.length + 2, error, ...params];
+  const checksum = ~body.reduce((sum, byte) => sum + byte, 0) & 0xff;
+  return [0xff, 0xff, ...body, checksum];
+}
+
+describe("STS3215 packets", () => {
+  it("should build instruction packets with checksum", () => {
+    // PING motor 1
+    expect(Array.from(createInstructionPacket(1, 0x01))).toEqual([
+      0xff, 0xff, 0x01, 0x02, 0x01, 0xfb,
+    ]);
+  });
+
+  it("should parse a packet split across reads", () => {
+    const parser = new StatusPacketParser();
+    const bytes = statusPacket(3, 0, [0x00, 0x08]);
+
+    expect(parser.push(bytes.slice(0, 4))).toEqual([]);
+    const packets = parser.push(bytes.slice(4));
+
+    expect(packets).toHaveLength(1);
+    expect(packets[0].id).toBe(3);
+    expect(Array.from(packets[0].parameters)).toEqual([0x00, 0x08]);
+    expect(parser.pendingBytes).toBe(0);
+  });
+
+  it("should split concatenated packets", () => {
+    const parser = new StatusPacketParser();
+    const packets = parser.push([
+      ...statusPacket(1, 0, [1, 0]),
+      ...statusPacket(2, 0, [2, 0]),
+    ]);
+
+    expect(packets.map((packet) => packet.id)).toEqual([1, 2]);
+  });
+
+  it("should resync after garbage and bad checksums", () => {
+    const parser = new StatusPacketParser();
+    const corrupted = statusPacket(1, 0, [1, 0]);
+    corrupted[corrupted.length - 1] ^= 0xff;
+
+    const packets = parser.push([
+      0x12,
+      0xff,
+      ...corrupted,
+      ...statusPacket(2, 0, [2, 0]),
+    ]);
+
+    expect(packets.map((packet) => packet.id)).toEqual([2]);
+  });
+
+  it("should decode error flags", () => {
+    expect(decodeErrorFlags(0)).toEqual([]);
+    expect(decodeErrorFlags(0x24)).toEqual(["overheat", "overload"]);
+
+    const error = new MotorStatusError(4, 0x01);
+    expect(error.flags).toEqual(["voltage"]);
+    expect(error.message).toBe("Motor 4 reported input voltage error");
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { WebSocketPortWrapper } from "../../src/utils/websocket-port-wrapper.js";
+import { WebSerialPortWrapper } from "../../src/utils/serial-port-wrapper.js";
+import { SimulatedMotorBus } from "../../src/utils/simulated-motor-bus.js";
+import {
+  syncReadPositions,
+  syncWriteRegister,
+} from "../../src/utils/motor-communication.js";
+import { releaseMotors } from "../../src/release_motors.js";
+import type { RobotConnection } from "../../src/types/robot-connection.js";
+
+/**
+ * In-process stand-in for `lerobot serve-bus` in front of a simulated bus
+ */
+class FakeBridgeSocket {
+  readyState = 0;
+  binaryType = "blob";
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: ((event: { reason: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  private bus: SimulatedMotorBus;
+
+  constructor(bus: SimulatedMotorBus) {
+    this.bus = bus;
+    setTimeout(() => {
+      this.readyState = 1;
+      this.onopen?.();
+      this.forwardReads();
+    });
+  }
+
+  send(data: Uint8Array | string): void {
+    if (typeof data !== "string") {
+      this.bus.write(data);
+      return;
+    }
+
+    const message = JSON.parse(data);
+    const reply =
+      message.baudRate === 12345
+        ? { type: "error", message: "Unsupported baud rate" }
+        : { type: "baudRate", baudRate: message.baudRate };
+    if (reply.type === "baudRate") this.bus.setBaudRate(message.baudRate);
+    setTimeout(() => this.onmessage?.({ data: JSON.stringify(reply) }));
+  }
+
+  close(): void {
+    this.readyState = 3;
+    setTimeout(() => this.onclose?.({ reason: "" }));
+  }
+
+  private async forwardReads(): Promise<void> {
+    while (this.readyState === 1) {
+      try {
+        const data = await this.bus.read(20);
+        this.onmessage?.({ data: data.slice().buffer });
+      } catch (error) {
+        // Idle bus
+      }
+    }
+  }
+}
+
+function createBridge(bus: SimulatedMotorBus) {
+  const sockets: FakeBridgeSocket[] = [];
+  const port = new WebSocketPortWrapper("ws://robot.local:8765", {
+    createWebSocket: () => {
+      const socket = new FakeBridgeSocket(bus);
+      sockets.push(socket);
+      return socket as unknown as WebSocket;
+    },
+  });
+  return { port, sockets };
+}
+
+describe("WebSocketPortWrapper", () => {
+  it("should run bus transactions on the remote bus", async () => {
+    const bus = new SimulatedMotorBus({
+      motors: [
+        { id: 1, position: 1000 },
+        { id: 2, position: 3000 },
+      ],
+    });
+    const { port } = createBridge(bus);
+    await port.open();
+
+    expect(await syncReadPositions(port, [2, 1])).toEqual([3000, 1000]);
+    await port.close();
+    expect(port.isOpen).toBe(false);
+  });
+
+  it("should work as a robot port", async () => {
+    const bus = new SimulatedMotorBus();
+    const motorIds = [1, 2, 3, 4, 5, 6];
+    await syncWriteRegister(bus, motorIds, "Torque_Enable", [1, 1, 1, 1, 1, 1]);
+
+    const { port } = createBridge(bus);
+    await port.open();
+    const robot: RobotConnection = {
+      port,
+      name: "Remote SO-100",
+      isConnected: true,
+      robotType: "so100_follower",
+      serialNumber: port.url,
+    };
+
+    await releaseMotors(robot);
+
+    for (const id of motorIds) {
+      expect(bus.getRegisterValue(id, "Torque_Enable")).toBe(0);
+    }
+  });
+
+  it("should reconnect at the new rate when the baud rate changes", async () => {
+    const bus = new SimulatedMotorBus({ motors: [1] });
+    const { port, sockets } = createBridge(bus);
+    await port.open();
+
+    await new WebSerialPortWrapper(port).setBaudRate(500000);
+
+    expect(sockets).toHaveLength(2);
+    expect(port.isOpen).toBe(true);
+    await expect(syncReadPositions(port, [1])).rejects.toThrow();
+  });
+
+  it("should report baud rates the bridge rejects", async () => {
+    const { port } = createBridge(new SimulatedMotorBus());
+    await port.open();
+
+    await expect(port.setBaudRate(12345)).rejects.toThrow(
+      "Unsupported baud rate"
+    );
+  });
+});